@@ -3,19 +3,40 @@
  * iOS-focused workout tracking and BLE device management
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { StyleSheet } from 'react-native';
 import { RootNavigator } from '@navigation/RootNavigator';
 import { ThemeProvider } from '@theme/ThemeContext';
+import { WorkoutSessionHost } from '@components/WorkoutSessionHost';
+import { getExerciseRepository } from '@data/repository/ExerciseRepository';
+import { getBackupRepository } from '@data/repository/BackupRepository';
 
 function App(): React.JSX.Element {
+  // Install or update the bundled exercise library
+  useEffect(() => {
+    getExerciseRepository()
+      .importExercises()
+      .catch((error) => console.error('Failed to import exercise library:', error));
+  }, []);
+
+  // Development builds check that backups of every older database version still restore
+  useEffect(() => {
+    if (__DEV__) {
+      getBackupRepository()
+        .checkOlderBackupRestores()
+        .catch((error) => console.error('Backup restore check failed:', error));
+    }
+  }, []);
+
   return (
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaProvider>
         <ThemeProvider>
+          {/* Tracks the sets of every trainer, whichever screen is open */}
+          <WorkoutSessionHost />
           <NavigationContainer>
             <RootNavigator />
           </NavigationContainer>
@@ -0,0 +1,120 @@
+/**
+ * Backup Archive - Portable backup of the training history
+ *
+ * An archive holds the rows of every table with the user's data (sessions, metrics, reps,
+ * routines, programs, personal records), the favorite exercises and the preferences. It is
+ * tagged with the database version it was taken at, so restores can upgrade older archives
+ * through the regular database migrations.
+ */
+
+import { TableDump } from '../local/database';
+import { UserPreferences } from '../../domain/models/UserPreferences';
+
+/**
+ * Backup file format identifier and version
+ */
+export const BACKUP_FORMAT = 'vitruvian-phoenix-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * A backup archive
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  databaseVersion: number; // Schema version of the tables
+  tables: TableDump[];
+  favoriteExerciseIds: string[];
+  preferences: UserPreferences;
+}
+
+/**
+ * What an archive contains, shown before restoring it
+ */
+export interface BackupSummary {
+  createdAt: number;
+  databaseVersion: number;
+  rowCounts: Record<string, number>; // Rows per table
+  favoriteCount: number;
+}
+
+/**
+ * Serialize an archive to JSON
+ */
+export function serializeBackupArchive(archive: BackupArchive): string {
+  return JSON.stringify(archive);
+}
+
+/**
+ * Summarize an archive
+ */
+export function summarizeBackupArchive(archive: BackupArchive): BackupSummary {
+  const rowCounts: Record<string, number> = {};
+  archive.tables.forEach((table) => {
+    rowCounts[table.name] = table.rows.length;
+  });
+  return {
+    createdAt: archive.createdAt,
+    databaseVersion: archive.databaseVersion,
+    rowCounts,
+    favoriteCount: archive.favoriteExerciseIds.length,
+  };
+}
+
+/**
+ * Parse and validate a backup archive
+ */
+export function parseBackupArchive(text: string): BackupArchive {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    throw new Error('Not a Vitruvian Phoenix backup');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Vitruvian Phoenix backup');
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${parsed.version}`);
+  }
+
+  if (typeof parsed.databaseVersion !== 'number' || parsed.databaseVersion < 1) {
+    throw new Error('Backup has no database version');
+  }
+
+  if (!Array.isArray(parsed.tables)) {
+    throw new Error('Backup has no tables');
+  }
+
+  const tables: TableDump[] = parsed.tables.map((table: any, index: number) => {
+    if (
+      !table ||
+      typeof table.name !== 'string' ||
+      !/^[a-z_]+$/.test(table.name) ||
+      typeof table.sql !== 'string' ||
+      !/^CREATE TABLE/i.test(table.sql.trim()) ||
+      !Array.isArray(table.columns) ||
+      !table.columns.every((column: unknown) => typeof column === 'string' && /^\w+$/.test(column)) ||
+      !Array.isArray(table.rows) ||
+      !table.rows.every((row: unknown) => Array.isArray(row) && row.length === table.columns.length)
+    ) {
+      throw new Error(`Invalid backup table at index ${index}`);
+    }
+    return { name: table.name, sql: table.sql, columns: table.columns, rows: table.rows };
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : 0,
+    databaseVersion: parsed.databaseVersion,
+    tables,
+    favoriteExerciseIds: Array.isArray(parsed.favoriteExerciseIds)
+      ? parsed.favoriteExerciseIds.filter((id: unknown) => typeof id === 'string')
+      : [],
+    preferences: parsed.preferences && typeof parsed.preferences === 'object' ? parsed.preferences : {},
+  };
+}
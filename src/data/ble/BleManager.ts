@@ -30,13 +30,19 @@ import {
   HandleState,
   WorkoutMetric,
   RepNotification,
+  CharacteristicData,
+  DeviceEvent,
+  CommandResult,
   BleManagerCallbacks,
   BlePermissionsStatus,
   HANDLE_DETECTION,
   POLLING_INTERVALS,
   MTU_SIZE,
-  POSITION_SPIKE_THRESHOLD,
 } from './types';
+import { parseMonitorPacket, parseRepPacket, MonitorMetricProcessor } from './packetParser';
+import { BleSessionRecorder, BleSession } from './BleSessionRecorder';
+import { CharacteristicDecoder } from './characteristicDecoder';
+import { CommandQueue, CommandOptions } from './CommandQueue';
 import { WorkoutParameters } from '../../domain/models/Models';
 
 /**
@@ -44,6 +50,7 @@ import { WorkoutParameters } from '../../domain/models/Models';
  */
 export class VitruvianBleManager extends EventEmitter {
   private bleManager: BleManagerPLX;
+  private ownsPlxManager: boolean;
   private device: Device | null = null;
   private isInitialized = false;
 
@@ -61,18 +68,26 @@ export class VitruvianBleManager extends EventEmitter {
   // Subscriptions
   private subscriptions: Subscription[] = [];
   private stateSubscription: Subscription | null = null;
+  private disconnectSubscription: Subscription | null = null;
 
   // Polling timers
   private monitorPollingTimer: NodeJS.Timeout | null = null;
   private propertyPollingTimer: NodeJS.Timeout | null = null;
 
-  // Last good positions for filtering spikes
-  private lastGoodPosA = 0;
-  private lastGoodPosB = 0;
+  // Spike filtering and velocity calculation for handle detection
+  private metricProcessor = new MonitorMetricProcessor();
 
-  // Velocity calculation for handle detection
-  private lastPositionA = 0;
-  private lastTimestamp = 0;
+  // Raw traffic capture for offline debugging
+  private recorder = new BleSessionRecorder();
+
+  // Property / auxiliary notify decoding
+  private characteristicDecoder = new CharacteristicDecoder();
+
+  // Last unmapped bytes logged per characteristic (polled payloads rarely change)
+  private lastUnmappedPayloads = new Map<string, string>();
+
+  // Serialized NUS RX writes
+  private commandQueue = new CommandQueue((data) => this.writeCommand(data));
 
   // State
   private connectionState: ConnectionState = { status: ConnectionStatus.Disconnected };
@@ -88,12 +103,20 @@ export class VitruvianBleManager extends EventEmitter {
   // Logging
   private enableDebugLogs = true;
 
-  constructor(callbacks?: BleManagerCallbacks) {
+  /**
+   * @param plxManager Native manager to share with another VitruvianBleManager
+   * (react-native-ble-plx supports a single native instance, so extra trainers reuse it)
+   */
+  constructor(callbacks?: BleManagerCallbacks, plxManager?: BleManagerPLX) {
     super();
-    this.bleManager = new BleManagerPLX();
+    this.bleManager = plxManager ?? new BleManagerPLX();
+    this.ownsPlxManager = !plxManager;
     if (callbacks) {
       this.callbacks = callbacks;
     }
+    this.commandQueue.on('commandResult', (result: CommandResult) => {
+      this.emitCommandResult(result);
+    });
   }
 
   /**
@@ -213,9 +236,10 @@ export class VitruvianBleManager extends EventEmitter {
   /**
    * Scan for Vitruvian devices
    * Returns a promise that resolves with the first found device
+   * (or the device with the given address, when one is specified)
    */
-  async scanForDevices(timeoutMs: number = BLE_CONSTANTS.SCAN_TIMEOUT_MS): Promise<Device> {
-    this.log('Starting device scan...');
+  async scanForDevices(timeoutMs: number = BLE_CONSTANTS.SCAN_TIMEOUT_MS, deviceAddress?: string): Promise<Device> {
+    this.log(deviceAddress ? `Starting device scan for ${deviceAddress}...` : 'Starting device scan...');
     this.updateConnectionState({ status: ConnectionStatus.Scanning });
 
     return new Promise((resolve, reject) => {
@@ -233,7 +257,12 @@ export class VitruvianBleManager extends EventEmitter {
           return;
         }
 
-        if (device && device.name && device.name.startsWith(BLE_CONSTANTS.DEVICE_NAME_PREFIX)) {
+        if (
+          device &&
+          device.name &&
+          device.name.startsWith(BLE_CONSTANTS.DEVICE_NAME_PREFIX) &&
+          (!deviceAddress || device.id === deviceAddress)
+        ) {
           this.log(`Found Vitruvian device: ${device.name} (${device.id})`);
           clearTimeout(timeout);
           this.bleManager.stopDeviceScan();
@@ -261,6 +290,7 @@ export class VitruvianBleManager extends EventEmitter {
 
       this.currentDeviceName = this.device.name;
       this.currentDeviceAddress = this.device.id;
+      this.watchForDisconnect();
 
       this.log('Connected! Discovering services...');
 
@@ -313,6 +343,7 @@ export class VitruvianBleManager extends EventEmitter {
 
       this.currentDeviceName = device.name;
       this.currentDeviceAddress = device.id;
+      this.watchForDisconnect();
 
       this.log('Connected! Discovering services...');
 
@@ -354,29 +385,18 @@ export class VitruvianBleManager extends EventEmitter {
     try {
       this.log('Disconnecting from device...');
 
+      // Intentional disconnect - do not report it as a lost connection
+      this.stopWatchingForDisconnect();
+
       // Stop all polling
       this.stopPolling();
 
-      // Unsubscribe from all notifications
-      this.subscriptions.forEach((subscription) => subscription.remove());
-      this.subscriptions = [];
-
       // Disconnect device
       if (this.device) {
         await this.device.cancelConnection();
-        this.device = null;
       }
 
-      // Reset state
-      this.currentDeviceName = null;
-      this.currentDeviceAddress = null;
-      this.nusRxCharacteristic = null;
-      this.monitorCharacteristic = null;
-      this.propertyCharacteristic = null;
-      this.repNotifyCharacteristic = null;
-      this.workoutCmdCharacteristics = [];
-
-      this.updateConnectionState({ status: ConnectionStatus.Disconnected });
+      this.resetConnection();
       this.log('Disconnected');
     } catch (error) {
       this.logError('Failed to disconnect', error as Error);
@@ -384,6 +404,63 @@ export class VitruvianBleManager extends EventEmitter {
     }
   }
 
+  /**
+   * Report link drops that were not requested through disconnect()
+   */
+  private watchForDisconnect(): void {
+    this.stopWatchingForDisconnect();
+    if (!this.device) {
+      return;
+    }
+
+    this.disconnectSubscription = this.device.onDisconnected((error) => {
+      const deviceName = this.currentDeviceName;
+      const deviceAddress = this.currentDeviceAddress;
+      this.log(`Connection lost to ${deviceName} (${deviceAddress})${error ? `: ${error.message}` : ''}`);
+
+      this.stopWatchingForDisconnect();
+      this.stopPolling();
+      this.resetConnection();
+      this.emit('connectionLost', { deviceName, deviceAddress });
+    });
+  }
+
+  /**
+   * Stop listening for link drops
+   */
+  private stopWatchingForDisconnect(): void {
+    if (this.disconnectSubscription) {
+      this.disconnectSubscription.remove();
+      this.disconnectSubscription = null;
+    }
+  }
+
+  /**
+   * Clear subscriptions and characteristic references after the link is gone
+   */
+  private resetConnection(): void {
+    // Nothing queued can be delivered any more
+    this.commandQueue.clear('Device disconnected');
+
+    // Unsubscribe from all notifications
+    this.subscriptions.forEach((subscription) => subscription.remove());
+    this.subscriptions = [];
+
+    // Reset state
+    this.device = null;
+    this.currentDeviceName = null;
+    this.currentDeviceAddress = null;
+    this.nusRxCharacteristic = null;
+    this.monitorCharacteristic = null;
+    this.propertyCharacteristic = null;
+    this.repNotifyCharacteristic = null;
+    this.workoutCmdCharacteristics = [];
+    this.characteristicDecoder.reset();
+    this.lastUnmappedPayloads.clear();
+
+    this.updateConnectionState({ status: ConnectionStatus.Disconnected });
+  }
+
   /**
    * Setup characteristics after connection
    */
@@ -544,7 +621,10 @@ export class VitruvianBleManager extends EventEmitter {
               return;
             }
             if (char && char.value) {
-              this.log(`[notify ${characteristic.uuid}] ${char.value.length} bytes`);
+              const bytes = this.base64ToUint8Array(char.value);
+              const timestamp = Date.now();
+              this.recorder.record('in', 'notify', characteristic.uuid, bytes, timestamp);
+              this.processCharacteristicBytes(characteristic.uuid, bytes, timestamp);
             }
           });
           this.subscriptions.push(subscription);
@@ -608,8 +688,10 @@ export class VitruvianBleManager extends EventEmitter {
         if (this.propertyCharacteristic && this.device) {
           const characteristic = await this.propertyCharacteristic.read();
           if (characteristic.value) {
-            // Just log for debugging, we don't need to process this data
-            // this.log(`Property data: ${characteristic.value}`);
+            const bytes = this.base64ToUint8Array(characteristic.value);
+            const timestamp = Date.now();
+            this.recorder.record('in', 'read', BLE_CONSTANTS.PROPERTY_CHAR_UUID, bytes, timestamp);
+            this.processCharacteristicBytes(BLE_CONSTANTS.PROPERTY_CHAR_UUID, bytes, timestamp);
           }
         }
       } catch (error) {
@@ -727,10 +809,22 @@ export class VitruvianBleManager extends EventEmitter {
   }
 
   /**
-   * Send a command to the device
+   * Send a command to the device through the command queue
+   * Resolves once the write is acknowledged; throws if it failed, timed out or was cancelled
+   */
+  async sendCommand(data: Uint8Array, options: CommandOptions = {}): Promise<CommandResult> {
+    const result = await this.commandQueue.enqueue(data, options);
+    if (result.status !== 'success') {
+      throw new Error(`Command ${result.label} ${result.status}${result.error ? `: ${result.error}` : ''}`);
+    }
+    return result;
+  }
+
+  /**
+   * Write a single frame to the NUS RX characteristic (called by the command queue)
    * CRITICAL: Frames must be sent whole, not split!
    */
-  async sendCommand(data: Uint8Array): Promise<void> {
+  private async writeCommand(data: Uint8Array): Promise<void> {
     try {
       if (!this.nusRxCharacteristic) {
         throw new Error('NUS RX characteristic not available');
@@ -755,8 +849,13 @@ export class VitruvianBleManager extends EventEmitter {
       // Convert Uint8Array to base64 string for BLE PLX
       const base64Data = this.uint8ArrayToBase64(data);
 
-      // Write to characteristic (without response for faster transmission)
-      await this.nusRxCharacteristic.writeWithoutResponse(base64Data);
+      // Prefer acknowledged writes so the queue knows the frame arrived
+      if (this.nusRxCharacteristic.isWritableWithResponse) {
+        await this.nusRxCharacteristic.writeWithResponse(base64Data);
+      } else {
+        await this.nusRxCharacteristic.writeWithoutResponse(base64Data);
+      }
+      this.recorder.record('out', 'write', BLE_CONSTANTS.NUS_RX_CHAR_UUID, data, timestamp);
 
       const afterWrite = Date.now();
       this.log(`[${afterWrite}] Write completed (took ${afterWrite - timestamp}ms)`);
@@ -771,74 +870,36 @@ export class VitruvianBleManager extends EventEmitter {
    * Handle monitor data from characteristic
    */
   private handleMonitorData(characteristic: Characteristic): void {
-    try {
-      if (!characteristic.value) {
-        this.log('Monitor data is null!');
-        return;
-      }
+    if (!characteristic.value) {
+      this.log('Monitor data is null!');
+      return;
+    }
 
-      // Convert base64 to Uint8Array
-      const bytes = this.base64ToUint8Array(characteristic.value);
+    // Convert base64 to Uint8Array
+    const bytes = this.base64ToUint8Array(characteristic.value);
+    const timestamp = Date.now();
+    this.recorder.record('in', 'read', BLE_CONSTANTS.MONITOR_CHAR_UUID, bytes, timestamp);
+    this.processMonitorBytes(bytes, timestamp);
+  }
 
-      if (bytes.length < 16) {
+  /**
+   * Parse a raw monitor payload received at the given time
+   */
+  private processMonitorBytes(bytes: Uint8Array, timestamp: number): void {
+    try {
+      // Parse the monitor data packet (matching device.js parseMonitorData)
+      const packet = parseMonitorPacket(bytes);
+      if (!packet) {
         this.log(`Monitor data too short: ${bytes.length} bytes`);
         return;
       }
 
-      // Parse the monitor data packet (matching device.js parseMonitorData)
-      // Format: u16[0-1]=ticks, u16[2]=posA, u16[4]=loadA*100, u16[5]=posB, u16[7]=loadB*100
-      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-
-      const f0 = view.getUint16(0, true); // little-endian
-      const f1 = view.getUint16(2, true);
-      const f2 = view.getUint16(4, true);
-      const f4 = view.getUint16(8, true);
-      const f5 = view.getUint16(10, true);
-      const f7 = view.getUint16(14, true);
-
-      // Reconstruct 32-bit tick counter
-      const ticks = f0 + (f1 << 16);
-
-      // Position values (filter spikes > 50000)
-      let positionA = f2;
-      let positionB = f5;
-
-      if (positionA > POSITION_SPIKE_THRESHOLD) {
-        positionA = this.lastGoodPosA;
-      } else {
-        this.lastGoodPosA = positionA;
-      }
-
-      if (positionB > POSITION_SPIKE_THRESHOLD) {
-        positionB = this.lastGoodPosB;
-      } else {
-        this.lastGoodPosB = positionB;
-      }
-
-      // Load in kg (device sends kg * 100)
-      const loadA = f4 / 100.0;
-      const loadB = f7 / 100.0;
-
-      // Calculate velocity for handle detection
-      const currentTime = Date.now();
-      let velocityA = 0;
-
-      if (this.lastTimestamp > 0) {
-        const deltaTime = (currentTime - this.lastTimestamp) / 1000.0; // Convert to seconds
-        const deltaPos = positionA - this.lastPositionA;
-        if (deltaTime > 0) {
-          velocityA = Math.abs(deltaPos / deltaTime); // Absolute velocity
-        }
-      }
-
-      this.lastPositionA = positionA;
-      this.lastTimestamp = currentTime;
+      const metric = this.metricProcessor.process(packet, timestamp);
+      const { ticks, loadA, loadB, positionA, positionB, velocityA } = metric;
 
       // Enhanced logging for debugging (sample every 100 ticks to reduce spam)
       if (ticks < 1000 || ticks % 100 === 0) {
         this.log('=== MONITOR DATA DEBUG ===');
-        this.log(`Parsed f4 (loadA*100): ${f4}`);
-        this.log(`Parsed f7 (loadB*100): ${f7}`);
         this.log(`LoadA (kg): ${loadA.toFixed(2)}`);
         this.log(`LoadB (kg): ${loadB.toFixed(2)}`);
         this.log(`Total Load: ${(loadA + loadB).toFixed(2)} kg`);
@@ -848,17 +909,6 @@ export class VitruvianBleManager extends EventEmitter {
         this.log('==========================');
       }
 
-      const metric: WorkoutMetric = {
-        timestamp: currentTime,
-        loadA,
-        loadB,
-        positionA,
-        positionB,
-        ticks,
-        velocityA,
-        totalLoad: loadA + loadB,
-      };
-
       // Emit monitor data
       this.emitMonitorData(metric);
 
@@ -874,27 +924,33 @@ export class VitruvianBleManager extends EventEmitter {
 
   /**
    * Handle rep notification data
+   */
+  private handleRepNotification(characteristic: Characteristic): void {
+    if (!characteristic.value) {
+      return;
+    }
+
+    const bytes = this.base64ToUint8Array(characteristic.value);
+    const timestamp = Date.now();
+    this.recorder.record('in', 'notify', BLE_CONSTANTS.REP_NOTIFY_CHAR_UUID, bytes, timestamp);
+    this.processRepBytes(bytes, timestamp);
+  }
+
+  /**
+   * Parse a raw rep notification received at the given time
    * Based on reference web app: parses u16 array with top counter and complete counter
    * u16[0] = top counter (reached top of range)
    * u16[2] = complete counter (rep complete at bottom)
    */
-  private handleRepNotification(characteristic: Characteristic): void {
+  private processRepBytes(bytes: Uint8Array, timestamp: number): void {
     try {
-      if (!characteristic.value) {
-        return;
-      }
-
-      const bytes = this.base64ToUint8Array(characteristic.value);
-
-      if (bytes.length < 6) {
+      const packet = parseRepPacket(bytes);
+      if (!packet) {
         this.log(`Rep notification too short: ${bytes.length} bytes`);
         return;
       }
 
-      // Parse as u16 little-endian array
-      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-      const topCounter = view.getUint16(0, true);
-      const completeCounter = view.getUint16(4, true);
+      const { topCounter, completeCounter } = packet;
 
       this.log(`Rep notification: top=${topCounter}, complete=${completeCounter}, hex=${this.bufferToHex(bytes)}`);
 
@@ -902,7 +958,7 @@ export class VitruvianBleManager extends EventEmitter {
         topCounter,
         completeCounter,
         rawData: bytes,
-        timestamp: Date.now(),
+        timestamp,
       };
 
       this.emitRepNotification(repData);
@@ -911,6 +967,81 @@ export class VitruvianBleManager extends EventEmitter {
     }
   }
 
+  // ========== Capture & Replay ==========
+
+  /**
+   * Start capturing raw BLE traffic
+   * Inbound notifications/reads and outbound commands are recorded with timestamps
+   */
+  startCapture(metadata: Record<string, unknown> = {}): void {
+    this.recorder.start(
+      this.device ? { name: this.currentDeviceName, address: this.currentDeviceAddress } : null,
+      metadata
+    );
+    this.log('BLE capture started');
+  }
+
+  /**
+   * Stop capturing and return the recorded session
+   */
+  stopCapture(): BleSession | null {
+    const session = this.recorder.stop();
+    if (session) {
+      this.log(`BLE capture stopped (${session.events.length} events)`);
+    }
+    return session;
+  }
+
+  /**
+   * Whether raw traffic is being captured
+   */
+  isCapturing(): boolean {
+    return this.recorder.isRecording();
+  }
+
+  /**
+   * Attach context (e.g. workout parameters) to the capture in progress
+   */
+  annotateCapture(metadata: Record<string, unknown>): void {
+    this.recorder.annotate(metadata);
+  }
+
+  /**
+   * Feed a recorded inbound payload through the same parsers as live data
+   * Used by BleSessionReplayer; injected payloads are not re-captured
+   */
+  injectPacket(characteristicUuid: string, bytes: Uint8Array, timestamp: number = Date.now()): void {
+    const uuid = characteristicUuid.toLowerCase();
+    if (uuid === BLE_CONSTANTS.MONITOR_CHAR_UUID) {
+      this.processMonitorBytes(bytes, timestamp);
+    } else if (uuid === BLE_CONSTANTS.REP_NOTIFY_CHAR_UUID) {
+      this.processRepBytes(bytes, timestamp);
+    } else {
+      this.processCharacteristicBytes(uuid, bytes, timestamp);
+    }
+  }
+
+  /**
+   * Decode a property or auxiliary notify payload and emit the result
+   */
+  private processCharacteristicBytes(characteristicUuid: string, bytes: Uint8Array, timestamp: number): void {
+    const { data, events } = this.characteristicDecoder.decode(characteristicUuid, bytes, timestamp);
+
+    if (data.rawFields.length > 0) {
+      const raw = data.rawFields.map((f) => `@${f.offset}=${f.hex}`).join(' ');
+      if (this.lastUnmappedPayloads.get(data.characteristicUuid) !== raw) {
+        this.lastUnmappedPayloads.set(data.characteristicUuid, raw);
+        this.log(`[${data.name}] ${bytes.length} bytes, unmapped: ${raw}`);
+      }
+    }
+
+    this.emitCharacteristicData(data);
+    for (const event of events) {
+      this.log(`Device event: ${JSON.stringify(event)}`);
+      this.emitDeviceEvent(event);
+    }
+  }
+
   /**
    * Analyze handle state using simple position-based hysteresis
    * with velocity confirmation for Just Lift mode
@@ -996,6 +1127,39 @@ export class VitruvianBleManager extends EventEmitter {
     }
   }
 
+  /**
+   * Emit decoded characteristic data and notify callbacks
+   */
+  private emitCharacteristicData(data: CharacteristicData): void {
+    this.emit('characteristicData', data);
+    if (this.callbacks.onCharacteristicData) {
+      this.callbacks.onCharacteristicData(data);
+    }
+  }
+
+  /**
+   * Emit a command result and notify callbacks
+   */
+  private emitCommandResult(result: CommandResult): void {
+    if (result.status !== 'success') {
+      this.log(`Command ${result.label} ${result.status} after ${result.attempts} attempt(s): ${result.error ?? ''}`);
+    }
+    this.emit('commandResult', result);
+    if (this.callbacks.onCommandResult) {
+      this.callbacks.onCommandResult(result);
+    }
+  }
+
+  /**
+   * Emit a structured device event and notify callbacks
+   */
+  private emitDeviceEvent(event: DeviceEvent): void {
+    this.emit('deviceEvent', event);
+    if (this.callbacks.onDeviceEvent) {
+      this.callbacks.onDeviceEvent(event);
+    }
+  }
+
   /**
    * Cleanup resources
    */
@@ -1016,8 +1180,10 @@ export class VitruvianBleManager extends EventEmitter {
       this.stateSubscription = null;
     }
 
-    // Destroy BLE manager
-    await this.bleManager.destroy();
+    // Destroy BLE manager (unless it is shared with another instance)
+    if (this.ownsPlxManager) {
+      await this.bleManager.destroy();
+    }
     this.isInitialized = false;
 
     this.log('BLE Manager cleanup complete');
@@ -1116,6 +1282,10 @@ export class VitruvianBleManager extends EventEmitter {
   setCallbacks(callbacks: BleManagerCallbacks): void {
     this.callbacks = callbacks;
   }
+
+  getPlxManager(): BleManagerPLX {
+    return this.bleManager;
+  }
 }
 
 // Export singleton instance
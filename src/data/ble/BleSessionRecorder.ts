@@ -0,0 +1,202 @@
+/**
+ * BLE Session Recorder - Captures raw BLE traffic to a portable session file
+ *
+ * Every inbound payload (notifications and characteristic reads) and every outbound
+ * sendCommand frame is stored with its characteristic UUID and a timestamp relative to
+ * the start of the capture. Sessions serialize to plain JSON with hex payloads so they can
+ * be attached to bug reports and replayed with BleSessionReplayer.
+ */
+
+/**
+ * Session file format identifier and version
+ */
+export const BLE_SESSION_FORMAT = 'vitruvian-ble-session';
+export const BLE_SESSION_VERSION = 1;
+
+/**
+ * Direction of a recorded payload
+ */
+export type BleSessionDirection = 'in' | 'out';
+
+/**
+ * How a payload was transferred
+ */
+export type BleSessionTransfer = 'notify' | 'read' | 'write';
+
+const BLE_SESSION_TRANSFERS: readonly BleSessionTransfer[] = ['notify', 'read', 'write'];
+
+/**
+ * A single recorded payload
+ */
+export interface BleSessionEvent {
+  t: number; // Milliseconds since the capture started
+  dir: BleSessionDirection;
+  kind: BleSessionTransfer;
+  char: string; // Characteristic UUID
+  data: string; // Payload as lowercase hex (no separators)
+}
+
+/**
+ * A recorded session
+ */
+export interface BleSession {
+  format: typeof BLE_SESSION_FORMAT;
+  version: number;
+  recordedAt: number; // Epoch ms when the capture started
+  device: { name: string | null; address: string | null } | null;
+  metadata: Record<string, unknown>; // Free-form context (workout parameters, app version, notes)
+  events: BleSessionEvent[];
+}
+
+/**
+ * Records BLE traffic while capture is active
+ */
+export class BleSessionRecorder {
+  private session: BleSession | null = null;
+
+  /**
+   * Start a new capture (discards any capture in progress)
+   */
+  start(
+    device: { name: string | null; address: string | null } | null = null,
+    metadata: Record<string, unknown> = {},
+    timestamp: number = Date.now()
+  ): void {
+    this.session = {
+      format: BLE_SESSION_FORMAT,
+      version: BLE_SESSION_VERSION,
+      recordedAt: timestamp,
+      device,
+      metadata: { ...metadata },
+      events: [],
+    };
+  }
+
+  /**
+   * Stop capturing and return the recorded session
+   */
+  stop(): BleSession | null {
+    const session = this.session;
+    this.session = null;
+    return session;
+  }
+
+  /**
+   * Whether a capture is in progress
+   */
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Add or replace metadata on the capture in progress
+   */
+  annotate(metadata: Record<string, unknown>): void {
+    if (this.session) {
+      this.session.metadata = { ...this.session.metadata, ...metadata };
+    }
+  }
+
+  /**
+   * Record a payload (no-op when not capturing)
+   */
+  record(
+    dir: BleSessionDirection,
+    kind: BleSessionTransfer,
+    characteristicUuid: string,
+    bytes: Uint8Array,
+    timestamp: number = Date.now()
+  ): void {
+    if (!this.session) {
+      return;
+    }
+
+    this.session.events.push({
+      t: Math.max(timestamp - this.session.recordedAt, 0),
+      dir,
+      kind,
+      char: characteristicUuid.toLowerCase(),
+      data: toHex(bytes),
+    });
+  }
+}
+
+/**
+ * Serialize a session to the portable file format
+ */
+export function serializeBleSession(session: BleSession): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Parse and validate a session file
+ */
+export function parseBleSession(text: string): BleSession {
+  const parsed = JSON.parse(text);
+
+  if (!parsed || parsed.format !== BLE_SESSION_FORMAT) {
+    throw new Error('Not a Vitruvian BLE session file');
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > BLE_SESSION_VERSION) {
+    throw new Error(`Unsupported BLE session version: ${parsed.version}`);
+  }
+
+  if (!Array.isArray(parsed.events)) {
+    throw new Error('BLE session file has no events');
+  }
+
+  const events: BleSessionEvent[] = parsed.events.map((event: any, index: number) => {
+    if (
+      !event ||
+      typeof event !== 'object' ||
+      typeof event.t !== 'number' ||
+      (event.dir !== 'in' && event.dir !== 'out') ||
+      (event.kind !== undefined && !BLE_SESSION_TRANSFERS.includes(event.kind)) ||
+      typeof event.char !== 'string' ||
+      typeof event.data !== 'string' ||
+      !/^([0-9a-f]{2})*$/i.test(event.data)
+    ) {
+      throw new Error(`Invalid BLE session event at index ${index}`);
+    }
+    return {
+      t: event.t,
+      dir: event.dir,
+      kind: event.kind ?? (event.dir === 'out' ? 'write' : 'notify'),
+      char: event.char.toLowerCase(),
+      data: event.data.toLowerCase(),
+    };
+  });
+
+  return {
+    format: BLE_SESSION_FORMAT,
+    version: parsed.version,
+    recordedAt: typeof parsed.recordedAt === 'number' ? parsed.recordedAt : 0,
+    device: parsed.device ?? null,
+    metadata: parsed.metadata ?? {},
+    // Replay relies on chronological order
+    events: events.sort((a, b) => a.t - b.t),
+  };
+}
+
+/**
+ * Decode an event payload
+ */
+export function decodeBleSessionEvent(event: BleSessionEvent): Uint8Array {
+  const bytes = new Uint8Array(event.data.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(event.data.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as compact lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
@@ -0,0 +1,280 @@
+/**
+ * BLE Session Replayer - Feeds recorded sessions back through the live parsing pipeline
+ *
+ * Two drivers are provided:
+ * - BleSessionReplayer plays a session into a VitruvianBleManager (or any BleReplayTarget)
+ *   in real time, so useWorkoutSession reacts exactly as it did during the recording
+ * - replayBleSession runs the same parsers, RepCounterFromMachine and AutoStopDetector
+ *   headlessly and returns the rep counts, per-rep analytics and stop decision
+ *
+ * Injected packets carry their recorded timestamps, so velocity and auto-stop timing do not
+ * depend on playback speed.
+ */
+
+import { EventEmitter } from 'events';
+import { BLE_CONSTANTS, WorkoutMetric } from './types';
+import { parseMonitorPacket, parseRepPacket, MonitorMetricProcessor } from './packetParser';
+import { BleSession, BleSessionEvent, decodeBleSessionEvent } from './BleSessionRecorder';
+import { RepCount, RepEvent, SetStopReason, WorkoutParameters } from '../../domain/models/Models';
+import { RepCounterFromMachine } from '../../domain/usecases/RepCounterFromMachine';
+import { AutoStopDetector } from '../../domain/usecases/AutoStopDetector';
+import { RepAnalyzer, RepAnalytics } from '../../domain/usecases/RepAnalyzer';
+import { VelocityLossDetector } from '../../domain/usecases/VelocityLossDetector';
+import { isDurationSet } from '../../domain/usecases/DurationSetAnalyzer';
+import { runsWithoutRepLimit } from '../../domain/usecases/RoutineSetPlanner';
+
+/**
+ * Anything that accepts raw inbound payloads (VitruvianBleManager.injectPacket)
+ */
+export interface BleReplayTarget {
+  injectPacket(characteristicUuid: string, bytes: Uint8Array, timestamp: number): void;
+}
+
+/**
+ * Real-time playback options
+ */
+export interface BleReplayOptions {
+  speed?: number; // Playback speed multiplier (1 = recorded pace)
+  baseTime?: number; // Epoch ms mapped to t=0 (defaults to now)
+}
+
+/**
+ * Plays a recorded session into a replay target
+ * Emits 'command' (bytes, event) for recorded outbound frames and 'complete' when done
+ */
+export class BleSessionReplayer extends EventEmitter {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+  private playing = false;
+
+  constructor(private readonly session: BleSession) {
+    super();
+  }
+
+  /**
+   * Start real-time playback
+   */
+  play(target: BleReplayTarget, options: BleReplayOptions = {}): void {
+    this.stop();
+
+    const speed = options.speed && options.speed > 0 ? options.speed : 1;
+    const baseTime = options.baseTime ?? Date.now();
+    const wallStart = Date.now();
+
+    this.index = 0;
+    this.playing = true;
+
+    const step = () => {
+      const events = this.session.events;
+      const elapsed = (Date.now() - wallStart) * speed;
+
+      while (this.index < events.length && events[this.index].t <= elapsed) {
+        this.dispatch(target, events[this.index], baseTime);
+        this.index++;
+      }
+
+      if (this.index >= events.length) {
+        this.playing = false;
+        this.timer = null;
+        this.emit('complete');
+        return;
+      }
+
+      const delay = Math.max((events[this.index].t - elapsed) / speed, 0);
+      this.timer = setTimeout(step, delay);
+    };
+
+    step();
+  }
+
+  /**
+   * Feed every event immediately (no timers)
+   */
+  playAll(target: BleReplayTarget, baseTime: number = Date.now()): void {
+    this.stop();
+    for (const event of this.session.events) {
+      this.dispatch(target, event, baseTime);
+    }
+    this.emit('complete');
+  }
+
+  /**
+   * Stop playback
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.playing = false;
+  }
+
+  /**
+   * Whether playback is in progress
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  private dispatch(target: BleReplayTarget, event: BleSessionEvent, baseTime: number): void {
+    const bytes = decodeBleSessionEvent(event);
+    if (event.dir === 'out') {
+      this.emit('command', bytes, event);
+    } else {
+      target.injectPacket(event.char, bytes, baseTime + event.t);
+    }
+  }
+}
+
+// ========== Headless Replay ==========
+
+/**
+ * Why a replayed set ended
+ */
+export type ReplayStopReason = SetStopReason | null;
+
+/**
+ * Configuration for headless replay (defaults to session.metadata.workoutParameters)
+ */
+export interface HeadlessReplayOptions {
+  workoutParameters?: WorkoutParameters;
+}
+
+/**
+ * Outcome of a headless replay
+ */
+export interface BleReplayResult {
+  repCount: RepCount;
+  repEvents: RepEvent[];
+  stopReason: ReplayStopReason;
+  stoppedAt: number | null; // Session-relative ms of the stop decision
+  metrics: WorkoutMetric[];
+  repAnalytics: RepAnalytics[];
+}
+
+const WORKOUT_START_COMMANDS = [0x04, 0x4e];
+const WORKOUT_STOP_COMMANDS = [0x0a, 0x05];
+
+/**
+ * Replay a session through the parsers, RepCounterFromMachine and AutoStopDetector
+ * using the same decisions as useWorkoutSession
+ *
+ * The set is considered active from the first recorded workout frame (program params or
+ * echo control) - or from the start if none was captured - until the app would have stopped it.
+ */
+export function replayBleSession(session: BleSession, options: HeadlessReplayOptions = {}): BleReplayResult {
+  const params =
+    options.workoutParameters ?? (session.metadata.workoutParameters as WorkoutParameters | undefined);
+  if (!params) {
+    throw new Error('Workout parameters are required to replay a session');
+  }
+
+  const isJustLift = params.isJustLift ?? false;
+  const durationLimitMs = isDurationSet(params) ? params.durationSeconds! * 1000 : null;
+  const unlimitedReps = runsWithoutRepLimit(params);
+  const repCounter = new RepCounterFromMachine();
+  repCounter.configure(params.warmupReps ?? 3, unlimitedReps ? 0 : params.reps, unlimitedReps, params.stopAtTop ?? false);
+
+  const repEvents: RepEvent[] = [];
+  repCounter.onRepEvent = (event) => repEvents.push(event);
+
+  const processor = new MonitorMetricProcessor();
+  const autoStop = new AutoStopDetector();
+  const repAnalyzer = new RepAnalyzer(params.warmupReps ?? 3);
+  const velocityLoss = params.velocityLossPercent ? new VelocityLossDetector(params.velocityLossPercent) : null;
+  const metrics: WorkoutMetric[] = [];
+  const repAnalytics: RepAnalytics[] = [];
+
+  const hasStartFrame = session.events.some(
+    (e) => e.dir === 'out' && WORKOUT_START_COMMANDS.includes(decodeBleSessionEvent(e)[0])
+  );
+  let active = !hasStartFrame;
+  let lastMetric: WorkoutMetric | null = null;
+  let stopReason: ReplayStopReason = null;
+  let stoppedAt: number | null = null;
+  let activeSince: number | null = null; // Timestamp of the first metric of the set
+
+  for (const event of session.events) {
+    const bytes = decodeBleSessionEvent(event);
+
+    if (event.dir === 'out') {
+      if (WORKOUT_START_COMMANDS.includes(bytes[0])) {
+        // A frame sent mid-set starts a drop set's next segment, which restarts the device counters
+        if (active) {
+          repCounter.resyncCounters();
+        }
+        active = true;
+      } else if (active && WORKOUT_STOP_COMMANDS.includes(bytes[0]) && bytes.length === 4) {
+        stopReason = 'user_stop';
+        stoppedAt = event.t;
+        break;
+      }
+      continue;
+    }
+
+    if (event.char === BLE_CONSTANTS.MONITOR_CHAR_UUID) {
+      const packet = parseMonitorPacket(bytes);
+      if (!packet) continue;
+
+      lastMetric = processor.process(packet, session.recordedAt + event.t);
+      if (!active) continue;
+
+      metrics.push(lastMetric);
+      activeSince = activeSince ?? lastMetric.timestamp;
+      if (durationLimitMs !== null && lastMetric.timestamp - activeSince >= durationLimitMs) {
+        stopReason = 'duration_reached';
+        stoppedAt = event.t;
+        break;
+      }
+
+      const rep = repAnalyzer.process(lastMetric);
+      if (rep) {
+        repAnalytics.push(rep);
+        if (velocityLoss?.update(rep).shouldStop) {
+          stopReason = 'velocity_loss';
+          stoppedAt = event.t;
+          break;
+        }
+      }
+
+      if (isJustLift) {
+        const status = autoStop.update(repCounter, lastMetric.positionA, lastMetric.positionB, lastMetric.timestamp);
+        if (status.shouldStop) {
+          stopReason = 'auto_stop';
+          stoppedAt = event.t;
+          break;
+        }
+      }
+    } else if (event.char === BLE_CONSTANTS.REP_NOTIFY_CHAR_UUID) {
+      const packet = parseRepPacket(bytes);
+      if (!packet || !active) continue;
+
+      repCounter.process(
+        packet.topCounter,
+        packet.completeCounter,
+        lastMetric?.positionA ?? 0,
+        lastMetric?.positionB ?? 0
+      );
+
+      if (repCounter.shouldStopWorkout()) {
+        stopReason = 'target_reached';
+        stoppedAt = event.t;
+        break;
+      }
+    }
+  }
+
+  const lastRep = repAnalyzer.flush();
+  if (lastRep) {
+    repAnalytics.push(lastRep);
+  }
+
+  return {
+    repCount: repCounter.getRepCount(),
+    repEvents,
+    stopReason,
+    stoppedAt,
+    metrics,
+    repAnalytics,
+  };
+}
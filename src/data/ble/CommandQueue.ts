@@ -0,0 +1,274 @@
+/**
+ * Command Queue - Serializes writes to the NUS RX characteristic
+ *
+ * Only one frame is in flight at a time. Each write is bounded by a timeout and retried
+ * according to its retry policy. A write that timed out may still land, so the next write waits
+ * until it settles (a write that never settles holds the queue until the link drops and the BLE
+ * stack rejects it), and frames that must not arrive twice are not retried on timeout. STOP frames are moved ahead of pending commands so they
+ * never wait behind a queued color-scheme write. Every command ends with a CommandResult
+ * emitted as 'commandResult'.
+ */
+
+import { EventEmitter } from 'events';
+import { BLE_CONSTANTS, CommandPriority, CommandResult, CommandStatus } from './types';
+
+/**
+ * How often a failed write is attempted again
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  retryDelayMs: number;
+  retryOnTimeout?: boolean; // Defaults to true
+}
+
+export const RETRY_POLICIES = {
+  NONE: { maxAttempts: 1, retryDelayMs: 0 },
+  DEFAULT: { maxAttempts: 2, retryDelayMs: 150 },
+  CRITICAL: { maxAttempts: 4, retryDelayMs: 100 }, // Used for STOP - tension must be released
+  WORKOUT: { maxAttempts: 2, retryDelayMs: 150, retryOnTimeout: false }, // Program and echo frames start a set
+} as const;
+
+/**
+ * Per-command options
+ */
+export interface CommandOptions {
+  label?: string;
+  priority?: CommandPriority;
+  timeoutMs?: number; // Defaults to GATT_OPERATION_TIMEOUT_MS
+  retry?: RetryPolicy;
+  settleMs?: number; // Gap before the next command is written (device processing time)
+  cancelOnStop?: boolean; // Drop this command if a STOP is queued before it is sent
+}
+
+/**
+ * Writes one frame to the device
+ */
+export type CommandWriter = (data: Uint8Array) => Promise<void>;
+
+interface QueuedCommand {
+  id: number;
+  data: Uint8Array;
+  label: string;
+  priority: CommandPriority;
+  timeoutMs: number;
+  retry: RetryPolicy;
+  settleMs: number;
+  cancelOnStop: boolean;
+  queuedAt: number;
+  resolve: (result: CommandResult) => void;
+}
+
+const TIMEOUT_MESSAGE = 'Write timed out';
+
+const PRIORITY_RANK: Record<CommandPriority, number> = {
+  [CommandPriority.Stop]: 0,
+  [CommandPriority.Normal]: 1,
+  [CommandPriority.Background]: 2,
+};
+
+/**
+ * Serialized command queue
+ */
+export class CommandQueue extends EventEmitter {
+  private pending: QueuedCommand[] = [];
+  private processing = false;
+  private nextId = 1;
+  private abandonedWrite: Promise<void> | null = null; // Timed-out write that has not settled yet
+
+  constructor(private readonly writer: CommandWriter) {
+    super();
+  }
+
+  /**
+   * Queue a frame; resolves with its result once written, failed, timed out or cancelled
+   */
+  enqueue(data: Uint8Array, options: CommandOptions = {}): Promise<CommandResult> {
+    const priority = options.priority ?? CommandPriority.Normal;
+
+    return new Promise((resolve) => {
+      const command: QueuedCommand = {
+        id: this.nextId++,
+        data,
+        label: options.label ?? `0x${(data[0] ?? 0).toString(16).padStart(2, '0')}`,
+        priority,
+        timeoutMs: options.timeoutMs ?? BLE_CONSTANTS.GATT_OPERATION_TIMEOUT_MS,
+        retry: options.retry ?? (priority === CommandPriority.Stop ? RETRY_POLICIES.CRITICAL : RETRY_POLICIES.DEFAULT),
+        settleMs: options.settleMs ?? 0,
+        cancelOnStop: options.cancelOnStop ?? false,
+        queuedAt: Date.now(),
+        resolve,
+      };
+
+      if (priority === CommandPriority.Stop) {
+        this.cancelWhere((c) => c.cancelOnStop, `Superseded by ${command.label}`);
+      }
+
+      // Insert after commands of the same or higher priority (FIFO within a priority)
+      const rank = PRIORITY_RANK[priority];
+      const index = this.pending.findIndex((c) => PRIORITY_RANK[c.priority] > rank);
+      if (index < 0) {
+        this.pending.push(command);
+      } else {
+        this.pending.splice(index, 0, command);
+      }
+
+      this.process();
+    });
+  }
+
+  /**
+   * Cancel every pending command (e.g. on disconnect)
+   */
+  clear(reason: string = 'Queue cleared'): void {
+    this.cancelWhere(() => true, reason);
+  }
+
+  /**
+   * Number of commands waiting to be written
+   */
+  size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Whether a command is currently being written
+   */
+  isBusy(): boolean {
+    return this.processing;
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const command = this.pending.shift()!;
+        const result = await this.execute(command);
+        this.finish(command, result);
+
+        // Let the device process the frame - unless a STOP is waiting
+        const stopWaiting = this.pending[0]?.priority === CommandPriority.Stop;
+        if (result.status === 'success' && command.settleMs > 0 && !stopWaiting) {
+          await this.delay(command.settleMs);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async execute(command: QueuedCommand): Promise<Omit<CommandResult, 'completedAt'>> {
+    const startedAt = Date.now();
+    let attempts = 0;
+    let status: CommandStatus = 'failed';
+    let error: string | undefined;
+
+    while (attempts < command.retry.maxAttempts) {
+      attempts++;
+      await this.settleAbandonedWrite();
+      const write = this.writer(command.data);
+      try {
+        await this.withTimeout(write, command.timeoutMs);
+        status = 'success';
+        error = undefined;
+        break;
+      } catch (e) {
+        const isTimeout = e instanceof Error && e.message === TIMEOUT_MESSAGE;
+        status = isTimeout ? 'timeout' : 'failed';
+        error = e instanceof Error ? e.message : String(e);
+        if (isTimeout) {
+          this.abandonedWrite = write.then(
+            () => undefined,
+            () => undefined
+          );
+        }
+
+        // A STOP queued meanwhile must not wait behind retries of a cancellable command
+        if (command.cancelOnStop && this.pending.some((c) => c.priority === CommandPriority.Stop)) {
+          status = 'cancelled';
+          break;
+        }
+
+        // The timed-out frame may still arrive - sending it again could apply it twice
+        if (isTimeout && command.retry.retryOnTimeout === false) {
+          break;
+        }
+
+        if (attempts < command.retry.maxAttempts && command.retry.retryDelayMs > 0) {
+          await this.delay(command.retry.retryDelayMs);
+        }
+      }
+    }
+
+    return {
+      id: command.id,
+      label: command.label,
+      priority: command.priority,
+      status,
+      attempts,
+      byteLength: command.data.length,
+      queuedAt: command.queuedAt,
+      startedAt,
+      error,
+    };
+  }
+
+  private finish(command: QueuedCommand, result: Omit<CommandResult, 'completedAt'>): void {
+    const completed: CommandResult = { ...result, completedAt: Date.now() };
+    this.emit('commandResult', completed);
+    command.resolve(completed);
+  }
+
+  private cancelWhere(predicate: (command: QueuedCommand) => boolean, reason: string): void {
+    const cancelled = this.pending.filter(predicate);
+    this.pending = this.pending.filter((c) => !predicate(c));
+
+    for (const command of cancelled) {
+      this.finish(command, {
+        id: command.id,
+        label: command.label,
+        priority: command.priority,
+        status: 'cancelled',
+        attempts: 0,
+        byteLength: command.data.length,
+        queuedAt: command.queuedAt,
+        startedAt: null,
+        error: reason,
+      });
+    }
+  }
+
+  /**
+   * Wait for a timed-out write to settle, so only one frame is ever in flight
+   */
+  private async settleAbandonedWrite(): Promise<void> {
+    if (this.abandonedWrite) {
+      console.warn('[CommandQueue] Waiting for a timed-out write to settle');
+      await this.abandonedWrite;
+      this.abandonedWrite = null;
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(TIMEOUT_MESSAGE)), timeoutMs);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Characteristic Decoder - Decodes the property and auxiliary notify characteristics
+ *
+ * Layouts are declared per characteristic as a list of fields. Any byte not claimed by a
+ * field is returned as a raw field, so new fields can be mapped one at a time (e.g. from
+ * BleSessionRecorder captures) without losing data. Characteristics without a layout are
+ * decoded entirely as raw fields.
+ */
+
+import {
+  BLE_CONSTANTS,
+  CharacteristicData,
+  DeviceEvent,
+  RawField,
+} from './types';
+
+/**
+ * Supported field encodings (all little-endian)
+ */
+export type FieldType = 'u8' | 'u16' | 'i16' | 'u32';
+
+/**
+ * A known field within a characteristic payload
+ */
+export interface FieldSpec {
+  name: string;
+  offset: number;
+  type: FieldType;
+  scale?: number; // Multiplier applied to the raw value
+  event?: DeviceEvent['type']; // Structured event raised when the value changes
+  sensor?: string; // Sensor label for temperature fields
+}
+
+/**
+ * Known layout of a characteristic
+ */
+export interface CharacteristicLayout {
+  name: string;
+  fields: FieldSpec[];
+}
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  u8: 1,
+  u16: 2,
+  i16: 2,
+  u32: 4,
+};
+
+/**
+ * Minimum temperature change (°C) that raises a new temperature event
+ */
+export const TEMPERATURE_EVENT_DELTA_C = 0.5;
+
+/**
+ * Known characteristic layouts keyed by lowercase UUID
+ * Only fields confirmed by captures or the web app source belong here. None of the property
+ * payload is confirmed yet (the official apps only poll it as a keep-alive), so it decodes
+ * as raw fields like the notify characteristics.
+ */
+export const CHARACTERISTIC_LAYOUTS: Record<string, CharacteristicLayout> = {
+  [BLE_CONSTANTS.PROPERTY_CHAR_UUID]: {
+    name: 'property',
+    fields: [],
+  },
+};
+
+/**
+ * Get the layout for a characteristic (an empty layout if it is not mapped)
+ */
+export function getCharacteristicLayout(characteristicUuid: string): CharacteristicLayout {
+  const uuid = characteristicUuid.toLowerCase();
+  return CHARACTERISTIC_LAYOUTS[uuid] ?? { name: `notify_${uuid.slice(0, 8)}`, fields: [] };
+}
+
+/**
+ * Decode a payload into known fields and raw byte ranges
+ * Fields that do not fit in the payload are skipped (and their bytes left raw)
+ */
+export function decodeCharacteristic(
+  characteristicUuid: string,
+  bytes: Uint8Array,
+  timestamp: number = Date.now()
+): CharacteristicData {
+  const layout = getCharacteristicLayout(characteristicUuid);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const claimed = new Array<boolean>(bytes.length).fill(false);
+  const fields: Record<string, number> = {};
+
+  for (const field of layout.fields) {
+    const size = FIELD_SIZES[field.type];
+    if (field.offset + size > bytes.length) {
+      continue;
+    }
+
+    fields[field.name] = readField(view, field) * (field.scale ?? 1);
+    claimed.fill(true, field.offset, field.offset + size);
+  }
+
+  return {
+    characteristicUuid: characteristicUuid.toLowerCase(),
+    name: layout.name,
+    fields,
+    rawFields: collectRawFields(bytes, claimed),
+    rawData: bytes,
+    timestamp,
+  };
+}
+
+/**
+ * Stateful decoder that also raises structured events when known values change
+ */
+export class CharacteristicDecoder {
+  private lastValues = new Map<string, number>();
+
+  /**
+   * Decode a payload and return any events raised by it
+   */
+  decode(
+    characteristicUuid: string,
+    bytes: Uint8Array,
+    timestamp: number = Date.now()
+  ): { data: CharacteristicData; events: DeviceEvent[] } {
+    const data = decodeCharacteristic(characteristicUuid, bytes, timestamp);
+    const layout = getCharacteristicLayout(characteristicUuid);
+    const events: DeviceEvent[] = [];
+
+    for (const field of layout.fields) {
+      const value = data.fields[field.name];
+      if (!field.event || value === undefined) {
+        continue;
+      }
+
+      const key = `${data.characteristicUuid}:${field.name}`;
+      const previous = this.lastValues.get(key);
+      if (!this.hasChanged(field, previous, value)) {
+        continue;
+      }
+      this.lastValues.set(key, value);
+
+      events.push(this.buildEvent(field, value, data.characteristicUuid, timestamp));
+    }
+
+    return { data, events };
+  }
+
+  /**
+   * Forget previous values (e.g. on reconnect)
+   */
+  reset(): void {
+    this.lastValues.clear();
+  }
+
+  /**
+   * Whether a new value should raise an event
+   * Errors and fault flags that read zero on first sight are not reported
+   */
+  private hasChanged(field: FieldSpec, previous: number | undefined, value: number): boolean {
+    if (previous === undefined) {
+      return field.event === 'firmwareState' || field.event === 'temperature' || value !== 0;
+    }
+    if (field.event === 'temperature') {
+      return Math.abs(value - previous) >= TEMPERATURE_EVENT_DELTA_C;
+    }
+    return value !== previous;
+  }
+
+  private buildEvent(field: FieldSpec, value: number, characteristicUuid: string, timestamp: number): DeviceEvent {
+    switch (field.event) {
+      case 'firmwareState':
+        return { type: 'firmwareState', state: value, characteristicUuid, timestamp };
+      case 'error':
+        return { type: 'error', code: value, characteristicUuid, timestamp };
+      case 'temperature':
+        return { type: 'temperature', celsius: value, sensor: field.sensor ?? field.name, characteristicUuid, timestamp };
+      case 'faultFlags':
+      default: {
+        const activeBits: number[] = [];
+        for (let bit = 0; bit < 32; bit++) {
+          if ((value >>> bit) & 1) {
+            activeBits.push(bit);
+          }
+        }
+        return { type: 'faultFlags', flags: value, activeBits, characteristicUuid, timestamp };
+      }
+    }
+  }
+}
+
+/**
+ * Read a field value from the payload
+ */
+function readField(view: DataView, field: FieldSpec): number {
+  switch (field.type) {
+    case 'u8':
+      return view.getUint8(field.offset);
+    case 'u16':
+      return view.getUint16(field.offset, true);
+    case 'i16':
+      return view.getInt16(field.offset, true);
+    case 'u32':
+      return view.getUint32(field.offset, true);
+  }
+}
+
+/**
+ * Group unclaimed bytes into contiguous raw fields
+ */
+function collectRawFields(bytes: Uint8Array, claimed: boolean[]): RawField[] {
+  const rawFields: RawField[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= bytes.length; i++) {
+    const isRaw = i < bytes.length && !claimed[i];
+    if (isRaw && start < 0) {
+      start = i;
+    } else if (!isRaw && start >= 0) {
+      const slice = bytes.subarray(start, i);
+      rawFields.push({
+        offset: start,
+        length: slice.length,
+        hex: Array.from(slice, (b) => b.toString(16).padStart(2, '0')).join(''),
+      });
+      start = -1;
+    }
+  }
+
+  return rawFields;
+}
@@ -9,12 +9,48 @@ export {
   resetBleManager,
 } from './BleManager';
 
+export {
+  SimulatedTrainer,
+  LIFTER_PROFILES,
+} from './SimulatedTrainer';
+
+export {
+  parseMonitorPacket,
+  parseRepPacket,
+  encodeMonitorPacket,
+  encodeRepPacket,
+  MonitorMetricProcessor,
+} from './packetParser';
+
+export {
+  BleSessionRecorder,
+  BLE_SESSION_FORMAT,
+  BLE_SESSION_VERSION,
+  serializeBleSession,
+  parseBleSession,
+  decodeBleSessionEvent,
+} from './BleSessionRecorder';
+
+export { BleSessionReplayer, replayBleSession } from './BleSessionReplayer';
+
+export {
+  CharacteristicDecoder,
+  CHARACTERISTIC_LAYOUTS,
+  TEMPERATURE_EVENT_DELTA_C,
+  decodeCharacteristic,
+  getCharacteristicLayout,
+} from './characteristicDecoder';
+
+export { CommandQueue, RETRY_POLICIES } from './CommandQueue';
+
 export {
   BLE_CONSTANTS,
   ConnectionStatus,
+  CommandPriority,
   HandleState,
   HANDLE_DETECTION,
   POLLING_INTERVALS,
+  RECONNECT_BACKOFF,
   MTU_SIZE,
   POSITION_SPIKE_THRESHOLD,
 } from './types';
@@ -23,7 +59,30 @@ export type {
   ConnectionState,
   WorkoutMetric,
   RepNotification,
+  DeviceEvent,
+  RawField,
+  CharacteristicData,
+  CommandStatus,
+  CommandResult,
   BleScanResult,
   BleManagerCallbacks,
   BlePermissionsStatus,
 } from './types';
+
+export type { LifterProfile, SimulatedTrainerOptions } from './SimulatedTrainer';
+export type { MonitorPacket, RepPacket } from './packetParser';
+export type {
+  BleSession,
+  BleSessionEvent,
+  BleSessionDirection,
+  BleSessionTransfer,
+} from './BleSessionRecorder';
+export type {
+  BleReplayTarget,
+  BleReplayOptions,
+  HeadlessReplayOptions,
+  BleReplayResult,
+  ReplayStopReason,
+} from './BleSessionReplayer';
+export type { FieldType, FieldSpec, CharacteristicLayout } from './characteristicDecoder';
+export type { RetryPolicy, CommandOptions, CommandWriter } from './CommandQueue';
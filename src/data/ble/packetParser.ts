@@ -0,0 +1,187 @@
+/**
+ * Packet Parser - Decodes and encodes raw Vitruvian characteristic payloads
+ * Byte layouts match the reference web app (device.js parseMonitorData / rep notifications)
+ *
+ * Kept free of BLE PLX types so the same layouts can be shared by the real
+ * BLE manager and the simulated trainer.
+ */
+
+import { WorkoutMetric, POSITION_SPIKE_THRESHOLD } from './types';
+
+/**
+ * Minimum payload sizes
+ */
+export const MONITOR_PACKET_MIN_LENGTH = 16;
+export const REP_PACKET_MIN_LENGTH = 6;
+
+/**
+ * Raw monitor packet fields (before spike filtering / velocity calculation)
+ * Format: u16[0-1]=ticks, u16[2]=posA, u16[4]=loadA*100, u16[5]=posB, u16[7]=loadB*100
+ */
+export interface MonitorPacket {
+  ticks: number;
+  positionA: number;
+  positionB: number;
+  loadA: number; // kg
+  loadB: number; // kg
+}
+
+/**
+ * Raw rep notification counters
+ * Format: u16[0]=topCounter, u16[2]=completeCounter
+ */
+export interface RepPacket {
+  topCounter: number;
+  completeCounter: number;
+}
+
+/**
+ * Parse a monitor characteristic payload
+ * Returns null if the payload is too short
+ */
+export function parseMonitorPacket(bytes: Uint8Array): MonitorPacket | null {
+  if (bytes.length < MONITOR_PACKET_MIN_LENGTH) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const f0 = view.getUint16(0, true); // little-endian
+  const f1 = view.getUint16(2, true);
+  const f2 = view.getUint16(4, true);
+  const f4 = view.getUint16(8, true);
+  const f5 = view.getUint16(10, true);
+  const f7 = view.getUint16(14, true);
+
+  return {
+    // Reconstruct 32-bit tick counter
+    ticks: f0 + (f1 << 16),
+    positionA: f2,
+    positionB: f5,
+    // Load in kg (device sends kg * 100)
+    loadA: f4 / 100.0,
+    loadB: f7 / 100.0,
+  };
+}
+
+/**
+ * Parse a rep notification payload
+ * Returns null if the payload is too short
+ */
+export function parseRepPacket(bytes: Uint8Array): RepPacket | null {
+  if (bytes.length < REP_PACKET_MIN_LENGTH) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  return {
+    topCounter: view.getUint16(0, true),
+    completeCounter: view.getUint16(4, true),
+  };
+}
+
+/**
+ * Encode a monitor packet using the device layout (16 bytes)
+ */
+export function encodeMonitorPacket(packet: MonitorPacket): Uint8Array {
+  const bytes = new Uint8Array(MONITOR_PACKET_MIN_LENGTH);
+  const view = new DataView(bytes.buffer);
+
+  const ticks = packet.ticks >>> 0;
+  view.setUint16(0, ticks & 0xffff, true);
+  view.setUint16(2, (ticks >>> 16) & 0xffff, true);
+  view.setUint16(4, clampU16(packet.positionA), true);
+  view.setUint16(8, clampU16(packet.loadA * 100), true);
+  view.setUint16(10, clampU16(packet.positionB), true);
+  view.setUint16(14, clampU16(packet.loadB * 100), true);
+
+  return bytes;
+}
+
+/**
+ * Encode a rep notification using the device layout (8 bytes)
+ */
+export function encodeRepPacket(packet: RepPacket): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, packet.topCounter & 0xffff, true);
+  view.setUint16(4, packet.completeCounter & 0xffff, true);
+
+  return bytes;
+}
+
+/**
+ * Turns parsed monitor packets into workout metrics
+ * Applies the position spike filter and derives cable A velocity from consecutive samples.
+ * Timestamps are passed in so recorded sessions replay deterministically.
+ */
+export class MonitorMetricProcessor {
+  private lastGoodPosA = 0;
+  private lastGoodPosB = 0;
+  private lastPositionA = 0;
+  private lastTimestamp = 0;
+
+  /**
+   * Build a metric from a parsed packet received at the given time
+   */
+  process(packet: MonitorPacket, timestamp: number): WorkoutMetric {
+    // Position values (filter spikes > 50000)
+    let positionA = packet.positionA;
+    let positionB = packet.positionB;
+
+    if (positionA > POSITION_SPIKE_THRESHOLD) {
+      positionA = this.lastGoodPosA;
+    } else {
+      this.lastGoodPosA = positionA;
+    }
+
+    if (positionB > POSITION_SPIKE_THRESHOLD) {
+      positionB = this.lastGoodPosB;
+    } else {
+      this.lastGoodPosB = positionB;
+    }
+
+    // Calculate velocity for handle detection
+    let velocityA = 0;
+    if (this.lastTimestamp > 0) {
+      const deltaTime = (timestamp - this.lastTimestamp) / 1000.0; // Convert to seconds
+      const deltaPos = positionA - this.lastPositionA;
+      if (deltaTime > 0) {
+        velocityA = Math.abs(deltaPos / deltaTime); // Absolute velocity
+      }
+    }
+
+    this.lastPositionA = positionA;
+    this.lastTimestamp = timestamp;
+
+    return {
+      timestamp,
+      loadA: packet.loadA,
+      loadB: packet.loadB,
+      positionA,
+      positionB,
+      ticks: packet.ticks,
+      velocityA,
+      totalLoad: packet.loadA + packet.loadB,
+    };
+  }
+
+  /**
+   * Forget previous samples (velocity restarts from zero)
+   */
+  reset(): void {
+    this.lastGoodPosA = 0;
+    this.lastGoodPosB = 0;
+    this.lastPositionA = 0;
+    this.lastTimestamp = 0;
+  }
+}
+
+/**
+ * Round and clamp a value into the u16 range
+ */
+function clampU16(value: number): number {
+  return Math.max(0, Math.min(0xffff, Math.round(value)));
+}
@@ -107,6 +107,67 @@ export interface RepNotification {
   timestamp: number;
 }
 
+/**
+ * Structured event decoded from the property or auxiliary notify characteristics
+ * Only emitted when the underlying value changes
+ */
+export type DeviceEvent =
+  | { type: 'firmwareState'; state: number; characteristicUuid: string; timestamp: number }
+  | { type: 'error'; code: number; characteristicUuid: string; timestamp: number }
+  | { type: 'temperature'; celsius: number; sensor: string; characteristicUuid: string; timestamp: number }
+  | { type: 'faultFlags'; flags: number; activeBits: number[]; characteristicUuid: string; timestamp: number };
+
+/**
+ * Bytes not claimed by any known field (kept so the protocol can be mapped incrementally)
+ */
+export interface RawField {
+  offset: number;
+  length: number;
+  hex: string;
+}
+
+/**
+ * Fully decoded payload from the property or an auxiliary notify characteristic
+ */
+export interface CharacteristicData {
+  characteristicUuid: string;
+  name: string; // Layout name (e.g. 'property', 'notify_383f7276')
+  fields: Record<string, number>; // Known fields by name
+  rawFields: RawField[]; // Unmapped byte ranges
+  rawData: Uint8Array;
+  timestamp: number;
+}
+
+/**
+ * Command priority - STOP frames jump ahead of everything else in the queue
+ */
+export enum CommandPriority {
+  Stop = 'STOP',
+  Normal = 'NORMAL',
+  Background = 'BACKGROUND', // LED colors and other cosmetic writes
+}
+
+/**
+ * Final outcome of a queued command
+ */
+export type CommandStatus = 'success' | 'failed' | 'timeout' | 'cancelled';
+
+/**
+ * Structured result emitted for every queued command
+ */
+export interface CommandResult {
+  id: number;
+  label: string; // Human-readable name (e.g. 'init', 'program-params', 'stop')
+  priority: CommandPriority;
+  status: CommandStatus;
+  attempts: number;
+  byteLength: number;
+  queuedAt: number;
+  startedAt: number | null;
+  completedAt: number;
+  error?: string;
+}
+
 /**
  * BLE scan result
  */
@@ -124,6 +185,9 @@ export interface BleManagerCallbacks {
   onMonitorData?: (metric: WorkoutMetric) => void;
   onRepNotification?: (notification: RepNotification) => void;
   onHandleStateChange?: (state: HandleState) => void;
+  onCharacteristicData?: (data: CharacteristicData) => void;
+  onDeviceEvent?: (event: DeviceEvent) => void;
+  onCommandResult?: (result: CommandResult) => void;
   onError?: (error: Error) => void;
 }
 
@@ -153,6 +217,17 @@ export const POLLING_INTERVALS = {
   PROPERTY: 500, // Property polling every 500ms (keep-alive)
 } as const;
 
+/**
+ * Automatic reconnection backoff after an unexpected link drop
+ */
+export const RECONNECT_BACKOFF = {
+  INITIAL_DELAY_MS: 1000, // Delay before the first attempt
+  MULTIPLIER: 2, // Delay growth per failed attempt
+  MAX_DELAY_MS: 16000,
+  MAX_ATTEMPTS: 6,
+  SCAN_TIMEOUT_MS: 10000, // Rescan window per attempt
+} as const;
+
 /**
  * MTU size for large frame transfers
  */
@@ -0,0 +1,117 @@
+/**
+ * Exercise Catalog - The exercise library bundled with the app
+ *
+ * The catalog carries a version number. Every exercise it installs is tagged with that
+ * version, so a newer catalog can tell which exercises it updates and which ones it dropped.
+ * Entries use the exercise dump format of the original Android app.
+ */
+
+import bundledCatalog from './exercise_catalog.json';
+import { ExerciseEntity, ExerciseVideoEntity } from '../local/entities';
+
+/**
+ * A video of a catalog exercise
+ */
+export interface CatalogVideo {
+  angle: string; // FRONT, SIDE, or ISOMETRIC
+  video: string;
+  thumbnail: string;
+}
+
+/**
+ * An exercise of the catalog
+ */
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  description: string;
+  created: string;
+  muscleGroups: string[];
+  muscles: string[];
+  equipment: string[];
+  movement: string | null;
+  sidedness: string | null;
+  grip: string | null;
+  gripWidth: string | null;
+  range: { minimum?: number | null } | null;
+  popularity: number;
+  archived: boolean;
+  videos: CatalogVideo[];
+}
+
+/**
+ * A versioned exercise catalog
+ */
+export interface ExerciseCatalog {
+  version: number;
+  exercises: CatalogExercise[];
+}
+
+/**
+ * The catalog bundled with this build of the app
+ */
+export function getBundledCatalog(): ExerciseCatalog {
+  return parseExerciseCatalog(bundledCatalog);
+}
+
+/**
+ * Validate catalog data
+ */
+export function parseExerciseCatalog(data: unknown): ExerciseCatalog {
+  const catalog = data as any;
+  if (!catalog || typeof catalog.version !== 'number' || catalog.version < 1) {
+    throw new Error('Exercise catalog has no version');
+  }
+  if (!Array.isArray(catalog.exercises)) {
+    throw new Error('Exercise catalog has no exercises');
+  }
+
+  catalog.exercises.forEach((exercise: any, index: number) => {
+    if (!exercise || typeof exercise.id !== 'string' || !exercise.id || typeof exercise.name !== 'string') {
+      throw new Error(`Invalid catalog exercise at index ${index}`);
+    }
+  });
+
+  return catalog as ExerciseCatalog;
+}
+
+/**
+ * Library entity of a catalog exercise (user fields start empty; imports keep existing ones)
+ */
+export function catalogExerciseToEntity(exercise: CatalogExercise, catalogVersion: number): ExerciseEntity {
+  return {
+    id: exercise.id,
+    name: exercise.name,
+    description: exercise.description ?? '',
+    created: exercise.created ?? '',
+    muscleGroups: (exercise.muscleGroups ?? []).join(','),
+    muscles: (exercise.muscles ?? []).join(','),
+    equipment: (exercise.equipment ?? []).join(','),
+    movement: exercise.movement || null,
+    sidedness: exercise.sidedness || null,
+    grip: exercise.grip || null,
+    gripWidth: exercise.gripWidth || null,
+    minRepRange: exercise.range?.minimum ?? null,
+    popularity: exercise.popularity ?? 0,
+    archived: !!exercise.archived,
+    isFavorite: false,
+    timesPerformed: 0,
+    lastPerformed: null,
+    catalogVersion,
+    isCustom: false,
+    cableConfig: null,
+    notes: null,
+  };
+}
+
+/**
+ * Video entities of a catalog exercise
+ */
+export function catalogExerciseVideos(exercise: CatalogExercise): ExerciseVideoEntity[] {
+  return (exercise.videos ?? []).map((video) => ({
+    exerciseId: exercise.id,
+    angle: video.angle || 'FRONT',
+    videoUrl: video.video,
+    thumbnailUrl: video.thumbnail,
+  }));
+}
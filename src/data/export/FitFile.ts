@@ -0,0 +1,317 @@
+/**
+ * FIT File - Strength training activity files in the Garmin FIT format
+ *
+ * Each exported workout session becomes an active set (reps and total weight of both cables),
+ * separated by rest sets for the time between sessions. The sets are wrapped in a single lap,
+ * session and activity of sport "training" / sub sport "strength training", which is what
+ * Garmin Connect and other training logs import as a strength workout.
+ *
+ * Encoding follows the FIT protocol 2.0: a 14-byte header, definition and data messages in
+ * little-endian order, and a CRC-16 over the whole file.
+ */
+
+import { WorkoutSession } from '../../domain/models/Models';
+
+/**
+ * FIT epoch (1989-12-31T00:00:00Z) in Unix milliseconds
+ */
+const FIT_EPOCH_MS = 631065600000;
+
+const PROTOCOL_VERSION = 0x20; // 2.0
+const PROFILE_VERSION = 2132; // 21.32
+
+// Global message numbers
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_EVENT = 21;
+const MESG_ACTIVITY = 34;
+const MESG_SET = 225;
+
+// Base types
+const ENUM = { type: 0x00, size: 1 };
+const UINT8 = { type: 0x02, size: 1 };
+const UINT16 = { type: 0x84, size: 2 };
+const UINT32 = { type: 0x86, size: 4 };
+
+// Profile values
+const FILE_TYPE_ACTIVITY = 4;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_TRAINING = 10;
+const SUB_SPORT_STRENGTH_TRAINING = 20;
+const EVENT_TIMER = 0;
+const EVENT_SESSION = 8;
+const EVENT_LAP = 9;
+const EVENT_ACTIVITY = 26;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+const SET_TYPE_REST = 0;
+const SET_TYPE_ACTIVE = 1;
+const ACTIVITY_TYPE_MANUAL = 0;
+
+type BaseType = { type: number; size: number };
+type FieldDef = [fieldNumber: number, baseType: BaseType];
+
+/**
+ * Message layouts, each written once as a definition message under its local type
+ */
+const MESSAGES: Record<string, { global: number; fields: FieldDef[] }> = {
+  fileId: {
+    global: MESG_FILE_ID,
+    fields: [
+      [0, ENUM], // type
+      [1, UINT16], // manufacturer
+      [2, UINT16], // product
+      [4, UINT32], // time_created
+    ],
+  },
+  event: {
+    global: MESG_EVENT,
+    fields: [
+      [253, UINT32], // timestamp
+      [0, ENUM], // event
+      [1, ENUM], // event_type
+    ],
+  },
+  set: {
+    global: MESG_SET,
+    fields: [
+      [254, UINT32], // timestamp
+      [0, UINT32], // duration (s * 1000)
+      [3, UINT16], // repetitions
+      [4, UINT16], // weight (kg * 16)
+      [5, UINT8], // set_type
+      [6, UINT32], // start_time
+      [10, UINT16], // message_index
+    ],
+  },
+  lap: {
+    global: MESG_LAP,
+    fields: [
+      [253, UINT32], // timestamp
+      [2, UINT32], // start_time
+      [7, UINT32], // total_elapsed_time (s * 1000)
+      [8, UINT32], // total_timer_time (s * 1000)
+      [0, ENUM], // event
+      [1, ENUM], // event_type
+      [25, ENUM], // sport
+      [39, ENUM], // sub_sport
+    ],
+  },
+  session: {
+    global: MESG_SESSION,
+    fields: [
+      [253, UINT32], // timestamp
+      [2, UINT32], // start_time
+      [7, UINT32], // total_elapsed_time (s * 1000)
+      [8, UINT32], // total_timer_time (s * 1000)
+      [5, ENUM], // sport
+      [6, ENUM], // sub_sport
+      [0, ENUM], // event
+      [1, ENUM], // event_type
+      [25, UINT16], // first_lap_index
+      [26, UINT16], // num_laps
+    ],
+  },
+  activity: {
+    global: MESG_ACTIVITY,
+    fields: [
+      [253, UINT32], // timestamp
+      [0, UINT32], // total_timer_time (s * 1000)
+      [1, UINT16], // num_sessions
+      [2, ENUM], // type
+      [3, ENUM], // event
+      [4, ENUM], // event_type
+      [5, UINT32], // local_timestamp
+    ],
+  },
+};
+
+/**
+ * Encode workout sessions as a FIT strength training activity
+ */
+export function encodeFitActivity(sessions: WorkoutSession[]): Uint8Array {
+  const sets = sessions
+    .filter((session) => session.timestamp != null)
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+  if (sets.length === 0) {
+    throw new Error('No workouts to export');
+  }
+
+  const start = sets[0].timestamp!;
+  const last = sets[sets.length - 1];
+  const end = Math.max(...sets.map((session) => session.timestamp! + (session.duration ?? 0)), start);
+  const timerMs = sets.reduce((total, session) => total + (session.duration ?? 0), 0);
+
+  const writer = new FitWriter();
+  writer.write('fileId', [FILE_TYPE_ACTIVITY, MANUFACTURER_DEVELOPMENT, 0, fitTime(start)]);
+  writer.write('event', [fitTime(start), EVENT_TIMER, EVENT_TYPE_START]);
+
+  let messageIndex = 0;
+  sets.forEach((session, index) => {
+    const setStart = session.timestamp!;
+    const setEnd = setStart + (session.duration ?? 0);
+    writer.write('set', [
+      fitTime(setEnd),
+      Math.round(session.duration ?? 0),
+      session.setType === 'isometric' ? 0 : session.workingReps ?? session.totalReps ?? 0,
+      Math.round(setWeightKg(session) * 16),
+      SET_TYPE_ACTIVE,
+      fitTime(setStart),
+      messageIndex++,
+    ]);
+
+    // Rest until the next session starts
+    const next = sets[index + 1];
+    if (next && next.timestamp! > setEnd) {
+      writer.write('set', [
+        fitTime(next.timestamp!),
+        next.timestamp! - setEnd,
+        null,
+        null,
+        SET_TYPE_REST,
+        fitTime(setEnd),
+        messageIndex++,
+      ]);
+    }
+  });
+
+  const elapsedMs = end - start;
+  writer.write('event', [fitTime(end), EVENT_TIMER, EVENT_TYPE_STOP_ALL]);
+  writer.write('lap', [
+    fitTime(end),
+    fitTime(start),
+    elapsedMs,
+    timerMs,
+    EVENT_LAP,
+    EVENT_TYPE_STOP,
+    SPORT_TRAINING,
+    SUB_SPORT_STRENGTH_TRAINING,
+  ]);
+  writer.write('session', [
+    fitTime(end),
+    fitTime(start),
+    elapsedMs,
+    timerMs,
+    SPORT_TRAINING,
+    SUB_SPORT_STRENGTH_TRAINING,
+    EVENT_SESSION,
+    EVENT_TYPE_STOP,
+    0,
+    1,
+  ]);
+  writer.write('activity', [
+    fitTime(end),
+    timerMs,
+    1,
+    ACTIVITY_TYPE_MANUAL,
+    EVENT_ACTIVITY,
+    EVENT_TYPE_STOP,
+    fitTime(end - new Date(last.timestamp!).getTimezoneOffset() * 60000),
+  ]);
+
+  return writer.finish();
+}
+
+/**
+ * Total weight of both cables lifted in a set
+ */
+function setWeightKg(session: WorkoutSession): number {
+  const perCable = session.setType === 'isometric' ? session.holdLoadKg ?? 0 : session.weightPerCableKg ?? 0;
+  return perCable * 2;
+}
+
+/**
+ * Seconds since the FIT epoch
+ */
+function fitTime(timestampMs: number): number {
+  return Math.max(0, Math.floor((timestampMs - FIT_EPOCH_MS) / 1000));
+}
+
+/**
+ * Writes FIT records and wraps them in the file header and CRC
+ */
+class FitWriter {
+  private bytes: number[] = [];
+  private localTypes = new Map<string, number>();
+
+  /**
+   * Write a data message (null values are written as the base type's invalid value)
+   */
+  write(message: string, values: Array<number | null>): void {
+    const layout = MESSAGES[message];
+    let localType = this.localTypes.get(message);
+    if (localType === undefined) {
+      localType = this.localTypes.size;
+      this.localTypes.set(message, localType);
+      this.writeDefinition(localType, layout.global, layout.fields);
+    }
+
+    this.bytes.push(localType);
+    layout.fields.forEach(([, baseType], index) => {
+      const value = values[index];
+      this.pushValue(value == null ? invalidValue(baseType) : value, baseType.size);
+    });
+  }
+
+  /**
+   * Header, records and CRC of the complete file
+   */
+  finish(): Uint8Array {
+    const header = [14, PROTOCOL_VERSION];
+    pushLittleEndian(header, PROFILE_VERSION, 2);
+    pushLittleEndian(header, this.bytes.length, 4);
+    header.push(0x2e, 0x46, 0x49, 0x54); // ".FIT"
+    pushLittleEndian(header, fitCrc(header), 2);
+
+    const file = [...header, ...this.bytes];
+    pushLittleEndian(file, fitCrc(file), 2);
+    return Uint8Array.from(file);
+  }
+
+  private writeDefinition(localType: number, globalMessage: number, fields: FieldDef[]): void {
+    this.bytes.push(0x40 | localType, 0, 0); // Definition header, reserved, little endian
+    pushLittleEndian(this.bytes, globalMessage, 2);
+    this.bytes.push(fields.length);
+    fields.forEach(([fieldNumber, baseType]) => {
+      this.bytes.push(fieldNumber, baseType.size, baseType.type);
+    });
+  }
+
+  private pushValue(value: number, size: number): void {
+    const max = 2 ** (size * 8) - 1;
+    pushLittleEndian(this.bytes, Math.min(Math.max(Math.round(value), 0), max), size);
+  }
+}
+
+function invalidValue(baseType: BaseType): number {
+  return 2 ** (baseType.size * 8) - 1;
+}
+
+function pushLittleEndian(bytes: number[], value: number, size: number): void {
+  for (let i = 0; i < size; i++) {
+    bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+  }
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01,
+  0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16
+ */
+function fitCrc(bytes: number[]): number {
+  let crc = 0;
+  bytes.forEach((byte) => {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  });
+  return crc;
+}
@@ -0,0 +1,144 @@
+/**
+ * Workout CSV - Spreadsheet exports of the workout history
+ *
+ * Two tables are written: one row per workout session with its summary, and one row per
+ * metric sample with the load and position of both cables. Times are ISO 8601 in UTC so
+ * spreadsheets and other training logs read them the same way everywhere.
+ */
+
+import { WorkoutMetric, WorkoutSession } from '../../domain/models/Models';
+
+/**
+ * A session with its metric samples
+ */
+export interface SessionMetrics {
+  session: WorkoutSession;
+  metrics: WorkoutMetric[];
+}
+
+/**
+ * Columns of the session summary CSV
+ */
+export const SESSION_CSV_COLUMNS = [
+  'session_id',
+  'start_time',
+  'exercise_id',
+  'exercise',
+  'mode',
+  'set_type',
+  'target_reps',
+  'weight_per_cable_kg',
+  'total_weight_kg',
+  'progression_kg',
+  'duration_s',
+  'warmup_reps',
+  'working_reps',
+  'target_duration_s',
+  'time_under_tension_s',
+  'hold_load_kg',
+  'load_variation_percent',
+  'position_variation_mm',
+  'load_asymmetry_percent',
+  'rom_asymmetry_percent',
+  'timing_offset_ms',
+  'stop_reason',
+  'just_lift',
+  'eccentric_load_percent',
+  'echo_level',
+];
+
+/**
+ * Columns of the metric sample CSV
+ */
+export const METRIC_CSV_COLUMNS = [
+  'session_id',
+  'time',
+  'elapsed_s',
+  'load_a_kg',
+  'load_b_kg',
+  'total_load_kg',
+  'position_a_mm',
+  'position_b_mm',
+  'ticks',
+];
+
+/**
+ * Write sessions as CSV, one row per session
+ */
+export function sessionsToCsv(sessions: WorkoutSession[], exerciseNames: Record<string, string>): string {
+  const rows = sessions.map((session) => [
+    session.id,
+    formatTime(session.timestamp),
+    session.exerciseId,
+    session.exerciseId ? exerciseNames[session.exerciseId] : null,
+    session.mode,
+    session.setType ?? 'reps',
+    session.isJustLift ? null : session.reps,
+    round(session.weightPerCableKg),
+    session.weightPerCableKg != null ? round(session.weightPerCableKg * 2) : null,
+    round(session.progressionKg),
+    session.duration != null ? round(session.duration / 1000) : null,
+    session.warmupReps,
+    session.workingReps,
+    session.targetDurationSeconds,
+    session.timeUnderTensionMs != null ? round(session.timeUnderTensionMs / 1000) : null,
+    round(session.holdLoadKg),
+    round(session.loadVariationPercent),
+    round(session.positionVariationMm),
+    round(session.loadAsymmetryPercent),
+    round(session.romAsymmetryPercent),
+    session.timingOffsetMs,
+    session.stopReason,
+    session.isJustLift ? 1 : 0,
+    session.mode === 'Echo' ? session.eccentricLoad : null,
+    session.mode === 'Echo' ? session.echoLevel : null,
+  ]);
+  return toCsv(SESSION_CSV_COLUMNS, rows);
+}
+
+/**
+ * Write the metric samples of sessions as CSV, one row per sample
+ */
+export function metricsToCsv(streams: SessionMetrics[]): string {
+  const rows: unknown[][] = [];
+  streams.forEach(({ session, metrics }) => {
+    const start = metrics[0]?.timestamp ?? session.timestamp ?? 0;
+    metrics.forEach((metric) => {
+      rows.push([
+        session.id,
+        formatTime(metric.timestamp),
+        metric.timestamp != null ? round((metric.timestamp - start) / 1000) : null,
+        round(metric.loadA),
+        round(metric.loadB),
+        round(metric.loadA + metric.loadB),
+        round(metric.positionA),
+        round(metric.positionB),
+        metric.ticks,
+      ]);
+    });
+  });
+  return toCsv(METRIC_CSV_COLUMNS, rows);
+}
+
+/**
+ * Join a header and rows into CSV text (RFC 4180 quoting, CRLF line endings)
+ */
+function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns, ...rows].map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatCell(value: unknown): string {
+  if (value == null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatTime(timestamp: number | undefined): string | null {
+  return timestamp != null ? new Date(timestamp).toISOString() : null;
+}
+
+function round(value: number | null | undefined): number | null {
+  return value != null ? Math.round(value * 100) / 100 : null;
+}
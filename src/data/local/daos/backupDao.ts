@@ -0,0 +1,75 @@
+/**
+ * Data Access Object for backup restores
+ * Writes whole tables of rows taken from a backup archive
+ */
+
+import type { Transaction } from 'react-native-sqlite-storage';
+import { executeSql, executeTransaction } from '../database';
+
+/**
+ * Rows of one table, values in column order
+ */
+export interface TableRows {
+  table: string;
+  columns: string[];
+  rows: unknown[][];
+  where?: string; // Replacing only deletes rows matching this condition
+}
+
+/**
+ * Get the column names of a table
+ */
+export const getTableColumns = async (table: string): Promise<string[]> => {
+  const results = await executeSql(`PRAGMA table_info(${table})`);
+  const columns: string[] = [];
+  for (let i = 0; i < results[0].rows.length; i++) {
+    columns.push(results[0].rows.item(i).name);
+  }
+  return columns;
+};
+
+/**
+ * Get the given columns of every row of a table
+ */
+export const getTableRows = async (table: string, columns: string[]): Promise<unknown[][]> => {
+  const results = await executeSql(`SELECT ${columns.join(', ')} FROM ${table}`);
+  const rows: unknown[][] = [];
+  for (let i = 0; i < results[0].rows.length; i++) {
+    const row = results[0].rows.item(i);
+    rows.push(columns.map((column) => row[column] ?? null));
+  }
+  return rows;
+};
+
+/**
+ * Replace the contents of the given tables with the given rows (tables are
+ * emptied in reverse order, so list parent tables before their children)
+ */
+export const replaceAllRows = async (tables: TableRows[]): Promise<void> => {
+  await executeTransaction((tx) => {
+    [...tables].reverse().forEach(({ table, where }) => {
+      tx.executeSql(`DELETE FROM ${table}${where ? ` WHERE ${where}` : ''}`);
+    });
+    tables.forEach((entry) => insertTableRows(tx, entry));
+  });
+};
+
+/**
+ * Insert rows into the given tables; rows that clash with a unique constraint replace the existing row
+ */
+export const insertRows = async (tables: TableRows[]): Promise<void> => {
+  await executeTransaction((tx) => {
+    tables.forEach((entry) => insertTableRows(tx, entry));
+  });
+};
+
+const insertTableRows = (tx: Transaction, entry: TableRows) => {
+  if (entry.rows.length === 0) {
+    return;
+  }
+  const placeholders = entry.columns.map(() => '?').join(', ');
+  const sql = `INSERT OR REPLACE INTO ${entry.table} (${entry.columns.join(', ')}) VALUES (${placeholders})`;
+  entry.rows.forEach((row) => {
+    tx.executeSql(sql, row as any[]);
+  });
+};
@@ -3,16 +3,18 @@
  * Migrated from Android Room ExerciseDao
  */
 
+import type { Transaction } from 'react-native-sqlite-storage';
 import { executeSql, executeTransaction } from '../database';
 import { ExerciseEntity, ExerciseVideoEntity } from '../entities';
+import type { ExerciseLibraryFilters } from '../../../domain/models/Exercise';
 
 // ========== Exercise Operations ==========
 
 /**
- * Get all exercises ordered by name
+ * Get all exercises ordered by name (archived exercises are left out)
  */
 export const getAllExercises = async (): Promise<ExerciseEntity[]> => {
-  const results = await executeSql('SELECT * FROM exercises ORDER BY name ASC');
+  const results = await executeSql('SELECT * FROM exercises WHERE archived = 0 ORDER BY name ASC');
   return mapExerciseResults(results);
 };
 
@@ -30,49 +32,75 @@ export const getExerciseById = async (id: string): Promise<ExerciseEntity | null
  */
 export const getFavorites = async (): Promise<ExerciseEntity[]> => {
   const results = await executeSql(
-    'SELECT * FROM exercises WHERE isFavorite = 1 ORDER BY name ASC'
+    'SELECT * FROM exercises WHERE isFavorite = 1 AND archived = 0 ORDER BY name ASC'
   );
   return mapExerciseResults(results);
 };
 
 /**
- * Search exercises by query (searches name, description, and muscles)
+ * Find exercises that pass the library filters and match every full-text expression
+ * (one expression per search term, e.g. "bench*" or "press OR pres"). Archived exercises
+ * are left out.
  */
-export const searchExercises = async (query: string): Promise<ExerciseEntity[]> => {
+export const findExercises = async (
+  filters: ExerciseLibraryFilters,
+  matchExpressions: string[] = []
+): Promise<ExerciseEntity[]> => {
+  const conditions = ['archived = 0'];
+  const params: any[] = [];
+
+  // Comma separated columns match whole codes only (ARMS must not match FOREARMS)
+  const addListFacet = (column: string, values: string[] | undefined) => {
+    if (values && values.length > 0) {
+      conditions.push(`(${values.map(() => `(',' || ${column} || ',') LIKE ?`).join(' OR ')})`);
+      params.push(...values.map((value) => `%,${value},%`));
+    }
+  };
+  const addValueFacet = (column: string, values: string[] | undefined) => {
+    if (values && values.length > 0) {
+      conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+      params.push(...values);
+    }
+  };
+
+  addListFacet('muscleGroups', filters.muscleGroups);
+  addListFacet('equipment', filters.equipment);
+  addValueFacet('grip', filters.grips);
+  addValueFacet('movement', filters.movements);
+  if (filters.favoritesOnly) {
+    conditions.push('isFavorite = 1');
+  }
+  for (const expression of matchExpressions) {
+    conditions.push('rowid IN (SELECT docid FROM exercises_fts WHERE exercises_fts MATCH ?)');
+    params.push(expression);
+  }
+
   const sql = `
     SELECT * FROM exercises
-    WHERE name LIKE ? OR description LIKE ? OR muscles LIKE ?
-    ORDER BY popularity DESC, name ASC
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY isCustom DESC, popularity DESC, name ASC
   `;
-  const searchPattern = `%${query}%`;
-  const results = await executeSql(sql, [searchPattern, searchPattern, searchPattern]);
+  const results = await executeSql(sql, params);
   return mapExerciseResults(results);
 };
 
 /**
- * Get exercises by muscle group
+ * Words of the full-text index, for typo-tolerant search
  */
-export const getExercisesByMuscleGroup = async (muscleGroup: string): Promise<ExerciseEntity[]> => {
-  const sql = `
-    SELECT * FROM exercises
-    WHERE muscleGroups LIKE ?
-    ORDER BY popularity DESC, name ASC
-  `;
-  const results = await executeSql(sql, [`%${muscleGroup}%`]);
-  return mapExerciseResults(results);
+export const getSearchVocabulary = async (): Promise<string[]> => {
+  const results = await executeSql("SELECT term FROM exercises_fts_terms WHERE col = '*'");
+  const terms: string[] = [];
+  for (let i = 0; i < results[0].rows.length; i++) {
+    terms.push(results[0].rows.item(i).term);
+  }
+  return terms;
 };
 
 /**
- * Get exercises by equipment
+ * Merge the full-text index, dropping the words of replaced exercise texts
  */
-export const getExercisesByEquipment = async (equipment: string): Promise<ExerciseEntity[]> => {
-  const sql = `
-    SELECT * FROM exercises
-    WHERE equipment LIKE ?
-    ORDER BY popularity DESC, name ASC
-  `;
-  const results = await executeSql(sql, [`%${equipment}%`]);
-  return mapExerciseResults(results);
+export const optimizeSearchIndex = async (): Promise<void> => {
+  await executeSql("INSERT INTO exercises_fts(exercises_fts) VALUES('optimize')");
 };
 
 /**
@@ -82,6 +110,20 @@ export const updateFavorite = async (id: string, isFavorite: boolean): Promise<v
   await executeSql('UPDATE exercises SET isFavorite = ? WHERE id = ?', [isFavorite ? 1 : 0, id]);
 };
 
+/**
+ * Mark exercises as favorites, optionally clearing every other favorite
+ */
+export const setFavorites = async (ids: string[], clearOthers: boolean): Promise<void> => {
+  await executeTransaction((tx) => {
+    if (clearOthers) {
+      tx.executeSql('UPDATE exercises SET isFavorite = 0');
+    }
+    ids.forEach((id) => {
+      tx.executeSql('UPDATE exercises SET isFavorite = 1 WHERE id = ?', [id]);
+    });
+  });
+};
+
 /**
  * Increment times performed for an exercise
  */
@@ -104,8 +146,8 @@ export const insertAll = async (exercises: ExerciseEntity[]): Promise<void> => {
       INSERT OR REPLACE INTO exercises
       (id, name, description, created, muscleGroups, muscles, equipment, movement,
        sidedness, grip, gripWidth, minRepRange, popularity, archived, isFavorite,
-       timesPerformed, lastPerformed)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       timesPerformed, lastPerformed, catalogVersion, isCustom, cableConfig, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     exercises.forEach((exercise) => {
@@ -127,6 +169,10 @@ export const insertAll = async (exercises: ExerciseEntity[]): Promise<void> => {
         exercise.isFavorite ? 1 : 0,
         exercise.timesPerformed,
         exercise.lastPerformed,
+        exercise.catalogVersion,
+        exercise.isCustom ? 1 : 0,
+        exercise.cableConfig,
+        exercise.notes,
       ]);
     });
   });
@@ -140,8 +186,8 @@ export const insert = async (exercise: ExerciseEntity): Promise<void> => {
     INSERT OR REPLACE INTO exercises
     (id, name, description, created, muscleGroups, muscles, equipment, movement,
      sidedness, grip, gripWidth, minRepRange, popularity, archived, isFavorite,
-     timesPerformed, lastPerformed)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     timesPerformed, lastPerformed, catalogVersion, isCustom, cableConfig, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await executeSql(sql, [
@@ -162,9 +208,42 @@ export const insert = async (exercise: ExerciseEntity): Promise<void> => {
     exercise.isFavorite ? 1 : 0,
     exercise.timesPerformed,
     exercise.lastPerformed,
+    exercise.catalogVersion,
+    exercise.isCustom ? 1 : 0,
+    exercise.cableConfig,
+    exercise.notes,
+  ]);
+};
+
+/**
+ * Update the user-editable fields of a custom exercise
+ */
+export const updateCustomExercise = async (exercise: ExerciseEntity): Promise<void> => {
+  const sql = `
+    UPDATE exercises SET
+      name = ?, muscleGroups = ?, muscles = ?, equipment = ?, sidedness = ?, cableConfig = ?, notes = ?
+    WHERE id = ? AND isCustom = 1
+  `;
+
+  await executeSql(sql, [
+    exercise.name,
+    exercise.muscleGroups,
+    exercise.muscles,
+    exercise.equipment,
+    exercise.sidedness,
+    exercise.cableConfig,
+    exercise.notes,
+    exercise.id,
   ]);
 };
 
+/**
+ * Archive or unarchive a custom exercise
+ */
+export const setCustomExerciseArchived = async (id: string, archived: boolean): Promise<void> => {
+  await executeSql('UPDATE exercises SET archived = ? WHERE id = ? AND isCustom = 1', [archived ? 1 : 0, id]);
+};
+
 /**
  * Delete all exercises
  */
@@ -225,51 +304,121 @@ export const deleteAllVideos = async (): Promise<void> => {
 // ========== Transaction Operations ==========
 
 /**
- * Insert an exercise with its videos
+ * Insert an exercise with its videos, or update it if it exists. The user's favorite flag and
+ * performance counts of an existing exercise are kept; its videos are replaced.
  */
 export const insertExerciseWithVideos = async (
   exercise: ExerciseEntity,
   videos: ExerciseVideoEntity[]
 ): Promise<void> => {
-  await executeTransaction(async (tx) => {
-    // Insert exercise
-    const exerciseSql = `
-      INSERT OR REPLACE INTO exercises
-      (id, name, description, created, muscleGroups, muscles, equipment, movement,
-       sidedness, grip, gripWidth, minRepRange, popularity, archived, isFavorite,
-       timesPerformed, lastPerformed)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-    tx.executeSql(exerciseSql, [
-      exercise.id,
-      exercise.name,
-      exercise.description,
-      exercise.created,
-      exercise.muscleGroups,
-      exercise.muscles,
-      exercise.equipment,
-      exercise.movement,
-      exercise.sidedness,
-      exercise.grip,
-      exercise.gripWidth,
-      exercise.minRepRange,
-      exercise.popularity,
-      exercise.archived ? 1 : 0,
-      exercise.isFavorite ? 1 : 0,
-      exercise.timesPerformed,
-      exercise.lastPerformed,
-    ]);
-
-    // Insert videos
-    const videoSql = `
-      INSERT OR REPLACE INTO exercise_videos
-      (exerciseId, angle, videoUrl, thumbnailUrl)
-      VALUES (?, ?, ?, ?)
-    `;
+  await executeTransaction((tx) => queueExerciseWithVideos(tx, exercise, videos));
+};
 
-    videos.forEach((video) => {
-      tx.executeSql(videoSql, [video.exerciseId, video.angle, video.videoUrl, video.thumbnailUrl]);
-    });
+/**
+ * Queue the statements that upsert an exercise and replace its videos on a transaction
+ */
+const queueExerciseWithVideos = (
+  tx: Transaction,
+  exercise: ExerciseEntity,
+  videos: ExerciseVideoEntity[]
+): void => {
+  // Insert exercise if new
+  const exerciseSql = `
+    INSERT OR IGNORE INTO exercises
+    (id, name, description, created, muscleGroups, muscles, equipment, movement,
+     sidedness, grip, gripWidth, minRepRange, popularity, archived, isFavorite,
+     timesPerformed, lastPerformed, catalogVersion, isCustom, cableConfig, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+  tx.executeSql(exerciseSql, [
+    exercise.id,
+    exercise.name,
+    exercise.description,
+    exercise.created,
+    exercise.muscleGroups,
+    exercise.muscles,
+    exercise.equipment,
+    exercise.movement,
+    exercise.sidedness,
+    exercise.grip,
+    exercise.gripWidth,
+    exercise.minRepRange,
+    exercise.popularity,
+    exercise.archived ? 1 : 0,
+    exercise.isFavorite ? 1 : 0,
+    exercise.timesPerformed,
+    exercise.lastPerformed,
+    exercise.catalogVersion,
+    exercise.isCustom ? 1 : 0,
+    exercise.cableConfig,
+    exercise.notes,
+  ]);
+
+  // Update an existing exercise (isFavorite, timesPerformed and lastPerformed are kept)
+  const updateSql = `
+    UPDATE exercises SET
+      name = ?, description = ?, created = ?, muscleGroups = ?, muscles = ?, equipment = ?,
+      movement = ?, sidedness = ?, grip = ?, gripWidth = ?, minRepRange = ?, popularity = ?,
+      archived = ?, catalogVersion = ?
+    WHERE id = ?
+  `;
+  tx.executeSql(updateSql, [
+    exercise.name,
+    exercise.description,
+    exercise.created,
+    exercise.muscleGroups,
+    exercise.muscles,
+    exercise.equipment,
+    exercise.movement,
+    exercise.sidedness,
+    exercise.grip,
+    exercise.gripWidth,
+    exercise.minRepRange,
+    exercise.popularity,
+    exercise.archived ? 1 : 0,
+    exercise.catalogVersion,
+    exercise.id,
+  ]);
+
+  // Replace videos
+  tx.executeSql('DELETE FROM exercise_videos WHERE exerciseId = ?', [exercise.id]);
+  const videoSql = `
+    INSERT INTO exercise_videos
+    (exerciseId, angle, videoUrl, thumbnailUrl)
+    VALUES (?, ?, ?, ?)
+  `;
+
+  videos.forEach((video) => {
+    tx.executeSql(videoSql, [video.exerciseId, video.angle, video.videoUrl, video.thumbnailUrl]);
+  });
+};
+
+// ========== Catalog Operations ==========
+
+/**
+ * Get the newest catalog version installed (0 if no catalog exercises are installed)
+ */
+export const getInstalledCatalogVersion = async (): Promise<number> => {
+  const results = await executeSql('SELECT MAX(catalogVersion) AS version FROM exercises');
+  return results[0].rows.item(0).version ?? 0;
+};
+
+/**
+ * Install a catalog version in a single transaction, so an interrupted import leaves the
+ * previous version in place and is retried on the next launch. Exercises installed by an older
+ * catalog that this one no longer contains are archived (they are kept because routines and
+ * workouts may still refer to them).
+ */
+export const importCatalogExercises = async (
+  entries: { exercise: ExerciseEntity; videos: ExerciseVideoEntity[] }[],
+  catalogVersion: number
+): Promise<void> => {
+  await executeTransaction((tx) => {
+    entries.forEach(({ exercise, videos }) => queueExerciseWithVideos(tx, exercise, videos));
+    tx.executeSql(
+      'UPDATE exercises SET archived = 1 WHERE catalogVersion IS NOT NULL AND catalogVersion < ?',
+      [catalogVersion]
+    );
   });
 };
 
@@ -303,6 +452,10 @@ const mapExerciseResults = (results: any[]): ExerciseEntity[] => {
         isFavorite: row.isFavorite === 1,
         timesPerformed: row.timesPerformed,
         lastPerformed: row.lastPerformed,
+        catalogVersion: row.catalogVersion ?? null,
+        isCustom: row.isCustom === 1,
+        cableConfig: row.cableConfig ?? null,
+        notes: row.notes ?? null,
       });
     }
   }
@@ -11,5 +11,14 @@ export * as ExerciseDao from './exerciseDao';
 // Personal Record DAO
 export * as PersonalRecordDao from './personalRecordDao';
 
+// One-Rep Max DAO
+export * as OneRepMaxDao from './oneRepMaxDao';
+
+// Progression DAO
+export * as ProgressionDao from './progressionDao';
+
 // Connection Log DAO
 export * as ConnectionLogDao from './connectionLogDao';
+
+// Backup DAO
+export * as BackupDao from './backupDao';
@@ -0,0 +1,127 @@
+/**
+ * Data Access Object for estimated one-rep max history
+ */
+
+import { executeSql, executeTransaction } from '../database';
+import { OneRepMaxEstimateEntity } from '../entities';
+import type { OneRepMaxFormula } from '../../../domain/models/Models';
+
+/**
+ * Insert the estimates of a session (replaces an existing estimate for the same session and formula)
+ */
+export const insertEstimates = async (estimates: OneRepMaxEstimateEntity[]): Promise<void> => {
+  const sql = `
+    INSERT OR REPLACE INTO one_rep_max_estimates
+    (sessionId, exerciseId, timestamp, formula, weightPerCableKg, reps, estimatedOneRepMaxKg)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await executeTransaction((tx) => {
+    for (const estimate of estimates) {
+      tx.executeSql(sql, [
+        estimate.sessionId,
+        estimate.exerciseId,
+        estimate.timestamp,
+        estimate.formula,
+        estimate.weightPerCableKg,
+        estimate.reps,
+        estimate.estimatedOneRepMaxKg,
+      ]);
+    }
+  });
+};
+
+/**
+ * Get the estimate history of an exercise for one formula (oldest first)
+ */
+export const getEstimatesForExercise = async (
+  exerciseId: string,
+  formula: OneRepMaxFormula
+): Promise<OneRepMaxEstimateEntity[]> => {
+  const results = await executeSql(
+    'SELECT * FROM one_rep_max_estimates WHERE exerciseId = ? AND formula = ? ORDER BY timestamp ASC',
+    [exerciseId, formula]
+  );
+  return mapEstimateResults(results);
+};
+
+/**
+ * Get the estimate history of every exercise for one formula (oldest first)
+ */
+export const getAllEstimates = async (formula: OneRepMaxFormula): Promise<OneRepMaxEstimateEntity[]> => {
+  const results = await executeSql(
+    'SELECT * FROM one_rep_max_estimates WHERE formula = ? ORDER BY exerciseId, timestamp ASC',
+    [formula]
+  );
+  return mapEstimateResults(results);
+};
+
+/**
+ * Get the IDs of all sessions that have estimates
+ */
+export const getEstimatedSessionIds = async (): Promise<string[]> => {
+  const results = await executeSql('SELECT DISTINCT sessionId FROM one_rep_max_estimates');
+  const ids: string[] = [];
+
+  if (results && results.length > 0) {
+    const resultSet = results[0];
+    for (let i = 0; i < resultSet.rows.length; i++) {
+      ids.push(resultSet.rows.item(i).sessionId);
+    }
+  }
+
+  return ids;
+};
+
+/**
+ * Get the best estimate of an exercise for one formula
+ */
+export const getBestEstimate = async (
+  exerciseId: string,
+  formula: OneRepMaxFormula
+): Promise<OneRepMaxEstimateEntity | null> => {
+  const sql = `
+    SELECT * FROM one_rep_max_estimates
+    WHERE exerciseId = ? AND formula = ?
+    ORDER BY estimatedOneRepMaxKg DESC
+    LIMIT 1
+  `;
+  const results = await executeSql(sql, [exerciseId, formula]);
+  const estimates = mapEstimateResults(results);
+  return estimates.length > 0 ? estimates[0] : null;
+};
+
+/**
+ * Delete the estimates of a session
+ */
+export const deleteEstimatesForSession = async (sessionId: string): Promise<void> => {
+  await executeSql('DELETE FROM one_rep_max_estimates WHERE sessionId = ?', [sessionId]);
+};
+
+// ========== Helper Functions for Mapping Results ==========
+
+/**
+ * Map SQL results to OneRepMaxEstimateEntity array
+ */
+const mapEstimateResults = (results: any[]): OneRepMaxEstimateEntity[] => {
+  const estimates: OneRepMaxEstimateEntity[] = [];
+
+  if (results && results.length > 0) {
+    const resultSet = results[0];
+    for (let i = 0; i < resultSet.rows.length; i++) {
+      const row = resultSet.rows.item(i);
+      estimates.push({
+        id: row.id,
+        sessionId: row.sessionId,
+        exerciseId: row.exerciseId,
+        timestamp: row.timestamp,
+        formula: row.formula,
+        weightPerCableKg: row.weightPerCableKg,
+        reps: row.reps,
+        estimatedOneRepMaxKg: row.estimatedOneRepMaxKg,
+      });
+    }
+  }
+
+  return estimates;
+};
@@ -3,11 +3,11 @@
  * Migrated from Android Room PersonalRecordDao
  */
 
-import { executeSql } from '../database';
+import { executeSql, executeTransaction } from '../database';
 import { PersonalRecordEntity } from '../entities';
 
 /**
- * Get the latest personal record for an exercise in a specific workout mode
+ * Get the latest max-weight record for an exercise in a specific workout mode
  */
 export const getLatestPR = async (
   exerciseId: string,
@@ -15,7 +15,7 @@ export const getLatestPR = async (
 ): Promise<PersonalRecordEntity | null> => {
   const sql = `
     SELECT * FROM personal_records
-    WHERE exerciseId = ? AND workoutMode = ?
+    WHERE exerciseId = ? AND workoutMode = ? AND category = 'max_weight'
     LIMIT 1
   `;
   const results = await executeSql(sql, [exerciseId, workoutMode]);
@@ -24,7 +24,7 @@ export const getLatestPR = async (
 };
 
 /**
- * Get all personal records for an exercise across all workout modes
+ * Get all personal records for an exercise across all workout modes and categories
  */
 export const getPRsForExercise = async (exerciseId: string): Promise<PersonalRecordEntity[]> => {
   const results = await executeSql(
@@ -35,12 +35,12 @@ export const getPRsForExercise = async (exerciseId: string): Promise<PersonalRec
 };
 
 /**
- * Get the best PR for an exercise across all modes (highest weight, then highest reps)
+ * Get the best max-weight record for an exercise across all modes (highest weight, then highest reps)
  */
 export const getBestPR = async (exerciseId: string): Promise<PersonalRecordEntity | null> => {
   const sql = `
     SELECT * FROM personal_records
-    WHERE exerciseId = ?
+    WHERE exerciseId = ? AND category = 'max_weight'
     ORDER BY weightPerCableKg DESC, reps DESC
     LIMIT 1
   `;
@@ -67,28 +67,49 @@ export const getAllPRsGrouped = async (): Promise<PersonalRecordEntity[]> => {
   return mapPRResults(results);
 };
 
+const UPSERT_PR_SQL = `
+  INSERT OR REPLACE INTO personal_records
+  (exerciseId, weightPerCableKg, reps, workoutMode, timestamp, category, value, recordKey, sessionId)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * SQL parameters of a record. Reps-at-weight records are kept per weight (the record key),
+ * every other category has one record per exercise+mode.
+ */
+const upsertPRParams = (pr: PersonalRecordEntity): any[] => [
+  pr.exerciseId,
+  pr.weightPerCableKg,
+  pr.reps,
+  pr.workoutMode,
+  pr.timestamp,
+  pr.category,
+  pr.value,
+  pr.category === 'max_reps_at_weight' ? pr.weightPerCableKg : 0,
+  pr.sessionId,
+];
+
 /**
  * Insert or update a personal record
- * Uses REPLACE strategy to update existing PR for the exercise+mode combination
+ * Uses REPLACE strategy to update the existing record for the exercise+mode+category combination
  */
 export const upsertPR = async (pr: PersonalRecordEntity): Promise<void> => {
-  const sql = `
-    INSERT OR REPLACE INTO personal_records
-    (exerciseId, weightPerCableKg, reps, workoutMode, timestamp)
-    VALUES (?, ?, ?, ?, ?)
-  `;
+  await executeSql(UPSERT_PR_SQL, upsertPRParams(pr));
+};
 
-  await executeSql(sql, [
-    pr.exerciseId,
-    pr.weightPerCableKg,
-    pr.reps,
-    pr.workoutMode,
-    pr.timestamp,
-  ]);
+/**
+ * Insert or update several personal records in one transaction
+ */
+export const upsertPRs = async (prs: PersonalRecordEntity[]): Promise<void> => {
+  await executeTransaction((tx) => {
+    for (const pr of prs) {
+      tx.executeSql(UPSERT_PR_SQL, upsertPRParams(pr));
+    }
+  });
 };
 
 /**
- * Update PR only if new performance is better
+ * Update the max-weight record only if new performance is better
  * Returns true if a new PR was set
  */
 export const updatePRIfBetter = async (
@@ -108,6 +129,9 @@ export const updatePRIfBetter = async (
       reps,
       workoutMode,
       timestamp,
+      category: 'max_weight',
+      value: weightPerCableKg,
+      sessionId: null,
     });
     return true;
   }
@@ -124,6 +148,9 @@ export const updatePRIfBetter = async (
       reps,
       workoutMode,
       timestamp,
+      category: 'max_weight',
+      value: weightPerCableKg,
+      sessionId: null,
     });
     return true;
   }
@@ -150,6 +177,9 @@ const mapPRResults = (results: any[]): PersonalRecordEntity[] => {
         reps: row.reps,
         timestamp: row.timestamp,
         workoutMode: row.workoutMode,
+        category: row.category ?? 'max_weight',
+        value: row.value ?? row.weightPerCableKg,
+        sessionId: row.sessionId ?? null,
       });
     }
   }
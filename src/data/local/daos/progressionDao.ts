@@ -0,0 +1,99 @@
+/**
+ * Data Access Object for the routine progression audit trail
+ */
+
+import { executeSql, executeTransaction } from '../database';
+import { ProgressionLogEntity } from '../entities';
+
+/**
+ * Insert the progression decisions of a routine run
+ */
+export const insertLogEntries = async (entries: ProgressionLogEntity[]): Promise<void> => {
+  const sql = `
+    INSERT INTO progression_log
+    (routineId, routineExerciseId, exerciseId, exerciseName, timestamp, scheme,
+     previousWeightPerCableKg, newWeightPerCableKg, previousSetReps, newSetReps,
+     reason, sessionIds, applied)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await executeTransaction((tx) => {
+    for (const entry of entries) {
+      tx.executeSql(sql, [
+        entry.routineId,
+        entry.routineExerciseId,
+        entry.exerciseId,
+        entry.exerciseName,
+        entry.timestamp,
+        entry.scheme,
+        entry.previousWeightPerCableKg,
+        entry.newWeightPerCableKg,
+        entry.previousSetReps,
+        entry.newSetReps,
+        entry.reason,
+        entry.sessionIds,
+        entry.applied ? 1 : 0,
+      ]);
+    }
+  });
+};
+
+/**
+ * Get the progression history of a routine (newest first)
+ */
+export const getLogForRoutine = async (routineId: string): Promise<ProgressionLogEntity[]> => {
+  const results = await executeSql(
+    'SELECT * FROM progression_log WHERE routineId = ? ORDER BY timestamp DESC, id DESC',
+    [routineId]
+  );
+  return mapLogResults(results);
+};
+
+/**
+ * Get the time of the last progression review of a routine (null if it was never reviewed)
+ */
+export const getLastReviewTimestamp = async (routineId: string): Promise<number | null> => {
+  const results = await executeSql(
+    'SELECT MAX(timestamp) as lastReview FROM progression_log WHERE routineId = ?',
+    [routineId]
+  );
+
+  if (results && results.length > 0 && results[0].rows.length > 0) {
+    return results[0].rows.item(0).lastReview ?? null;
+  }
+  return null;
+};
+
+// ========== Helper Functions for Mapping Results ==========
+
+/**
+ * Map SQL results to ProgressionLogEntity array
+ */
+const mapLogResults = (results: any[]): ProgressionLogEntity[] => {
+  const entries: ProgressionLogEntity[] = [];
+
+  if (results && results.length > 0) {
+    const resultSet = results[0];
+    for (let i = 0; i < resultSet.rows.length; i++) {
+      const row = resultSet.rows.item(i);
+      entries.push({
+        id: row.id,
+        routineId: row.routineId,
+        routineExerciseId: row.routineExerciseId,
+        exerciseId: row.exerciseId,
+        exerciseName: row.exerciseName,
+        timestamp: row.timestamp,
+        scheme: row.scheme,
+        previousWeightPerCableKg: row.previousWeightPerCableKg,
+        newWeightPerCableKg: row.newWeightPerCableKg,
+        previousSetReps: row.previousSetReps,
+        newSetReps: row.newSetReps,
+        reason: row.reason,
+        sessionIds: row.sessionIds || '',
+        applied: row.applied === 1,
+      });
+    }
+  }
+
+  return entries;
+};
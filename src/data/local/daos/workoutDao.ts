@@ -7,10 +7,12 @@ import { executeSql, executeTransaction } from '../database';
 import {
   WorkoutSessionEntity,
   WorkoutMetricEntity,
+  WorkoutRepEntity,
   RoutineEntity,
   RoutineExerciseEntity,
   WeeklyProgramEntity,
   ProgramDayEntity,
+  ProgramWeekEntity,
   WeeklyProgramWithDays,
 } from '../entities';
 
@@ -23,8 +25,10 @@ export const insertSession = async (session: WorkoutSessionEntity): Promise<void
   const sql = `
     INSERT OR REPLACE INTO workout_sessions
     (id, timestamp, mode, reps, weightPerCableKg, progressionKg, duration, totalReps,
-     warmupReps, workingReps, isJustLift, stopAtTop, eccentricLoad, echoLevel, exerciseId)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     warmupReps, workingReps, isJustLift, stopAtTop, eccentricLoad, echoLevel, exerciseId, stopReason,
+     loadAsymmetryPercent, romAsymmetryPercent, timingOffsetMs, setType, targetDurationSeconds,
+     timeUnderTensionMs, holdLoadKg, loadVariationPercent, positionVariationMm, routineId, routineExerciseId)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await executeSql(sql, [
@@ -43,6 +47,18 @@ export const insertSession = async (session: WorkoutSessionEntity): Promise<void
     session.eccentricLoad,
     session.echoLevel,
     session.exerciseId,
+    session.stopReason,
+    session.loadAsymmetryPercent,
+    session.romAsymmetryPercent,
+    session.timingOffsetMs,
+    session.setType,
+    session.targetDurationSeconds,
+    session.timeUnderTensionMs,
+    session.holdLoadKg,
+    session.loadVariationPercent,
+    session.positionVariationMm,
+    session.routineId,
+    session.routineExerciseId,
   ]);
 };
 
@@ -161,25 +177,84 @@ export const deleteAllMetrics = async (): Promise<void> => {
   await executeSql('DELETE FROM workout_metrics');
 };
 
+// ========== Rep Operations ==========
+
+/**
+ * Insert the reps of a session
+ */
+export const insertReps = async (reps: WorkoutRepEntity[]): Promise<void> => {
+  await executeTransaction((tx) => {
+    const sql = `
+      INSERT OR REPLACE INTO workout_reps
+      (sessionId, repIndex, isWarmup, startTime, endTime, topPositionA, topPositionB,
+       bottomPositionA, bottomPositionB, peakLoadA, peakLoadB, meanConcentricVelocity,
+       peakConcentricVelocity, meanConcentricPower, timeUnderTensionMs)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    reps.forEach((rep) => {
+      tx.executeSql(sql, [
+        rep.sessionId,
+        rep.repIndex,
+        rep.isWarmup ? 1 : 0,
+        rep.startTime,
+        rep.endTime,
+        rep.topPositionA,
+        rep.topPositionB,
+        rep.bottomPositionA,
+        rep.bottomPositionB,
+        rep.peakLoadA,
+        rep.peakLoadB,
+        rep.meanConcentricVelocity,
+        rep.peakConcentricVelocity,
+        rep.meanConcentricPower,
+        rep.timeUnderTensionMs,
+      ]);
+    });
+  });
+};
+
+/**
+ * Get reps for a specific session in order
+ */
+export const getRepsForSession = async (sessionId: string): Promise<WorkoutRepEntity[]> => {
+  const results = await executeSql(
+    'SELECT * FROM workout_reps WHERE sessionId = ? ORDER BY repIndex ASC',
+    [sessionId]
+  );
+  return mapRepResults(results);
+};
+
+/**
+ * Delete reps for a session
+ */
+export const deleteRepsForSession = async (sessionId: string): Promise<void> => {
+  await executeSql('DELETE FROM workout_reps WHERE sessionId = ?', [sessionId]);
+};
+
 // ========== Combined Operations ==========
 
 /**
- * Delete a complete workout (session and its metrics)
+ * Delete a complete workout (session, metrics, reps and one-rep max estimates)
  */
 export const deleteWorkout = async (sessionId: string): Promise<void> => {
   await executeTransaction((tx) => {
     tx.executeSql('DELETE FROM workout_sessions WHERE id = ?', [sessionId]);
     tx.executeSql('DELETE FROM workout_metrics WHERE sessionId = ?', [sessionId]);
+    tx.executeSql('DELETE FROM workout_reps WHERE sessionId = ?', [sessionId]);
+    tx.executeSql('DELETE FROM one_rep_max_estimates WHERE sessionId = ?', [sessionId]);
   });
 };
 
 /**
- * Delete all workouts (sessions and metrics)
+ * Delete all workouts (sessions, metrics, reps and one-rep max estimates)
  */
 export const deleteAllWorkouts = async (): Promise<void> => {
   await executeTransaction((tx) => {
     tx.executeSql('DELETE FROM workout_sessions');
     tx.executeSql('DELETE FROM workout_metrics');
+    tx.executeSql('DELETE FROM workout_reps');
+    tx.executeSql('DELETE FROM one_rep_max_estimates');
   });
 };
 
@@ -275,8 +350,11 @@ export const insertExercise = async (exercise: RoutineExerciseEntity): Promise<v
     (id, routineId, exerciseName, exerciseMuscleGroup, exerciseEquipment,
      exerciseDefaultCableConfig, exerciseId, cableConfig, orderIndex, setReps,
      weightPerCableKg, setWeights, mode, eccentricLoad, echoLevel, progressionKg,
-     restSeconds, notes, duration)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     restSeconds, notes, duration, progressionScheme, progressionIncrementKg,
+     repRangeMin, repRangeMax, targetRpe, groupId, groupType, groupExerciseRestSeconds,
+     groupRoundRestSeconds, setType, setModes, dropCount, dropTrigger, dropReduction,
+     dropAmount, dropReps, dropLastSetOnly, velocityLossPercent)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await executeSql(sql, [
@@ -299,6 +377,24 @@ export const insertExercise = async (exercise: RoutineExerciseEntity): Promise<v
     exercise.restSeconds,
     exercise.notes,
     exercise.duration,
+    exercise.progressionScheme,
+    exercise.progressionIncrementKg,
+    exercise.repRangeMin,
+    exercise.repRangeMax,
+    exercise.targetRpe,
+    exercise.groupId,
+    exercise.groupType,
+    exercise.groupExerciseRestSeconds,
+    exercise.groupRoundRestSeconds,
+    exercise.setType,
+    exercise.setModes,
+    exercise.dropCount,
+    exercise.dropTrigger,
+    exercise.dropReduction,
+    exercise.dropAmount,
+    exercise.dropReps,
+    exercise.dropLastSetOnly ? 1 : 0,
+    exercise.velocityLossPercent,
   ]);
 };
 
@@ -312,8 +408,11 @@ export const insertExercises = async (exercises: RoutineExerciseEntity[]): Promi
       (id, routineId, exerciseName, exerciseMuscleGroup, exerciseEquipment,
        exerciseDefaultCableConfig, exerciseId, cableConfig, orderIndex, setReps,
        weightPerCableKg, setWeights, mode, eccentricLoad, echoLevel, progressionKg,
-       restSeconds, notes, duration)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       restSeconds, notes, duration, progressionScheme, progressionIncrementKg,
+       repRangeMin, repRangeMax, targetRpe, groupId, groupType, groupExerciseRestSeconds,
+       groupRoundRestSeconds, setType, setModes, dropCount, dropTrigger, dropReduction,
+     dropAmount, dropReps, dropLastSetOnly, velocityLossPercent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     exercises.forEach((exercise) => {
@@ -337,6 +436,24 @@ export const insertExercises = async (exercises: RoutineExerciseEntity[]): Promi
         exercise.restSeconds,
         exercise.notes,
         exercise.duration,
+        exercise.progressionScheme,
+        exercise.progressionIncrementKg,
+        exercise.repRangeMin,
+        exercise.repRangeMax,
+        exercise.targetRpe,
+        exercise.groupId,
+        exercise.groupType,
+        exercise.groupExerciseRestSeconds,
+        exercise.groupRoundRestSeconds,
+        exercise.setType,
+        exercise.setModes,
+        exercise.dropCount,
+        exercise.dropTrigger,
+        exercise.dropReduction,
+        exercise.dropAmount,
+        exercise.dropReps,
+        exercise.dropLastSetOnly ? 1 : 0,
+        exercise.velocityLossPercent,
       ]);
     });
   });
@@ -351,7 +468,12 @@ export const updateExercise = async (exercise: RoutineExerciseEntity): Promise<v
     SET routineId = ?, exerciseName = ?, exerciseMuscleGroup = ?, exerciseEquipment = ?,
         exerciseDefaultCableConfig = ?, exerciseId = ?, cableConfig = ?, orderIndex = ?,
         setReps = ?, weightPerCableKg = ?, setWeights = ?, mode = ?, eccentricLoad = ?,
-        echoLevel = ?, progressionKg = ?, restSeconds = ?, notes = ?, duration = ?
+        echoLevel = ?, progressionKg = ?, restSeconds = ?, notes = ?, duration = ?,
+        progressionScheme = ?, progressionIncrementKg = ?, repRangeMin = ?, repRangeMax = ?,
+        targetRpe = ?, groupId = ?, groupType = ?, groupExerciseRestSeconds = ?,
+        groupRoundRestSeconds = ?, setType = ?, setModes = ?, dropCount = ?, dropTrigger = ?,
+        dropReduction = ?, dropAmount = ?, dropReps = ?, dropLastSetOnly = ?,
+        velocityLossPercent = ?
     WHERE id = ?
   `;
 
@@ -374,6 +496,24 @@ export const updateExercise = async (exercise: RoutineExerciseEntity): Promise<v
     exercise.restSeconds,
     exercise.notes,
     exercise.duration,
+    exercise.progressionScheme,
+    exercise.progressionIncrementKg,
+    exercise.repRangeMin,
+    exercise.repRangeMax,
+    exercise.targetRpe,
+    exercise.groupId,
+    exercise.groupType,
+    exercise.groupExerciseRestSeconds,
+    exercise.groupRoundRestSeconds,
+    exercise.setType,
+    exercise.setModes,
+    exercise.dropCount,
+    exercise.dropTrigger,
+    exercise.dropReduction,
+    exercise.dropAmount,
+    exercise.dropReps,
+    exercise.dropLastSetOnly ? 1 : 0,
+    exercise.velocityLossPercent,
     exercise.id,
   ]);
 };
@@ -447,8 +587,11 @@ export const insertRoutineWithExercises = async (
       (id, routineId, exerciseName, exerciseMuscleGroup, exerciseEquipment,
        exerciseDefaultCableConfig, exerciseId, cableConfig, orderIndex, setReps,
        weightPerCableKg, setWeights, mode, eccentricLoad, echoLevel, progressionKg,
-       restSeconds, notes, duration)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       restSeconds, notes, duration, progressionScheme, progressionIncrementKg,
+       repRangeMin, repRangeMax, targetRpe, groupId, groupType, groupExerciseRestSeconds,
+       groupRoundRestSeconds, setType, setModes, dropCount, dropTrigger, dropReduction,
+     dropAmount, dropReps, dropLastSetOnly, velocityLossPercent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     exercises.forEach((exercise) => {
@@ -472,6 +615,24 @@ export const insertRoutineWithExercises = async (
         exercise.restSeconds,
         exercise.notes,
         exercise.duration,
+        exercise.progressionScheme,
+        exercise.progressionIncrementKg,
+        exercise.repRangeMin,
+        exercise.repRangeMax,
+        exercise.targetRpe,
+        exercise.groupId,
+        exercise.groupType,
+        exercise.groupExerciseRestSeconds,
+        exercise.groupRoundRestSeconds,
+        exercise.setType,
+        exercise.setModes,
+        exercise.dropCount,
+        exercise.dropTrigger,
+        exercise.dropReduction,
+        exercise.dropAmount,
+        exercise.dropReps,
+        exercise.dropLastSetOnly ? 1 : 0,
+        exercise.velocityLossPercent,
       ]);
     });
   });
@@ -509,8 +670,11 @@ export const updateRoutineWithExercises = async (
       (id, routineId, exerciseName, exerciseMuscleGroup, exerciseEquipment,
        exerciseDefaultCableConfig, exerciseId, cableConfig, orderIndex, setReps,
        weightPerCableKg, setWeights, mode, eccentricLoad, echoLevel, progressionKg,
-       restSeconds, notes, duration)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       restSeconds, notes, duration, progressionScheme, progressionIncrementKg,
+       repRangeMin, repRangeMax, targetRpe, groupId, groupType, groupExerciseRestSeconds,
+       groupRoundRestSeconds, setType, setModes, dropCount, dropTrigger, dropReduction,
+     dropAmount, dropReps, dropLastSetOnly, velocityLossPercent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     exercises.forEach((exercise) => {
@@ -534,6 +698,24 @@ export const updateRoutineWithExercises = async (
         exercise.restSeconds,
         exercise.notes,
         exercise.duration,
+        exercise.progressionScheme,
+        exercise.progressionIncrementKg,
+        exercise.repRangeMin,
+        exercise.repRangeMax,
+        exercise.targetRpe,
+        exercise.groupId,
+        exercise.groupType,
+        exercise.groupExerciseRestSeconds,
+        exercise.groupRoundRestSeconds,
+        exercise.setType,
+        exercise.setModes,
+        exercise.dropCount,
+        exercise.dropTrigger,
+        exercise.dropReduction,
+        exercise.dropAmount,
+        exercise.dropReps,
+        exercise.dropLastSetOnly ? 1 : 0,
+        exercise.velocityLossPercent,
       ]);
     });
   });
@@ -545,6 +727,7 @@ export const updateRoutineWithExercises = async (
 export const deleteRoutineComplete = async (routineId: string): Promise<void> => {
   await executeTransaction((tx) => {
     tx.executeSql('DELETE FROM routine_exercises WHERE routineId = ?', [routineId]);
+    tx.executeSql('DELETE FROM progression_log WHERE routineId = ?', [routineId]);
     tx.executeSql('DELETE FROM routines WHERE id = ?', [routineId]);
   });
 };
@@ -568,7 +751,8 @@ export const getAllProgramsWithDays = async (): Promise<WeeklyProgramWithDays[]>
 
   for (const program of programs) {
     const days = await getProgramDays(program.id);
-    programsWithDays.push({ program, days });
+    const weeks = await getProgramWeeks(program.id);
+    programsWithDays.push({ program, days, weeks });
   }
 
   return programsWithDays;
@@ -593,7 +777,8 @@ export const getActiveProgramWithDays = async (): Promise<WeeklyProgramWithDays
   if (!program) return null;
 
   const days = await getProgramDays(program.id);
-  return { program, days };
+  const weeks = await getProgramWeeks(program.id);
+  return { program, days, weeks };
 };
 
 /**
@@ -615,7 +800,8 @@ export const getProgramWithDaysById = async (
   if (!program) return null;
 
   const days = await getProgramDays(programId);
-  return { program, days };
+  const weeks = await getProgramWeeks(programId);
+  return { program, days, weeks };
 };
 
 /**
@@ -626,14 +812,25 @@ const getProgramDays = async (programId: string): Promise<ProgramDayEntity[]> =>
   return mapProgramDayResults(results);
 };
 
+/**
+ * Get the week modifiers of a program
+ */
+const getProgramWeeks = async (programId: string): Promise<ProgramWeekEntity[]> => {
+  const results = await executeSql(
+    'SELECT * FROM program_weeks WHERE programId = ? ORDER BY weekNumber ASC',
+    [programId]
+  );
+  return mapProgramWeekResults(results);
+};
+
 /**
  * Insert a program
  */
 export const insertProgram = async (program: WeeklyProgramEntity): Promise<void> => {
   const sql = `
     INSERT OR REPLACE INTO weekly_programs
-    (id, title, notes, isActive, lastUsed, createdAt)
-    VALUES (?, ?, ?, ?, ?, ?)
+    (id, title, notes, isActive, lastUsed, createdAt, weekCount, currentWeek, weekStartedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await executeSql(sql, [
@@ -643,6 +840,9 @@ export const insertProgram = async (program: WeeklyProgramEntity): Promise<void>
     program.isActive ? 1 : 0,
     program.lastUsed,
     program.createdAt,
+    program.weekCount,
+    program.currentWeek,
+    program.weekStartedAt,
   ]);
 };
 
@@ -675,14 +875,15 @@ export const deleteProgramDays = async (programId: string): Promise<void> => {
  */
 export const insertProgramWithDays = async (
   program: WeeklyProgramEntity,
-  days: ProgramDayEntity[]
+  days: ProgramDayEntity[],
+  weeks: ProgramWeekEntity[] = []
 ): Promise<void> => {
   await executeTransaction(async (tx) => {
     // Insert program
     const programSql = `
       INSERT OR REPLACE INTO weekly_programs
-      (id, title, notes, isActive, lastUsed, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (id, title, notes, isActive, lastUsed, createdAt, weekCount, currentWeek, weekStartedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     tx.executeSql(programSql, [
       program.id,
@@ -691,6 +892,9 @@ export const insertProgramWithDays = async (
       program.isActive ? 1 : 0,
       program.lastUsed,
       program.createdAt,
+      program.weekCount,
+      program.currentWeek,
+      program.weekStartedAt,
     ]);
 
     // Delete old days
@@ -706,6 +910,24 @@ export const insertProgramWithDays = async (
     days.forEach((day) => {
       tx.executeSql(daySql, [day.programId, day.dayOfWeek, day.routineId]);
     });
+
+    // Replace week modifiers
+    tx.executeSql('DELETE FROM program_weeks WHERE programId = ?', [program.id]);
+    const weekSql = `
+      INSERT OR REPLACE INTO program_weeks
+      (programId, weekNumber, intensityPercent, volumePercent, isDeload)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+
+    weeks.forEach((week) => {
+      tx.executeSql(weekSql, [
+        week.programId,
+        week.weekNumber,
+        week.intensityPercent,
+        week.volumePercent,
+        week.isDeload ? 1 : 0,
+      ]);
+    });
   });
 };
 
@@ -713,7 +935,10 @@ export const insertProgramWithDays = async (
  * Delete a program
  */
 export const deleteProgram = async (programId: string): Promise<void> => {
-  await executeSql('DELETE FROM weekly_programs WHERE id = ?', [programId]);
+  await executeTransaction((tx) => {
+    tx.executeSql('DELETE FROM program_weeks WHERE programId = ?', [programId]);
+    tx.executeSql('DELETE FROM weekly_programs WHERE id = ?', [programId]);
+  });
 };
 
 /**
@@ -736,6 +961,20 @@ export const setProgramActive = async (
   );
 };
 
+/**
+ * Set the current week of a program and when it started
+ */
+export const setProgramCurrentWeek = async (
+  programId: string,
+  currentWeek: number,
+  weekStartedAt: number
+): Promise<void> => {
+  await executeSql(
+    'UPDATE weekly_programs SET currentWeek = ?, weekStartedAt = ? WHERE id = ?',
+    [currentWeek, weekStartedAt, programId]
+  );
+};
+
 /**
  * Activate a program (set all others inactive and set this one active)
  */
@@ -777,6 +1016,18 @@ const mapSessionResults = (results: any[]): WorkoutSessionEntity[] => {
         eccentricLoad: row.eccentricLoad,
         echoLevel: row.echoLevel,
         exerciseId: row.exerciseId,
+        stopReason: row.stopReason ?? null,
+        loadAsymmetryPercent: row.loadAsymmetryPercent ?? null,
+        romAsymmetryPercent: row.romAsymmetryPercent ?? null,
+        timingOffsetMs: row.timingOffsetMs ?? null,
+        setType: row.setType ?? 'reps',
+        targetDurationSeconds: row.targetDurationSeconds ?? null,
+        timeUnderTensionMs: row.timeUnderTensionMs ?? null,
+        holdLoadKg: row.holdLoadKg ?? null,
+        loadVariationPercent: row.loadVariationPercent ?? null,
+        positionVariationMm: row.positionVariationMm ?? null,
+        routineId: row.routineId ?? null,
+        routineExerciseId: row.routineExerciseId ?? null,
       });
     }
   }
@@ -810,6 +1061,40 @@ const mapMetricResults = (results: any[]): WorkoutMetricEntity[] => {
   return metrics;
 };
 
+/**
+ * Map SQL results to WorkoutRepEntity array
+ */
+const mapRepResults = (results: any[]): WorkoutRepEntity[] => {
+  const reps: WorkoutRepEntity[] = [];
+
+  if (results && results.length > 0) {
+    const resultSet = results[0];
+    for (let i = 0; i < resultSet.rows.length; i++) {
+      const row = resultSet.rows.item(i);
+      reps.push({
+        id: row.id,
+        sessionId: row.sessionId,
+        repIndex: row.repIndex,
+        isWarmup: row.isWarmup === 1,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        topPositionA: row.topPositionA,
+        topPositionB: row.topPositionB,
+        bottomPositionA: row.bottomPositionA,
+        bottomPositionB: row.bottomPositionB,
+        peakLoadA: row.peakLoadA,
+        peakLoadB: row.peakLoadB,
+        meanConcentricVelocity: row.meanConcentricVelocity ?? null,
+        peakConcentricVelocity: row.peakConcentricVelocity ?? null,
+        meanConcentricPower: row.meanConcentricPower ?? null,
+        timeUnderTensionMs: row.timeUnderTensionMs ?? null,
+      });
+    }
+  }
+
+  return reps;
+};
+
 /**
  * Map SQL results to RoutineEntity array
  */
@@ -864,6 +1149,24 @@ const mapRoutineExerciseResults = (results: any[]): RoutineExerciseEntity[] => {
         restSeconds: row.restSeconds,
         notes: row.notes,
         duration: row.duration,
+        progressionScheme: row.progressionScheme ?? 'none',
+        progressionIncrementKg: row.progressionIncrementKg ?? 1,
+        repRangeMin: row.repRangeMin ?? null,
+        repRangeMax: row.repRangeMax ?? null,
+        targetRpe: row.targetRpe ?? null,
+        groupId: row.groupId ?? null,
+        groupType: row.groupType ?? null,
+        groupExerciseRestSeconds: row.groupExerciseRestSeconds ?? null,
+        groupRoundRestSeconds: row.groupRoundRestSeconds ?? null,
+        setType: row.setType ?? 'reps',
+        setModes: row.setModes ?? '',
+        dropCount: row.dropCount ?? 0,
+        dropTrigger: row.dropTrigger ?? 'reps',
+        dropReduction: row.dropReduction ?? 'percent',
+        dropAmount: row.dropAmount ?? 20,
+        dropReps: row.dropReps ?? 6,
+        dropLastSetOnly: (row.dropLastSetOnly ?? 1) === 1,
+        velocityLossPercent: row.velocityLossPercent ?? null,
       });
     }
   }
@@ -888,6 +1191,9 @@ const mapProgramResults = (results: any[]): WeeklyProgramEntity[] => {
         isActive: row.isActive === 1,
         lastUsed: row.lastUsed,
         createdAt: row.createdAt,
+        weekCount: row.weekCount ?? 1,
+        currentWeek: row.currentWeek ?? 1,
+        weekStartedAt: row.weekStartedAt ?? null,
       });
     }
   }
@@ -916,3 +1222,27 @@ const mapProgramDayResults = (results: any[]): ProgramDayEntity[] => {
 
   return days;
 };
+
+/**
+ * Map SQL results to ProgramWeekEntity array
+ */
+const mapProgramWeekResults = (results: any[]): ProgramWeekEntity[] => {
+  const weeks: ProgramWeekEntity[] = [];
+
+  if (results && results.length > 0) {
+    const resultSet = results[0];
+    for (let i = 0; i < resultSet.rows.length; i++) {
+      const row = resultSet.rows.item(i);
+      weeks.push({
+        id: row.id,
+        programId: row.programId,
+        weekNumber: row.weekNumber,
+        intensityPercent: row.intensityPercent ?? 100,
+        volumePercent: row.volumePercent ?? 100,
+        isDeload: row.isDeload === 1,
+      });
+    }
+  }
+
+  return weeks;
+};
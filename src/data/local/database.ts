@@ -3,6 +3,21 @@
  * Migrated from Android Room WorkoutDatabase
  *
  * Version history:
+ * - v30: Added routineId and routineExerciseId to workout_sessions for the routine a set was part of
+ * - v29: Added velocityLossPercent to routine_exercises for velocity-loss set termination in routines
+ * - v28: Added the exercises_fts full-text index of exercises for library search
+ * - v27: Added isCustom, cableConfig and notes to exercises for user-defined custom exercises
+ * - v26: Added catalogVersion to exercises for versioned updates of the bundled exercise catalog
+ * - v25: Added per-set modes and drop set columns to routine_exercises
+ * - v24: Added setType to routine_exercises and timed/isometric set summary columns to workout_sessions
+ * - v23: Added exercise group columns to routine_exercises for supersets, circuits and giant sets
+ * - v22: Added mesocycle fields to weekly_programs and ProgramWeekEntity for multi-week programs
+ * - v21: Added progression settings to routine_exercises and ProgressionLogEntity for auto-progression
+ * - v20: Added category, value, recordKey and sessionId to personal_records for PR categories
+ * - v19: Added OneRepMaxEstimateEntity for estimated one-rep max history
+ * - v18: Added WorkoutRepEntity for per-rep records
+ * - v17: Added left/right asymmetry columns to workout_sessions
+ * - v16: Added stopReason to workout_sessions for velocity-loss and other set terminations
  * - v15: Added exerciseId to workout_sessions for PR tracking
  * - v14: Added ConnectionLogEntity for Bluetooth connection debugging
  * - v13: Added eccentricLoad and echoLevel to workout_sessions for Echo mode persistence
@@ -13,6 +28,9 @@
  * - v8: Schema cleanup for routine_exercises
  * - v7: Added exercise detail fields to RoutineExerciseEntity
  * - v6: Added ExerciseEntity and ExerciseVideoEntity for exercise library
+ *
+ * Columns added to existing tables are also listed in COLUMNS_ADDED, so backups from older
+ * versions can be upgraded in a database with the schema they were taken at.
  */
 
 import SQLite from 'react-native-sqlite-storage';
@@ -22,7 +40,24 @@ import type { Database, Transaction, ResultSet } from 'react-native-sqlite-stora
 SQLite.enablePromise(true);
 
 const DATABASE_NAME = 'workout_database.db';
-const DATABASE_VERSION = 15;
+export const DATABASE_VERSION = 30;
+
+// Scratch database that backups from older schema versions are upgraded in
+const UPGRADE_DATABASE_NAME = 'backup_upgrade.db';
+
+// Oldest schema version backups were taken at (backups came with v25)
+export const OLDEST_BACKUP_DATABASE_VERSION = 25;
+
+// Columns added to tables since OLDEST_BACKUP_DATABASE_VERSION, by the version that added them
+const COLUMNS_ADDED: Array<{ version: number; table: string; columns: string[] }> = [
+  { version: 30, table: 'workout_sessions', columns: ['routineId', 'routineExerciseId'] },
+  { version: 29, table: 'routine_exercises', columns: ['velocityLossPercent'] },
+  { version: 27, table: 'exercises', columns: ['isCustom', 'cableConfig', 'notes'] },
+  { version: 26, table: 'exercises', columns: ['catalogVersion'] },
+];
+
+// First version with the exercises_fts search index
+const EXERCISE_SEARCH_INDEX_VERSION = 28;
 
 let databaseInstance: Database | null = null;
 
@@ -74,9 +109,10 @@ const initializeDatabase = async (db: Database): Promise<void> => {
 };
 
 /**
- * Create all database tables
+ * Create all database tables, as they are in the current version or in an older one
+ * (back to OLDEST_BACKUP_DATABASE_VERSION)
  */
-const createTables = async (db: Database): Promise<void> => {
+const createTables = async (db: Database, version: number = DATABASE_VERSION): Promise<void> => {
   const tables = [
     // Workout sessions table
     `CREATE TABLE IF NOT EXISTS workout_sessions (
@@ -94,7 +130,19 @@ const createTables = async (db: Database): Promise<void> => {
       stopAtTop INTEGER NOT NULL,
       eccentricLoad INTEGER DEFAULT 100,
       echoLevel INTEGER DEFAULT 2,
-      exerciseId TEXT
+      exerciseId TEXT,
+      stopReason TEXT,
+      loadAsymmetryPercent REAL,
+      romAsymmetryPercent REAL,
+      timingOffsetMs REAL,
+      setType TEXT DEFAULT 'reps',
+      targetDurationSeconds INTEGER,
+      timeUnderTensionMs INTEGER,
+      holdLoadKg REAL,
+      loadVariationPercent REAL,
+      positionVariationMm REAL,
+      routineId TEXT,
+      routineExerciseId TEXT
     )`,
 
     // Workout metrics table
@@ -110,6 +158,27 @@ const createTables = async (db: Database): Promise<void> => {
       FOREIGN KEY (sessionId) REFERENCES workout_sessions(id) ON DELETE CASCADE
     )`,
 
+    // Workout reps table
+    `CREATE TABLE IF NOT EXISTS workout_reps (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sessionId TEXT NOT NULL,
+      repIndex INTEGER NOT NULL,
+      isWarmup INTEGER NOT NULL,
+      startTime INTEGER NOT NULL,
+      endTime INTEGER NOT NULL,
+      topPositionA INTEGER NOT NULL,
+      topPositionB INTEGER NOT NULL,
+      bottomPositionA INTEGER NOT NULL,
+      bottomPositionB INTEGER NOT NULL,
+      peakLoadA REAL NOT NULL,
+      peakLoadB REAL NOT NULL,
+      meanConcentricVelocity REAL,
+      peakConcentricVelocity REAL,
+      meanConcentricPower REAL,
+      timeUnderTensionMs INTEGER,
+      FOREIGN KEY (sessionId) REFERENCES workout_sessions(id) ON DELETE CASCADE
+    )`,
+
     // Routines table
     `CREATE TABLE IF NOT EXISTS routines (
       id TEXT PRIMARY KEY,
@@ -141,9 +210,45 @@ const createTables = async (db: Database): Promise<void> => {
       restSeconds INTEGER DEFAULT 60,
       notes TEXT DEFAULT '',
       duration INTEGER,
+      progressionScheme TEXT DEFAULT 'none',
+      progressionIncrementKg REAL DEFAULT 1,
+      repRangeMin INTEGER,
+      repRangeMax INTEGER,
+      targetRpe REAL,
+      groupId TEXT,
+      groupType TEXT,
+      groupExerciseRestSeconds INTEGER,
+      groupRoundRestSeconds INTEGER,
+      setType TEXT DEFAULT 'reps',
+      setModes TEXT DEFAULT '',
+      dropCount INTEGER DEFAULT 0,
+      dropTrigger TEXT DEFAULT 'reps',
+      dropReduction TEXT DEFAULT 'percent',
+      dropAmount REAL DEFAULT 20,
+      dropReps INTEGER DEFAULT 6,
+      dropLastSetOnly INTEGER DEFAULT 1,
+      velocityLossPercent REAL,
       FOREIGN KEY (routineId) REFERENCES routines(id) ON DELETE CASCADE
     )`,
 
+    // Progression audit trail table
+    `CREATE TABLE IF NOT EXISTS progression_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      routineId TEXT NOT NULL,
+      routineExerciseId TEXT NOT NULL,
+      exerciseId TEXT,
+      exerciseName TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      scheme TEXT NOT NULL,
+      previousWeightPerCableKg REAL NOT NULL,
+      newWeightPerCableKg REAL NOT NULL,
+      previousSetReps TEXT NOT NULL,
+      newSetReps TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      sessionIds TEXT DEFAULT '',
+      applied INTEGER NOT NULL
+    )`,
+
     // Exercises library table
     `CREATE TABLE IF NOT EXISTS exercises (
       id TEXT PRIMARY KEY,
@@ -162,7 +267,11 @@ const createTables = async (db: Database): Promise<void> => {
       archived INTEGER NOT NULL,
       isFavorite INTEGER DEFAULT 0,
       timesPerformed INTEGER DEFAULT 0,
-      lastPerformed INTEGER
+      lastPerformed INTEGER,
+      catalogVersion INTEGER,
+      isCustom INTEGER DEFAULT 0,
+      cableConfig TEXT,
+      notes TEXT
     )`,
 
     // Exercise videos table
@@ -183,7 +292,25 @@ const createTables = async (db: Database): Promise<void> => {
       reps INTEGER NOT NULL,
       timestamp INTEGER NOT NULL,
       workoutMode TEXT NOT NULL,
-      UNIQUE(exerciseId, workoutMode)
+      category TEXT NOT NULL DEFAULT 'max_weight',
+      value REAL NOT NULL DEFAULT 0,
+      recordKey REAL NOT NULL DEFAULT 0,
+      sessionId TEXT,
+      UNIQUE(exerciseId, workoutMode, category, recordKey)
+    )`,
+
+    // Estimated one-rep max history table
+    `CREATE TABLE IF NOT EXISTS one_rep_max_estimates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sessionId TEXT NOT NULL,
+      exerciseId TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      formula TEXT NOT NULL,
+      weightPerCableKg REAL NOT NULL,
+      reps INTEGER NOT NULL,
+      estimatedOneRepMaxKg REAL NOT NULL,
+      UNIQUE(sessionId, formula),
+      FOREIGN KEY (sessionId) REFERENCES workout_sessions(id) ON DELETE CASCADE
     )`,
 
     // Weekly programs table
@@ -193,7 +320,10 @@ const createTables = async (db: Database): Promise<void> => {
       notes TEXT,
       isActive INTEGER DEFAULT 0,
       lastUsed INTEGER,
-      createdAt INTEGER NOT NULL
+      createdAt INTEGER NOT NULL,
+      weekCount INTEGER DEFAULT 1,
+      currentWeek INTEGER DEFAULT 1,
+      weekStartedAt INTEGER
     )`,
 
     // Program days table
@@ -206,6 +336,18 @@ const createTables = async (db: Database): Promise<void> => {
       FOREIGN KEY (routineId) REFERENCES routines(id) ON DELETE CASCADE
     )`,
 
+    // Program weeks table
+    `CREATE TABLE IF NOT EXISTS program_weeks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      programId TEXT NOT NULL,
+      weekNumber INTEGER NOT NULL,
+      intensityPercent REAL DEFAULT 100,
+      volumePercent REAL DEFAULT 100,
+      isDeload INTEGER DEFAULT 0,
+      UNIQUE(programId, weekNumber),
+      FOREIGN KEY (programId) REFERENCES weekly_programs(id) ON DELETE CASCADE
+    )`,
+
     // Connection logs table
     `CREATE TABLE IF NOT EXISTS connection_logs (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -222,11 +364,34 @@ const createTables = async (db: Database): Promise<void> => {
 
   // Create all tables
   for (const tableSQL of tables) {
-    await db.executeSql(tableSQL);
+    await db.executeSql(withoutColumnsAddedAfter(tableSQL, version));
   }
 
   // Create indexes
   await createIndexes(db);
+  if (version >= EXERCISE_SEARCH_INDEX_VERSION) {
+    await createExerciseSearchIndex(db);
+  }
+};
+
+/**
+ * CREATE TABLE statement without the columns added after the given version
+ * (column definitions are one per line)
+ */
+const withoutColumnsAddedAfter = (tableSQL: string, version: number): string => {
+  const table = tableSQL.match(/CREATE TABLE IF NOT EXISTS (\w+)/)?.[1];
+  const laterColumns = COLUMNS_ADDED.filter((added) => added.table === table && added.version > version).flatMap(
+    (added) => added.columns
+  );
+  if (laterColumns.length === 0) {
+    return tableSQL;
+  }
+
+  return tableSQL
+    .split('\n')
+    .filter((line) => !laterColumns.includes(line.trim().split(/\s+/)[0]))
+    .join('\n')
+    .replace(/,(\s*\))$/, '$1');
 };
 
 /**
@@ -235,7 +400,10 @@ const createTables = async (db: Database): Promise<void> => {
 const createIndexes = async (db: Database): Promise<void> => {
   const indexes = [
     'CREATE INDEX IF NOT EXISTS idx_workout_metrics_sessionId ON workout_metrics(sessionId)',
+    'CREATE INDEX IF NOT EXISTS idx_workout_reps_sessionId ON workout_reps(sessionId)',
+    'CREATE INDEX IF NOT EXISTS idx_one_rep_max_estimates_exercise ON one_rep_max_estimates(exerciseId, formula)',
     'CREATE INDEX IF NOT EXISTS idx_routine_exercises_routineId ON routine_exercises(routineId)',
+    'CREATE INDEX IF NOT EXISTS idx_progression_log_routineId ON progression_log(routineId, timestamp)',
     'CREATE INDEX IF NOT EXISTS idx_exercise_videos_exerciseId ON exercise_videos(exerciseId)',
     'CREATE INDEX IF NOT EXISTS idx_program_days_programId ON program_days(programId)',
     'CREATE INDEX IF NOT EXISTS idx_program_days_routineId ON program_days(routineId)',
@@ -247,6 +415,38 @@ const createIndexes = async (db: Database): Promise<void> => {
   }
 };
 
+/**
+ * Create the full-text index of exercise names, descriptions, muscles and notes.
+ * The index reads its text from the exercises table and is kept in sync by triggers;
+ * exercises_fts_terms lists the indexed words for typo-tolerant search.
+ */
+const createExerciseSearchIndex = async (db: Database): Promise<void> => {
+  const statements = [
+    `CREATE VIRTUAL TABLE IF NOT EXISTS exercises_fts USING fts4(
+      content="exercises", name, description, muscles, notes
+    )`,
+    'CREATE VIRTUAL TABLE IF NOT EXISTS exercises_fts_terms USING fts4aux(exercises_fts)',
+    `CREATE TRIGGER IF NOT EXISTS exercises_fts_before_update BEFORE UPDATE ON exercises BEGIN
+      DELETE FROM exercises_fts WHERE docid = old.rowid;
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS exercises_fts_before_delete BEFORE DELETE ON exercises BEGIN
+      DELETE FROM exercises_fts WHERE docid = old.rowid;
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS exercises_fts_after_update AFTER UPDATE ON exercises BEGIN
+      INSERT INTO exercises_fts(docid, name, description, muscles, notes)
+      VALUES (new.rowid, new.name, new.description, new.muscles, new.notes);
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS exercises_fts_after_insert AFTER INSERT ON exercises BEGIN
+      INSERT INTO exercises_fts(docid, name, description, muscles, notes)
+      VALUES (new.rowid, new.name, new.description, new.muscles, new.notes);
+    END`,
+  ];
+
+  for (const statement of statements) {
+    await db.executeSql(statement);
+  }
+};
+
 /**
  * Get current database version
  */
@@ -280,6 +480,330 @@ const performMigrations = async (
 ): Promise<void> => {
   console.log(`Migrating database from version ${fromVersion} to ${toVersion}`);
 
+  if (fromVersion < 30) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN routineId TEXT
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN routineExerciseId TEXT
+      `);
+    } catch (error) {
+      console.log('Session routine columns might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 29) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN velocityLossPercent REAL
+      `);
+    } catch (error) {
+      console.log('Routine velocityLossPercent column might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 27) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE exercises ADD COLUMN isCustom INTEGER DEFAULT 0
+      `);
+      await db.executeSql(`
+        ALTER TABLE exercises ADD COLUMN cableConfig TEXT
+      `);
+      await db.executeSql(`
+        ALTER TABLE exercises ADD COLUMN notes TEXT
+      `);
+    } catch (error) {
+      console.log('Custom exercise columns might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 26) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE exercises ADD COLUMN catalogVersion INTEGER
+      `);
+    } catch (error) {
+      console.log('Exercise catalogVersion column might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 25) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN setModes TEXT DEFAULT ''
+      `);
+    } catch (error) {
+      console.log('Routine exercise setModes column might already exist, skipping...');
+    }
+
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropCount INTEGER DEFAULT 0
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropTrigger TEXT DEFAULT 'reps'
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropReduction TEXT DEFAULT 'percent'
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropAmount REAL DEFAULT 20
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropReps INTEGER DEFAULT 6
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN dropLastSetOnly INTEGER DEFAULT 1
+      `);
+    } catch (error) {
+      console.log('Drop set columns might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 24) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN setType TEXT DEFAULT 'reps'
+      `);
+    } catch (error) {
+      console.log('Routine exercise setType column might already exist, skipping...');
+    }
+
+    try {
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN setType TEXT DEFAULT 'reps'
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN targetDurationSeconds INTEGER
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN timeUnderTensionMs INTEGER
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN holdLoadKg REAL
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN loadVariationPercent REAL
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN positionVariationMm REAL
+      `);
+    } catch (error) {
+      console.log('Duration set summary columns might already exist, skipping...');
+    }
+  }
+
+  if (fromVersion < 23) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN groupId TEXT
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN groupType TEXT
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN groupExerciseRestSeconds INTEGER
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN groupRoundRestSeconds INTEGER
+      `);
+    } catch (error) {
+      console.log('Exercise group columns might already exist, skipping...');
+    }
+  }
+
+  // Migration from v21 to v22: Add mesocycle fields and program_weeks table
+  if (fromVersion < 22) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE weekly_programs ADD COLUMN weekCount INTEGER DEFAULT 1
+      `);
+      await db.executeSql(`
+        ALTER TABLE weekly_programs ADD COLUMN currentWeek INTEGER DEFAULT 1
+      `);
+      await db.executeSql(`
+        ALTER TABLE weekly_programs ADD COLUMN weekStartedAt INTEGER
+      `);
+    } catch (error) {
+      console.log('Mesocycle columns might already exist, skipping...');
+    }
+    await db.executeSql(`
+      CREATE TABLE IF NOT EXISTS program_weeks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        programId TEXT NOT NULL,
+        weekNumber INTEGER NOT NULL,
+        intensityPercent REAL DEFAULT 100,
+        volumePercent REAL DEFAULT 100,
+        isDeload INTEGER DEFAULT 0,
+        UNIQUE(programId, weekNumber),
+        FOREIGN KEY (programId) REFERENCES weekly_programs(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Migration v21 -> v22: Added mesocycle fields and program_weeks table');
+  }
+
+  // Migration from v20 to v21: Add progression settings and progression_log table
+  if (fromVersion < 21) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN progressionScheme TEXT DEFAULT 'none'
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN progressionIncrementKg REAL DEFAULT 1
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN repRangeMin INTEGER
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN repRangeMax INTEGER
+      `);
+      await db.executeSql(`
+        ALTER TABLE routine_exercises ADD COLUMN targetRpe REAL
+      `);
+    } catch (error) {
+      console.log('Progression columns might already exist, skipping...');
+    }
+    await db.executeSql(`
+      CREATE TABLE IF NOT EXISTS progression_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        routineId TEXT NOT NULL,
+        routineExerciseId TEXT NOT NULL,
+        exerciseId TEXT,
+        exerciseName TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        scheme TEXT NOT NULL,
+        previousWeightPerCableKg REAL NOT NULL,
+        newWeightPerCableKg REAL NOT NULL,
+        previousSetReps TEXT NOT NULL,
+        newSetReps TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        sessionIds TEXT DEFAULT '',
+        applied INTEGER NOT NULL
+      )
+    `);
+    await db.executeSql(
+      'CREATE INDEX IF NOT EXISTS idx_progression_log_routineId ON progression_log(routineId, timestamp)'
+    );
+    console.log('Migration v20 -> v21: Added progression settings and progression_log table');
+  }
+
+  // Migration from v19 to v20: Rebuild personal_records with PR categories
+  // (the unique constraint changes, which SQLite can only do by recreating the table)
+  if (fromVersion < 20) {
+    await db.executeSql(`
+      CREATE TABLE IF NOT EXISTS personal_records_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        exerciseId TEXT NOT NULL,
+        weightPerCableKg REAL NOT NULL,
+        reps INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        workoutMode TEXT NOT NULL,
+        category TEXT NOT NULL DEFAULT 'max_weight',
+        value REAL NOT NULL DEFAULT 0,
+        recordKey REAL NOT NULL DEFAULT 0,
+        sessionId TEXT,
+        UNIQUE(exerciseId, workoutMode, category, recordKey)
+      )
+    `);
+    try {
+      // Existing records are max-weight records
+      await db.executeSql(`
+        INSERT OR IGNORE INTO personal_records_new
+        (id, exerciseId, weightPerCableKg, reps, timestamp, workoutMode, category, value, recordKey)
+        SELECT id, exerciseId, weightPerCableKg, reps, timestamp, workoutMode, 'max_weight', weightPerCableKg, 0
+        FROM personal_records
+      `);
+    } catch (error) {
+      console.log('No personal_records table to copy, skipping...');
+    }
+    await db.executeSql('DROP TABLE IF EXISTS personal_records');
+    await db.executeSql('ALTER TABLE personal_records_new RENAME TO personal_records');
+    console.log('Migration v19 -> v20: Added PR categories to personal_records');
+  }
+
+  // Migration from v18 to v19: Add one_rep_max_estimates table
+  if (fromVersion < 19) {
+    await db.executeSql(`
+      CREATE TABLE IF NOT EXISTS one_rep_max_estimates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sessionId TEXT NOT NULL,
+        exerciseId TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        formula TEXT NOT NULL,
+        weightPerCableKg REAL NOT NULL,
+        reps INTEGER NOT NULL,
+        estimatedOneRepMaxKg REAL NOT NULL,
+        UNIQUE(sessionId, formula),
+        FOREIGN KEY (sessionId) REFERENCES workout_sessions(id) ON DELETE CASCADE
+      )
+    `);
+    await db.executeSql(
+      'CREATE INDEX IF NOT EXISTS idx_one_rep_max_estimates_exercise ON one_rep_max_estimates(exerciseId, formula)'
+    );
+    console.log('Migration v18 -> v19: Created one_rep_max_estimates table');
+  }
+
+  // Migration from v17 to v18: Add workout_reps table
+  if (fromVersion < 18) {
+    await db.executeSql(`
+      CREATE TABLE IF NOT EXISTS workout_reps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sessionId TEXT NOT NULL,
+        repIndex INTEGER NOT NULL,
+        isWarmup INTEGER NOT NULL,
+        startTime INTEGER NOT NULL,
+        endTime INTEGER NOT NULL,
+        topPositionA INTEGER NOT NULL,
+        topPositionB INTEGER NOT NULL,
+        bottomPositionA INTEGER NOT NULL,
+        bottomPositionB INTEGER NOT NULL,
+        peakLoadA REAL NOT NULL,
+        peakLoadB REAL NOT NULL,
+        meanConcentricVelocity REAL,
+        peakConcentricVelocity REAL,
+        meanConcentricPower REAL,
+        timeUnderTensionMs INTEGER,
+        FOREIGN KEY (sessionId) REFERENCES workout_sessions(id) ON DELETE CASCADE
+      )
+    `);
+    await db.executeSql(
+      'CREATE INDEX IF NOT EXISTS idx_workout_reps_sessionId ON workout_reps(sessionId)'
+    );
+    console.log('Migration v17 -> v18: Created workout_reps table');
+  }
+
+  // Migration from v16 to v17: Add asymmetry columns to workout_sessions
+  if (fromVersion < 17) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN loadAsymmetryPercent REAL
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN romAsymmetryPercent REAL
+      `);
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN timingOffsetMs REAL
+      `);
+      console.log('Migration v16 -> v17: Added asymmetry columns to workout_sessions');
+    } catch (error) {
+      console.log('Asymmetry columns might already exist, skipping...');
+    }
+  }
+
+  // Migration from v15 to v16: Add stopReason to workout_sessions
+  if (fromVersion < 16) {
+    try {
+      await db.executeSql(`
+        ALTER TABLE workout_sessions ADD COLUMN stopReason TEXT
+      `);
+      console.log('Migration v15 -> v16: Added stopReason to workout_sessions');
+    } catch (error) {
+      console.log('Column stopReason might already exist, skipping...');
+    }
+  }
+
   // Migration from v14 to v15: Add exerciseId to workout_sessions
   if (fromVersion < 15) {
     try {
@@ -328,6 +852,24 @@ const performMigrations = async (
     }
   }
 
+  // Runs after the column migrations above, as the index reads the notes column added in v27.
+  // The index and triggers are created only if missing, so a failed rebuild is a real error.
+  // A database without an exercises table has nothing to index.
+  if (fromVersion < 28) {
+    const [exercisesTable] = await db.executeSql(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'exercises'"
+    );
+    if (exercisesTable.rows.length > 0) {
+      await createExerciseSearchIndex(db);
+      // Index the exercises that already exist
+      await db.executeSql(`
+        INSERT INTO exercises_fts(exercises_fts) VALUES('rebuild')
+      `);
+    } else {
+      console.log('No exercises table to index, skipping exercise search index...');
+    }
+  }
+
   // Add more migrations as needed for earlier versions
   // For now, if migrating from much older versions, recommend fresh install
   if (fromVersion < 12) {
@@ -338,6 +880,144 @@ const performMigrations = async (
   }
 };
 
+/**
+ * Schema and rows of one table
+ */
+export interface TableDump {
+  name: string;
+  sql: string; // CREATE TABLE statement of the table
+  columns: string[];
+  rows: unknown[][]; // Values in column order
+}
+
+/**
+ * Read the schema and rows of the given tables (tables that do not exist are left out).
+ * Rows of a table can be limited by a WHERE condition.
+ */
+const readTableDumps = async (
+  db: Database,
+  tableNames: string[],
+  conditions: Record<string, string> = {}
+): Promise<TableDump[]> => {
+  const dumps: TableDump[] = [];
+
+  for (const name of tableNames) {
+    const [schema] = await db.executeSql("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?", [name]);
+    if (schema.rows.length === 0) {
+      continue;
+    }
+
+    const [columnInfo] = await db.executeSql(`PRAGMA table_info(${name})`);
+    const columns: string[] = [];
+    for (let i = 0; i < columnInfo.rows.length; i++) {
+      columns.push(columnInfo.rows.item(i).name);
+    }
+
+    const where = conditions[name] ? ` WHERE ${conditions[name]}` : '';
+    const [data] = await db.executeSql(`SELECT * FROM ${name}${where}`);
+    const rows: unknown[][] = [];
+    for (let i = 0; i < data.rows.length; i++) {
+      const row = data.rows.item(i);
+      rows.push(columns.map((column) => row[column] ?? null));
+    }
+
+    dumps.push({ name, sql: schema.rows.item(0).sql, columns, rows });
+  }
+
+  return dumps;
+};
+
+/**
+ * Dump tables of the database, optionally limiting the rows of some tables
+ */
+export const dumpTables = async (
+  tableNames: string[],
+  conditions: Record<string, string> = {}
+): Promise<TableDump[]> => {
+  return readTableDumps(await getDatabase(), tableNames, conditions);
+};
+
+/**
+ * Upgrade table dumps taken at an older schema version to the current one. A scratch database
+ * gets the complete schema of that version, the dumped tables are loaded into it and the
+ * regular migrations run over it.
+ */
+export const upgradeTableDumps = async (dumps: TableDump[], fromVersion: number): Promise<TableDump[]> => {
+  if (fromVersion >= DATABASE_VERSION) {
+    return dumps;
+  }
+  if (fromVersion < OLDEST_BACKUP_DATABASE_VERSION) {
+    throw new Error(`Backups from database version ${fromVersion} cannot be upgraded`);
+  }
+
+  // Start from an empty scratch database with the schema the dumps were taken at
+  await deleteUpgradeDatabase();
+  const db = await SQLite.openDatabase({ name: UPGRADE_DATABASE_NAME, location: 'default' });
+
+  try {
+    await createTables(db, fromVersion);
+
+    for (const dump of dumps) {
+      // The dump's own statement is the table as it was backed up
+      await db.executeSql(`DROP TABLE IF EXISTS ${dump.name}`);
+      await db.executeSql(dump.sql);
+      const placeholders = dump.columns.map(() => '?').join(', ');
+      const insertSql = `INSERT INTO ${dump.name} (${dump.columns.join(', ')}) VALUES (${placeholders})`;
+      await new Promise<void>((resolve, reject) => {
+        db.transaction(
+          (tx) => dump.rows.forEach((row) => tx.executeSql(insertSql, row as any[])),
+          (error: any) => reject(error),
+          () => resolve()
+        );
+      });
+    }
+
+    await setDatabaseVersion(db, fromVersion);
+    await performMigrations(db, fromVersion, DATABASE_VERSION);
+
+    // Migrations may have added tables the dumps did not have yet
+    const [tables] = await db.executeSql(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+    );
+    const tableNames: string[] = [];
+    for (let i = 0; i < tables.rows.length; i++) {
+      tableNames.push(tables.rows.item(i).name);
+    }
+    return await readTableDumps(db, tableNames);
+  } finally {
+    await db.close();
+    await deleteUpgradeDatabase();
+  }
+};
+
+/**
+ * Dump the given tables, without rows, as they were in an older schema version
+ * (for checking that backups of that version still upgrade)
+ */
+export const dumpEmptyTablesAt = async (version: number, tableNames: string[]): Promise<TableDump[]> => {
+  await deleteUpgradeDatabase();
+  const db = await SQLite.openDatabase({ name: UPGRADE_DATABASE_NAME, location: 'default' });
+
+  try {
+    await createTables(db, version);
+    return await readTableDumps(db, tableNames);
+  } finally {
+    await db.close();
+    await deleteUpgradeDatabase();
+  }
+};
+
+/**
+ * Delete the scratch upgrade database if one is left over
+ */
+const deleteUpgradeDatabase = async (): Promise<void> => {
+  try {
+    await SQLite.deleteDatabase({ name: UPGRADE_DATABASE_NAME, location: 'default' });
+  } catch (error) {
+    // Nothing to delete
+  }
+};
+
 /**
  * Close database connection
  */
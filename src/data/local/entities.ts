@@ -3,6 +3,9 @@
  * Migrated from Android Room entities
  */
 
+import type { OneRepMaxFormula, PRCategory, SetStopReason, SetType } from '../../domain/models/Models';
+import type { CableConfiguration } from '../../domain/models/Exercise';
+
 /**
  * Entity for workout sessions
  */
@@ -22,6 +25,18 @@ export interface WorkoutSessionEntity {
   eccentricLoad: number; // Percentage (0, 50, 75, 100, 125, 150)
   echoLevel: number; // 1=Hard, 2=Harder, 3=Hardest, 4=Epic
   exerciseId: string | null; // Exercise library ID for PR tracking
+  stopReason: SetStopReason | null; // Why the set ended
+  loadAsymmetryPercent: number | null; // Left minus right mean concentric load, % of the stronger side
+  romAsymmetryPercent: number | null; // Left minus right range of motion, % of the longer side
+  timingOffsetMs: number | null; // Left top time minus right top time
+  setType: SetType; // 'reps', 'timed' or 'isometric'
+  targetDurationSeconds: number | null; // Duration of a timed or isometric set
+  timeUnderTensionMs: number | null; // Working reps of a timed set, time under load of an isometric hold
+  holdLoadKg: number | null; // Mean per-cable load of an isometric hold
+  loadVariationPercent: number | null; // Load standard deviation of a hold, % of its mean
+  positionVariationMm: number | null; // Position standard deviation of a hold
+  routineId: string | null; // Routine the set was part of (null outside routines)
+  routineExerciseId: string | null; // Routine exercise the set was part of
 }
 
 /**
@@ -38,6 +53,28 @@ export interface WorkoutMetricEntity {
   ticks: number;
 }
 
+/**
+ * Entity for individual reps of a workout session
+ */
+export interface WorkoutRepEntity {
+  id?: number; // Auto-generated
+  sessionId: string;
+  repIndex: number;
+  isWarmup: boolean;
+  startTime: number;
+  endTime: number;
+  topPositionA: number;
+  topPositionB: number;
+  bottomPositionA: number;
+  bottomPositionB: number;
+  peakLoadA: number;
+  peakLoadB: number;
+  meanConcentricVelocity: number | null; // m/s
+  peakConcentricVelocity: number | null; // m/s
+  meanConcentricPower: number | null; // W
+  timeUnderTensionMs: number | null;
+}
+
 /**
  * Entity for workout routines
  */
@@ -75,6 +112,24 @@ export interface RoutineExerciseEntity {
   restSeconds: number;
   notes: string;
   duration: number | null; // Optional duration in seconds for duration-based sets
+  progressionScheme: string; // "none", "linear", "double" or "rpe"
+  progressionIncrementKg: number; // Weight step per cable between routine runs
+  repRangeMin: number | null;
+  repRangeMax: number | null;
+  targetRpe: number | null;
+  groupId: string | null; // Superset/circuit/giant set shared by adjacent exercises
+  groupType: string | null; // "superset", "circuit" or "giant_set"
+  groupExerciseRestSeconds: number | null; // Rest between exercises within a round
+  groupRoundRestSeconds: number | null; // Rest between rounds
+  setType: SetType; // 'reps', 'timed' (duration) or 'isometric' (hold for the duration)
+  setModes: string; // Optional per-set modes as comma-separated mode names (empty = exercise mode)
+  dropCount: number; // Weight drops after the set (0 = no drop set)
+  dropTrigger: string; // "reps" (after the reps) or "failure"
+  dropReduction: string; // "percent" or "fixed"
+  dropAmount: number; // Percent of the previous weight, or kg per cable
+  dropReps: number; // Working reps of each drop (reps trigger only)
+  dropLastSetOnly: boolean;
+  velocityLossPercent: number | null; // End the set once a rep is this % slower than the best (null = off)
 }
 
 /**
@@ -98,6 +153,10 @@ export interface ExerciseEntity {
   isFavorite: boolean;
   timesPerformed: number;
   lastPerformed: number | null;
+  catalogVersion: number | null; // Catalog version that last installed the exercise, null if not from the catalog
+  isCustom: boolean; // Created by the user rather than installed from the catalog
+  cableConfig: CableConfiguration | null; // Default cable configuration (null: both cables)
+  notes: string | null;
 }
 
 /**
@@ -122,6 +181,43 @@ export interface PersonalRecordEntity {
   reps: number;
   timestamp: number;
   workoutMode: string;
+  category: PRCategory;
+  value: number;
+  sessionId: string | null;
+}
+
+/**
+ * Entity for estimated one-rep max history (one row per session and formula)
+ */
+export interface OneRepMaxEstimateEntity {
+  id?: number; // Auto-generated
+  sessionId: string;
+  exerciseId: string;
+  timestamp: number;
+  formula: OneRepMaxFormula;
+  weightPerCableKg: number;
+  reps: number;
+  estimatedOneRepMaxKg: number;
+}
+
+/**
+ * Entity for the progression audit trail (one row per routine exercise and routine run)
+ */
+export interface ProgressionLogEntity {
+  id?: number; // Auto-generated
+  routineId: string;
+  routineExerciseId: string;
+  exerciseId: string | null;
+  exerciseName: string;
+  timestamp: number;
+  scheme: string;
+  previousWeightPerCableKg: number;
+  newWeightPerCableKg: number;
+  previousSetReps: string; // Comma-separated rep counts
+  newSetReps: string; // Comma-separated rep counts
+  reason: string;
+  sessionIds: string; // Comma-separated sessions the decision was based on
+  applied: boolean;
 }
 
 /**
@@ -134,6 +230,9 @@ export interface WeeklyProgramEntity {
   isActive: boolean;
   lastUsed: number | null;
   createdAt: number;
+  weekCount: number; // Length of the mesocycle (1 = the same week repeats)
+  currentWeek: number; // 1-based week of the mesocycle
+  weekStartedAt: number | null; // Start of the calendar week the current week began
 }
 
 /**
@@ -146,6 +245,18 @@ export interface ProgramDayEntity {
   routineId: string;
 }
 
+/**
+ * Entity for program weeks - per-week modifiers of a multi-week program
+ */
+export interface ProgramWeekEntity {
+  id?: number; // Auto-generated
+  programId: string;
+  weekNumber: number; // 1-based
+  intensityPercent: number; // Scales routine weights (100 = as written)
+  volumePercent: number; // Scales the number of sets (100 = as written)
+  isDeload: boolean;
+}
+
 /**
  * Entity for storing Bluetooth connection debug logs
  */
@@ -162,9 +273,10 @@ export interface ConnectionLogEntity {
 }
 
 /**
- * Composite type for weekly program with its days
+ * Composite type for weekly program with its days and week modifiers
  */
 export interface WeeklyProgramWithDays {
   program: WeeklyProgramEntity;
   days: ProgramDayEntity[];
+  weeks: ProgramWeekEntity[]; // Weeks without an entry use the routines as written
 }
@@ -6,13 +6,16 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { EventEmitter } from 'events';
 import { UserPreferences, createDefaultUserPreferences } from '../../domain/models/UserPreferences';
-import { WeightUnit } from '../../domain/models/Models';
+import { OneRepMaxFormula, WeightUnit } from '../../domain/models/Models';
+import { ONE_REP_MAX_FORMULAS } from '../../domain/usecases/OneRepMaxEstimator';
 
 // AsyncStorage keys
 const STORAGE_KEYS = {
   WEIGHT_UNIT: '@vitruvian:weight_unit',
   AUTOPLAY_ENABLED: '@vitruvian:autoplay_enabled',
   STOP_AT_TOP: '@vitruvian:stop_at_top',
+  ONE_REP_MAX_FORMULA: '@vitruvian:one_rep_max_formula',
+  AUTO_APPLY_PROGRESSION: '@vitruvian:auto_apply_progression',
 } as const;
 
 /**
@@ -30,6 +33,8 @@ export interface IPreferencesManager {
   setWeightUnit(unit: WeightUnit): Promise<void>;
   setAutoplayEnabled(enabled: boolean): Promise<void>;
   setStopAtTop(enabled: boolean): Promise<void>;
+  setOneRepMaxFormula(formula: OneRepMaxFormula): Promise<void>;
+  setAutoApplyProgression(enabled: boolean): Promise<void>;
 
   // Bulk update
   updatePreferences(preferences: Partial<UserPreferences>): Promise<void>;
@@ -60,11 +65,14 @@ class PreferencesManagerImpl extends EventEmitter implements IPreferencesManager
       }
 
       // Load from AsyncStorage
-      const [weightUnitStr, autoplayStr, stopAtTopStr] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_UNIT),
-        AsyncStorage.getItem(STORAGE_KEYS.AUTOPLAY_ENABLED),
-        AsyncStorage.getItem(STORAGE_KEYS.STOP_AT_TOP),
-      ]);
+      const [weightUnitStr, autoplayStr, stopAtTopStr, oneRepMaxFormulaStr, autoApplyProgressionStr] =
+        await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_UNIT),
+          AsyncStorage.getItem(STORAGE_KEYS.AUTOPLAY_ENABLED),
+          AsyncStorage.getItem(STORAGE_KEYS.STOP_AT_TOP),
+          AsyncStorage.getItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA),
+          AsyncStorage.getItem(STORAGE_KEYS.AUTO_APPLY_PROGRESSION),
+        ]);
 
       // Parse and validate
       let weightUnit = WeightUnit.KG;
@@ -83,11 +91,17 @@ class PreferencesManagerImpl extends EventEmitter implements IPreferencesManager
 
       const autoplayEnabled = autoplayStr !== null ? autoplayStr === 'true' : true;
       const stopAtTop = stopAtTopStr !== null ? stopAtTopStr === 'true' : false;
+      const oneRepMaxFormula = ONE_REP_MAX_FORMULAS.includes(oneRepMaxFormulaStr as OneRepMaxFormula)
+        ? (oneRepMaxFormulaStr as OneRepMaxFormula)
+        : 'epley';
+      const autoApplyProgression = autoApplyProgressionStr === 'true';
 
       this.cachedPreferences = {
         weightUnit,
         autoplayEnabled,
         stopAtTop,
+        oneRepMaxFormula,
+        autoApplyProgression,
       };
 
       return this.cachedPreferences;
@@ -160,6 +174,46 @@ class PreferencesManagerImpl extends EventEmitter implements IPreferencesManager
     }
   }
 
+  /**
+   * Set the one-rep max formula preference
+   */
+  async setOneRepMaxFormula(formula: OneRepMaxFormula): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA, formula);
+      console.log(`[PreferencesManager] One-rep max formula preference set to: ${formula}`);
+
+      // Update cache
+      const prefs = await this.getPreferences();
+      this.cachedPreferences = { ...prefs, oneRepMaxFormula: formula };
+
+      // Emit change event
+      this.emit('preferencesChange', this.cachedPreferences);
+    } catch (error) {
+      console.error('[PreferencesManager] Failed to set one-rep max formula:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the auto-apply progression preference
+   */
+  async setAutoApplyProgression(enabled: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.AUTO_APPLY_PROGRESSION, enabled.toString());
+      console.log(`[PreferencesManager] Auto-apply progression preference set to: ${enabled}`);
+
+      // Update cache
+      const prefs = await this.getPreferences();
+      this.cachedPreferences = { ...prefs, autoApplyProgression: enabled };
+
+      // Emit change event
+      this.emit('preferencesChange', this.cachedPreferences);
+    } catch (error) {
+      console.error('[PreferencesManager] Failed to set auto-apply progression:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update multiple preferences at once
    */
@@ -179,6 +233,16 @@ class PreferencesManagerImpl extends EventEmitter implements IPreferencesManager
         updates.push(AsyncStorage.setItem(STORAGE_KEYS.STOP_AT_TOP, preferences.stopAtTop.toString()));
       }
 
+      if (preferences.oneRepMaxFormula !== undefined) {
+        updates.push(AsyncStorage.setItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA, preferences.oneRepMaxFormula));
+      }
+
+      if (preferences.autoApplyProgression !== undefined) {
+        updates.push(
+          AsyncStorage.setItem(STORAGE_KEYS.AUTO_APPLY_PROGRESSION, preferences.autoApplyProgression.toString())
+        );
+      }
+
       await Promise.all(updates);
       console.log('[PreferencesManager] Preferences updated:', preferences);
 
@@ -203,6 +267,8 @@ class PreferencesManagerImpl extends EventEmitter implements IPreferencesManager
         AsyncStorage.removeItem(STORAGE_KEYS.WEIGHT_UNIT),
         AsyncStorage.removeItem(STORAGE_KEYS.AUTOPLAY_ENABLED),
         AsyncStorage.removeItem(STORAGE_KEYS.STOP_AT_TOP),
+        AsyncStorage.removeItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA),
+        AsyncStorage.removeItem(STORAGE_KEYS.AUTO_APPLY_PROGRESSION),
       ]);
 
       console.log('[PreferencesManager] All preferences cleared');
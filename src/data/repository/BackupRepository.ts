@@ -0,0 +1,320 @@
+/**
+ * Backup Repository - Creates full backups of the training history and restores them
+ *
+ * Restores either merge a backup into the data on this phone or replace that data. Backups
+ * taken at an older database version are upgraded through the regular migrations first.
+ */
+
+import {
+  DATABASE_VERSION,
+  OLDEST_BACKUP_DATABASE_VERSION,
+  TableDump,
+  dumpEmptyTablesAt,
+  dumpTables,
+  upgradeTableDumps,
+} from '../local/database';
+import * as BackupDao from '../local/daos/backupDao';
+import * as ExerciseDao from '../local/daos/exerciseDao';
+import { getPreferencesManager } from '../preferences/PreferencesManager';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupArchive } from '../backup/BackupArchive';
+
+/**
+ * How a backup is restored
+ * - merge: add what this phone does not have yet, keeping its own data and preferences
+ * - replace: discard the data on this phone and restore the backup as it is
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * A row that exists both on this phone and in the backup with different contents (merge only)
+ */
+export interface RestoreConflict {
+  table: string;
+  key: string; // Row ID, or the exercise, mode and category of a personal record
+  resolution: 'kept_local' | 'kept_backup';
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreReport {
+  mode: RestoreMode;
+  backupDatabaseVersion: number;
+  upgraded: boolean; // Backup was migrated from an older database version
+  restored: Record<string, number>; // Rows written per table
+  conflicts: RestoreConflict[];
+}
+
+/**
+ * A table included in backups
+ */
+interface BackupTableSpec {
+  name: string;
+  autoId?: boolean; // ID is a row number, so merged rows get new ones
+  parent?: { table: string; column: string }; // Merged rows follow their parent row
+  uniqueColumns?: string[]; // Merge matches rows on these columns, keeping the higher `value`
+  where?: string; // Only rows matching this condition are backed up and replaced
+  sinceVersion?: number; // Database version the table was first backed up at
+}
+
+/**
+ * Tables included in backups (parents before their children)
+ */
+const BACKUP_TABLES: BackupTableSpec[] = [
+  { name: 'exercises', where: 'isCustom = 1', sinceVersion: 27 }, // Catalog exercises come with the app
+  { name: 'workout_sessions' },
+  { name: 'workout_metrics', autoId: true, parent: { table: 'workout_sessions', column: 'sessionId' } },
+  { name: 'workout_reps', autoId: true, parent: { table: 'workout_sessions', column: 'sessionId' } },
+  { name: 'one_rep_max_estimates', autoId: true, parent: { table: 'workout_sessions', column: 'sessionId' } },
+  {
+    name: 'personal_records',
+    autoId: true,
+    uniqueColumns: ['exerciseId', 'workoutMode', 'category', 'recordKey'],
+  },
+  { name: 'routines' },
+  { name: 'routine_exercises', parent: { table: 'routines', column: 'routineId' } },
+  { name: 'progression_log', autoId: true, parent: { table: 'routines', column: 'routineId' } },
+  { name: 'weekly_programs' },
+  { name: 'program_days', autoId: true, parent: { table: 'weekly_programs', column: 'programId' } },
+  { name: 'program_weeks', autoId: true, parent: { table: 'weekly_programs', column: 'programId' } },
+];
+
+/**
+ * Backup Repository interface
+ */
+export interface IBackupRepository {
+  createBackup(): Promise<BackupArchive>;
+  restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreReport>;
+  checkOlderBackupRestores(): Promise<void>;
+}
+
+/**
+ * Backup Repository implementation
+ */
+class BackupRepositoryImpl implements IBackupRepository {
+  constructor() {}
+
+  /**
+   * Back up every table with the user's data, the favorite exercises and the preferences
+   */
+  async createBackup(): Promise<BackupArchive> {
+    try {
+      const [tables, favorites, preferences] = await Promise.all([
+        dumpTables(
+          BACKUP_TABLES.map((spec) => spec.name),
+          Object.fromEntries(BACKUP_TABLES.filter((spec) => spec.where).map((spec) => [spec.name, spec.where!]))
+        ),
+        ExerciseDao.getFavorites(),
+        getPreferencesManager().getPreferences(),
+      ]);
+
+      console.log(`[BackupRepository] Created backup of ${tables.length} tables`);
+      return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        databaseVersion: DATABASE_VERSION,
+        tables,
+        favoriteExerciseIds: favorites.map((exercise) => exercise.id),
+        preferences,
+      };
+    } catch (error) {
+      console.error('[BackupRepository] Failed to create backup:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a backup, upgrading it to the current database version first
+   */
+  async restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreReport> {
+    if (archive.databaseVersion > DATABASE_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+
+    try {
+      const known = archive.tables.filter((table) => BACKUP_TABLES.some((spec) => spec.name === table.name));
+      const upgraded = archive.databaseVersion < DATABASE_VERSION;
+      const tables = upgraded ? await upgradeTableDumps(known, archive.databaseVersion) : known;
+
+      const report: RestoreReport = {
+        mode,
+        backupDatabaseVersion: archive.databaseVersion,
+        upgraded,
+        restored: {},
+        conflicts: [],
+      };
+
+      if (mode === 'replace') {
+        const rows = await Promise.all(BACKUP_TABLES.map((spec) => projectRows(spec, tables)));
+        await BackupDao.replaceAllRows(rows);
+        rows.forEach((entry) => (report.restored[entry.table] = entry.rows.length));
+        await ExerciseDao.setFavorites(archive.favoriteExerciseIds, true);
+        await getPreferencesManager().updatePreferences(archive.preferences);
+      } else {
+        const rows = await this.mergeRows(tables, report);
+        await BackupDao.insertRows(rows);
+        await ExerciseDao.setFavorites(archive.favoriteExerciseIds, false);
+      }
+
+      console.log(
+        `[BackupRepository] Restored backup (${mode}) with ${report.conflicts.length} conflicts` +
+          (upgraded ? ` after upgrading from v${archive.databaseVersion}` : '')
+      );
+      return report;
+    } catch (error) {
+      console.error('[BackupRepository] Failed to restore backup:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that backups taken at every older database version upgrade to the tables of this
+   * version. Throws naming the first version whose backups would not restore.
+   */
+  async checkOlderBackupRestores(): Promise<void> {
+    for (let version = OLDEST_BACKUP_DATABASE_VERSION; version < DATABASE_VERSION; version++) {
+      const specs = BACKUP_TABLES.filter((spec) => (spec.sinceVersion ?? OLDEST_BACKUP_DATABASE_VERSION) <= version);
+      const dumps = await dumpEmptyTablesAt(version, specs.map((spec) => spec.name));
+      const upgraded = await upgradeTableDumps(dumps, version);
+
+      for (const spec of BACKUP_TABLES) {
+        const columns = upgraded.find((table) => table.name === spec.name)?.columns ?? [];
+        const missing = (await BackupDao.getTableColumns(spec.name)).filter((column) => !columns.includes(column));
+        if (missing.length > 0) {
+          throw new Error(
+            `Backups from database version ${version} do not restore: ${spec.name} is missing ${missing.join(', ')}`
+          );
+        }
+      }
+    }
+    console.log(`[BackupRepository] Backups from database versions ${OLDEST_BACKUP_DATABASE_VERSION}+ restore`);
+  }
+
+  /**
+   * Rows of a backup that are new to this phone. Rows with the same ID are kept as they are
+   * here; personal records keep whichever value is higher. Conflicts are added to the report.
+   */
+  private async mergeRows(tables: TableDump[], report: RestoreReport): Promise<BackupDao.TableRows[]> {
+    const merged: BackupDao.TableRows[] = [];
+    const newIds = new Map<string, Set<unknown>>(); // Table -> IDs of rows added by the merge
+
+    for (const spec of BACKUP_TABLES) {
+      const entry = await projectRows(spec, tables);
+      const { columns } = entry;
+      let rows = entry.rows;
+
+      if (spec.parent) {
+        const parentIds = newIds.get(spec.parent.table) ?? new Set();
+        const parentIndex = columns.indexOf(spec.parent.column);
+        rows = rows.filter((row) => parentIds.has(row[parentIndex]));
+      } else if (spec.uniqueColumns) {
+        rows = await mergeUniqueRows(spec, columns, rows, report);
+      } else {
+        const idIndex = columns.indexOf('id');
+        const localRows = await BackupDao.getTableRows(spec.name, columns);
+        const local = new Map(localRows.map((row) => [row[idIndex], row]));
+        rows = rows.filter((row) => {
+          const existing = local.get(row[idIndex]);
+          if (existing && JSON.stringify(existing) !== JSON.stringify(row)) {
+            report.conflicts.push({ table: spec.name, key: String(row[idIndex]), resolution: 'kept_local' });
+          }
+          return !existing;
+        });
+        newIds.set(spec.name, new Set(rows.map((row) => row[idIndex])));
+
+        // Only one program can be active: merged programs stay inactive next to an active one
+        const activeIndex = columns.indexOf('isActive');
+        if (spec.name === 'weekly_programs' && activeIndex >= 0 && localRows.some((row) => row[activeIndex])) {
+          rows = rows.map((row) => row.map((value, index) => (index === activeIndex ? 0 : value)));
+        }
+      }
+
+      // Row numbers of another phone mean nothing here
+      const idIndex = spec.autoId ? columns.indexOf('id') : -1;
+      merged.push({
+        table: spec.name,
+        columns: idIndex >= 0 ? columns.filter((_, index) => index !== idIndex) : columns,
+        rows: idIndex >= 0 ? rows.map((row) => row.filter((_, index) => index !== idIndex)) : rows,
+      });
+      report.restored[spec.name] = rows.length;
+    }
+
+    return merged;
+  }
+}
+
+/**
+ * Rows of a backed-up table limited to the columns the table has on this phone
+ */
+async function projectRows(spec: BackupTableSpec, tables: TableDump[]): Promise<BackupDao.TableRows> {
+  const dump = tables.find((table) => table.name === spec.name);
+  const localColumns = await BackupDao.getTableColumns(spec.name);
+  if (!dump) {
+    return { table: spec.name, columns: localColumns, rows: [], where: spec.where };
+  }
+
+  const columns = dump.columns.filter((column) => localColumns.includes(column));
+  const indexes = columns.map((column) => dump.columns.indexOf(column));
+  return {
+    table: spec.name,
+    columns,
+    rows: dump.rows.map((row) => indexes.map((index) => row[index])),
+    where: spec.where,
+  };
+}
+
+/**
+ * Backup rows of a table matched on unique columns that should be written: rows new to this
+ * phone, and rows whose value beats the one here
+ */
+async function mergeUniqueRows(
+  spec: BackupTableSpec,
+  columns: string[],
+  rows: unknown[][],
+  report: RestoreReport
+): Promise<unknown[][]> {
+  const keyColumns = spec.uniqueColumns!;
+  const keyOf = (row: unknown[], rowColumns: string[]) =>
+    keyColumns.map((column) => String(row[rowColumns.indexOf(column)])).join(' • ');
+
+  const localColumns = [...keyColumns, 'value'];
+  const localRows = await BackupDao.getTableRows(spec.name, localColumns);
+  const local = new Map(localRows.map((row) => [keyOf(row, localColumns), row[keyColumns.length]]));
+  const valueIndex = columns.indexOf('value');
+
+  return rows.filter((row) => {
+    const key = keyOf(row, columns);
+    if (!local.has(key)) {
+      return true;
+    }
+    const localValue = Number(local.get(key));
+    const backupValue = Number(row[valueIndex]);
+    if (backupValue === localValue) {
+      return false;
+    }
+    report.conflicts.push({
+      table: spec.name,
+      key,
+      resolution: backupValue > localValue ? 'kept_backup' : 'kept_local',
+    });
+    return backupValue > localValue;
+  });
+}
+
+// Export singleton instance
+let backupRepositoryInstance: BackupRepositoryImpl | null = null;
+
+export const getBackupRepository = (): IBackupRepository => {
+  if (!backupRepositoryInstance) {
+    backupRepositoryInstance = new BackupRepositoryImpl();
+  }
+  return backupRepositoryInstance;
+};
+
+export const resetBackupRepository = (): void => {
+  backupRepositoryInstance = null;
+};
+
+// Export implementation
+export { BackupRepositoryImpl };
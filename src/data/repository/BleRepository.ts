@@ -6,6 +6,8 @@
 import { EventEmitter } from 'events';
 import { Device } from 'react-native-ble-plx';
 import { VitruvianBleManager, getBleManager } from '../ble/BleManager';
+import { RETRY_POLICIES } from '../ble/CommandQueue';
+import type { BleReplayTarget } from '../ble/BleSessionReplayer';
 import {
   ConnectionStatus,
   ConnectionState,
@@ -13,10 +15,71 @@ import {
   WorkoutMetric,
   RepNotification,
   BLE_CONSTANTS,
+  RECONNECT_BACKOFF,
+  CommandPriority,
+  CommandResult,
 } from '../ble/types';
 import { WorkoutParameters } from '../../domain/models/Models';
-import { buildInitCommand, buildInitPreset, buildProgramParams, buildEchoControl, buildColorScheme, WorkoutParameters as ProtocolWorkoutParameters } from '../../utils/protocolBuilder';
+import { RepCounterFromMachine } from '../../domain/usecases/RepCounterFromMachine';
+import { runsWithoutRepLimit } from '../../domain/usecases/RoutineSetPlanner';
+import { buildInitCommand, buildInitPreset, buildColorScheme } from '../../utils/protocolBuilder';
 import { ColorScheme, COLOR_SCHEMES } from '../../utils/colorSchemes';
+import { getSimulatedBleRepository, resetSimulatedBleRepository } from './SimulatedBleRepository';
+import { PRIMARY_TRAINER_ID, buildWorkoutCommand } from './trainerProtocol';
+
+export { PRIMARY_TRAINER_ID, buildWorkoutCommand };
+
+/**
+ * Snapshot of a named trainer connection
+ */
+export interface TrainerInfo {
+  trainerId: string;
+  name: string;
+  connectionState: ConnectionState;
+  handleState: HandleState;
+}
+
+/**
+ * Automatic reconnection state
+ */
+export type ReconnectState =
+  | { status: 'idle' }
+  | { status: 'waiting'; attempt: number; delayMs: number }
+  | { status: 'reconnecting'; attempt: number }
+  | { status: 'resuming' }
+  | { status: 'failed'; attempts: number; message: string; workoutInterrupted: boolean };
+
+/**
+ * Emitted when an interrupted workout is re-sent after a reconnect
+ */
+export interface WorkoutResume {
+  params: WorkoutParameters; // Parameters sent to the device (remaining reps only)
+  completedWarmupReps: number;
+  completedWorkingReps: number;
+}
+
+/**
+ * Parameters for the remainder of an interrupted set
+ * Warmup and working targets are reduced by the reps already completed (Just Lift has no target)
+ */
+export const buildResumeParameters = (
+  params: WorkoutParameters,
+  completedWarmupReps: number,
+  completedWorkingReps: number
+): WorkoutParameters => ({
+  ...params,
+  warmupReps: Math.max((params.warmupReps ?? 0) - completedWarmupReps, 0),
+  reps: params.isJustLift ? params.reps : Math.max(params.reps - completedWorkingReps, 1),
+});
+
+/**
+ * A trainer found by a scan
+ */
+export interface ScannedTrainer {
+  id: string; // Device address
+  name: string | null;
+  rssi?: number | null;
+}
 
 /**
  * BLE Repository interface
@@ -25,14 +88,20 @@ import { ColorScheme, COLOR_SCHEMES } from '../../utils/colorSchemes';
 export interface IBleRepository {
   // State observables via EventEmitter
   on(event: 'connectionStateChange', listener: (state: ConnectionState) => void): this;
+  on(event: 'deviceFound', listener: (device: ScannedTrainer) => void): this;
   on(event: 'monitorData', listener: (metric: WorkoutMetric) => void): this;
   on(event: 'repNotification', listener: (notification: RepNotification) => void): this;
   on(event: 'handleStateChange', listener: (state: HandleState) => void): this;
+  on(event: 'reconnectStateChange', listener: (state: ReconnectState) => void): this;
+  on(event: 'workoutResumed', listener: (resume: WorkoutResume) => void): this;
+  on(event: 'commandResult', listener: (result: CommandResult) => void): this;
   off(event: string, listener: (...args: any[]) => void): this;
 
   // Connection state getters
   getConnectionState(): ConnectionState;
   getHandleState(): HandleState;
+  getReconnectState(): ReconnectState;
+  getTrainerInfo(): TrainerInfo;
 
   // BLE operations
   startScanning(): Promise<void>;
@@ -41,27 +110,48 @@ export interface IBleRepository {
   disconnect(): Promise<void>;
   sendInitSequence(): Promise<void>;
   startWorkout(params: WorkoutParameters): Promise<void>;
+  changeWorkoutSegment(params: WorkoutParameters): Promise<void>;
   stopWorkout(): Promise<void>;
   setColorScheme(schemeIndex: number): Promise<void>;
   testOfficialAppProtocol(): Promise<void>;
   enableHandleDetection(): void;
   enableJustLiftWaitingMode(): void;
+  cancelReconnect(): void;
+
+  // Where recorded BLE sessions are fed (null when the trainer cannot replay them)
+  getReplayTarget(): BleReplayTarget | null;
 }
 
 /**
  * BLE Repository implementation
- * Wraps VitruvianBleManager and provides repository-level logic
+ * Wraps VitruvianBleManager and provides repository-level logic for one named trainer
  */
 class BleRepositoryImpl extends EventEmitter implements IBleRepository {
   private bleManager: VitruvianBleManager;
+  private readonly tag: string;
   private currentConnectionState: ConnectionState = { status: ConnectionStatus.Disconnected };
   private currentHandleState: HandleState = HandleState.Released;
   private scannedDevices: Map<string, Device> = new Map();
   private isScanning = false;
 
-  constructor() {
+  // Automatic reconnection
+  private lastDeviceAddress: string | null = null;
+  private reconnectState: ReconnectState = { status: 'idle' };
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Workout in progress (re-sent after a reconnect) and the reps completed so far
+  private activeWorkout: WorkoutParameters | null = null;
+  private resumeRepCounter = new RepCounterFromMachine();
+
+  constructor(
+    readonly trainerId: string = PRIMARY_TRAINER_ID,
+    private trainerName: string = 'Trainer 1',
+    bleManager: VitruvianBleManager = getBleManager()
+  ) {
     super();
-    this.bleManager = getBleManager();
+    this.bleManager = bleManager;
+    this.tag = trainerId === PRIMARY_TRAINER_ID ? '[BleRepository]' : `[BleRepository:${trainerId}]`;
     this.setupBleManagerListeners();
   }
 
@@ -71,11 +161,19 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
   private setupBleManagerListeners(): void {
     // Connection state changes
     this.bleManager.on('connectionStateChange', (state: ConnectionState) => {
-      console.log('[BleRepository] Connection state changed:', state);
+      console.log(`${this.tag} Connection state changed:`, state);
       this.currentConnectionState = state;
+      if (state.status === ConnectionStatus.Ready) {
+        this.lastDeviceAddress = state.deviceAddress;
+      }
       this.emit('connectionStateChange', state);
     });
 
+    // Unexpected link drops
+    this.bleManager.on('connectionLost', () => {
+      this.handleConnectionLost();
+    });
+
     // Monitor data
     this.bleManager.on('monitorData', (metric: WorkoutMetric) => {
       this.emit('monitorData', metric);
@@ -83,13 +181,21 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
 
     // Rep notifications
     this.bleManager.on('repNotification', (notification: RepNotification) => {
-      console.log('[BleRepository] Rep notification forwarded:', notification);
+      console.log(`${this.tag} Rep notification forwarded:`, notification);
+      if (this.activeWorkout) {
+        this.resumeRepCounter.process(notification.topCounter, notification.completeCounter);
+      }
       this.emit('repNotification', notification);
     });
 
+    // Command queue results
+    this.bleManager.on('commandResult', (result: CommandResult) => {
+      this.emit('commandResult', result);
+    });
+
     // Handle state changes
     this.bleManager.on('handleStateChange', (state: HandleState) => {
-      console.log('[BleRepository] Handle state changed:', state);
+      console.log(`${this.tag} Handle state changed:`, state);
       this.currentHandleState = state;
       this.emit('handleStateChange', state);
     });
@@ -109,15 +215,55 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
     return this.currentHandleState;
   }
 
+  /**
+   * Get automatic reconnection state
+   */
+  getReconnectState(): ReconnectState {
+    return this.reconnectState;
+  }
+
+  /**
+   * Get the trainer name and current states
+   */
+  getTrainerInfo(): TrainerInfo {
+    return {
+      trainerId: this.trainerId,
+      name: this.trainerName,
+      connectionState: this.currentConnectionState,
+      handleState: this.currentHandleState,
+    };
+  }
+
+  /**
+   * Rename the trainer
+   */
+  setTrainerName(name: string): void {
+    this.trainerName = name;
+  }
+
+  /**
+   * Underlying BLE manager (one per trainer)
+   */
+  getBleManager(): VitruvianBleManager {
+    return this.bleManager;
+  }
+
+  /**
+   * Replays are fed through this trainer's BLE manager, like its live notifications
+   */
+  getReplayTarget(): BleReplayTarget {
+    return this.bleManager;
+  }
+
   /**
    * Start scanning for Vitruvian devices
    */
   async startScanning(): Promise<void> {
     try {
-      console.log('[BleRepository] startScanning() called');
+      console.log(`${this.tag} startScanning() called`);
 
       if (this.isScanning) {
-        console.log('[BleRepository] Already scanning');
+        console.log(`${this.tag} Already scanning`);
         return;
       }
 
@@ -139,20 +285,20 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
       this.currentConnectionState = { status: ConnectionStatus.Scanning };
       this.emit('connectionStateChange', this.currentConnectionState);
 
-      console.log('[BleRepository] Starting device scan...');
+      console.log(`${this.tag} Starting device scan...`);
 
       // Start scanning (will timeout after BLE_CONSTANTS.SCAN_TIMEOUT_MS)
       // Note: We don't await here because scanForDevices resolves with first found device
       // Instead we just initiate the scan and let the BLE manager handle device discovery
       this.bleManager.scanForDevices(BLE_CONSTANTS.SCAN_TIMEOUT_MS)
         .then((device) => {
-          console.log(`[BleRepository] Found device: ${device.name} (${device.id})`);
+          console.log(`${this.tag} Found device: ${device.name} (${device.id})`);
           this.scannedDevices.set(device.id, device);
           // Emit scanned device event (for UI to display)
           this.emit('deviceFound', device);
         })
         .catch((error) => {
-          console.error('[BleRepository] Scan error:', error);
+          console.error(`${this.tag} Scan error:`, error);
           this.isScanning = false;
           if (this.currentConnectionState.status === ConnectionStatus.Scanning) {
             this.currentConnectionState = { status: ConnectionStatus.Disconnected };
@@ -160,9 +306,9 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
           }
         });
 
-      console.log('[BleRepository] Scan started');
+      console.log(`${this.tag} Scan started`);
     } catch (error) {
-      console.error('[BleRepository] Failed to start scanning:', error);
+      console.error(`${this.tag} Failed to start scanning:`, error);
       this.isScanning = false;
       const errorState: ConnectionState = {
         status: ConnectionStatus.Error,
@@ -184,7 +330,7 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
         return;
       }
 
-      console.log('[BleRepository] Stopping scan...');
+      console.log(`${this.tag} Stopping scan...`);
       // BLE PLX doesn't have a direct stopScan method on the manager
       // The scan automatically stops when a device is found or timeout occurs
       this.isScanning = false;
@@ -194,9 +340,9 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
         this.emit('connectionStateChange', this.currentConnectionState);
       }
 
-      console.log('[BleRepository] Scan stopped');
+      console.log(`${this.tag} Scan stopped`);
     } catch (error) {
-      console.error('[BleRepository] Error stopping scan:', error);
+      console.error(`${this.tag} Error stopping scan:`, error);
     }
   }
 
@@ -205,37 +351,39 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    */
   async connectToDevice(deviceAddress: string): Promise<void> {
     try {
-      console.log(`[BleRepository] connectToDevice() called for: ${deviceAddress}`);
+      console.log(`${this.tag} connectToDevice() called for: ${deviceAddress}`);
 
       // Stop scanning first
       await this.stopScanning();
 
       // Get the device from scanned devices
       const device = this.scannedDevices.get(deviceAddress);
-      if (!device) {
-        throw new Error(`Device not found: ${deviceAddress}`);
-      }
-
-      console.log(`[BleRepository] Connecting to: ${device.name} (${device.id})`);
-      this.currentConnectionState = {
-        status: ConnectionStatus.Connecting,
-        deviceName: device.name || 'Unknown',
-      };
-      this.emit('connectionStateChange', this.currentConnectionState);
+      if (device) {
+        console.log(`${this.tag} Connecting to: ${device.name} (${device.id})`);
+        this.currentConnectionState = {
+          status: ConnectionStatus.Connecting,
+          deviceName: device.name || 'Unknown',
+        };
+        this.emit('connectionStateChange', this.currentConnectionState);
 
-      // Connect to device (BleManager will emit connectionStateChange events)
-      await this.bleManager.connect(device);
+        // Connect to device (BleManager will emit connectionStateChange events)
+        await this.bleManager.connect(device);
+      } else {
+        // Discovered by another trainer's scan - connect by address
+        console.log(`${this.tag} Connecting by address: ${deviceAddress}`);
+        await this.bleManager.connectToDevice(deviceAddress);
+      }
 
       // After connection is ready, send INIT sequence
-      console.log('[BleRepository] Device connected! Waiting 2 seconds before INIT...');
+      console.log(`${this.tag} Device connected! Waiting 2 seconds before INIT...`);
       await this.delay(2000);
 
-      console.log('[BleRepository] Sending INIT sequence...');
+      console.log(`${this.tag} Sending INIT sequence...`);
       await this.sendInitSequence();
 
-      console.log('[BleRepository] Device fully initialized and ready!');
+      console.log(`${this.tag} Device fully initialized and ready!`);
     } catch (error) {
-      console.error('[BleRepository] Failed to connect:', error);
+      console.error(`${this.tag} Failed to connect:`, error);
       const errorState: ConnectionState = {
         status: ConnectionStatus.Error,
         message: error instanceof Error ? error.message : 'Connection failed',
@@ -252,13 +400,16 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    */
   async disconnect(): Promise<void> {
     try {
-      console.log('[BleRepository] Disconnecting from device...');
+      console.log(`${this.tag} Disconnecting from device...`);
+      this.cancelReconnect();
+      this.activeWorkout = null;
+      this.lastDeviceAddress = null;
       await this.bleManager.disconnect();
       this.currentConnectionState = { status: ConnectionStatus.Disconnected };
       this.emit('connectionStateChange', this.currentConnectionState);
-      console.log('[BleRepository] Disconnected');
+      console.log(`${this.tag} Disconnected`);
     } catch (error) {
-      console.error('[BleRepository] Error disconnecting:', error);
+      console.error(`${this.tag} Error disconnecting:`, error);
       throw error;
     }
   }
@@ -273,26 +424,25 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
       const deviceName = state.status === ConnectionStatus.Ready ? state.deviceName : 'Unknown';
       const deviceAddress = state.status === ConnectionStatus.Ready ? state.deviceAddress : '';
 
-      console.log('[BleRepository] === Starting INIT sequence ===');
-      console.log(`[BleRepository] Device: ${deviceName} (${deviceAddress})`);
+      console.log(`${this.tag} === Starting INIT sequence ===`);
+      console.log(`${this.tag} Device: ${deviceName} (${deviceAddress})`);
 
       // Send initial command
-      console.log('[BleRepository] Sending init command (4 bytes)...');
+      console.log(`${this.tag} Sending init command (4 bytes)...`);
+      // The queue keeps the order and waits 200ms after each frame
       const initCommand = buildInitCommand();
-      await this.bleManager.sendCommand(initCommand);
-      await this.delay(200);
+      await this.bleManager.sendCommand(initCommand, { label: 'init', settleMs: 200 });
 
-      console.log('[BleRepository] Init command sent, waiting before preset...');
+      console.log(`${this.tag} Init command sent, waiting before preset...`);
 
       // Send init preset
-      console.log('[BleRepository] Sending init preset (34 bytes)...');
+      console.log(`${this.tag} Sending init preset (34 bytes)...`);
       const initPreset = buildInitPreset();
-      await this.bleManager.sendCommand(initPreset);
-      await this.delay(200);
+      await this.bleManager.sendCommand(initPreset, { label: 'init-preset', settleMs: 200 });
 
-      console.log('[BleRepository] === INIT sequence completed successfully ===');
+      console.log(`${this.tag} === INIT sequence completed successfully ===`);
     } catch (error) {
-      console.error('[BleRepository] Failed to send init sequence:', error);
+      console.error(`${this.tag} Failed to send init sequence:`, error);
       throw error;
     }
   }
@@ -301,69 +451,92 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    * Start workout with given parameters
    */
   async startWorkout(params: WorkoutParameters): Promise<void> {
+    // Track the set so it can be resumed if the link drops
+    this.activeWorkout = params;
+    const unlimitedReps = runsWithoutRepLimit(params);
+    this.resumeRepCounter.reset();
+    this.resumeRepCounter.configure(
+      params.warmupReps ?? 0,
+      unlimitedReps ? 0 : params.reps,
+      unlimitedReps,
+      params.stopAtTop ?? false
+    );
+
+    await this.sendWorkout(params);
+  }
+
+  /**
+   * Switch a running set to the parameters of its next segment (a drop set's lighter weight)
+   * The frame is sent without a STOP in between, so the cables stay loaded; monitor polling
+   * and handle state carry on
+   */
+  async changeWorkoutSegment(params: WorkoutParameters): Promise<void> {
+    if (!this.activeWorkout) {
+      throw new Error('No workout in progress');
+    }
+    this.activeWorkout = params;
+
+    console.log(
+      `${this.tag} Changing workout segment: Weight=${params.weightPerCableKg || 0}kg, ` +
+      `Mode=${params.workoutType.type === 'program' ? params.workoutType.mode.displayName : 'Echo'}`
+    );
+
+    await this.bleManager.sendCommand(buildWorkoutCommand(params), {
+      label: params.workoutType.type === 'echo' ? 'echo-control' : 'program-params',
+      settleMs: 100,
+      cancelOnStop: true,
+      retry: RETRY_POLICIES.WORKOUT,
+    });
+
+    // The device restarts its counters with the new program
+    this.resumeRepCounter.resyncCounters();
+  }
+
+  /**
+   * Send the workout frame and start monitor polling
+   */
+  private async sendWorkout(params: WorkoutParameters): Promise<void> {
     try {
       const state = this.currentConnectionState;
       const deviceName = state.status === ConnectionStatus.Ready ? state.deviceName : 'Unknown';
       const deviceAddress = state.status === ConnectionStatus.Ready ? state.deviceAddress : '';
 
-      console.log(`[BleRepository] Starting workout with type: ${params.workoutType.type}`);
+      console.log(`${this.tag} Starting workout with type: ${params.workoutType.type}`);
 
       // MATCH WEB APP EXACTLY:
       // - Program modes (Old School, Pump, TUT): Send ONLY program params (96 bytes)
       // - Echo mode: Send ONLY echo control (40 bytes)
       if (params.workoutType.type === 'echo') {
-        // Echo mode: Send ONLY echo control frame (web app: device.js line 328)
-        console.log('[BleRepository] Echo mode: sending ONLY echo control frame (40 bytes)');
-        const echoFrame = buildEchoControl(
-          params.workoutType.level,
-          params.warmupReps || 0,
-          params.reps,
-          params.isJustLift || false,
-          params.workoutType.eccentricLoad
-        );
+        console.log(`${this.tag} Echo mode: sending ONLY echo control frame (40 bytes)`);
         console.log(
-          `[BleRepository] Echo params: Level=${params.workoutType.level}, ` +
+          `${this.tag} Echo params: Level=${params.workoutType.level}, ` +
           `Eccentric=${params.workoutType.eccentricLoad}%, Reps=${params.reps}, JustLift=${params.isJustLift}`
         );
-        await this.bleManager.sendCommand(echoFrame);
-        await this.delay(100);
-      } else if (params.workoutType.type === 'program') {
-        // Program mode: Send ONLY program params (web app: device.js line 283)
-        console.log('[BleRepository] Program mode: sending ONLY program params (96 bytes)');
-
-        // Convert domain WorkoutParameters to protocol WorkoutParameters
-        const protocolParams: ProtocolWorkoutParameters = {
-          workoutType: {
-            type: 'program',
-            mode: params.workoutType.mode.modeValue
-          },
-          reps: params.reps,
-          weightPerCableKg: params.weightPerCableKg || 0,
-          progressionRegressionKg: params.progressionRegressionKg || 0,
-          isJustLift: params.isJustLift || false,
-          useAutoStart: params.useAutoStart || false,
-          stopAtTop: params.stopAtTop || false,
-          warmupReps: params.warmupReps || 0,
-          selectedExerciseId: params.selectedExerciseId || undefined,
-        };
-
-        const programFrame = buildProgramParams(protocolParams);
+      } else {
+        console.log(`${this.tag} Program mode: sending ONLY program params (96 bytes)`);
         console.log(
-          `[BleRepository] Program params: Mode=${params.workoutType.mode.displayName}, ` +
+          `${this.tag} Program params: Mode=${params.workoutType.mode.displayName}, ` +
           `Weight=${params.weightPerCableKg || 0}kg, Reps=${params.reps}, ` +
           `JustLift=${params.isJustLift}, Progression=${params.progressionRegressionKg || 0}kg`
         );
-        await this.bleManager.sendCommand(programFrame);
-        await this.delay(100);
       }
 
-      console.log('[BleRepository] Workout command sent successfully!');
+      // Dropped if a STOP is queued before it goes out, so a late start cannot re-apply tension
+      const workoutFrame = buildWorkoutCommand(params);
+      await this.bleManager.sendCommand(workoutFrame, {
+        label: params.workoutType.type === 'echo' ? 'echo-control' : 'program-params',
+        settleMs: 100,
+        cancelOnStop: true,
+        retry: RETRY_POLICIES.WORKOUT,
+      });
+
+      console.log(`${this.tag} Workout command sent successfully!`);
 
       // Start monitor polling for workout data (100ms interval)
-      console.log('[BleRepository] Starting monitor polling for workout...');
+      console.log(`${this.tag} Starting monitor polling for workout...`);
       this.bleManager.startMonitorPolling();
     } catch (error) {
-      console.error('[BleRepository] Failed to start workout:', error);
+      console.error(`${this.tag} Failed to start workout:`, error);
       throw error;
     }
   }
@@ -374,30 +547,33 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
   async stopWorkout(): Promise<void> {
     try {
       const timestamp = Date.now();
-      console.log('[BleRepository] ============================================');
-      console.log(`[BleRepository] stopWorkout() called at timestamp: ${timestamp}`);
-      console.log('[BleRepository] ============================================');
+      console.log(`${this.tag} ============================================`);
+      console.log(`${this.tag} stopWorkout() called at timestamp: ${timestamp}`);
+      console.log(`${this.tag} ============================================`);
+
+      // The set is over - nothing to resume after a reconnect
+      this.activeWorkout = null;
 
       // CRITICAL SAFETY: Stop all polling BEFORE sending INIT command
       const beforePollingStop = Date.now();
-      console.log(`[BleRepository] [${beforePollingStop}] Stopping polling jobs...`);
+      console.log(`${this.tag} [${beforePollingStop}] Stopping polling jobs...`);
       this.bleManager.stopPolling();
       const afterPollingStop = Date.now();
-      console.log(`[BleRepository] [${afterPollingStop}] Polling stopped (took ${afterPollingStop - beforePollingStop}ms)`);
+      console.log(`${this.tag} [${afterPollingStop}] Polling stopped (took ${afterPollingStop - beforePollingStop}ms)`);
 
       // Send INIT command to stop workout and release resistance
       const initCommand = buildInitCommand();
       const beforeInitSend = Date.now();
-      console.log(`[BleRepository] [${beforeInitSend}] Sending INIT command to release tension...`);
-      await this.bleManager.sendCommand(initCommand);
+      console.log(`${this.tag} [${beforeInitSend}] Sending INIT command to release tension...`);
+      await this.bleManager.sendCommand(initCommand, { label: 'stop', priority: CommandPriority.Stop });
       const afterInitSend = Date.now();
-      console.log(`[BleRepository] [${afterInitSend}] INIT command sent (took ${afterInitSend - beforeInitSend}ms)`);
+      console.log(`${this.tag} [${afterInitSend}] INIT command sent (took ${afterInitSend - beforeInitSend}ms)`);
 
       const finalTimestamp = Date.now();
-      console.log(`[BleRepository] [${finalTimestamp}] Workout stopped - Total time: ${finalTimestamp - timestamp}ms`);
-      console.log('[BleRepository] ============================================');
+      console.log(`${this.tag} [${finalTimestamp}] Workout stopped - Total time: ${finalTimestamp - timestamp}ms`);
+      console.log(`${this.tag} ============================================`);
     } catch (error) {
-      console.error('[BleRepository] FAILED to stop workout:', error);
+      console.error(`${this.tag} FAILED to stop workout:`, error);
       throw error;
     }
   }
@@ -412,14 +588,14 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
       }
 
       const scheme = COLOR_SCHEMES[schemeIndex];
-      console.log(`[BleRepository] Setting color scheme: ${scheme.name}`);
+      console.log(`${this.tag} Setting color scheme: ${scheme.name}`);
 
       const colorFrame = buildColorScheme(scheme.brightness, scheme.colors);
-      await this.bleManager.sendCommand(colorFrame);
+      await this.bleManager.sendCommand(colorFrame, { label: 'color-scheme', priority: CommandPriority.Background });
 
-      console.log(`[BleRepository] Color scheme set to: ${scheme.name}`);
+      console.log(`${this.tag} Color scheme set to: ${scheme.name}`);
     } catch (error) {
-      console.error('[BleRepository] Failed to set color scheme:', error);
+      console.error(`${this.tag} Failed to set color scheme:`, error);
       throw error;
     }
   }
@@ -429,11 +605,11 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    */
   async testOfficialAppProtocol(): Promise<void> {
     try {
-      console.log('[BleRepository] Starting official app protocol test');
+      console.log(`${this.tag} Starting official app protocol test`);
       // This would be implemented if needed for testing
-      console.log('[BleRepository] Official app protocol test not implemented in TypeScript version');
+      console.log(`${this.tag} Official app protocol test not implemented in TypeScript version`);
     } catch (error) {
-      console.error('[BleRepository] Failed to test official app protocol:', error);
+      console.error(`${this.tag} Failed to test official app protocol:`, error);
       throw error;
     }
   }
@@ -442,7 +618,7 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    * Enable handle detection for auto-start
    */
   enableHandleDetection(): void {
-    console.log('[BleRepository] Enabling handle detection - starting monitor polling for auto-start');
+    console.log(`${this.tag} Enabling handle detection - starting monitor polling for auto-start`);
     this.bleManager.startMonitorPolling();
   }
 
@@ -450,10 +626,152 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
    * Enable Just Lift waiting mode for position-based handle detection
    */
   enableJustLiftWaitingMode(): void {
-    console.log('[BleRepository] Enabling Just Lift waiting mode - position-based handle detection');
+    console.log(`${this.tag} Enabling Just Lift waiting mode - position-based handle detection`);
     this.bleManager.enableJustLiftWaitingMode();
   }
 
+  /**
+   * Stop any pending or running reconnection
+   */
+  cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    if (this.reconnectState.status !== 'idle') {
+      console.log(`${this.tag} Reconnection cancelled`);
+      this.updateReconnectState({ status: 'idle' });
+    }
+  }
+
+  // ========== Automatic Reconnection ==========
+
+  /**
+   * Start reconnecting after an unexpected link drop
+   */
+  private handleConnectionLost(): void {
+    if (!this.lastDeviceAddress) {
+      return;
+    }
+
+    console.warn(
+      `${this.tag} Connection lost to ${this.lastDeviceAddress}` +
+      (this.activeWorkout ? ' during a workout' : '')
+    );
+    this.cancelReconnect();
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    const delayMs = Math.min(
+      RECONNECT_BACKOFF.INITIAL_DELAY_MS * Math.pow(RECONNECT_BACKOFF.MULTIPLIER, this.reconnectAttempt),
+      RECONNECT_BACKOFF.MAX_DELAY_MS
+    );
+    this.reconnectAttempt++;
+
+    console.log(`${this.tag} Reconnect attempt ${this.reconnectAttempt} in ${delayMs}ms`);
+    this.updateReconnectState({ status: 'waiting', attempt: this.reconnectAttempt, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect();
+    }, delayMs);
+  }
+
+  /**
+   * Rescan for the last device, reconnect (restoring subscriptions) and resume the workout
+   */
+  private async attemptReconnect(): Promise<void> {
+    const deviceAddress = this.lastDeviceAddress;
+    const attempt = this.reconnectAttempt;
+    if (!deviceAddress) {
+      return;
+    }
+
+    this.updateReconnectState({ status: 'reconnecting', attempt });
+
+    try {
+      const device = await this.bleManager.scanForDevices(RECONNECT_BACKOFF.SCAN_TIMEOUT_MS, deviceAddress);
+
+      // Cancelled while scanning
+      if (this.reconnectState.status !== 'reconnecting') {
+        return;
+      }
+
+      this.scannedDevices.set(device.id, device);
+      await this.bleManager.connect(device);
+      await this.sendInitSequence();
+
+      if (this.activeWorkout) {
+        await this.resumeWorkout(this.activeWorkout);
+      }
+
+      console.log(`${this.tag} Reconnected to ${deviceAddress} after ${attempt} attempt(s)`);
+      this.reconnectAttempt = 0;
+      this.updateReconnectState({ status: 'idle' });
+    } catch (error) {
+      console.error(`${this.tag} Reconnect attempt ${attempt} failed:`, error);
+
+      if (this.reconnectState.status === 'idle') {
+        return;
+      }
+
+      if (attempt >= RECONNECT_BACKOFF.MAX_ATTEMPTS) {
+        const workoutInterrupted = this.activeWorkout !== null;
+        this.activeWorkout = null;
+        this.reconnectAttempt = 0;
+        this.updateReconnectState({
+          status: 'failed',
+          attempts: attempt,
+          message: error instanceof Error ? error.message : 'Reconnect failed',
+          workoutInterrupted,
+        });
+        return;
+      }
+
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Re-send the interrupted workout for the reps that remain
+   */
+  private async resumeWorkout(params: WorkoutParameters): Promise<void> {
+    this.updateReconnectState({ status: 'resuming' });
+
+    const repCount = this.resumeRepCounter.getRepCount();
+    const warmupDone = repCount.warmupReps ?? 0;
+    const workingDone = repCount.workingReps ?? 0;
+    const resumeParams = buildResumeParameters(params, warmupDone, workingDone);
+
+    console.log(
+      `${this.tag} Resuming workout: ${warmupDone} warmup / ${workingDone} working reps done, ` +
+      `sending warmup=${resumeParams.warmupReps}, reps=${resumeParams.reps}`
+    );
+
+    // The device restarts its counters with the new program
+    this.resumeRepCounter.resyncCounters();
+    await this.sendWorkout(resumeParams);
+
+    this.emit('workoutResumed', {
+      params: resumeParams,
+      completedWarmupReps: warmupDone,
+      completedWorkingReps: workingDone,
+    });
+  }
+
+  /**
+   * Update reconnect state and notify listeners
+   */
+  private updateReconnectState(state: ReconnectState): void {
+    this.reconnectState = state;
+    this.emit('reconnectStateChange', state);
+  }
+
   /**
    * Helper to delay execution
    */
@@ -462,18 +780,95 @@ class BleRepositoryImpl extends EventEmitter implements IBleRepository {
   }
 }
 
-// Export singleton instance
-let bleRepositoryInstance: BleRepositoryImpl | null = null;
+// Export one instance per named trainer (the primary trainer uses the shared BLE manager)
+const trainerRepositories: Map<string, BleRepositoryImpl> = new Map();
+
+/**
+ * Whether the primary trainer is the simulated one instead of Bluetooth hardware.
+ * Start the bundler with EXPO_PUBLIC_SIMULATED_TRAINER=1, or switch it with setSimulatedTrainerEnabled().
+ */
+let simulatedTrainerEnabled = process.env.EXPO_PUBLIC_SIMULATED_TRAINER === '1';
+
+export const isSimulatedTrainerEnabled = (): boolean => simulatedTrainerEnabled;
+
+/**
+ * Switch the primary trainer between the simulator and the real device. Existing trainer
+ * instances are dropped, so call this before any screen connects.
+ */
+export const setSimulatedTrainerEnabled = (enabled: boolean): void => {
+  simulatedTrainerEnabled = enabled;
+  resetSimulatedBleRepository();
+  resetBleRepository();
+};
+
+export const getBleRepository = (trainerId: string = PRIMARY_TRAINER_ID): IBleRepository => {
+  if (trainerId === PRIMARY_TRAINER_ID && simulatedTrainerEnabled) {
+    return getSimulatedBleRepository();
+  }
+
+  let repository = trainerRepositories.get(trainerId);
+  if (!repository) {
+    if (trainerId !== PRIMARY_TRAINER_ID) {
+      throw new Error(`Unknown trainer: ${trainerId}`);
+    }
+    repository = new BleRepositoryImpl();
+    trainerRepositories.set(trainerId, repository);
+  }
+  return repository;
+};
+
+/**
+ * Register an additional trainer with its own connection, states and metric stream
+ */
+export const addTrainer = (trainerId: string, name: string): IBleRepository => {
+  if (trainerRepositories.has(trainerId) || trainerId === PRIMARY_TRAINER_ID) {
+    throw new Error(`Trainer already exists: ${trainerId}`);
+  }
+
+  // Make sure the primary trainer exists, then share its native BLE manager
+  getBleRepository();
+  const bleManager = new VitruvianBleManager(undefined, getBleManager().getPlxManager());
+  const repository = new BleRepositoryImpl(trainerId, name, bleManager);
+  trainerRepositories.set(trainerId, repository);
 
-export const getBleRepository = (): IBleRepository => {
-  if (!bleRepositoryInstance) {
-    bleRepositoryInstance = new BleRepositoryImpl();
+  console.log(`[BleRepository] Added trainer ${name} (${trainerId})`);
+  return repository;
+};
+
+/**
+ * Disconnect and forget an additional trainer
+ */
+export const removeTrainer = async (trainerId: string): Promise<void> => {
+  if (trainerId === PRIMARY_TRAINER_ID) {
+    throw new Error('The primary trainer cannot be removed');
+  }
+
+  const repository = trainerRepositories.get(trainerId);
+  if (!repository) {
+    return;
+  }
+
+  trainerRepositories.delete(trainerId);
+  try {
+    await repository.disconnect();
+  } finally {
+    await repository.getBleManager().cleanup();
+    repository.removeAllListeners();
   }
-  return bleRepositoryInstance;
+  console.log(`[BleRepository] Removed trainer ${trainerId}`);
+};
+
+/**
+ * All registered trainers (primary first)
+ */
+export const getTrainers = (): TrainerInfo[] => {
+  const primary = getBleRepository();
+  const others = Array.from(trainerRepositories.values()).filter((repository) => repository !== primary);
+  return [primary, ...others].map((repository) => repository.getTrainerInfo());
 };
 
 export const resetBleRepository = (): void => {
-  bleRepositoryInstance = null;
+  trainerRepositories.clear();
 };
 
 // Export implementation
@@ -5,12 +5,34 @@
 
 import * as ExerciseDao from '../local/daos/exerciseDao';
 import { ExerciseEntity, ExerciseVideoEntity } from '../local/entities';
+import { catalogExerciseToEntity, catalogExerciseVideos, getBundledCatalog } from '../catalog/ExerciseCatalog';
+import {
+  CableConfiguration,
+  ExerciseLibraryFilters,
+  ExerciseSidedness,
+  LIBRARY_MUSCLE_GROUPS,
+} from '../../domain/models/Exercise';
+import { generateUUID } from '../../domain/models/Models';
+import { rankExercises, resolveSearchTerms, SearchTerm } from '../../domain/usecases/ExerciseSearch';
+
+/**
+ * Fields of a custom exercise that the user edits
+ */
+export interface CustomExerciseInput {
+  name: string;
+  muscleGroups: string[]; // Keys of LIBRARY_MUSCLE_GROUPS
+  equipment: string[]; // Keys of LIBRARY_EQUIPMENT
+  cableConfig: CableConfiguration;
+  sidedness: ExerciseSidedness | null;
+  notes: string;
+}
 
 /**
  * Exercise Repository interface
  */
 export interface IExerciseRepository {
   getAllExercises(): Promise<ExerciseEntity[]>;
+  searchLibrary(query: string, filters: ExerciseLibraryFilters): Promise<ExerciseEntity[]>;
   searchExercises(query: string): Promise<ExerciseEntity[]>;
   filterByMuscleGroup(muscleGroup: string): Promise<ExerciseEntity[]>;
   filterByEquipment(equipment: string): Promise<ExerciseEntity[]>;
@@ -20,6 +42,11 @@ export interface IExerciseRepository {
   getVideos(exerciseId: string): Promise<ExerciseVideoEntity[]>;
   importExercises(): Promise<void>;
   isExerciseLibraryEmpty(): Promise<boolean>;
+
+  // Custom exercises
+  createCustomExercise(input: CustomExerciseInput): Promise<ExerciseEntity>;
+  updateCustomExercise(id: string, input: CustomExerciseInput): Promise<ExerciseEntity>;
+  archiveCustomExercise(id: string): Promise<void>;
 }
 
 /**
@@ -41,48 +68,44 @@ class ExerciseRepositoryImpl implements IExerciseRepository {
   }
 
   /**
-   * Search exercises by name, description, or muscles
+   * Search the library by name, description, muscles and notes, tolerating typos, limited to
+   * the exercises that pass the filters. Results are ranked by relevance, popularity and how
+   * often the user performed them; without a query only popularity and history count.
    */
-  async searchExercises(query: string): Promise<ExerciseEntity[]> {
+  async searchLibrary(query: string, filters: ExerciseLibraryFilters): Promise<ExerciseEntity[]> {
     try {
-      if (!query || query.trim().length === 0) {
-        return await this.getAllExercises();
+      const terms = query.trim() ? resolveSearchTerms(query, await ExerciseDao.getSearchVocabulary()) : [];
+      if (terms.some((term) => term.isFuzzy && term.words.length === 0)) {
+        return [];
       }
-      return await ExerciseDao.searchExercises(query.trim());
+
+      const exercises = await ExerciseDao.findExercises(filters, terms.map(toMatchExpression));
+      return rankExercises(exercises, terms);
     } catch (error) {
-      console.error('[ExerciseRepository] Failed to search exercises:', error);
+      console.error('[ExerciseRepository] Failed to search exercise library:', error);
       throw error;
     }
   }
 
+  /**
+   * Search exercises by name, description, or muscles
+   */
+  async searchExercises(query: string): Promise<ExerciseEntity[]> {
+    return this.searchLibrary(query, {});
+  }
+
   /**
    * Filter exercises by muscle group
    */
   async filterByMuscleGroup(muscleGroup: string): Promise<ExerciseEntity[]> {
-    try {
-      if (!muscleGroup || muscleGroup.trim().length === 0) {
-        return await this.getAllExercises();
-      }
-      return await ExerciseDao.getExercisesByMuscleGroup(muscleGroup);
-    } catch (error) {
-      console.error('[ExerciseRepository] Failed to filter by muscle group:', error);
-      throw error;
-    }
+    return this.searchLibrary('', { muscleGroups: muscleGroup.trim() ? [muscleGroup] : [] });
   }
 
   /**
    * Filter exercises by equipment
    */
   async filterByEquipment(equipment: string): Promise<ExerciseEntity[]> {
-    try {
-      if (!equipment || equipment.trim().length === 0) {
-        return await this.getAllExercises();
-      }
-      return await ExerciseDao.getExercisesByEquipment(equipment);
-    } catch (error) {
-      console.error('[ExerciseRepository] Failed to filter by equipment:', error);
-      throw error;
-    }
+    return this.searchLibrary('', { equipment: equipment.trim() ? [equipment] : [] });
   }
 
   /**
@@ -138,28 +161,34 @@ class ExerciseRepositoryImpl implements IExerciseRepository {
   }
 
   /**
-   * Import exercises from assets (if not already imported)
-   * In React Native, this would typically import from a JSON file bundled with the app
+   * Install the bundled exercise catalog, or update the library to a newer catalog version.
+   * Favorites, performance counts and exercises that are not from the catalog are kept;
+   * catalog exercises dropped by the newer catalog are archived.
    */
   async importExercises(): Promise<void> {
     try {
-      // Check if exercises are already imported
-      const count = await this.isExerciseLibraryEmpty();
-      if (!count) {
-        console.log('[ExerciseRepository] Exercises already imported');
+      const catalog = getBundledCatalog();
+      const installedVersion = await ExerciseDao.getInstalledCatalogVersion();
+      if (installedVersion >= catalog.version) {
+        console.log(`[ExerciseRepository] Exercise catalog v${installedVersion} already imported`);
         return;
       }
 
-      console.log('[ExerciseRepository] Importing exercises from assets...');
+      console.log(
+        `[ExerciseRepository] Importing exercise catalog v${catalog.version}` +
+          (installedVersion > 0 ? ` over v${installedVersion}` : '')
+      );
 
-      // Import exercises from bundled JSON
-      // Note: In React Native, you would typically require a JSON file here
-      // Example: const exercises = require('../../assets/exercises.json');
-      // For now, we'll assume the import functionality is handled by a separate service
-      // that calls ExerciseDao.insertExercise for each exercise
+      await ExerciseDao.importCatalogExercises(
+        catalog.exercises.map((exercise) => ({
+          exercise: catalogExerciseToEntity(exercise, catalog.version),
+          videos: catalogExerciseVideos(exercise),
+        })),
+        catalog.version
+      );
+      await ExerciseDao.optimizeSearchIndex();
 
-      console.log('[ExerciseRepository] Exercise import would be handled here');
-      console.log('[ExerciseRepository] In production, load from bundled JSON and insert into database');
+      console.log(`[ExerciseRepository] Imported ${catalog.exercises.length} exercises`);
     } catch (error) {
       console.error('[ExerciseRepository] Failed to import exercises:', error);
       throw error;
@@ -178,6 +207,121 @@ class ExerciseRepositoryImpl implements IExerciseRepository {
       return true;
     }
   }
+
+  // ========== Custom Exercises ==========
+
+  /**
+   * Create a custom exercise
+   */
+  async createCustomExercise(input: CustomExerciseInput): Promise<ExerciseEntity> {
+    try {
+      await this.validateCustomExercise(input, null);
+      const exercise: ExerciseEntity = {
+        id: generateUUID(),
+        description: '',
+        created: new Date().toISOString(),
+        movement: null,
+        grip: null,
+        gripWidth: null,
+        minRepRange: null,
+        popularity: 0,
+        archived: false,
+        isFavorite: false,
+        timesPerformed: 0,
+        lastPerformed: null,
+        catalogVersion: null,
+        isCustom: true,
+        ...customExerciseFields(input),
+      };
+      await ExerciseDao.insert(exercise);
+      console.log(`[ExerciseRepository] Created custom exercise: ${exercise.name}`);
+      return exercise;
+    } catch (error) {
+      console.error('[ExerciseRepository] Failed to create custom exercise:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a custom exercise (catalog exercises cannot be edited)
+   */
+  async updateCustomExercise(id: string, input: CustomExerciseInput): Promise<ExerciseEntity> {
+    try {
+      const existing = await ExerciseDao.getExerciseById(id);
+      if (!existing || !existing.isCustom) {
+        throw new Error('Only custom exercises can be edited');
+      }
+      await this.validateCustomExercise(input, id);
+
+      const exercise: ExerciseEntity = { ...existing, ...customExerciseFields(input) };
+      await ExerciseDao.updateCustomExercise(exercise);
+      console.log(`[ExerciseRepository] Updated custom exercise: ${exercise.name}`);
+      return exercise;
+    } catch (error) {
+      console.error('[ExerciseRepository] Failed to update custom exercise:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a custom exercise: it leaves the library, while routines, history and personal
+   * records that use it keep working
+   */
+  async archiveCustomExercise(id: string): Promise<void> {
+    try {
+      await ExerciseDao.setCustomExerciseArchived(id, true);
+      console.log(`[ExerciseRepository] Archived custom exercise: ${id}`);
+    } catch (error) {
+      console.error('[ExerciseRepository] Failed to archive custom exercise:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a custom exercise has a name no other library exercise uses and a muscle group
+   */
+  private async validateCustomExercise(input: CustomExerciseInput, id: string | null): Promise<void> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Enter a name for the exercise');
+    }
+    if (input.muscleGroups.length === 0) {
+      throw new Error('Choose at least one muscle group');
+    }
+
+    const library = await ExerciseDao.getAllExercises();
+    const taken = library.some(
+      (exercise) => exercise.id !== id && exercise.name.trim().toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`An exercise named "${name}" is already in the library`);
+    }
+  }
+}
+
+/**
+ * Full-text expression of a search term: a prefix search, or any of its close misspellings
+ */
+function toMatchExpression(term: SearchTerm): string {
+  return term.isFuzzy ? term.words.join(' OR ') : `${term.text}*`;
+}
+
+/**
+ * Entity fields of a custom exercise taken from the user's input
+ */
+function customExerciseFields(
+  input: CustomExerciseInput
+): Pick<ExerciseEntity, 'name' | 'muscleGroups' | 'muscles' | 'equipment' | 'sidedness' | 'cableConfig' | 'notes'> {
+  return {
+    name: input.name.trim(),
+    muscleGroups: input.muscleGroups.join(','),
+    // Muscle group names make custom exercises turn up in searches by muscle
+    muscles: input.muscleGroups.map((group) => (LIBRARY_MUSCLE_GROUPS[group] ?? group).toLowerCase()).join(','),
+    equipment: input.equipment.join(','),
+    sidedness: input.sidedness,
+    cableConfig: input.cableConfig,
+    notes: input.notes.trim() || null,
+  };
 }
 
 // Export singleton instance
@@ -0,0 +1,187 @@
+/**
+ * Export Repository - Exports the workout history for spreadsheets and other training logs
+ *
+ * Session summaries and per-sample metric streams are written as CSV, whole workouts as a FIT
+ * strength training activity. Every export can be limited to a date range and to exercises.
+ */
+
+import { getWorkoutRepository } from './WorkoutRepository';
+import { getExerciseRepository } from './ExerciseRepository';
+import { metricsToCsv, sessionsToCsv, SessionMetrics } from '../export/WorkoutCsv';
+import { encodeFitActivity } from '../export/FitFile';
+import { WorkoutSession } from '../../domain/models/Models';
+
+/**
+ * Export formats
+ * - sessions_csv: one row per workout session
+ * - metrics_csv: one row per metric sample of every session
+ * - fit: FIT strength training activity with one set per session
+ */
+export type WorkoutExportFormat = 'sessions_csv' | 'metrics_csv' | 'fit';
+
+/**
+ * Which sessions are exported (unset fields do not filter)
+ */
+export interface WorkoutExportFilter {
+  startDate?: number | null; // Sessions started at or after
+  endDate?: number | null; // Sessions started before
+  exerciseIds?: string[] | null; // Empty or unset for every exercise
+}
+
+/**
+ * An exported file
+ */
+export interface WorkoutExportFile {
+  fileName: string;
+  mimeType: string;
+  encoding: 'utf8' | 'base64'; // FIT files are binary and given as base64
+  content: string;
+  sessionCount: number;
+}
+
+/**
+ * Export Repository interface
+ */
+export interface IExportRepository {
+  getMatchingSessions(filter: WorkoutExportFilter): Promise<WorkoutSession[]>;
+  exportWorkouts(format: WorkoutExportFormat, filter: WorkoutExportFilter): Promise<WorkoutExportFile>;
+}
+
+/**
+ * Export Repository implementation
+ */
+class ExportRepositoryImpl implements IExportRepository {
+  constructor() {}
+
+  /**
+   * Sessions that pass the filter, oldest first
+   */
+  async getMatchingSessions(filter: WorkoutExportFilter): Promise<WorkoutSession[]> {
+    try {
+      const sessions = await getWorkoutRepository().getAllSessions();
+      const exerciseIds = filter.exerciseIds?.length ? new Set(filter.exerciseIds) : null;
+
+      return sessions
+        .filter((session) => {
+          const timestamp = session.timestamp ?? 0;
+          if (filter.startDate != null && timestamp < filter.startDate) return false;
+          if (filter.endDate != null && timestamp >= filter.endDate) return false;
+          return !exerciseIds || (!!session.exerciseId && exerciseIds.has(session.exerciseId));
+        })
+        .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    } catch (error) {
+      console.error('[ExportRepository] Failed to get sessions to export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Export the sessions that pass the filter
+   */
+  async exportWorkouts(format: WorkoutExportFormat, filter: WorkoutExportFilter): Promise<WorkoutExportFile> {
+    const sessions = await this.getMatchingSessions(filter);
+    if (sessions.length === 0) {
+      throw new Error('No workouts match the export filters');
+    }
+
+    try {
+      const fileName = `vitruvian-${formatFileDate(sessions[0].timestamp)}-${formatFileDate(
+        sessions[sessions.length - 1].timestamp
+      )}`;
+
+      let file: WorkoutExportFile;
+      switch (format) {
+        case 'sessions_csv':
+          file = {
+            fileName: `${fileName}-sessions.csv`,
+            mimeType: 'text/csv',
+            encoding: 'utf8',
+            content: sessionsToCsv(sessions, await this.getExerciseNames(sessions)),
+            sessionCount: sessions.length,
+          };
+          break;
+        case 'metrics_csv': {
+          const streams: SessionMetrics[] = [];
+          for (const session of sessions) {
+            const metrics = session.id ? await getWorkoutRepository().getMetricsForSession(session.id) : [];
+            streams.push({ session, metrics });
+          }
+          file = {
+            fileName: `${fileName}-samples.csv`,
+            mimeType: 'text/csv',
+            encoding: 'utf8',
+            content: metricsToCsv(streams),
+            sessionCount: sessions.length,
+          };
+          break;
+        }
+        case 'fit':
+          file = {
+            fileName: `${fileName}.fit`,
+            mimeType: 'application/vnd.ant.fit',
+            encoding: 'base64',
+            content: bytesToBase64(encodeFitActivity(sessions)),
+            sessionCount: sessions.length,
+          };
+          break;
+        default:
+          throw new Error(`Unknown export format: ${format}`);
+      }
+
+      console.log(`[ExportRepository] Exported ${sessions.length} sessions as ${file.fileName}`);
+      return file;
+    } catch (error) {
+      console.error('[ExportRepository] Failed to export workouts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Names of the exercises of the given sessions, by ID
+   */
+  private async getExerciseNames(sessions: WorkoutSession[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    const ids = new Set(sessions.map((session) => session.exerciseId).filter((id): id is string => !!id));
+    for (const id of ids) {
+      const exercise = await getExerciseRepository().getExerciseById(id);
+      if (exercise) {
+        names[id] = exercise.name;
+      }
+    }
+    return names;
+  }
+}
+
+/**
+ * Date of a session for file names (YYYY-MM-DD, local time)
+ */
+function formatFileDate(timestamp: number | undefined): string {
+  const date = new Date(timestamp ?? 0);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Export singleton instance
+let exportRepositoryInstance: ExportRepositoryImpl | null = null;
+
+export const getExportRepository = (): IExportRepository => {
+  if (!exportRepositoryInstance) {
+    exportRepositoryInstance = new ExportRepositoryImpl();
+  }
+  return exportRepositoryInstance;
+};
+
+export const resetExportRepository = (): void => {
+  exportRepositoryInstance = null;
+};
+
+// Export implementation
+export { ExportRepositoryImpl };
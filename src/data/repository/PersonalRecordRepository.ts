@@ -4,8 +4,16 @@
  */
 
 import * as PersonalRecordDao from '../local/daos/personalRecordDao';
-import { PersonalRecordEntity } from '../local/entities';
-import { PersonalRecord } from '../../domain/models/Models';
+import * as OneRepMaxDao from '../local/daos/oneRepMaxDao';
+import * as WorkoutDao from '../local/daos/workoutDao';
+import { OneRepMaxEstimateEntity, PersonalRecordEntity } from '../local/entities';
+import { OneRepMaxEstimate, OneRepMaxFormula, PersonalRecord } from '../../domain/models/Models';
+import { estimateAllOneRepMaxes, OneRepMaxInput } from '../../domain/usecases/OneRepMaxEstimator';
+import {
+  detectPersonalRecords,
+  PersonalRecordBreak,
+  SetPerformance,
+} from '../../domain/usecases/PersonalRecordDetector';
 
 /**
  * Personal Record Repository interface
@@ -23,6 +31,18 @@ export interface IPersonalRecordRepository {
     workoutMode: string,
     timestamp: number
   ): Promise<boolean>;
+  checkPersonalRecords(performance: SetPerformance): Promise<PersonalRecordBreak[]>;
+
+  // Estimated one-rep max
+  recordOneRepMaxEstimates(
+    sessionId: string,
+    exerciseId: string,
+    timestamp: number,
+    input: OneRepMaxInput
+  ): Promise<OneRepMaxEstimate[]>;
+  backfillOneRepMaxEstimates(): Promise<number>;
+  getOneRepMaxHistory(exerciseId: string, formula: OneRepMaxFormula): Promise<OneRepMaxEstimate[]>;
+  getAllOneRepMaxHistory(formula: OneRepMaxFormula): Promise<OneRepMaxEstimate[]>;
 }
 
 /**
@@ -129,6 +149,137 @@ class PersonalRecordRepositoryImpl implements IPersonalRecordRepository {
     }
   }
 
+  /**
+   * Compare a set with the stored records of every category and store the records it breaks
+   * Returns the broken records (with the record they replaced, if any)
+   */
+  async checkPersonalRecords(performance: SetPerformance): Promise<PersonalRecordBreak[]> {
+    try {
+      const existing = await this.getPRsForExercise(performance.exerciseId);
+      const breaks = detectPersonalRecords(performance, existing);
+
+      if (breaks.length > 0) {
+        await PersonalRecordDao.upsertPRs(
+          breaks.map(({ record }) => ({ ...record, sessionId: record.sessionId ?? null }))
+        );
+        breaks.forEach(({ record }) =>
+          console.log(
+            `[PersonalRecordRepository] New ${record.category} record for exercise ${record.exerciseId}: ` +
+              `${record.value.toFixed(1)} (${record.workoutMode})`
+          )
+        );
+      }
+
+      return breaks;
+    } catch (error) {
+      console.error(
+        `[PersonalRecordRepository] Failed to check records for exercise ${performance.exerciseId}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Estimate the one-rep max of a session with every applicable formula and store the results
+   */
+  async recordOneRepMaxEstimates(
+    sessionId: string,
+    exerciseId: string,
+    timestamp: number,
+    input: OneRepMaxInput
+  ): Promise<OneRepMaxEstimate[]> {
+    try {
+      const entities: OneRepMaxEstimateEntity[] = estimateAllOneRepMaxes(input).map(({ formula, value }) => ({
+        sessionId,
+        exerciseId,
+        timestamp,
+        formula,
+        weightPerCableKg: input.weightPerCableKg,
+        reps: input.reps,
+        estimatedOneRepMaxKg: value,
+      }));
+
+      if (entities.length > 0) {
+        await OneRepMaxDao.insertEstimates(entities);
+      }
+
+      return entities.map(this.entityToOneRepMaxEstimate);
+    } catch (error) {
+      console.error(`[PersonalRecordRepository] Failed to record 1RM estimates for session ${sessionId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Estimate sessions saved before one-rep max tracking (or whose estimate failed)
+   * Returns the number of sessions estimated
+   */
+  async backfillOneRepMaxEstimates(): Promise<number> {
+    try {
+      const [sessions, estimatedIds] = await Promise.all([
+        WorkoutDao.getAllSessions(),
+        OneRepMaxDao.getEstimatedSessionIds(),
+      ]);
+      const estimated = new Set(estimatedIds);
+      const pending = sessions.filter(
+        (session) =>
+          session.exerciseId &&
+          session.workingReps > 0 &&
+          !session.isJustLift &&
+          session.mode !== 'Echo' &&
+          !estimated.has(session.id)
+      );
+
+      for (const session of pending) {
+        const reps = await WorkoutDao.getRepsForSession(session.id);
+        const velocities = reps
+          .filter((rep) => !rep.isWarmup && rep.meanConcentricVelocity !== null)
+          .map((rep) => rep.meanConcentricVelocity as number);
+
+        await this.recordOneRepMaxEstimates(session.id, session.exerciseId!, session.timestamp, {
+          weightPerCableKg: session.weightPerCableKg,
+          reps: session.workingReps,
+          meanConcentricVelocity: velocities.length > 0 ? Math.max(...velocities) : null,
+        });
+      }
+
+      if (pending.length > 0) {
+        console.log(`[PersonalRecordRepository] Backfilled 1RM estimates for ${pending.length} sessions`);
+      }
+      return pending.length;
+    } catch (error) {
+      console.error('[PersonalRecordRepository] Failed to backfill 1RM estimates:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the one-rep max history of an exercise for one formula (oldest first)
+   */
+  async getOneRepMaxHistory(exerciseId: string, formula: OneRepMaxFormula): Promise<OneRepMaxEstimate[]> {
+    try {
+      const entities = await OneRepMaxDao.getEstimatesForExercise(exerciseId, formula);
+      return entities.map(this.entityToOneRepMaxEstimate);
+    } catch (error) {
+      console.error(`[PersonalRecordRepository] Failed to get 1RM history for exercise ${exerciseId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the one-rep max history of every exercise for one formula
+   */
+  async getAllOneRepMaxHistory(formula: OneRepMaxFormula): Promise<OneRepMaxEstimate[]> {
+    try {
+      const entities = await OneRepMaxDao.getAllEstimates(formula);
+      return entities.map(this.entityToOneRepMaxEstimate);
+    } catch (error) {
+      console.error('[PersonalRecordRepository] Failed to get 1RM history:', error);
+      return [];
+    }
+  }
+
   // ========== Helper Methods ==========
 
   /**
@@ -142,6 +293,25 @@ class PersonalRecordRepositoryImpl implements IPersonalRecordRepository {
       reps: entity.reps,
       timestamp: entity.timestamp,
       workoutMode: entity.workoutMode,
+      category: entity.category,
+      value: entity.value,
+      sessionId: entity.sessionId,
+    };
+  }
+
+  /**
+   * Convert OneRepMaxEstimateEntity to OneRepMaxEstimate
+   */
+  private entityToOneRepMaxEstimate(entity: OneRepMaxEstimateEntity): OneRepMaxEstimate {
+    return {
+      id: entity.id,
+      sessionId: entity.sessionId,
+      exerciseId: entity.exerciseId,
+      timestamp: entity.timestamp,
+      formula: entity.formula,
+      weightPerCableKg: entity.weightPerCableKg,
+      reps: entity.reps,
+      estimatedOneRepMaxKg: entity.estimatedOneRepMaxKg,
     };
   }
 }
@@ -0,0 +1,434 @@
+/**
+ * Share Repository - Exports routines and weekly programs to share files and imports them
+ *
+ * Imported routines and programs always get new IDs. Exercises are matched against the local
+ * exercise library by ID, then by name; exercises without a match are kept as written.
+ */
+
+import { ExerciseEntity, WeeklyProgramWithDays } from '../local/entities';
+import { getWorkoutRepository, modeNameToWorkoutType, workoutTypeToModeName } from './WorkoutRepository';
+import { getExerciseRepository } from './ExerciseRepository';
+import {
+  SHARE_FILE_FORMAT,
+  SHARE_FILE_VERSION,
+  ShareFile,
+  ShareFileKind,
+  SharedRoutine,
+  SharedRoutineExercise,
+} from '../share/ShareFile';
+import {
+  Routine,
+  RoutineExercise,
+  createDefaultDropSetSettings,
+  createDefaultProgressionSettings,
+} from '../../domain/models/Routine';
+import { EccentricLoad, EchoLevel, generateUUID } from '../../domain/models/Models';
+
+/**
+ * How an imported routine or program whose name is already taken is saved
+ * - rename: keep both, the import gets a numbered "(Imported)" suffix
+ * - replace: overwrite the existing routine or program
+ */
+export type ShareConflictResolution = 'rename' | 'replace';
+
+/**
+ * What an import would add, shown before importing
+ */
+export interface ShareImportPreview {
+  kind: ShareFileKind;
+  routineNames: string[];
+  programTitle: string | null;
+  exerciseCount: number;
+  unresolvedExercises: string[]; // Exercises without a match in the exercise library
+  routineConflicts: string[]; // Routine names that are already taken
+  programConflict: string | null; // Program title that is already taken
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ShareImportResult {
+  routineIds: string[];
+  programId: string | null;
+  unresolvedExercises: string[];
+}
+
+/**
+ * Share Repository interface
+ */
+export interface IShareRepository {
+  exportRoutine(routineId: string): Promise<ShareFile>;
+  exportProgram(programId: string): Promise<ShareFile>;
+  previewImport(file: ShareFile): Promise<ShareImportPreview>;
+  importShareFile(file: ShareFile, resolution: ShareConflictResolution): Promise<ShareImportResult>;
+}
+
+/**
+ * Share Repository implementation
+ */
+class ShareRepositoryImpl implements IShareRepository {
+  constructor() {}
+
+  /**
+   * Export one routine
+   */
+  async exportRoutine(routineId: string): Promise<ShareFile> {
+    const routine = await getWorkoutRepository().getRoutine(routineId);
+    if (!routine) {
+      throw new Error(`Routine not found: ${routineId}`);
+    }
+
+    return {
+      format: SHARE_FILE_FORMAT,
+      version: SHARE_FILE_VERSION,
+      exportedAt: Date.now(),
+      kind: 'routine',
+      routines: [routineToShared(routine)],
+      program: null,
+    };
+  }
+
+  /**
+   * Export a weekly program with every routine it schedules
+   */
+  async exportProgram(programId: string): Promise<ShareFile> {
+    const workoutRepository = getWorkoutRepository();
+    const programWithDays = await workoutRepository.getProgramById(programId);
+    if (!programWithDays) {
+      throw new Error(`Program not found: ${programId}`);
+    }
+
+    const routines: SharedRoutine[] = [];
+    for (const routineId of unique(programWithDays.days.map((day) => day.routineId))) {
+      const routine = await workoutRepository.getRoutine(routineId);
+      if (routine) {
+        routines.push(routineToShared(routine));
+      }
+    }
+    if (routines.length === 0) {
+      throw new Error('Program has no routines to share');
+    }
+
+    const { program, days, weeks } = programWithDays;
+    return {
+      format: SHARE_FILE_FORMAT,
+      version: SHARE_FILE_VERSION,
+      exportedAt: Date.now(),
+      kind: 'program',
+      routines,
+      program: {
+        title: program.title,
+        notes: program.notes,
+        weekCount: program.weekCount,
+        // Days whose routine no longer exists are left out
+        days: days
+          .filter((day) => routines.some((routine) => routine.key === day.routineId))
+          .map((day) => ({ dayOfWeek: day.dayOfWeek, routineKey: day.routineId })),
+        weeks: weeks.map((week) => ({
+          weekNumber: week.weekNumber,
+          intensityPercent: week.intensityPercent,
+          volumePercent: week.volumePercent,
+          isDeload: week.isDeload,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Check a share file against the local routines, programs and exercise library
+   */
+  async previewImport(file: ShareFile): Promise<ShareImportPreview> {
+    const workoutRepository = getWorkoutRepository();
+    const [routines, programs, library] = await Promise.all([
+      workoutRepository.getAllRoutines(),
+      file.program ? workoutRepository.getAllPrograms() : Promise.resolve([]),
+      getExerciseRepository().getAllExercises(),
+    ]);
+
+    const exercises = file.routines.flatMap((routine) => routine.exercises);
+    const unresolved = exercises.filter((exercise) => !findLibraryExercise(exercise, library));
+
+    return {
+      kind: file.kind,
+      routineNames: file.routines.map((routine) => routine.name),
+      programTitle: file.program?.title ?? null,
+      exerciseCount: exercises.length,
+      unresolvedExercises: unique(unresolved.map((exercise) => exercise.name)),
+      routineConflicts: file.routines
+        .filter((routine) => findByName(routines, (r) => r.name, routine.name))
+        .map((routine) => routine.name),
+      programConflict:
+        file.program && findByName(programs, (p) => p.program.title, file.program.title) ? file.program.title : null,
+    };
+  }
+
+  /**
+   * Save the routines and program of a share file
+   */
+  async importShareFile(file: ShareFile, resolution: ShareConflictResolution): Promise<ShareImportResult> {
+    const workoutRepository = getWorkoutRepository();
+    const [existingRoutines, library] = await Promise.all([
+      workoutRepository.getAllRoutines(),
+      getExerciseRepository().getAllExercises(),
+    ]);
+
+    const routineIds = new Map<string, string>(); // Routine key -> saved routine ID
+    const takenNames = existingRoutines.map((routine) => routine.name);
+    const unresolved: string[] = [];
+
+    for (const shared of file.routines) {
+      const existing = findByName(existingRoutines, (r) => r.name, shared.name);
+      const routine = sharedToRoutine(shared, library, unresolved);
+
+      if (existing && resolution === 'replace') {
+        await workoutRepository.updateRoutine({
+          ...routine,
+          id: existing.id,
+          createdAt: existing.createdAt,
+          lastUsed: existing.lastUsed,
+          useCount: existing.useCount,
+        });
+        routineIds.set(shared.key, existing.id);
+      } else {
+        const taken = findByName(takenNames, (name) => name, shared.name);
+        routine.name = taken ? nextImportedName(shared.name, takenNames) : shared.name;
+        takenNames.push(routine.name);
+        await workoutRepository.saveRoutine(routine);
+        routineIds.set(shared.key, routine.id);
+      }
+    }
+
+    const programId = file.program ? await this.importProgram(file, routineIds, resolution) : null;
+
+    console.log(`[ShareRepository] Imported ${file.routines.length} routine(s)${programId ? ' and a program' : ''}`);
+    return {
+      routineIds: Array.from(routineIds.values()),
+      programId,
+      unresolvedExercises: unique(unresolved),
+    };
+  }
+
+  /**
+   * Save the program of a share file once its routines are saved
+   */
+  private async importProgram(
+    file: ShareFile,
+    routineIds: Map<string, string>,
+    resolution: ShareConflictResolution
+  ): Promise<string> {
+    const shared = file.program!;
+    const workoutRepository = getWorkoutRepository();
+    const programs = await workoutRepository.getAllPrograms();
+    const existing = findByName(programs, (p) => p.program.title, shared.title);
+
+    const replacing = existing && resolution === 'replace';
+    const programId = replacing ? existing.program.id : generateUUID();
+    const title =
+      existing && !replacing ? nextImportedName(shared.title, programs.map((p) => p.program.title)) : shared.title;
+
+    const programWithDays: WeeklyProgramWithDays = {
+      program: {
+        id: programId,
+        title,
+        notes: shared.notes,
+        // A replaced program stays active, but starts over at week 1
+        isActive: replacing ? existing.program.isActive : false,
+        lastUsed: replacing ? existing.program.lastUsed : null,
+        createdAt: replacing ? existing.program.createdAt : Date.now(),
+        weekCount: shared.weekCount,
+        currentWeek: 1,
+        weekStartedAt: null,
+      },
+      days: shared.days.map((day) => ({
+        programId,
+        dayOfWeek: day.dayOfWeek,
+        routineId: routineIds.get(day.routineKey)!,
+      })),
+      weeks: shared.weeks.map((week) => ({ programId, ...week })),
+    };
+
+    await workoutRepository.saveProgram(programWithDays);
+    return programId;
+  }
+}
+
+/**
+ * Convert a routine to its shared form (the routine ID becomes its key)
+ */
+function routineToShared(routine: Routine): SharedRoutine {
+  return {
+    key: routine.id,
+    name: routine.name,
+    description: routine.description ?? '',
+    exercises: (routine.exercises ?? []).map(routineExerciseToShared),
+  };
+}
+
+/**
+ * Convert a routine exercise to its shared form
+ */
+function routineExerciseToShared(exercise: RoutineExercise): SharedRoutineExercise {
+  const workoutType = exercise.workoutType;
+  const progression = exercise.progression ?? createDefaultProgressionSettings();
+
+  return {
+    exerciseId: exercise.exercise.id ?? null,
+    name: exercise.exercise.name,
+    muscleGroup: exercise.exercise.muscleGroup,
+    equipment: exercise.exercise.equipment ?? '',
+    defaultCableConfig: exercise.exercise.defaultCableConfig ?? exercise.cableConfig,
+    cableConfig: exercise.cableConfig,
+    setReps: exercise.setReps ?? [],
+    weightPerCableKg: exercise.weightPerCableKg,
+    setWeightsPerCableKg: exercise.setWeightsPerCableKg ?? [],
+    mode: workoutType ? workoutTypeToModeName(workoutType) : 'OldSchool',
+    setModes: (exercise.setModes ?? []).map((setMode) => (setMode ? workoutTypeToModeName(setMode) : null)),
+    echoLevel: workoutType?.type === 'echo' ? workoutType.level : exercise.echoLevel ?? EchoLevel.HARDER,
+    eccentricLoad:
+      workoutType?.type === 'echo' ? workoutType.eccentricLoad : exercise.eccentricLoad ?? EccentricLoad.LOAD_100,
+    progressionKg: exercise.progressionKg ?? 0,
+    restSeconds: exercise.restSeconds ?? 60,
+    notes: exercise.notes ?? '',
+    setType: exercise.setType ?? 'reps',
+    durationSeconds: exercise.duration ?? null,
+    velocityLossPercent: exercise.velocityLossPercent ?? null,
+    progression: {
+      scheme: progression.scheme,
+      incrementKg: progression.incrementKg,
+      repRangeMin: progression.repRangeMin ?? null,
+      repRangeMax: progression.repRangeMax ?? null,
+      targetRpe: progression.targetRpe ?? null,
+    },
+    group: exercise.group
+      ? {
+          key: exercise.group.id,
+          type: exercise.group.type,
+          restBetweenExercisesSeconds: exercise.group.restBetweenExercisesSeconds,
+          restBetweenRoundsSeconds: exercise.group.restBetweenRoundsSeconds,
+        }
+      : null,
+    dropSet: { ...(exercise.dropSet ?? createDefaultDropSetSettings()) },
+  };
+}
+
+/**
+ * Convert a shared routine to a new routine, matching its exercises against the library.
+ * Names of exercises without a match are added to `unresolved`.
+ */
+function sharedToRoutine(shared: SharedRoutine, library: ExerciseEntity[], unresolved: string[]): Routine {
+  const groupIds = new Map<string, string>(); // Group key -> new group ID
+
+  const exercises = shared.exercises.map((exercise, index): RoutineExercise => {
+    const match = findLibraryExercise(exercise, library);
+    if (!match) {
+      unresolved.push(exercise.name);
+    }
+
+    let groupId: string | null = null;
+    if (exercise.group) {
+      groupId = groupIds.get(exercise.group.key) ?? generateUUID();
+      groupIds.set(exercise.group.key, groupId);
+    }
+
+    return {
+      id: generateUUID(),
+      exercise: {
+        name: match?.name ?? exercise.name,
+        muscleGroup: exercise.muscleGroup,
+        equipment: exercise.equipment,
+        defaultCableConfig: exercise.defaultCableConfig,
+        id: match?.id ?? null,
+      },
+      cableConfig: exercise.cableConfig,
+      orderIndex: index,
+      setReps: exercise.setReps,
+      weightPerCableKg: exercise.weightPerCableKg,
+      setWeightsPerCableKg: exercise.setWeightsPerCableKg,
+      workoutType: modeNameToWorkoutType(exercise.mode, exercise.echoLevel, exercise.eccentricLoad),
+      setModes: exercise.setModes.map((mode) =>
+        mode ? modeNameToWorkoutType(mode, exercise.echoLevel, exercise.eccentricLoad) : null
+      ),
+      echoLevel: exercise.echoLevel as EchoLevel,
+      eccentricLoad: exercise.eccentricLoad as EccentricLoad,
+      progressionKg: exercise.progressionKg,
+      restSeconds: exercise.restSeconds,
+      notes: exercise.notes,
+      setType: exercise.setType,
+      duration: exercise.durationSeconds,
+      velocityLossPercent: exercise.velocityLossPercent,
+      progression: createDefaultProgressionSettings(exercise.progression),
+      group:
+        exercise.group && groupId
+          ? {
+              id: groupId,
+              type: exercise.group.type,
+              restBetweenExercisesSeconds: exercise.group.restBetweenExercisesSeconds,
+              restBetweenRoundsSeconds: exercise.group.restBetweenRoundsSeconds,
+            }
+          : null,
+      dropSet: createDefaultDropSetSettings(exercise.dropSet),
+    };
+  });
+
+  return {
+    id: generateUUID(),
+    name: shared.name,
+    description: shared.description,
+    exercises,
+    createdAt: Date.now(),
+    lastUsed: null,
+    useCount: 0,
+  };
+}
+
+/**
+ * Library exercise a shared exercise refers to: the same ID, otherwise the same name
+ */
+function findLibraryExercise(exercise: SharedRoutineExercise, library: ExerciseEntity[]): ExerciseEntity | null {
+  return (
+    (exercise.exerciseId ? library.find((entry) => entry.id === exercise.exerciseId) : undefined) ??
+    findByName(library, (entry) => entry.name, exercise.name) ??
+    null
+  );
+}
+
+/**
+ * First item with the given name, ignoring case and surrounding whitespace
+ */
+function findByName<T>(items: T[], getName: (item: T) => string, name: string): T | undefined {
+  const wanted = name.trim().toLowerCase();
+  return items.find((item) => getName(item).trim().toLowerCase() === wanted);
+}
+
+/**
+ * Free "(Imported)" name for an import whose name is taken
+ */
+function nextImportedName(name: string, takenNames: string[]): string {
+  for (let number = 1; ; number++) {
+    const candidate = number === 1 ? `${name} (Imported)` : `${name} (Imported ${number})`;
+    if (!findByName(takenNames, (taken) => taken, candidate)) {
+      return candidate;
+    }
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// Export singleton instance
+let shareRepositoryInstance: ShareRepositoryImpl | null = null;
+
+export const getShareRepository = (): IShareRepository => {
+  if (!shareRepositoryInstance) {
+    shareRepositoryInstance = new ShareRepositoryImpl();
+  }
+  return shareRepositoryInstance;
+};
+
+export const resetShareRepository = (): void => {
+  shareRepositoryInstance = null;
+};
+
+// Export implementation
+export { ShareRepositoryImpl };
@@ -0,0 +1,432 @@
+/**
+ * Simulated BLE Repository - Runs the app against a virtual Vitruvian trainer
+ * Implements IBleRepository so it can be swapped in for BleRepositoryImpl during
+ * development and regression testing without hardware nearby
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ConnectionStatus,
+  ConnectionState,
+  HandleState,
+  WorkoutMetric,
+  RepNotification,
+  BLE_CONSTANTS,
+  HANDLE_DETECTION,
+  POLLING_INTERVALS,
+  CommandPriority,
+  CommandResult,
+} from '../ble/types';
+import { SimulatedTrainer, SimulatedTrainerOptions, LifterProfile } from '../ble/SimulatedTrainer';
+import { parseMonitorPacket, parseRepPacket, MonitorMetricProcessor } from '../ble/packetParser';
+import { CommandQueue, CommandOptions, RETRY_POLICIES } from '../ble/CommandQueue';
+import { WorkoutParameters } from '../../domain/models/Models';
+import { buildInitCommand, buildInitPreset, buildColorScheme } from '../../utils/protocolBuilder';
+import { COLOR_SCHEMES } from '../../utils/colorSchemes';
+import type { IBleRepository, ReconnectState, TrainerInfo } from './BleRepository';
+import { PRIMARY_TRAINER_ID, buildWorkoutCommand } from './trainerProtocol';
+
+/**
+ * Address and name reported for the virtual device
+ */
+export const SIMULATED_DEVICE_ADDRESS = 'SIMULATED-VEE-0001';
+export const SIMULATED_DEVICE_NAME = `${BLE_CONSTANTS.DEVICE_NAME_PREFIX}_Simulator`;
+
+/**
+ * Simulated BLE Repository implementation
+ * Frames from protocolBuilder are written to a SimulatedTrainer and its raw
+ * payloads are parsed with the same packet layouts as the real device
+ */
+class SimulatedBleRepositoryImpl extends EventEmitter implements IBleRepository {
+  private trainer: SimulatedTrainer;
+  private currentConnectionState: ConnectionState = { status: ConnectionStatus.Disconnected };
+  private currentHandleState: HandleState = HandleState.Released;
+  private monitorPollingTimer: ReturnType<typeof setInterval> | null = null;
+
+  private metricProcessor = new MonitorMetricProcessor();
+
+  // Same queueing semantics as the real device
+  private commandQueue = new CommandQueue(async (data) => this.writeCommand(data));
+
+  constructor(options: SimulatedTrainerOptions = {}) {
+    super();
+    this.trainer = new SimulatedTrainer(options);
+    this.commandQueue.on('commandResult', (result: CommandResult) => {
+      this.emit('commandResult', result);
+    });
+    this.trainer.on('notification', (uuid: string, bytes: Uint8Array) => {
+      this.handleNotification(uuid, bytes);
+    });
+  }
+
+  /**
+   * Change the simulated lifter profile
+   */
+  setLifterProfile(profile: LifterProfile): void {
+    console.log(`[SimulatedBleRepository] Lifter profile: ${profile.name}`);
+    this.trainer.setProfile(profile);
+  }
+
+  /**
+   * Access the underlying virtual device
+   */
+  getTrainer(): SimulatedTrainer {
+    return this.trainer;
+  }
+
+  /**
+   * Get current connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.currentConnectionState;
+  }
+
+  /**
+   * Get current handle state
+   */
+  getHandleState(): HandleState {
+    return this.currentHandleState;
+  }
+
+  /**
+   * The virtual link never drops, so there is nothing to reconnect
+   */
+  getReconnectState(): ReconnectState {
+    return { status: 'idle' };
+  }
+
+  /**
+   * The simulator stands in for the primary trainer
+   */
+  getTrainerInfo(): TrainerInfo {
+    return {
+      trainerId: PRIMARY_TRAINER_ID,
+      name: SIMULATED_DEVICE_NAME,
+      connectionState: this.currentConnectionState,
+      handleState: this.currentHandleState,
+    };
+  }
+
+  /**
+   * Start scanning - the virtual device is discovered immediately
+   */
+  async startScanning(): Promise<void> {
+    console.log('[SimulatedBleRepository] startScanning() called');
+    this.updateConnectionState({ status: ConnectionStatus.Scanning });
+
+    await this.delay(300);
+    console.log(`[SimulatedBleRepository] Found device: ${SIMULATED_DEVICE_NAME} (${SIMULATED_DEVICE_ADDRESS})`);
+    this.emit('deviceFound', { id: SIMULATED_DEVICE_ADDRESS, name: SIMULATED_DEVICE_NAME });
+  }
+
+  /**
+   * Stop scanning
+   */
+  async stopScanning(): Promise<void> {
+    if (this.currentConnectionState.status === ConnectionStatus.Scanning) {
+      this.updateConnectionState({ status: ConnectionStatus.Disconnected });
+    }
+  }
+
+  /**
+   * Connect to the virtual device
+   */
+  async connectToDevice(deviceAddress: string): Promise<void> {
+    try {
+      console.log(`[SimulatedBleRepository] connectToDevice() called for: ${deviceAddress}`);
+
+      if (deviceAddress !== SIMULATED_DEVICE_ADDRESS) {
+        throw new Error(`Device not found: ${deviceAddress}`);
+      }
+
+      await this.stopScanning();
+
+      this.updateConnectionState({ status: ConnectionStatus.Connecting, deviceName: SIMULATED_DEVICE_NAME });
+      await this.delay(500);
+
+      this.trainer.reset();
+      this.updateConnectionState({
+        status: ConnectionStatus.Ready,
+        deviceName: SIMULATED_DEVICE_NAME,
+        deviceAddress: SIMULATED_DEVICE_ADDRESS,
+      });
+
+      await this.sendInitSequence();
+      console.log('[SimulatedBleRepository] Virtual device ready');
+    } catch (error) {
+      console.error('[SimulatedBleRepository] Failed to connect:', error);
+      this.updateConnectionState({
+        status: ConnectionStatus.Error,
+        message: error instanceof Error ? error.message : 'Connection failed',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the virtual device
+   */
+  async disconnect(): Promise<void> {
+    console.log('[SimulatedBleRepository] Disconnecting...');
+    this.stopMonitorPolling();
+    this.commandQueue.clear('Device disconnected');
+    this.trainer.reset();
+    this.updateConnectionState({ status: ConnectionStatus.Disconnected });
+  }
+
+  /**
+   * Send INIT sequence to the virtual device
+   */
+  async sendInitSequence(): Promise<void> {
+    await this.sendCommand(buildInitCommand(), { label: 'init', settleMs: 200 });
+    await this.sendCommand(buildInitPreset(), { label: 'init-preset', settleMs: 200 });
+  }
+
+  /**
+   * Start workout with given parameters
+   */
+  async startWorkout(params: WorkoutParameters): Promise<void> {
+    try {
+      console.log(`[SimulatedBleRepository] Starting workout with type: ${params.workoutType.type}`);
+      await this.sendCommand(buildWorkoutCommand(params), {
+        label: params.workoutType.type === 'echo' ? 'echo-control' : 'program-params',
+        settleMs: 100,
+        cancelOnStop: true,
+        retry: RETRY_POLICIES.WORKOUT,
+      });
+      this.startMonitorPolling();
+    } catch (error) {
+      console.error('[SimulatedBleRepository] Failed to start workout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch a running set to its next segment without releasing tension
+   */
+  async changeWorkoutSegment(params: WorkoutParameters): Promise<void> {
+    console.log(`[SimulatedBleRepository] Changing workout segment: Weight=${params.weightPerCableKg || 0}kg`);
+    await this.sendCommand(buildWorkoutCommand(params), {
+      label: params.workoutType.type === 'echo' ? 'echo-control' : 'program-params',
+      settleMs: 100,
+      cancelOnStop: true,
+      retry: RETRY_POLICIES.WORKOUT,
+    });
+  }
+
+  /**
+   * Stop workout and release tension
+   */
+  async stopWorkout(): Promise<void> {
+    try {
+      console.log('[SimulatedBleRepository] Stopping workout...');
+      this.stopMonitorPolling();
+      await this.sendCommand(buildInitCommand(), { label: 'stop', priority: CommandPriority.Stop });
+    } catch (error) {
+      console.error('[SimulatedBleRepository] FAILED to stop workout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set LED color scheme
+   */
+  async setColorScheme(schemeIndex: number): Promise<void> {
+    if (schemeIndex < 0 || schemeIndex >= COLOR_SCHEMES.length) {
+      throw new Error(`Invalid color scheme index: ${schemeIndex}`);
+    }
+
+    const scheme = COLOR_SCHEMES[schemeIndex];
+    await this.sendCommand(buildColorScheme(scheme.brightness, scheme.colors), {
+      label: 'color-scheme',
+      priority: CommandPriority.Background,
+    });
+    console.log(`[SimulatedBleRepository] Color scheme set to: ${scheme.name}`);
+  }
+
+  /**
+   * Official app protocol is not modelled by the simulator
+   */
+  async testOfficialAppProtocol(): Promise<void> {
+    console.log('[SimulatedBleRepository] Official app protocol test not supported by the simulator');
+  }
+
+  /**
+   * Enable handle detection for auto-start
+   */
+  enableHandleDetection(): void {
+    console.log('[SimulatedBleRepository] Enabling handle detection');
+    this.startMonitorPolling();
+  }
+
+  /**
+   * Enable Just Lift waiting mode
+   */
+  enableJustLiftWaitingMode(): void {
+    console.log('[SimulatedBleRepository] Enabling Just Lift waiting mode');
+    this.updateHandleState(HandleState.Released);
+  }
+
+  /**
+   * No-op: the virtual link never drops
+   */
+  cancelReconnect(): void {}
+
+  /**
+   * Recorded sessions cannot be replayed: the virtual device produces its own data
+   */
+  getReplayTarget(): null {
+    return null;
+  }
+
+  // ========== Device I/O ==========
+
+  /**
+   * Queue a frame for the virtual device (throws unless it was delivered)
+   */
+  private async sendCommand(data: Uint8Array, options: CommandOptions = {}): Promise<void> {
+    const result = await this.commandQueue.enqueue(data, options);
+    if (result.status !== 'success') {
+      throw new Error(`Command ${result.label} ${result.status}${result.error ? `: ${result.error}` : ''}`);
+    }
+  }
+
+  /**
+   * Write a frame to the virtual device
+   */
+  private writeCommand(data: Uint8Array): void {
+    if (this.currentConnectionState.status !== ConnectionStatus.Ready) {
+      throw new Error('Device not connected');
+    }
+    this.trainer.handleCommand(data, Date.now());
+  }
+
+  /**
+   * Start polling the virtual monitor characteristic (100ms interval)
+   */
+  private startMonitorPolling(): void {
+    this.stopMonitorPolling();
+    this.updateHandleState(HandleState.Released);
+    this.metricProcessor.reset();
+
+    this.monitorPollingTimer = setInterval(() => {
+      this.handleMonitorData(this.trainer.readMonitor(Date.now()));
+    }, POLLING_INTERVALS.MONITOR);
+  }
+
+  /**
+   * Stop monitor polling
+   */
+  private stopMonitorPolling(): void {
+    if (this.monitorPollingTimer) {
+      clearInterval(this.monitorPollingTimer);
+      this.monitorPollingTimer = null;
+    }
+  }
+
+  /**
+   * Parse a monitor payload and emit the metric
+   */
+  private handleMonitorData(bytes: Uint8Array): void {
+    const packet = parseMonitorPacket(bytes);
+    if (!packet) {
+      return;
+    }
+
+    const metric = this.metricProcessor.process(packet, Date.now());
+    this.emit('monitorData', metric);
+
+    const newHandleState = this.analyzeHandleState(metric);
+    if (newHandleState !== this.currentHandleState) {
+      this.updateHandleState(newHandleState);
+    }
+  }
+
+  /**
+   * Handle a notification emitted by the virtual device
+   */
+  private handleNotification(uuid: string, bytes: Uint8Array): void {
+    if (uuid.toLowerCase() !== BLE_CONSTANTS.REP_NOTIFY_CHAR_UUID.toLowerCase()) {
+      return;
+    }
+
+    const packet = parseRepPacket(bytes);
+    if (!packet) {
+      return;
+    }
+
+    const notification: RepNotification = {
+      topCounter: packet.topCounter,
+      completeCounter: packet.completeCounter,
+      rawData: bytes,
+      timestamp: Date.now(),
+    };
+
+    console.log(`[SimulatedBleRepository] Rep notification: top=${packet.topCounter}, complete=${packet.completeCounter}`);
+    this.emit('repNotification', notification);
+  }
+
+  /**
+   * Position-based hysteresis with velocity confirmation (mirrors VitruvianBleManager)
+   */
+  private analyzeHandleState(metric: WorkoutMetric): HandleState {
+    const posA = metric.positionA;
+    const state = this.currentHandleState;
+
+    if (state === HandleState.Grabbed) {
+      return posA < HANDLE_DETECTION.REST_THRESHOLD ? HandleState.Released : HandleState.Grabbed;
+    }
+
+    if (posA > HANDLE_DETECTION.GRABBED_THRESHOLD) {
+      return Math.abs(metric.velocityA) > HANDLE_DETECTION.VELOCITY_THRESHOLD
+        ? HandleState.Grabbed
+        : HandleState.Moving;
+    }
+
+    return HandleState.Released;
+  }
+
+  /**
+   * Update connection state and notify listeners
+   */
+  private updateConnectionState(state: ConnectionState): void {
+    this.currentConnectionState = state;
+    this.emit('connectionStateChange', state);
+  }
+
+  /**
+   * Update handle state and notify listeners
+   */
+  private updateHandleState(state: HandleState): void {
+    this.currentHandleState = state;
+    this.emit('handleStateChange', state);
+  }
+
+  /**
+   * Helper to delay execution
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+// Export singleton instance
+let simulatedBleRepositoryInstance: SimulatedBleRepositoryImpl | null = null;
+
+export const getSimulatedBleRepository = (options?: SimulatedTrainerOptions): SimulatedBleRepositoryImpl => {
+  if (!simulatedBleRepositoryInstance) {
+    simulatedBleRepositoryInstance = new SimulatedBleRepositoryImpl(options);
+  }
+  return simulatedBleRepositoryInstance;
+};
+
+export const resetSimulatedBleRepository = (): void => {
+  if (simulatedBleRepositoryInstance) {
+    simulatedBleRepositoryInstance.disconnect().catch(() => undefined);
+  }
+  simulatedBleRepositoryInstance = null;
+};
+
+// Export implementation
+export { SimulatedBleRepositoryImpl };
@@ -6,11 +6,14 @@
 import { EventEmitter } from 'events';
 import * as WorkoutDao from '../local/daos/workoutDao';
 import * as PersonalRecordDao from '../local/daos/personalRecordDao';
+import * as ProgressionDao from '../local/daos/progressionDao';
 import {
   WorkoutSessionEntity,
   WorkoutMetricEntity,
+  WorkoutRepEntity,
   RoutineEntity,
   RoutineExerciseEntity,
+  ProgressionLogEntity,
   WeeklyProgramWithDays,
   WeeklyProgramEntity,
   ProgramDayEntity,
@@ -18,15 +21,78 @@ import {
 import {
   WorkoutSession,
   WorkoutMetric,
+  WorkoutRep,
   ProgramMode,
   EchoLevel,
   EccentricLoad,
   WorkoutType,
   WorkoutMode,
   WorkoutModeConstants,
+  SetType,
+  DropSetTrigger,
 } from '../../domain/models/Models';
-import { Routine, RoutineExercise } from '../../domain/models/Routine';
+import {
+  Routine,
+  RoutineExercise,
+  ProgressionLogEntry,
+  ProgressionScheme,
+  ExerciseGroupType,
+  DropSetReduction,
+  createDefaultProgressionSettings,
+  createDefaultDropSetSettings,
+} from '../../domain/models/Routine';
 import { Exercise, CableConfiguration } from '../../domain/models/Exercise';
+import {
+  DEFAULT_GROUP_EXERCISE_REST_SECONDS,
+  DEFAULT_GROUP_ROUND_REST_SECONDS,
+} from '../../domain/usecases/ExerciseGrouping';
+
+/**
+ * Name a workout type is stored under (e.g. "OldSchool", "TUTBeast", "Echo")
+ */
+export const workoutTypeToModeName = (workoutType: WorkoutType): string =>
+  workoutType.type === 'echo' ? 'Echo' : workoutType.mode.displayName.replace(/\s+/g, '');
+
+/**
+ * Workout type of a stored mode name (Echo uses the stored level and eccentric load)
+ */
+export const modeNameToWorkoutType = (mode: string, echoLevel: number, eccentricLoad: number): WorkoutType => {
+  if (mode === 'Echo') {
+    return {
+      type: 'echo',
+      level: echoLevel as EchoLevel,
+      eccentricLoad: eccentricLoad as EccentricLoad,
+    };
+  }
+
+  // Map mode string to ProgramMode
+  let programMode = ProgramMode.OldSchool;
+  switch (mode) {
+    case 'Pump':
+      programMode = ProgramMode.Pump;
+      break;
+    case 'TUT':
+      programMode = ProgramMode.TUT;
+      break;
+    case 'TUTBeast':
+      programMode = ProgramMode.TUTBeast;
+      break;
+    case 'EccentricOnly':
+      programMode = ProgramMode.EccentricOnly;
+      break;
+    default:
+      programMode = ProgramMode.OldSchool;
+  }
+  return { type: 'program', mode: programMode };
+};
+
+/**
+ * Per-set modes as comma-separated mode names (an empty entry uses the exercise's mode)
+ */
+export const formatSetModes = (setModes?: Array<WorkoutType | null>): string =>
+  (setModes ?? []).some(Boolean)
+    ? (setModes ?? []).map((workoutType) => (workoutType ? workoutTypeToModeName(workoutType) : '')).join(',')
+    : '';
 
 /**
  * Workout Repository interface
@@ -39,6 +105,8 @@ export interface IWorkoutRepository {
   getRecentSessions(limit?: number): Promise<WorkoutSession[]>;
   getSession(sessionId: string): Promise<WorkoutSession | null>;
   getMetricsForSession(sessionId: string): Promise<WorkoutMetric[]>;
+  saveReps(sessionId: string, reps: WorkoutRep[]): Promise<void>;
+  getRepsForSession(sessionId: string): Promise<WorkoutRep[]>;
   deleteWorkout(sessionId: string): Promise<void>;
   deleteAllWorkouts(): Promise<void>;
 
@@ -50,6 +118,11 @@ export interface IWorkoutRepository {
   deleteRoutine(routineId: string): Promise<void>;
   markRoutineUsed(routineId: string): Promise<void>;
 
+  // Progression operations
+  saveProgressionLog(entries: ProgressionLogEntry[]): Promise<void>;
+  getProgressionLog(routineId: string): Promise<ProgressionLogEntry[]>;
+  getLastProgressionReview(routineId: string): Promise<number | null>;
+
   // Weekly program operations
   getAllPrograms(): Promise<WeeklyProgramWithDays[]>;
   getActiveProgram(): Promise<WeeklyProgramWithDays | null>;
@@ -57,6 +130,7 @@ export interface IWorkoutRepository {
   saveProgram(programWithDays: WeeklyProgramWithDays): Promise<void>;
   deleteProgram(programId: string): Promise<void>;
   activateProgram(programId: string): Promise<void>;
+  setProgramCurrentWeek(programId: string, currentWeek: number, weekStartedAt: number): Promise<void>;
 
   // Personal record operations
   updatePersonalRecordIfNeeded(
@@ -98,6 +172,18 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
         eccentricLoad: session.eccentricLoad || 100,
         echoLevel: session.echoLevel || 1,
         exerciseId: session.exerciseId || null,
+        stopReason: session.stopReason ?? null,
+        loadAsymmetryPercent: session.loadAsymmetryPercent ?? null,
+        romAsymmetryPercent: session.romAsymmetryPercent ?? null,
+        timingOffsetMs: session.timingOffsetMs ?? null,
+        setType: session.setType ?? 'reps',
+        targetDurationSeconds: session.targetDurationSeconds ?? null,
+        timeUnderTensionMs: session.timeUnderTensionMs ?? null,
+        holdLoadKg: session.holdLoadKg ?? null,
+        loadVariationPercent: session.loadVariationPercent ?? null,
+        positionVariationMm: session.positionVariationMm ?? null,
+        routineId: session.routineId ?? null,
+        routineExerciseId: session.routineExerciseId ?? null,
       };
 
       await WorkoutDao.insertSession(entity);
@@ -183,6 +269,35 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
     }
   }
 
+  /**
+   * Save the reps of a workout session (replaces any reps already stored for it)
+   */
+  async saveReps(sessionId: string, reps: WorkoutRep[]): Promise<void> {
+    try {
+      const entities: WorkoutRepEntity[] = reps.map((rep) => this.workoutRepToEntity(sessionId, rep));
+
+      await WorkoutDao.deleteRepsForSession(sessionId);
+      await WorkoutDao.insertReps(entities);
+      console.log(`[WorkoutRepository] Saved ${entities.length} reps for session ${sessionId}`);
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to save workout reps:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reps of a workout session in order
+   */
+  async getRepsForSession(sessionId: string): Promise<WorkoutRep[]> {
+    try {
+      const entities = await WorkoutDao.getRepsForSession(sessionId);
+      return entities.map(this.entityToWorkoutRep);
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to get reps:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a workout
    */
@@ -307,6 +422,46 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
     }
   }
 
+  // ========== Progression Operations ==========
+
+  /**
+   * Record the progression decisions of a routine run
+   */
+  async saveProgressionLog(entries: ProgressionLogEntry[]): Promise<void> {
+    try {
+      await ProgressionDao.insertLogEntries(entries.map((entry) => this.progressionLogToEntity(entry)));
+      console.log(`[WorkoutRepository] Saved ${entries.length} progression log entries`);
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to save progression log:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the progression history of a routine (newest first)
+   */
+  async getProgressionLog(routineId: string): Promise<ProgressionLogEntry[]> {
+    try {
+      const entities = await ProgressionDao.getLogForRoutine(routineId);
+      return entities.map((entity) => this.entityToProgressionLog(entity));
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to get progression log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the time of the last progression review of a routine
+   */
+  async getLastProgressionReview(routineId: string): Promise<number | null> {
+    try {
+      return await ProgressionDao.getLastReviewTimestamp(routineId);
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to get last progression review:', error);
+      return null;
+    }
+  }
+
   // ========== Weekly Program Operations ==========
 
   /**
@@ -350,7 +505,11 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
    */
   async saveProgram(programWithDays: WeeklyProgramWithDays): Promise<void> {
     try {
-      await WorkoutDao.insertProgramWithDays(programWithDays.program, programWithDays.days);
+      await WorkoutDao.insertProgramWithDays(
+        programWithDays.program,
+        programWithDays.days,
+        programWithDays.weeks
+      );
       console.log(`[WorkoutRepository] Saved weekly program: ${programWithDays.program.title}`);
     } catch (error) {
       console.error('[WorkoutRepository] Failed to save weekly program:', error);
@@ -384,6 +543,19 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
     }
   }
 
+  /**
+   * Move a program to a week of its mesocycle
+   */
+  async setProgramCurrentWeek(programId: string, currentWeek: number, weekStartedAt: number): Promise<void> {
+    try {
+      await WorkoutDao.setProgramCurrentWeek(programId, currentWeek, weekStartedAt);
+      console.log(`[WorkoutRepository] Program ${programId} moved to week ${currentWeek}`);
+    } catch (error) {
+      console.error('[WorkoutRepository] Failed to set program week:', error);
+      throw error;
+    }
+  }
+
   // ========== Personal Record Operations ==========
 
   /**
@@ -439,6 +611,18 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
       eccentricLoad: entity.eccentricLoad,
       echoLevel: entity.echoLevel,
       exerciseId: entity.exerciseId,
+      stopReason: entity.stopReason,
+      loadAsymmetryPercent: entity.loadAsymmetryPercent,
+      romAsymmetryPercent: entity.romAsymmetryPercent,
+      timingOffsetMs: entity.timingOffsetMs,
+      setType: entity.setType,
+      targetDurationSeconds: entity.targetDurationSeconds,
+      timeUnderTensionMs: entity.timeUnderTensionMs,
+      holdLoadKg: entity.holdLoadKg,
+      loadVariationPercent: entity.loadVariationPercent,
+      positionVariationMm: entity.positionVariationMm,
+      routineId: entity.routineId,
+      routineExerciseId: entity.routineExerciseId,
     };
   }
 
@@ -456,6 +640,36 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
     };
   }
 
+  /**
+   * Convert entity to WorkoutRep
+   */
+  private entityToWorkoutRep(entity: WorkoutRepEntity): WorkoutRep {
+    return { ...entity };
+  }
+
+  /**
+   * Convert WorkoutRep to WorkoutRepEntity
+   */
+  private workoutRepToEntity(sessionId: string, rep: WorkoutRep): WorkoutRepEntity {
+    return {
+      sessionId,
+      repIndex: rep.repIndex,
+      isWarmup: rep.isWarmup,
+      startTime: rep.startTime,
+      endTime: rep.endTime,
+      topPositionA: rep.topPositionA,
+      topPositionB: rep.topPositionB,
+      bottomPositionA: rep.bottomPositionA,
+      bottomPositionB: rep.bottomPositionB,
+      peakLoadA: rep.peakLoadA,
+      peakLoadB: rep.peakLoadB,
+      meanConcentricVelocity: rep.meanConcentricVelocity ?? null,
+      peakConcentricVelocity: rep.peakConcentricVelocity ?? null,
+      meanConcentricPower: rep.meanConcentricPower ?? null,
+      timeUnderTensionMs: rep.timeUnderTensionMs ?? null,
+    };
+  }
+
   /**
    * Convert Routine to RoutineEntity
    */
@@ -474,17 +688,17 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
    * Convert RoutineExercise to RoutineExerciseEntity
    */
   private routineExerciseToEntity(exercise: RoutineExercise, routineId: string): RoutineExerciseEntity {
-    // Determine mode string from workoutType
+    // Determine mode string from workoutType (Echo settings are kept for Echo sets of other modes)
     let mode = 'OldSchool';
-    let eccentricLoad = 100;
-    let echoLevel = 1;
+    let eccentricLoad: number = exercise.eccentricLoad ?? 100;
+    let echoLevel: number = exercise.echoLevel ?? 1;
 
     if (exercise.workoutType && exercise.workoutType.type === 'echo') {
       mode = 'Echo';
       eccentricLoad = exercise.workoutType.eccentricLoad;
       echoLevel = exercise.workoutType.level;
     } else if (exercise.workoutType && exercise.workoutType.type === 'program') {
-      mode = exercise.workoutType.mode.displayName.replace(/\s+/g, '');
+      mode = workoutTypeToModeName(exercise.workoutType);
     }
 
     return {
@@ -507,6 +721,53 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
       restSeconds: exercise.restSeconds || 60,
       notes: exercise.notes || '',
       duration: exercise.duration || null,
+      setType: exercise.setType ?? 'reps',
+      velocityLossPercent: exercise.velocityLossPercent ?? null,
+      setModes: formatSetModes(exercise.setModes),
+      ...this.progressionToEntityFields(exercise),
+      ...this.groupToEntityFields(exercise),
+      ...this.dropSetToEntityFields(exercise),
+    };
+  }
+
+  /**
+   * Convert a routine exercise's progression settings to entity columns
+   */
+  private progressionToEntityFields(exercise: RoutineExercise) {
+    const progression = exercise.progression ?? createDefaultProgressionSettings();
+    return {
+      progressionScheme: progression.scheme,
+      progressionIncrementKg: progression.incrementKg,
+      repRangeMin: progression.repRangeMin ?? null,
+      repRangeMax: progression.repRangeMax ?? null,
+      targetRpe: progression.targetRpe ?? null,
+    };
+  }
+
+  /**
+   * Convert a routine exercise's group to entity columns
+   */
+  private groupToEntityFields(exercise: RoutineExercise) {
+    return {
+      groupId: exercise.group?.id ?? null,
+      groupType: exercise.group?.type ?? null,
+      groupExerciseRestSeconds: exercise.group?.restBetweenExercisesSeconds ?? null,
+      groupRoundRestSeconds: exercise.group?.restBetweenRoundsSeconds ?? null,
+    };
+  }
+
+  /**
+   * Convert a routine exercise's drop set settings to entity columns
+   */
+  private dropSetToEntityFields(exercise: RoutineExercise) {
+    const dropSet = exercise.dropSet ?? createDefaultDropSetSettings();
+    return {
+      dropCount: dropSet.drops,
+      dropTrigger: dropSet.trigger,
+      dropReduction: dropSet.reduction,
+      dropAmount: dropSet.amount,
+      dropReps: dropSet.repsPerDrop,
+      dropLastSetOnly: dropSet.lastSetOnly,
     };
   }
 
@@ -542,35 +803,13 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
     const setReps = entity.setReps ? entity.setReps.split(',').map(Number) : [];
     const setWeights = entity.setWeights ? entity.setWeights.split(',').map(Number) : [];
 
-    // Reconstruct WorkoutType
-    let workoutType: WorkoutType;
-    if (entity.mode === 'Echo') {
-      workoutType = {
-        type: 'echo',
-        level: entity.echoLevel as EchoLevel,
-        eccentricLoad: entity.eccentricLoad as EccentricLoad,
-      };
-    } else {
-      // Map mode string to ProgramMode
-      let programMode = ProgramMode.OldSchool;
-      switch (entity.mode) {
-        case 'Pump':
-          programMode = ProgramMode.Pump;
-          break;
-        case 'TUT':
-          programMode = ProgramMode.TUT;
-          break;
-        case 'TUTBeast':
-          programMode = ProgramMode.TUTBeast;
-          break;
-        case 'EccentricOnly':
-          programMode = ProgramMode.EccentricOnly;
-          break;
-        default:
-          programMode = ProgramMode.OldSchool;
-      }
-      workoutType = { type: 'program', mode: programMode };
-    }
+    // Reconstruct WorkoutType and the per-set overrides
+    const workoutType = modeNameToWorkoutType(entity.mode, entity.echoLevel, entity.eccentricLoad);
+    const setModes = entity.setModes
+      ? entity.setModes
+          .split(',')
+          .map((mode) => (mode ? modeNameToWorkoutType(mode, entity.echoLevel, entity.eccentricLoad) : null))
+      : [];
 
     return {
       id: entity.id,
@@ -581,12 +820,81 @@ class WorkoutRepositoryImpl extends EventEmitter implements IWorkoutRepository {
       weightPerCableKg: entity.weightPerCableKg,
       setWeightsPerCableKg: setWeights,
       workoutType,
+      setModes,
       eccentricLoad: entity.eccentricLoad as EccentricLoad,
       echoLevel: entity.echoLevel as EchoLevel,
       progressionKg: entity.progressionKg,
       restSeconds: entity.restSeconds,
       notes: entity.notes,
+      setType: (entity.setType || 'reps') as SetType,
       duration: entity.duration,
+      velocityLossPercent: entity.velocityLossPercent ?? null,
+      progression: createDefaultProgressionSettings({
+        scheme: (entity.progressionScheme || 'none') as ProgressionScheme,
+        incrementKg: entity.progressionIncrementKg ?? 1,
+        repRangeMin: entity.repRangeMin,
+        repRangeMax: entity.repRangeMax,
+        targetRpe: entity.targetRpe,
+      }),
+      group: entity.groupId
+        ? {
+            id: entity.groupId,
+            type: (entity.groupType || 'superset') as ExerciseGroupType,
+            restBetweenExercisesSeconds: entity.groupExerciseRestSeconds ?? DEFAULT_GROUP_EXERCISE_REST_SECONDS,
+            restBetweenRoundsSeconds: entity.groupRoundRestSeconds ?? DEFAULT_GROUP_ROUND_REST_SECONDS,
+          }
+        : null,
+      dropSet: createDefaultDropSetSettings({
+        drops: entity.dropCount ?? 0,
+        trigger: (entity.dropTrigger || 'reps') as DropSetTrigger,
+        reduction: (entity.dropReduction || 'percent') as DropSetReduction,
+        amount: entity.dropAmount ?? 20,
+        repsPerDrop: entity.dropReps ?? 6,
+        lastSetOnly: entity.dropLastSetOnly ?? true,
+      }),
+    };
+  }
+
+  /**
+   * Convert ProgressionLogEntry to ProgressionLogEntity
+   */
+  private progressionLogToEntity(entry: ProgressionLogEntry): ProgressionLogEntity {
+    return {
+      routineId: entry.routineId,
+      routineExerciseId: entry.routineExerciseId,
+      exerciseId: entry.exerciseId,
+      exerciseName: entry.exerciseName,
+      timestamp: entry.timestamp,
+      scheme: entry.scheme,
+      previousWeightPerCableKg: entry.previousWeightPerCableKg,
+      newWeightPerCableKg: entry.newWeightPerCableKg,
+      previousSetReps: entry.previousSetReps.join(','),
+      newSetReps: entry.newSetReps.join(','),
+      reason: entry.reason,
+      sessionIds: entry.sessionIds.join(','),
+      applied: entry.applied,
+    };
+  }
+
+  /**
+   * Convert ProgressionLogEntity to ProgressionLogEntry
+   */
+  private entityToProgressionLog(entity: ProgressionLogEntity): ProgressionLogEntry {
+    return {
+      id: entity.id,
+      routineId: entity.routineId,
+      routineExerciseId: entity.routineExerciseId,
+      exerciseId: entity.exerciseId,
+      exerciseName: entity.exerciseName,
+      timestamp: entity.timestamp,
+      scheme: entity.scheme as ProgressionScheme,
+      previousWeightPerCableKg: entity.previousWeightPerCableKg,
+      newWeightPerCableKg: entity.newWeightPerCableKg,
+      previousSetReps: entity.previousSetReps ? entity.previousSetReps.split(',').map(Number) : [],
+      newSetReps: entity.newSetReps ? entity.newSetReps.split(',').map(Number) : [],
+      reason: entity.reason,
+      sessionIds: entity.sessionIds ? entity.sessionIds.split(',') : [],
+      applied: entity.applied,
     };
   }
 
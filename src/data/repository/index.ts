@@ -5,8 +5,20 @@
 
 // BLE Repository
 export * from './BleRepository';
-export { getBleRepository, resetBleRepository } from './BleRepository';
-export type { IBleRepository } from './BleRepository';
+export {
+  getBleRepository,
+  resetBleRepository,
+  addTrainer,
+  removeTrainer,
+  getTrainers,
+  isSimulatedTrainerEnabled,
+  setSimulatedTrainerEnabled,
+} from './BleRepository';
+export type { IBleRepository, TrainerInfo } from './BleRepository';
+
+// Simulated BLE Repository (virtual trainer for development without hardware)
+export * from './SimulatedBleRepository';
+export { getSimulatedBleRepository, resetSimulatedBleRepository } from './SimulatedBleRepository';
 
 // Workout Repository
 export * from './WorkoutRepository';
@@ -27,3 +39,18 @@ export type { IPersonalRecordRepository } from './PersonalRecordRepository';
 export * from '../preferences/PreferencesManager';
 export { getPreferencesManager, resetPreferencesManager } from '../preferences/PreferencesManager';
 export type { IPreferencesManager } from '../preferences/PreferencesManager';
+
+// Share Repository (routine and program share files)
+export * from './ShareRepository';
+export { getShareRepository, resetShareRepository } from './ShareRepository';
+export type { IShareRepository } from './ShareRepository';
+
+// Backup Repository (full backup and restore)
+export * from './BackupRepository';
+export { getBackupRepository, resetBackupRepository } from './BackupRepository';
+export type { IBackupRepository } from './BackupRepository';
+
+// Export Repository (CSV and FIT workout history exports)
+export * from './ExportRepository';
+export { getExportRepository, resetExportRepository } from './ExportRepository';
+export type { IExportRepository } from './ExportRepository';
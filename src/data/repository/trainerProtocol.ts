@@ -0,0 +1,51 @@
+/**
+ * Trainer Protocol - Definitions shared by the BLE and simulated trainer repositories
+ * Kept apart from both so neither repository depends on the other's load order
+ */
+
+import { WorkoutParameters } from '../../domain/models/Models';
+import { runsWithoutRepLimit } from '../../domain/usecases/RoutineSetPlanner';
+import { buildProgramParams, buildEchoControl, WorkoutParameters as ProtocolWorkoutParameters } from '../../utils/protocolBuilder';
+
+/**
+ * Build the frame that starts a workout on the device
+ * Echo mode uses the echo control frame (web app: device.js line 328),
+ * program modes use the 96-byte program params frame (web app: device.js line 283)
+ * Timed and isometric sets and drop sets run like Just Lift (0xFF reps) and are stopped by the app
+ */
+export const buildWorkoutCommand = (params: WorkoutParameters): Uint8Array => {
+  const unlimitedReps = runsWithoutRepLimit(params);
+
+  if (params.workoutType.type === 'echo') {
+    return buildEchoControl(
+      params.workoutType.level,
+      params.warmupReps || 0,
+      params.reps,
+      unlimitedReps,
+      params.workoutType.eccentricLoad
+    );
+  }
+
+  // Convert domain WorkoutParameters to protocol WorkoutParameters
+  const protocolParams: ProtocolWorkoutParameters = {
+    workoutType: {
+      type: 'program',
+      mode: params.workoutType.mode.modeValue
+    },
+    reps: params.reps,
+    weightPerCableKg: params.weightPerCableKg || 0,
+    progressionRegressionKg: params.progressionRegressionKg || 0,
+    isJustLift: unlimitedReps,
+    useAutoStart: params.useAutoStart || false,
+    stopAtTop: params.stopAtTop || false,
+    warmupReps: params.warmupReps || 0,
+    selectedExerciseId: params.selectedExerciseId || undefined,
+  };
+
+  return buildProgramParams(protocolParams);
+};
+
+/**
+ * Identifier of the default trainer (the one returned by getBleRepository())
+ */
+export const PRIMARY_TRAINER_ID = 'primary';
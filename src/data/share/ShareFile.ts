@@ -0,0 +1,389 @@
+/**
+ * Share File - Portable format for routines and weekly programs
+ *
+ * A share file carries one routine, or one weekly program together with every routine it
+ * schedules. Exercises keep their library ID and name so the receiving phone can match them
+ * against its own exercise library. Files serialize to plain JSON and travel through the share
+ * sheet either as text or inside an import deep link.
+ */
+
+import { CableConfiguration } from '../../domain/models/Exercise';
+import { DropSetTrigger, SetType } from '../../domain/models/Models';
+import { DropSetReduction, ExerciseGroupType, ProgressionScheme } from '../../domain/models/Routine';
+import { MAX_PROGRAM_WEEKS } from '../../domain/usecases/ProgramSchedule';
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG } from '../../utils/constants';
+
+/**
+ * Share file format identifier and version
+ */
+export const SHARE_FILE_FORMAT = 'vitruvian-phoenix-share';
+export const SHARE_FILE_VERSION = 1;
+
+/**
+ * Deep link that opens the import screen with a share file (path of the ShareImport screen)
+ */
+export const SHARE_LINK_PREFIX = 'vitruvianphoenix://import?data=';
+
+/**
+ * What a share file carries
+ */
+export type ShareFileKind = 'routine' | 'program';
+
+/**
+ * Mode names a routine exercise may be stored under
+ */
+export const SHARE_MODE_NAMES = ['OldSchool', 'Pump', 'TUT', 'TUTBeast', 'EccentricOnly', 'Echo'];
+
+/**
+ * Superset, circuit or giant set of a shared routine
+ */
+export interface SharedExerciseGroup {
+  key: string; // Shared by every exercise of the group within the file
+  type: ExerciseGroupType;
+  restBetweenExercisesSeconds: number;
+  restBetweenRoundsSeconds: number;
+}
+
+/**
+ * Exercise of a shared routine
+ */
+export interface SharedRoutineExercise {
+  exerciseId: string | null; // Library ID on the exporting phone
+  name: string;
+  muscleGroup: string;
+  equipment: string;
+  defaultCableConfig: CableConfiguration;
+  cableConfig: CableConfiguration;
+  setReps: number[];
+  weightPerCableKg: number;
+  setWeightsPerCableKg: number[];
+  mode: string; // One of SHARE_MODE_NAMES
+  setModes: Array<string | null>; // Per-set mode names (null = the exercise's mode)
+  echoLevel: number;
+  eccentricLoad: number;
+  progressionKg: number;
+  restSeconds: number;
+  notes: string;
+  setType: SetType;
+  durationSeconds: number | null;
+  velocityLossPercent: number | null; // Velocity-loss stop threshold (null = off)
+  progression: {
+    scheme: ProgressionScheme;
+    incrementKg: number;
+    repRangeMin: number | null;
+    repRangeMax: number | null;
+    targetRpe: number | null;
+  };
+  group: SharedExerciseGroup | null;
+  dropSet: {
+    drops: number;
+    trigger: DropSetTrigger;
+    reduction: DropSetReduction;
+    amount: number;
+    repsPerDrop: number;
+    lastSetOnly: boolean;
+  };
+}
+
+/**
+ * A shared routine
+ */
+export interface SharedRoutine {
+  key: string; // Referenced by the program's days
+  name: string;
+  description: string;
+  exercises: SharedRoutineExercise[];
+}
+
+/**
+ * A shared weekly program (its routines are the file's routines)
+ */
+export interface SharedProgram {
+  title: string;
+  notes: string | null;
+  weekCount: number;
+  days: Array<{ dayOfWeek: number; routineKey: string }>;
+  weeks: Array<{ weekNumber: number; intensityPercent: number; volumePercent: number; isDeload: boolean }>;
+}
+
+/**
+ * A share file
+ */
+export interface ShareFile {
+  format: typeof SHARE_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  kind: ShareFileKind;
+  routines: SharedRoutine[];
+  program: SharedProgram | null; // Program files only
+}
+
+/**
+ * Serialize a share file to JSON
+ */
+export function serializeShareFile(file: ShareFile): string {
+  return JSON.stringify(file);
+}
+
+/**
+ * Import deep link carrying a share file
+ */
+export function buildShareLink(file: ShareFile): string {
+  return `${SHARE_LINK_PREFIX}${encodeURIComponent(serializeShareFile(file))}`;
+}
+
+/**
+ * Share file JSON from pasted text: either the JSON itself, or a message containing an import link
+ */
+export function extractShareText(input: string): string {
+  const link = input.match(/import\?data=([^\s]+)/);
+  if (!link) {
+    return input.trim();
+  }
+  try {
+    return decodeURIComponent(link[1]);
+  } catch {
+    throw new Error('The import link is damaged');
+  }
+}
+
+/**
+ * Parse and validate a share file
+ */
+export function parseShareFile(text: string): ShareFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Vitruvian Phoenix share file');
+  }
+
+  if (!parsed || parsed.format !== SHARE_FILE_FORMAT) {
+    throw new Error('Not a Vitruvian Phoenix share file');
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > SHARE_FILE_VERSION) {
+    throw new Error(`Unsupported share file version: ${parsed.version}`);
+  }
+
+  const kind = readOneOf(parsed.kind, 'kind', ['routine', 'program'] as const);
+  const routines = readArray(parsed.routines, 'routines').map((routine, index) =>
+    parseRoutine(routine, `routines[${index}]`)
+  );
+  if (routines.length === 0) {
+    throw new Error('Share file has no routines');
+  }
+  if (kind === 'routine' && routines.length !== 1) {
+    throw new Error('A routine share file must contain exactly one routine');
+  }
+
+  const keys = new Set<string>();
+  routines.forEach((routine, index) => {
+    if (keys.has(routine.key)) {
+      throw new Error(`Invalid share file: routines[${index}].key is used twice`);
+    }
+    keys.add(routine.key);
+  });
+
+  const program = kind === 'program' ? parseProgram(parsed.program, 'program', keys) : null;
+
+  return {
+    format: SHARE_FILE_FORMAT,
+    version: parsed.version,
+    exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : 0,
+    kind,
+    routines,
+    program,
+  };
+}
+
+function parseRoutine(value: any, path: string): SharedRoutine {
+  const routine = readObject(value, path);
+  const exercises = readArray(routine.exercises, `${path}.exercises`).map((exercise, index) =>
+    parseExercise(exercise, `${path}.exercises[${index}]`)
+  );
+  if (exercises.length === 0) {
+    throw new Error(`Invalid share file: ${path} has no exercises`);
+  }
+
+  return {
+    key: readString(routine.key, `${path}.key`),
+    name: readString(routine.name, `${path}.name`),
+    description: readOptionalString(routine.description, `${path}.description`) ?? '',
+    exercises,
+  };
+}
+
+function parseExercise(value: any, path: string): SharedRoutineExercise {
+  const exercise = readObject(value, path);
+  const setReps = readArray(exercise.setReps, `${path}.setReps`).map((reps, index) =>
+    readNumber(reps, `${path}.setReps[${index}]`, 0, 100, true)
+  );
+  if (setReps.length === 0) {
+    throw new Error(`Invalid share file: ${path} has no sets`);
+  }
+  const setWeightsPerCableKg = readArray(exercise.setWeightsPerCableKg ?? [], `${path}.setWeightsPerCableKg`).map(
+    (weight, index) => readNumber(weight, `${path}.setWeightsPerCableKg[${index}]`, MIN_WEIGHT_KG, MAX_WEIGHT_KG)
+  );
+  const setModes = readArray(exercise.setModes ?? [], `${path}.setModes`).map((mode, index) =>
+    mode === null ? null : readOneOf(mode, `${path}.setModes[${index}]`, SHARE_MODE_NAMES)
+  );
+
+  const progression = readObject(exercise.progression ?? { scheme: 'none', incrementKg: 0 }, `${path}.progression`);
+  const dropSet = readObject(exercise.dropSet ?? { drops: 0 }, `${path}.dropSet`);
+  const group = exercise.group == null ? null : readObject(exercise.group, `${path}.group`);
+
+  return {
+    exerciseId: readOptionalString(exercise.exerciseId, `${path}.exerciseId`),
+    name: readString(exercise.name, `${path}.name`),
+    muscleGroup: readOptionalString(exercise.muscleGroup, `${path}.muscleGroup`) ?? '',
+    equipment: readOptionalString(exercise.equipment, `${path}.equipment`) ?? '',
+    defaultCableConfig: readOneOf(
+      exercise.defaultCableConfig ?? CableConfiguration.DOUBLE,
+      `${path}.defaultCableConfig`,
+      Object.values(CableConfiguration)
+    ),
+    cableConfig: readOneOf(
+      exercise.cableConfig ?? CableConfiguration.DOUBLE,
+      `${path}.cableConfig`,
+      Object.values(CableConfiguration)
+    ),
+    setReps,
+    weightPerCableKg: readNumber(exercise.weightPerCableKg, `${path}.weightPerCableKg`, MIN_WEIGHT_KG, MAX_WEIGHT_KG),
+    setWeightsPerCableKg,
+    mode: readOneOf(exercise.mode, `${path}.mode`, SHARE_MODE_NAMES),
+    setModes,
+    echoLevel: readNumber(exercise.echoLevel ?? 1, `${path}.echoLevel`, 0, 3, true),
+    eccentricLoad: readOneOf(exercise.eccentricLoad ?? 100, `${path}.eccentricLoad`, [0, 50, 75, 100, 125, 150]),
+    progressionKg: readNumber(exercise.progressionKg ?? 0, `${path}.progressionKg`, -MAX_WEIGHT_KG, MAX_WEIGHT_KG),
+    restSeconds: readNumber(exercise.restSeconds ?? 60, `${path}.restSeconds`, 0, 3600, true),
+    notes: readOptionalString(exercise.notes, `${path}.notes`) ?? '',
+    setType: readOneOf(exercise.setType ?? 'reps', `${path}.setType`, ['reps', 'timed', 'isometric'] as const),
+    durationSeconds:
+      exercise.durationSeconds == null
+        ? null
+        : readNumber(exercise.durationSeconds, `${path}.durationSeconds`, 1, 3600, true),
+    velocityLossPercent: readOptionalNumber(exercise.velocityLossPercent, `${path}.velocityLossPercent`, 1, 100),
+    progression: {
+      scheme: readOneOf(progression.scheme, `${path}.progression.scheme`, ['none', 'linear', 'double', 'rpe'] as const),
+      incrementKg: readNumber(progression.incrementKg ?? 0, `${path}.progression.incrementKg`, 0, MAX_WEIGHT_KG),
+      repRangeMin: readOptionalNumber(progression.repRangeMin, `${path}.progression.repRangeMin`, 1, 100),
+      repRangeMax: readOptionalNumber(progression.repRangeMax, `${path}.progression.repRangeMax`, 1, 100),
+      targetRpe: readOptionalNumber(progression.targetRpe, `${path}.progression.targetRpe`, 6, 10),
+    },
+    group: group
+      ? {
+          key: readString(group.key, `${path}.group.key`),
+          type: readOneOf(group.type, `${path}.group.type`, ['superset', 'circuit', 'giant_set'] as const),
+          restBetweenExercisesSeconds: readNumber(
+            group.restBetweenExercisesSeconds ?? 0,
+            `${path}.group.restBetweenExercisesSeconds`,
+            0,
+            3600,
+            true
+          ),
+          restBetweenRoundsSeconds: readNumber(
+            group.restBetweenRoundsSeconds ?? 0,
+            `${path}.group.restBetweenRoundsSeconds`,
+            0,
+            3600,
+            true
+          ),
+        }
+      : null,
+    dropSet: {
+      drops: readNumber(dropSet.drops ?? 0, `${path}.dropSet.drops`, 0, 3, true),
+      trigger: readOneOf(dropSet.trigger ?? 'reps', `${path}.dropSet.trigger`, ['reps', 'failure'] as const),
+      reduction: readOneOf(dropSet.reduction ?? 'percent', `${path}.dropSet.reduction`, ['percent', 'fixed'] as const),
+      amount: readNumber(dropSet.amount ?? 20, `${path}.dropSet.amount`, 0, MAX_WEIGHT_KG),
+      repsPerDrop: readNumber(dropSet.repsPerDrop ?? 6, `${path}.dropSet.repsPerDrop`, 1, 100, true),
+      lastSetOnly: dropSet.lastSetOnly !== false,
+    },
+  };
+}
+
+function parseProgram(value: any, path: string, routineKeys: Set<string>): SharedProgram {
+  const program = readObject(value, path);
+  const weekCount = readNumber(program.weekCount ?? 1, `${path}.weekCount`, 1, MAX_PROGRAM_WEEKS, true);
+
+  const days = readArray(program.days, `${path}.days`).map((day, index) => {
+    const dayPath = `${path}.days[${index}]`;
+    const entry = readObject(day, dayPath);
+    const routineKey = readString(entry.routineKey, `${dayPath}.routineKey`);
+    if (!routineKeys.has(routineKey)) {
+      throw new Error(`Invalid share file: ${dayPath}.routineKey does not match a routine`);
+    }
+    return { dayOfWeek: readNumber(entry.dayOfWeek, `${dayPath}.dayOfWeek`, 1, 7, true), routineKey };
+  });
+
+  const weeks = readArray(program.weeks ?? [], `${path}.weeks`).map((week, index) => {
+    const weekPath = `${path}.weeks[${index}]`;
+    const entry = readObject(week, weekPath);
+    return {
+      weekNumber: readNumber(entry.weekNumber, `${weekPath}.weekNumber`, 1, weekCount, true),
+      intensityPercent: readNumber(entry.intensityPercent ?? 100, `${weekPath}.intensityPercent`, 1, 200),
+      volumePercent: readNumber(entry.volumePercent ?? 100, `${weekPath}.volumePercent`, 1, 200),
+      isDeload: entry.isDeload === true,
+    };
+  });
+
+  return {
+    title: readString(program.title, `${path}.title`),
+    notes: readOptionalString(program.notes, `${path}.notes`),
+    weekCount,
+    days,
+    weeks,
+  };
+}
+
+function readObject(value: any, path: string): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid share file: ${path} must be an object`);
+  }
+  return value;
+}
+
+function readArray(value: any, path: string): any[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid share file: ${path} must be a list`);
+  }
+  return value;
+}
+
+function readString(value: any, path: string): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid share file: ${path} must be a non-empty text`);
+  }
+  return value.trim();
+}
+
+function readOptionalString(value: any, path: string): string | null {
+  if (value == null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid share file: ${path} must be a text`);
+  }
+  return value;
+}
+
+function readNumber(value: any, path: string, min: number, max: number, integer: boolean = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`Invalid share file: ${path} must be a number from ${min} to ${max}`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new Error(`Invalid share file: ${path} must be a whole number`);
+  }
+  return value;
+}
+
+function readOptionalNumber(value: any, path: string, min: number, max: number): number | null {
+  return value == null ? null : readNumber(value, path, min, max);
+}
+
+function readOneOf<T extends string | number>(value: any, path: string, options: readonly T[]): T {
+  if (!options.includes(value)) {
+    throw new Error(`Invalid share file: ${path} must be one of ${options.join(', ')}`);
+  }
+  return value;
+}
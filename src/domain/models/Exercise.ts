@@ -86,3 +86,85 @@ export const ExerciseCategoryDisplay: Record<ExerciseCategory, string> = {
   [ExerciseCategory.CORE]: 'Core',
   [ExerciseCategory.FULL_BODY]: 'Full Body',
 };
+
+/**
+ * Muscle groups of the exercise library (the codes stored in ExerciseEntity.muscleGroups)
+ */
+export const LIBRARY_MUSCLE_GROUPS: Record<string, string> = {
+  CHEST: 'Chest',
+  BACK: 'Back',
+  SHOULDERS: 'Shoulders',
+  ARMS: 'Arms',
+  LEGS: 'Legs',
+  CORE: 'Core',
+};
+
+/**
+ * Equipment of the exercise library (the codes stored in ExerciseEntity.equipment)
+ */
+export const LIBRARY_EQUIPMENT: Record<string, string> = {
+  HANDLES: 'Handles',
+  BAR: 'Long Bar',
+  SHORT_BAR: 'Short Bar',
+  ROPE: 'Rope',
+  BELT: 'Belt',
+  STRAPS: 'Ankle Straps',
+  BENCH: 'Bench',
+  BLACK_CABLES: 'Black Cables',
+  GREY_CABLES: 'Grey Cables',
+};
+
+/**
+ * Grips of the exercise library (the values stored in ExerciseEntity.grip)
+ */
+export const LIBRARY_GRIPS: Record<string, string> = {
+  neutral: 'Neutral',
+  pronated: 'Overhand',
+  supinated: 'Underhand',
+  mixed: 'Mixed',
+};
+
+/**
+ * Movement patterns of the exercise library (the values stored in ExerciseEntity.movement)
+ */
+export const LIBRARY_MOVEMENTS: Record<string, string> = {
+  chest_press: 'Chest Press',
+  fly: 'Fly',
+  row: 'Row',
+  shoulder_press: 'Shoulder Press',
+  shoulder_isolation: 'Shoulder Isolation',
+  bicep_curl: 'Bicep Curl',
+  tricep_extension: 'Tricep Extension',
+  squat: 'Squat',
+  deadlift: 'Deadlift',
+  unilateral_leg: 'Single Leg',
+  leg_extension: 'Leg Extension',
+  hamstring_curl: 'Hamstring Curl',
+  glute_accessory: 'Glute Accessory',
+};
+
+/**
+ * Filters of the exercise library. Values of one facet are alternatives (any may match),
+ * the facets combine (all must match). Empty facets do not filter.
+ */
+export interface ExerciseLibraryFilters {
+  muscleGroups?: string[]; // Keys of LIBRARY_MUSCLE_GROUPS
+  equipment?: string[]; // Keys of LIBRARY_EQUIPMENT
+  grips?: string[]; // Keys of LIBRARY_GRIPS
+  movements?: string[]; // Keys of LIBRARY_MOVEMENTS
+  favoritesOnly?: boolean;
+}
+
+/**
+ * Sidedness of an exercise
+ * - bilateral: both sides move together
+ * - unilateral: one side at a time
+ * - alternating: sides take turns within a set
+ */
+export type ExerciseSidedness = 'bilateral' | 'unilateral' | 'alternating';
+
+export const EXERCISE_SIDEDNESS_LABELS: Record<ExerciseSidedness, string> = {
+  bilateral: 'Both Sides',
+  unilateral: 'One Side',
+  alternating: 'Alternating',
+};
@@ -8,6 +8,37 @@ export interface PersonalRecord {
   reps: number;
   timestamp: number;
   workoutMode: string;
+  category: PRCategory;
+  value: number; // Record value in the category's unit (kg, reps or kg of volume)
+  sessionId?: string | null;
+}
+
+/**
+ * Personal record categories (each is tracked separately per exercise and workout mode)
+ */
+export type PRCategory =
+  | 'max_weight' // Heaviest weight per cable (ties broken by reps)
+  | 'max_reps_at_weight' // Most reps at one weight per cable
+  | 'max_volume' // Highest session volume (both cables)
+  | 'max_e1rm'; // Highest estimated one-rep max per cable
+
+/**
+ * Formula used to estimate a one-rep max
+ */
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'velocity';
+
+/**
+ * Estimated one-rep max from a single session (one row per formula)
+ */
+export interface OneRepMaxEstimate {
+  id?: number;
+  sessionId: string;
+  exerciseId: string;
+  timestamp: number;
+  formula: OneRepMaxFormula;
+  weightPerCableKg: number;
+  reps: number; // Working reps the estimate was made from
+  estimatedOneRepMaxKg: number; // Per cable
 }
 
 /**
@@ -214,6 +245,11 @@ export enum WeightUnit {
   LB = 'LB',
 }
 
+/**
+ * How a set ends: at a rep target, when its duration runs out, or as an isometric hold of a duration
+ */
+export type SetType = 'reps' | 'timed' | 'isometric';
+
 /**
  * Workout parameters
  */
@@ -227,8 +263,43 @@ export interface WorkoutParameters {
   stopAtTop?: boolean; // false = stop at bottom (extended), true = stop at top (contracted)
   warmupReps?: number;
   selectedExerciseId?: string | null;
+  trainerId?: string; // Trainer that runs the set (defaults to the primary trainer)
+  routineId?: string | null; // Routine the set is part of (null outside routines)
+  routineExerciseId?: string | null; // Routine exercise the set is part of
+  velocityLossPercent?: number | null; // End the set once a rep is this % slower than the best rep (null = off)
+  setType?: SetType; // Defaults to 'reps'; timed and isometric sets run the trainer without a rep limit
+  durationSeconds?: number | null; // Length of timed and isometric sets
+  dropSet?: DropSetPlan | null; // Lighter segments that follow the set without releasing tension (program modes only)
+}
+
+/**
+ * When a drop set moves on to its next, lighter segment
+ * - reps: after the segment's working reps
+ * - failure: once no rep has been completed for a few seconds
+ */
+export type DropSetTrigger = 'reps' | 'failure';
+
+/**
+ * Drops of one set, re-sent to the trainer one after another while the cables stay loaded
+ */
+export interface DropSetPlan {
+  trigger: DropSetTrigger;
+  weightsPerCableKg: number[]; // Weight of each drop after the first segment, heaviest first
+  repsPerDrop: number; // Working reps of each drop (reps trigger only)
 }
 
+/**
+ * Why a set ended
+ */
+export type SetStopReason =
+  | 'target_reached' // Rep target reached (RepCounterFromMachine)
+  | 'velocity_loss' // Rep velocity dropped below the velocity-loss threshold
+  | 'auto_stop' // Just Lift danger-zone timer
+  | 'user_stop' // Stopped from the UI
+  | 'duration_reached' // Timed or isometric set ran for its duration
+  | 'failure' // Last drop of a drop set stalled
+  | 'connection_lost'; // Reconnect failed mid-set
+
 /**
  * Real-time workout metric data from the device
  */
@@ -309,6 +380,43 @@ export interface WorkoutSession {
   echoLevel?: number; // 1=Hard, 2=Harder, 3=Hardest, 4=Epic
   // Exercise tracking
   exerciseId?: string | null; // Exercise library ID for PR tracking
+  stopReason?: SetStopReason | null;
+  // Left/right asymmetry over the working reps (null when only one cable was used)
+  loadAsymmetryPercent?: number | null;
+  romAsymmetryPercent?: number | null;
+  timingOffsetMs?: number | null;
+  // Timed and isometric sets (null for rep-based sets)
+  setType?: SetType;
+  targetDurationSeconds?: number | null;
+  timeUnderTensionMs?: number | null; // Working reps of a timed set, time under load of a hold
+  holdLoadKg?: number | null; // Mean per-cable load of an isometric hold
+  loadVariationPercent?: number | null;
+  positionVariationMm?: number | null;
+  // Routine the set was part of (null outside routines)
+  routineId?: string | null;
+  routineExerciseId?: string | null;
+}
+
+/**
+ * A single rep of a workout session (cable A = left, cable B = right)
+ */
+export interface WorkoutRep {
+  id?: number;
+  sessionId: string;
+  repIndex: number; // 1-based within the session
+  isWarmup: boolean;
+  startTime: number; // Bottom of the rep
+  endTime: number; // Back at the bottom
+  topPositionA: number;
+  topPositionB: number;
+  bottomPositionA: number;
+  bottomPositionB: number;
+  peakLoadA: number; // kg
+  peakLoadB: number; // kg
+  meanConcentricVelocity?: number | null; // m/s
+  peakConcentricVelocity?: number | null; // m/s
+  meanConcentricPower?: number | null; // W
+  timeUnderTensionMs?: number | null;
 }
 
 /**
@@ -359,6 +467,9 @@ export interface PRCelebrationEvent {
   weightPerCableKg: number;
   reps: number;
   workoutMode: string;
+  category: PRCategory;
+  value: number;
+  previousValue: number | null;
 }
 
 /**
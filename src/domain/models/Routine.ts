@@ -1,5 +1,5 @@
 import { CableConfiguration, Exercise, resolveDefaultCableConfig } from './Exercise';
-import { WorkoutType, EccentricLoad, EchoLevel, ProgramMode } from './Models';
+import { WorkoutType, EccentricLoad, EchoLevel, ProgramMode, SetType, DropSetTrigger } from './Models';
 
 // Re-export for backwards compatibility
 export { resolveDefaultCableConfig };
@@ -17,6 +17,83 @@ export interface Routine {
   useCount?: number;
 }
 
+/**
+ * How a routine exercise's weights and reps advance from one routine run to the next
+ * - none: static prescription
+ * - linear: add the increment after every run where all sets hit their reps
+ * - double: add reps up to the top of the rep range, then add weight and return to the bottom
+ * - rpe: move the weight toward a target RPE estimated from each set
+ */
+export type ProgressionScheme = 'none' | 'linear' | 'double' | 'rpe';
+
+/**
+ * Progression configuration of a routine exercise
+ */
+export interface ProgressionSettings {
+  scheme: ProgressionScheme;
+  incrementKg: number; // Weight step per cable
+  repRangeMin?: number | null; // Double progression only
+  repRangeMax?: number | null; // Double progression only
+  targetRpe?: number | null; // RPE-based only (6-10)
+}
+
+/**
+ * Audit trail entry of a progression decision for one routine exercise after a routine run
+ */
+export interface ProgressionLogEntry {
+  id?: number;
+  routineId: string;
+  routineExerciseId: string;
+  exerciseId: string | null;
+  exerciseName: string;
+  timestamp: number;
+  scheme: ProgressionScheme;
+  previousWeightPerCableKg: number;
+  newWeightPerCableKg: number;
+  previousSetReps: number[];
+  newSetReps: number[];
+  reason: string;
+  sessionIds: string[]; // Sessions the decision was based on
+  applied: boolean; // False when the proposal was declined
+}
+
+/**
+ * How the exercises of a group are labelled (all alternate one set at a time)
+ * - superset: two exercises
+ * - circuit: three or more exercises, usually for different muscle groups
+ * - giant_set: three or more exercises for the same muscle group
+ */
+export type ExerciseGroupType = 'superset' | 'circuit' | 'giant_set';
+
+/**
+ * Group of adjacent routine exercises performed in rounds: one set of each exercise per round
+ */
+export interface ExerciseGroup {
+  id: string; // Shared by every exercise of the group
+  type: ExerciseGroupType;
+  restBetweenExercisesSeconds: number; // Rest after each set within a round
+  restBetweenRoundsSeconds: number; // Rest after the last exercise of a round
+}
+
+/**
+ * How each drop of a drop set is cut from the weight before it
+ * - percent: by a percentage of that weight
+ * - fixed: by a fixed amount per cable
+ */
+export type DropSetReduction = 'percent' | 'fixed';
+
+/**
+ * Drop set configuration of a routine exercise
+ */
+export interface DropSetSettings {
+  drops: number; // Weight drops after the set's reps (0 = no drop set)
+  trigger: DropSetTrigger;
+  reduction: DropSetReduction;
+  amount: number; // Percent of the previous weight, or kg per cable
+  repsPerDrop: number; // Reps trigger only
+  lastSetOnly: boolean; // Drop on the final set only instead of every set
+}
+
 /**
  * Domain model for an exercise within a routine
  *
@@ -38,14 +115,26 @@ export interface RoutineExercise {
   setWeightsPerCableKg?: number[];
   // Selected workout type for this exercise in routines
   workoutType?: WorkoutType;
+  // Optional per-set workout types; a missing or null entry uses workoutType
+  setModes?: Array<WorkoutType | null>;
   // Echo-specific configuration
   eccentricLoad?: EccentricLoad;
   echoLevel?: EchoLevel;
   progressionKg?: number;
   restSeconds?: number;
   notes?: string;
+  // Rep-based (default), timed or isometric hold sets
+  setType?: SetType;
   // Optional duration in seconds for duration-based sets
   duration?: number | null;
+  // Optional velocity-loss stop threshold in percent (null = stop at the rep target)
+  velocityLossPercent?: number | null;
+  // Optional automatic progression between routine runs
+  progression?: ProgressionSettings;
+  // Superset/circuit/giant set this exercise belongs to (null = performed on its own)
+  group?: ExerciseGroup | null;
+  // Optional weight drops after the set's reps (program modes only)
+  dropSet?: DropSetSettings;
 }
 
 /**
@@ -62,6 +151,33 @@ export const getRoutineExerciseReps = (routineExercise: RoutineExercise): number
   return routineExercise.setReps?.[0] ?? 10;
 };
 
+/**
+ * Default progression settings (no automatic progression)
+ */
+export const createDefaultProgressionSettings = (
+  overrides?: Partial<ProgressionSettings>
+): ProgressionSettings => ({
+  scheme: 'none',
+  incrementKg: 1,
+  repRangeMin: null,
+  repRangeMax: null,
+  targetRpe: null,
+  ...overrides,
+});
+
+/**
+ * Default drop set settings (no drops)
+ */
+export const createDefaultDropSetSettings = (overrides?: Partial<DropSetSettings>): DropSetSettings => ({
+  drops: 0,
+  trigger: 'reps',
+  reduction: 'percent',
+  amount: 20,
+  repsPerDrop: 6,
+  lastSetOnly: true,
+  ...overrides,
+});
+
 /**
  * Create default routine
  */
@@ -96,6 +212,11 @@ export const createDefaultRoutineExercise = (
   progressionKg: 0,
   restSeconds: 60,
   notes: '',
+  setType: 'reps',
   duration: null,
+  progression: createDefaultProgressionSettings(),
+  group: null,
+  setModes: [],
+  dropSet: createDefaultDropSetSettings(),
   ...overrides,
 });
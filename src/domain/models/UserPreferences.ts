@@ -1,4 +1,4 @@
-import { WeightUnit } from './Models';
+import { OneRepMaxFormula, WeightUnit } from './Models';
 
 /**
  * User preferences data
@@ -7,6 +7,8 @@ export interface UserPreferences {
   weightUnit?: WeightUnit;
   autoplayEnabled?: boolean;
   stopAtTop?: boolean; // false = stop at bottom (extended), true = stop at top (contracted)
+  oneRepMaxFormula?: OneRepMaxFormula; // Formula shown in strength curves
+  autoApplyProgression?: boolean; // Apply routine progressions without asking
 }
 
 /**
@@ -16,4 +18,6 @@ export const createDefaultUserPreferences = (): UserPreferences => ({
   weightUnit: WeightUnit.KG,
   autoplayEnabled: true,
   stopAtTop: false,
+  oneRepMaxFormula: 'epley',
+  autoApplyProgression: false,
 });
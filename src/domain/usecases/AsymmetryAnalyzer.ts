@@ -0,0 +1,81 @@
+import type { CableRepMetrics } from './RepAnalyzer';
+
+/**
+ * Left/right comparison of the two cables for one rep.
+ * Cable A is the left cable; positive values mean the left side is higher (or later).
+ */
+export interface RepAsymmetry {
+  loadImbalancePercent: number; // Mean concentric load difference relative to the stronger side
+  romImbalancePercent: number; // Range of motion difference relative to the longer side
+  timingOffsetMs: number; // Left top time minus right top time
+}
+
+/**
+ * Session-level asymmetry: the mean of the per-rep values over the working reps
+ */
+export interface SessionAsymmetry extends RepAsymmetry {
+  repCount: number;
+}
+
+/**
+ * Imbalance levels at which the UI flags a side (absolute values)
+ */
+export const ASYMMETRY_THRESHOLDS = {
+  LOAD_PERCENT: 10,
+  ROM_PERCENT: 10,
+  TIMING_MS: 150,
+} as const;
+
+/**
+ * Compare both cables of a rep; returns null unless both cables were used
+ */
+export function calculateRepAsymmetry(cableA: CableRepMetrics, cableB: CableRepMetrics): RepAsymmetry | null {
+  if (!cableA.active || !cableB.active) {
+    return null;
+  }
+
+  return {
+    loadImbalancePercent: imbalancePercent(cableA.meanConcentricLoad, cableB.meanConcentricLoad),
+    romImbalancePercent: imbalancePercent(cableA.rangeOfMotion, cableB.rangeOfMotion),
+    timingOffsetMs: cableA.topTime - cableB.topTime,
+  };
+}
+
+/**
+ * Average the per-rep asymmetry of a set (null if no rep used both cables)
+ */
+export function summarizeAsymmetry(reps: Array<RepAsymmetry | null>): SessionAsymmetry | null {
+  const measured = reps.filter((rep): rep is RepAsymmetry => rep !== null);
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const mean = (value: (rep: RepAsymmetry) => number) =>
+    measured.reduce((sum, rep) => sum + value(rep), 0) / measured.length;
+
+  return {
+    loadImbalancePercent: mean((rep) => rep.loadImbalancePercent),
+    romImbalancePercent: mean((rep) => rep.romImbalancePercent),
+    timingOffsetMs: mean((rep) => rep.timingOffsetMs),
+    repCount: measured.length,
+  };
+}
+
+/**
+ * Whether any asymmetry metric is past its threshold
+ */
+export function exceedsAsymmetryThreshold(asymmetry: RepAsymmetry): boolean {
+  return (
+    Math.abs(asymmetry.loadImbalancePercent) >= ASYMMETRY_THRESHOLDS.LOAD_PERCENT ||
+    Math.abs(asymmetry.romImbalancePercent) >= ASYMMETRY_THRESHOLDS.ROM_PERCENT ||
+    Math.abs(asymmetry.timingOffsetMs) >= ASYMMETRY_THRESHOLDS.TIMING_MS
+  );
+}
+
+/**
+ * Signed difference of two values relative to the larger one
+ */
+function imbalancePercent(left: number, right: number): number {
+  const larger = Math.max(Math.abs(left), Math.abs(right));
+  return larger > 0 ? ((left - right) / larger) * 100 : 0;
+}
@@ -0,0 +1,71 @@
+import { RepCounterFromMachine } from './RepCounterFromMachine';
+
+/**
+ * UI-facing snapshot of the auto-stop countdown.
+ */
+export interface AutoStopStatus {
+  isActive: boolean;
+  progress: number;
+  secondsRemaining: number;
+  shouldStop: boolean;
+}
+
+export const AUTO_STOP_DURATION_SECONDS = 3;
+
+/**
+ * Just Lift auto-stop: stops the set once the handles have stayed in the danger zone
+ * (bottom 5% of the calibrated range) for AUTO_STOP_DURATION_SECONDS.
+ *
+ * Time is taken from the metric timestamps rather than the wall clock so that recorded
+ * sessions reproduce the same decision when replayed.
+ */
+export class AutoStopDetector {
+  private dangerStartTime: number | null = null;
+
+  constructor(private readonly durationSeconds: number = AUTO_STOP_DURATION_SECONDS) {}
+
+  /**
+   * Evaluate a new position sample
+   */
+  public update(
+    repCounter: RepCounterFromMachine,
+    positionA: number,
+    positionB: number,
+    timestamp: number
+  ): AutoStopStatus {
+    if (!repCounter.hasMeaningfulRange() || !repCounter.isInDangerZone(positionA, positionB)) {
+      this.reset();
+      return this.idleStatus();
+    }
+
+    const startTime = this.dangerStartTime ?? timestamp;
+    this.dangerStartTime = startTime;
+
+    const elapsed = Math.max(timestamp - startTime, 0) / 1000;
+    const progress = Math.min(elapsed / this.durationSeconds, 1);
+    const remaining = Math.max(this.durationSeconds - elapsed, 0);
+
+    return {
+      isActive: true,
+      progress,
+      secondsRemaining: Math.ceil(remaining),
+      shouldStop: elapsed >= this.durationSeconds,
+    };
+  }
+
+  /**
+   * Reset the countdown
+   */
+  public reset(): void {
+    this.dangerStartTime = null;
+  }
+
+  private idleStatus(): AutoStopStatus {
+    return {
+      isActive: false,
+      progress: 0,
+      secondsRemaining: this.durationSeconds,
+      shouldStop: false,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { SetType, WorkoutMetric, WorkoutParameters } from '../models/Models';
+
+/**
+ * Summary of a timed set: reps performed until the duration ran out
+ */
+export interface TimedSetSummary {
+  targetDurationSeconds: number;
+  elapsedMs: number;
+  workingReps: number;
+  repsPerMinute: number;
+  timeUnderTensionMs: number; // Sum of the working reps' time under tension
+}
+
+/**
+ * Summary of an isometric hold: how long and how steadily load and position were held
+ */
+export interface IsometricHoldSummary {
+  targetDurationSeconds: number;
+  holdMs: number; // Time spent under load
+  meanLoadKg: number; // Mean per-cable load while holding
+  loadVariationPercent: number; // Standard deviation of the load, % of its mean
+  positionVariationMm: number; // Standard deviation of the handle position
+}
+
+/**
+ * Per-cable load below which a sample is not part of the hold
+ */
+export const HOLD_MIN_LOAD_KG = 2;
+
+/**
+ * Longest gap between two samples still counted as continuous hold time (longer gaps are dropouts)
+ */
+const MAX_SAMPLE_GAP_MS = 500;
+
+/**
+ * Set type a workout runs as (Just Lift and sets without a duration are rep-based)
+ */
+export function resolveSetType(
+  params: Pick<WorkoutParameters, 'setType' | 'durationSeconds' | 'isJustLift'>
+): SetType {
+  if (params.isJustLift || !params.durationSeconds || params.durationSeconds <= 0) {
+    return 'reps';
+  }
+  return params.setType ?? 'reps';
+}
+
+/**
+ * Whether a workout ends on its duration instead of a rep count
+ */
+export function isDurationSet(params: Pick<WorkoutParameters, 'setType' | 'durationSeconds' | 'isJustLift'>): boolean {
+  return resolveSetType(params) !== 'reps';
+}
+
+/**
+ * Summarize a timed set from the working reps' time under tension
+ */
+export function summarizeTimedSet(
+  targetDurationSeconds: number,
+  elapsedMs: number,
+  workingRepTimesMs: Array<number | null>
+): TimedSetSummary {
+  const workingReps = workingRepTimesMs.length;
+  return {
+    targetDurationSeconds,
+    elapsedMs,
+    workingReps,
+    repsPerMinute: elapsedMs > 0 ? (workingReps * 60000) / elapsedMs : 0,
+    timeUnderTensionMs: workingRepTimesMs.reduce<number>((sum, time) => sum + (time ?? 0), 0),
+  };
+}
+
+/**
+ * Summarize an isometric hold from the metric stream. Only samples with at least one loaded
+ * cable count; the load and position of a sample are the means of its loaded cables.
+ */
+export function summarizeIsometricHold(targetDurationSeconds: number, metrics: WorkoutMetric[]): IsometricHoldSummary {
+  const held = metrics
+    .map((metric) => {
+      const cables = [
+        { load: metric.loadA, position: metric.positionA },
+        { load: metric.loadB, position: metric.positionB },
+      ].filter((cable) => cable.load >= HOLD_MIN_LOAD_KG);
+      if (cables.length === 0) {
+        return null;
+      }
+      return {
+        timestamp: metric.timestamp ?? 0,
+        load: cables.reduce((sum, cable) => sum + cable.load, 0) / cables.length,
+        position: cables.reduce((sum, cable) => sum + cable.position, 0) / cables.length,
+      };
+    })
+    .filter((sample): sample is { timestamp: number; load: number; position: number } => sample !== null);
+
+  let holdMs = 0;
+  for (let i = 1; i < held.length; i++) {
+    const gap = held[i].timestamp - held[i - 1].timestamp;
+    if (gap > 0 && gap <= MAX_SAMPLE_GAP_MS) {
+      holdMs += gap;
+    }
+  }
+
+  const meanLoadKg = mean(held.map((sample) => sample.load));
+  return {
+    targetDurationSeconds,
+    holdMs,
+    meanLoadKg,
+    loadVariationPercent: meanLoadKg > 0 ? (standardDeviation(held.map((sample) => sample.load)) / meanLoadKg) * 100 : 0,
+    positionVariationMm: standardDeviation(held.map((sample) => sample.position)),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+}
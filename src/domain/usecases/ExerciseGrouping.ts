@@ -0,0 +1,202 @@
+import { ExerciseGroup, ExerciseGroupType, RoutineExercise } from '../models/Routine';
+import { generateUUID } from '../models/Models';
+
+/**
+ * One set of a routine in the order it is performed
+ */
+export interface RoutineStep {
+  exerciseIndex: number; // Index into the routine's exercises (sorted by orderIndex)
+  setIndex: number; // 0-based set of that exercise
+  round: number; // 0-based round of the exercise's block (equals setIndex)
+  totalRounds: number; // Rounds of the block (sets of an ungrouped exercise)
+  restAfterSeconds: number; // Rest before the next step (0 after the last step)
+}
+
+/**
+ * Rest between two steps, as shown by the `resting` workout state
+ */
+export interface StepRest {
+  restSeconds: number;
+  nextExerciseName: string;
+  isLastExercise: boolean; // The next step is the routine's final set
+  currentSet: number; // 1-based set of the next exercise
+  totalSets: number;
+}
+
+export const EXERCISE_GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  circuit: 'Circuit',
+  giant_set: 'Giant Set',
+};
+
+export const DEFAULT_GROUP_EXERCISE_REST_SECONDS = 15;
+export const DEFAULT_GROUP_ROUND_REST_SECONDS = 90;
+
+/**
+ * Split exercises into blocks performed one after another: adjacent exercises sharing a
+ * group id form one block, every other exercise is a block of its own
+ */
+export function getExerciseBlocks(exercises: RoutineExercise[]): number[][] {
+  const blocks: number[][] = [];
+  exercises.forEach((exercise, index) => {
+    const previous = blocks[blocks.length - 1];
+    const groupId = exercise.group?.id;
+    if (groupId && previous && exercises[previous[0]].group?.id === groupId) {
+      previous.push(index);
+    } else {
+      blocks.push([index]);
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Order of every set of a routine. Grouped exercises alternate one set at a time; an
+ * exercise with fewer sets drops out of the later rounds.
+ */
+export function buildRoutineSteps(exercises: RoutineExercise[]): RoutineStep[] {
+  const steps: RoutineStep[] = [];
+
+  for (const block of getExerciseBlocks(exercises)) {
+    const group = block.length > 1 ? exercises[block[0]].group ?? null : null;
+    const totalRounds = Math.max(...block.map((index) => exercises[index].setReps?.length ?? 0));
+
+    for (let round = 0; round < totalRounds; round++) {
+      const inRound = block.filter((index) => round < (exercises[index].setReps?.length ?? 0));
+      inRound.forEach((exerciseIndex, position) => {
+        const isLastInRound = position === inRound.length - 1;
+        const restAfterSeconds = group
+          ? isLastInRound
+            ? group.restBetweenRoundsSeconds
+            : group.restBetweenExercisesSeconds
+          : exercises[exerciseIndex].restSeconds ?? 60;
+        steps.push({ exerciseIndex, setIndex: round, round, totalRounds, restAfterSeconds });
+      });
+    }
+  }
+
+  if (steps.length > 0) {
+    steps[steps.length - 1].restAfterSeconds = 0;
+  }
+  return steps;
+}
+
+/**
+ * Rest after a step, naming the exercise of the step that follows (null after the last step)
+ */
+export function getRestAfterStep(
+  exercises: RoutineExercise[],
+  steps: RoutineStep[],
+  stepIndex: number
+): StepRest | null {
+  const next = steps[stepIndex + 1];
+  if (!steps[stepIndex] || !next) {
+    return null;
+  }
+
+  const nextExercise = exercises[next.exerciseIndex];
+  return {
+    restSeconds: steps[stepIndex].restAfterSeconds,
+    nextExerciseName: nextExercise.exercise.name,
+    isLastExercise: stepIndex + 1 === steps.length - 1,
+    currentSet: next.setIndex + 1,
+    totalSets: nextExercise.setReps?.length ?? 0,
+  };
+}
+
+/**
+ * Label of a group, matched to its size (a superset has exactly two exercises)
+ */
+function typeForSize(type: ExerciseGroupType, size: number): ExerciseGroupType {
+  if (size <= 2) {
+    return 'superset';
+  }
+  return type === 'superset' ? 'circuit' : type;
+}
+
+/**
+ * Clean up groups after exercises were added, removed or moved: a group left with a single
+ * exercise is dissolved, a group split in two parts gets a new id for the later part and
+ * every group's type is matched to its size
+ */
+export function normalizeGroups(exercises: RoutineExercise[]): RoutineExercise[] {
+  const seenGroupIds = new Set<string>();
+  const result = exercises.map((exercise) => ({ ...exercise }));
+
+  for (const block of getExerciseBlocks(result)) {
+    const group = result[block[0]].group;
+    if (!group) {
+      continue;
+    }
+
+    if (block.length === 1) {
+      result[block[0]].group = null;
+      continue;
+    }
+
+    const id = seenGroupIds.has(group.id) ? generateUUID() : group.id;
+    seenGroupIds.add(id);
+    const normalized: ExerciseGroup = { ...group, id, type: typeForSize(group.type, block.length) };
+    block.forEach((index) => {
+      result[index].group = normalized;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Group an exercise with the one after it (joining or merging their groups)
+ */
+export function linkWithNext(exercises: RoutineExercise[], index: number): RoutineExercise[] {
+  if (index < 0 || index >= exercises.length - 1) {
+    return exercises;
+  }
+
+  const group: ExerciseGroup = exercises[index].group ??
+    exercises[index + 1].group ?? {
+      id: generateUUID(),
+      type: 'superset',
+      restBetweenExercisesSeconds: DEFAULT_GROUP_EXERCISE_REST_SECONDS,
+      restBetweenRoundsSeconds: DEFAULT_GROUP_ROUND_REST_SECONDS,
+    };
+  const mergedIds = new Set([exercises[index].group?.id, exercises[index + 1].group?.id].filter(Boolean));
+
+  return normalizeGroups(
+    exercises.map((exercise, i) =>
+      i === index || i === index + 1 || (exercise.group && mergedIds.has(exercise.group.id))
+        ? { ...exercise, group }
+        : exercise
+    )
+  );
+}
+
+/**
+ * Split a group between an exercise and the one after it
+ */
+export function unlinkFromNext(exercises: RoutineExercise[], index: number): RoutineExercise[] {
+  const group = exercises[index]?.group;
+  if (!group || exercises[index + 1]?.group?.id !== group.id) {
+    return exercises;
+  }
+
+  const laterGroup: ExerciseGroup = { ...group, id: generateUUID() };
+  return normalizeGroups(
+    exercises.map((exercise, i) =>
+      i > index && exercise.group?.id === group.id ? { ...exercise, group: laterGroup } : exercise
+    )
+  );
+}
+
+/**
+ * Change the settings of a group on every exercise that belongs to it
+ */
+export function updateGroup(
+  exercises: RoutineExercise[],
+  groupId: string,
+  changes: Partial<Omit<ExerciseGroup, 'id'>>
+): RoutineExercise[] {
+  return exercises.map((exercise) =>
+    exercise.group?.id === groupId ? { ...exercise, group: { ...exercise.group, ...changes } } : exercise
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Fields of a library exercise that search matches and ranks on
+ */
+export interface SearchableExercise {
+  name: string;
+  description: string;
+  muscles: string; // Comma separated
+  notes?: string | null;
+  popularity: number;
+  timesPerformed: number;
+  isCustom?: boolean;
+}
+
+/**
+ * One word of a search query and the indexed words it stands for
+ */
+export interface SearchTerm {
+  text: string;
+  isFuzzy: boolean; // No indexed word starts with the text; `words` are close misspellings
+  words: string[]; // Indexed words of a fuzzy term (empty when nothing is close)
+}
+
+// Relevance of a term by the field it matches in
+const FIELD_WEIGHTS = {
+  nameStart: 1, // First word of the name
+  name: 0.9,
+  muscles: 0.6,
+  description: 0.4,
+  notes: 0.4,
+};
+
+// Relevance of a term by how it matches a word
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.5;
+
+// Shortest text compared with the start of longer words (shorter ones match too many words)
+const MIN_FUZZY_PREFIX_LENGTH = 5;
+
+// Share of each signal in the final score
+const RELEVANCE_WEIGHT = 0.6;
+const POPULARITY_WEIGHT = 0.2;
+const HISTORY_WEIGHT = 0.2;
+
+/**
+ * Split text into lowercase words the way the SQLite "simple" full-text tokenizer does:
+ * ASCII characters other than letters and digits separate words.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u0080-\uffff]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Edit distance between two words, counting insertions, deletions, substitutions and swaps of
+ * adjacent letters as one edit each
+ */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Typos tolerated in a word of the given length (short words must be spelled right)
+ */
+export function getTypoTolerance(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 7 ? 1 : 2;
+}
+
+/**
+ * Indexed words the text may be a misspelling of. Longer texts are also compared with the start
+ * of longer words, so a word that is still being typed matches too.
+ */
+export function findTypoMatches(text: string, vocabulary: string[]): string[] {
+  const tolerance = getTypoTolerance(text.length);
+  if (tolerance === 0) {
+    return [];
+  }
+
+  return vocabulary.filter((word) => {
+    if (Math.abs(word.length - text.length) <= tolerance && editDistance(text, word) <= tolerance) {
+      return true;
+    }
+    return (
+      text.length >= MIN_FUZZY_PREFIX_LENGTH &&
+      word.length > text.length &&
+      editDistance(text, word.slice(0, text.length)) <= tolerance
+    );
+  });
+}
+
+/**
+ * Terms of a search query. A word that starts an indexed word is searched as a prefix,
+ * any other word is replaced by its close misspellings.
+ */
+export function resolveSearchTerms(query: string, vocabulary: string[]): SearchTerm[] {
+  const texts = Array.from(new Set(tokenizeSearchText(query)));
+
+  return texts.map((text) => {
+    if (vocabulary.some((word) => word.startsWith(text))) {
+      return { text, isFuzzy: false, words: [] };
+    }
+    return { text, isFuzzy: true, words: findTypoMatches(text, vocabulary) };
+  });
+}
+
+/**
+ * Relevance of an exercise to the search terms, from 0 (no term matches) to 1 (every term is the
+ * first word of the name)
+ */
+export function scoreSearchRelevance(exercise: SearchableExercise, terms: SearchTerm[]): number {
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  const nameWords = tokenizeSearchText(exercise.name);
+  const fields: Array<[string[], number]> = [
+    [nameWords.slice(0, 1), FIELD_WEIGHTS.nameStart],
+    [nameWords.slice(1), FIELD_WEIGHTS.name],
+    [tokenizeSearchText(exercise.muscles), FIELD_WEIGHTS.muscles],
+    [tokenizeSearchText(exercise.description), FIELD_WEIGHTS.description],
+    [tokenizeSearchText(exercise.notes ?? ''), FIELD_WEIGHTS.notes],
+  ];
+
+  const total = terms.reduce((sum, term) => {
+    let best = 0;
+    for (const [words, weight] of fields) {
+      best = Math.max(best, weight * matchQuality(term, words));
+    }
+    return sum + best;
+  }, 0);
+
+  return total / terms.length;
+}
+
+/**
+ * Order exercises by relevance to the search terms, popularity and how often the user performed
+ * them. Custom exercises count as the most popular, as the user added them to use them.
+ */
+export function rankExercises<T extends SearchableExercise>(exercises: T[], terms: SearchTerm[]): T[] {
+  const maxPopularity = Math.max(0, ...exercises.map((exercise) => exercise.popularity ?? 0));
+  const maxPerformed = Math.max(0, ...exercises.map((exercise) => exercise.timesPerformed ?? 0));
+
+  const scored = exercises.map((exercise) => {
+    let popularity = maxPopularity > 0 ? Math.sqrt((exercise.popularity ?? 0) / maxPopularity) : 0;
+    if (exercise.isCustom) {
+      popularity = 1;
+    }
+    const history = maxPerformed > 0 ? Math.log1p(exercise.timesPerformed ?? 0) / Math.log1p(maxPerformed) : 0;
+    const score =
+      RELEVANCE_WEIGHT * scoreSearchRelevance(exercise, terms) +
+      POPULARITY_WEIGHT * popularity +
+      HISTORY_WEIGHT * history;
+    return { exercise, score };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .map(({ exercise }) => exercise);
+}
+
+/**
+ * How well a term matches the best of the given words
+ */
+function matchQuality(term: SearchTerm, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (term.isFuzzy) {
+      if (term.words.includes(word)) {
+        best = Math.max(best, FUZZY_MATCH);
+      }
+    } else if (word === term.text) {
+      return EXACT_MATCH;
+    } else if (word.startsWith(term.text)) {
+      best = Math.max(best, PREFIX_MATCH);
+    }
+  }
+  return best;
+}
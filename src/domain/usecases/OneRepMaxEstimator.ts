@@ -0,0 +1,95 @@
+import { OneRepMaxFormula } from '../models/Models';
+
+/**
+ * Inputs of a one-rep max estimate for one set.
+ * Loads are per cable, velocity is the best working rep's mean concentric velocity.
+ */
+export interface OneRepMaxInput {
+  weightPerCableKg: number;
+  reps: number;
+  meanConcentricVelocity?: number | null; // m/s
+}
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = ['epley', 'brzycki', 'velocity'];
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  velocity: 'Velocity',
+};
+
+/**
+ * Velocity-based estimate: linear load-velocity profile through an unloaded velocity and
+ * the minimum velocity threshold (the mean concentric velocity of a true 1RM)
+ */
+export const VELOCITY_PROFILE = {
+  MIN_VELOCITY_THRESHOLD: 0.3, // m/s at 1RM
+  UNLOADED_VELOCITY: 1.8, // m/s at 0% 1RM
+} as const;
+
+/**
+ * Rep-based formulas lose accuracy past this many reps; such sets are not estimated
+ */
+export const MAX_ESTIMATE_REPS = 20;
+
+/**
+ * Estimate a one-rep max with the given formula.
+ * Returns null when the formula cannot be applied (no reps, too many reps, no velocity).
+ */
+export function estimateOneRepMax(input: OneRepMaxInput, formula: OneRepMaxFormula): number | null {
+  const { weightPerCableKg, reps } = input;
+  if (weightPerCableKg <= 0 || reps < 1) {
+    return null;
+  }
+  if (formula !== 'velocity' && reps > MAX_ESTIMATE_REPS) {
+    return null;
+  }
+
+  switch (formula) {
+    case 'epley':
+      return reps === 1 ? weightPerCableKg : weightPerCableKg * (1 + reps / 30);
+    case 'brzycki':
+      return (weightPerCableKg * 36) / (37 - reps);
+    case 'velocity':
+      return estimateFromVelocity(weightPerCableKg, input.meanConcentricVelocity);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Estimate with every formula that applies to the set
+ */
+export function estimateAllOneRepMaxes(input: OneRepMaxInput): Array<{ formula: OneRepMaxFormula; value: number }> {
+  return ONE_REP_MAX_FORMULAS.map((formula) => ({ formula, value: estimateOneRepMax(input, formula) })).filter(
+    (estimate): estimate is { formula: OneRepMaxFormula; value: number } => estimate.value !== null
+  );
+}
+
+/**
+ * Load-velocity estimate: load / 1RM = (V0 - v) / (V0 - MVT)
+ */
+function estimateFromVelocity(weightPerCableKg: number, velocity: number | null | undefined): number | null {
+  if (velocity == null || velocity <= 0 || velocity >= VELOCITY_PROFILE.UNLOADED_VELOCITY) {
+    return null;
+  }
+
+  const { MIN_VELOCITY_THRESHOLD: mvt, UNLOADED_VELOCITY: v0 } = VELOCITY_PROFILE;
+  if (velocity <= mvt) {
+    // At or below the 1RM velocity - the lifted load is the best estimate
+    return weightPerCableKg;
+  }
+
+  return (weightPerCableKg * (v0 - mvt)) / (v0 - velocity);
+}
+
+/**
+ * Weight that could be lifted for the given reps at a one-rep max (inverse of the formula).
+ * The velocity formula has no rep relationship, so Epley is used for it.
+ */
+export function projectRepMax(oneRepMaxKg: number, reps: number, formula: OneRepMaxFormula): number {
+  if (reps <= 1) {
+    return oneRepMaxKg;
+  }
+  return formula === 'brzycki' ? (oneRepMaxKg * (37 - reps)) / 36 : oneRepMaxKg / (1 + reps / 30);
+}
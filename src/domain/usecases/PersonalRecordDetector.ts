@@ -0,0 +1,129 @@
+import { OneRepMaxFormula, PersonalRecord, PRCategory } from '../models/Models';
+import { estimateOneRepMax } from './OneRepMaxEstimator';
+
+/**
+ * Result of one working set, compared against the stored records
+ */
+export interface SetPerformance {
+  sessionId: string;
+  exerciseId: string;
+  workoutMode: string;
+  weightPerCableKg: number;
+  reps: number; // Working reps
+  timestamp: number;
+}
+
+/**
+ * A record set by a performance; previous is null the first time a category is recorded
+ */
+export interface PersonalRecordBreak {
+  record: Omit<PersonalRecord, 'id'>;
+  previous: PersonalRecord | null;
+}
+
+export const PR_CATEGORIES: PRCategory[] = ['max_weight', 'max_reps_at_weight', 'max_volume', 'max_e1rm'];
+
+export const PR_CATEGORY_LABELS: Record<PRCategory, string> = {
+  max_weight: 'Max Weight',
+  max_reps_at_weight: 'Most Reps at Weight',
+  max_volume: 'Best Volume',
+  max_e1rm: 'Best e1RM',
+};
+
+/**
+ * Weights are rounded to this step for reps-at-weight records so small load
+ * measurement differences count as the same weight
+ */
+export const PR_WEIGHT_STEP_KG = 0.5;
+
+/**
+ * e1RM records use a rep-based formula so every set can be compared
+ */
+export const PR_E1RM_FORMULA: OneRepMaxFormula = 'epley';
+
+/**
+ * Round a weight to the reps-at-weight step
+ */
+export function roundToWeightStep(weightKg: number): number {
+  return Math.round(weightKg / PR_WEIGHT_STEP_KG) * PR_WEIGHT_STEP_KG;
+}
+
+/**
+ * Value of a performance in a category (null if it cannot be measured)
+ */
+export function getRecordValue(performance: SetPerformance, category: PRCategory): number | null {
+  switch (category) {
+    case 'max_weight':
+      return performance.weightPerCableKg;
+    case 'max_reps_at_weight':
+      return performance.reps;
+    case 'max_volume':
+      return performance.weightPerCableKg * 2 * performance.reps;
+    case 'max_e1rm':
+      return estimateOneRepMax(
+        { weightPerCableKg: performance.weightPerCableKg, reps: performance.reps },
+        PR_E1RM_FORMULA
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare a performance with the existing records of its exercise and return the records it sets.
+ * Records are kept per workout mode; reps-at-weight records are also kept per rounded weight.
+ */
+export function detectPersonalRecords(
+  performance: SetPerformance,
+  existing: PersonalRecord[]
+): PersonalRecordBreak[] {
+  if (performance.reps <= 0 || performance.weightPerCableKg <= 0) {
+    return [];
+  }
+
+  const breaks: PersonalRecordBreak[] = [];
+
+  for (const category of PR_CATEGORIES) {
+    const value = getRecordValue(performance, category);
+    if (value === null || value <= 0) {
+      continue;
+    }
+
+    const weightPerCableKg =
+      category === 'max_reps_at_weight'
+        ? roundToWeightStep(performance.weightPerCableKg)
+        : performance.weightPerCableKg;
+
+    const previous =
+      existing.find(
+        (record) =>
+          record.exerciseId === performance.exerciseId &&
+          record.workoutMode === performance.workoutMode &&
+          record.category === category &&
+          (category !== 'max_reps_at_weight' || record.weightPerCableKg === weightPerCableKg)
+      ) ?? null;
+
+    const isBetter =
+      !previous ||
+      value > previous.value ||
+      (category === 'max_weight' && value === previous.value && performance.reps > previous.reps);
+
+    if (isBetter) {
+      breaks.push({
+        record: {
+          exerciseId: performance.exerciseId,
+          weightPerCableKg,
+          reps: performance.reps,
+          timestamp: performance.timestamp,
+          workoutMode: performance.workoutMode,
+          category,
+          value,
+          sessionId: performance.sessionId,
+        },
+        previous,
+      });
+    }
+  }
+
+  return breaks;
+}
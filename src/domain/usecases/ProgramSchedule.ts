@@ -0,0 +1,142 @@
+import { Routine } from '../models/Routine';
+import { PROGRESSION_WEIGHT_STEP_KG } from './ProgressionEngine';
+
+/**
+ * Modifiers of one week of a multi-week program
+ */
+export interface WeekModifiers {
+  weekNumber: number; // 1-based
+  intensityPercent: number; // Scales routine weights (100 = as written)
+  volumePercent: number; // Scales the number of sets (100 = as written)
+  isDeload: boolean;
+}
+
+/**
+ * Position of a program in its mesocycle
+ */
+export interface MesocyclePosition {
+  currentWeek: number; // 1-based
+  weekStartedAt: number; // Start of the calendar week the current week began
+}
+
+export const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const MAX_PROGRAM_WEEKS = 12;
+
+/**
+ * Modifiers a week gets when it is marked as a deload
+ */
+export const DELOAD_WEEK_MODIFIERS = {
+  intensityPercent: 60,
+  volumePercent: 50,
+} as const;
+
+/**
+ * Start of the calendar week (Monday 00:00 local time) containing the timestamp
+ */
+export function getStartOfWeek(timestamp: number): number {
+  const date = new Date(timestamp);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+}
+
+/**
+ * Advance the current week by the calendar weeks elapsed since it started.
+ * The mesocycle starts over after its last week.
+ */
+export function advanceMesocycle(
+  weekCount: number,
+  currentWeek: number,
+  weekStartedAt: number | null,
+  now: number = Date.now()
+): MesocyclePosition {
+  const startOfThisWeek = getStartOfWeek(now);
+  const week = Math.min(Math.max(currentWeek, 1), Math.max(weekCount, 1));
+  if (weekStartedAt === null) {
+    return { currentWeek: week, weekStartedAt: startOfThisWeek };
+  }
+
+  // Rounded so daylight saving shifts do not lose or add a week
+  const weeksElapsed = Math.round((startOfThisWeek - getStartOfWeek(weekStartedAt)) / WEEK_MS);
+  if (weeksElapsed <= 0) {
+    return { currentWeek: week, weekStartedAt };
+  }
+
+  return {
+    currentWeek: ((week - 1 + weeksElapsed) % Math.max(weekCount, 1)) + 1,
+    weekStartedAt: startOfThisWeek,
+  };
+}
+
+/**
+ * Modifiers of a week (weeks without an entry use the routines as written)
+ */
+export function getWeekModifiers(weeks: WeekModifiers[], weekNumber: number): WeekModifiers {
+  return (
+    weeks.find((week) => week.weekNumber === weekNumber) ?? {
+      weekNumber,
+      intensityPercent: 100,
+      volumePercent: 100,
+      isDeload: false,
+    }
+  );
+}
+
+/**
+ * Whether a week changes the routines
+ */
+export function hasWeekModifiers(week: WeekModifiers): boolean {
+  return week.isDeload || week.intensityPercent !== 100 || week.volumePercent !== 100;
+}
+
+/**
+ * Routine as prescribed for a week: weights are scaled by the intensity and the number of
+ * sets by the volume (at least one set; extra sets repeat the last one)
+ */
+export function applyWeekModifiers(routine: Routine, week: WeekModifiers): Routine {
+  if (!hasWeekModifiers(week)) {
+    return routine;
+  }
+
+  const scaleWeight = (weightKg: number) =>
+    Math.round((weightKg * week.intensityPercent) / 100 / PROGRESSION_WEIGHT_STEP_KG) * PROGRESSION_WEIGHT_STEP_KG;
+  const scaleSets = <T>(values: T[], setCount: number): T[] =>
+    values.length === 0
+      ? values
+      : Array.from({ length: setCount }, (_, index) => values[Math.min(index, values.length - 1)]);
+
+  return {
+    ...routine,
+    exercises: (routine.exercises ?? []).map((exercise) => {
+      const sets = exercise.setReps?.length ?? 0;
+      const setCount = Math.max(1, Math.round((sets * week.volumePercent) / 100));
+      return {
+        ...exercise,
+        weightPerCableKg: scaleWeight(exercise.weightPerCableKg),
+        setReps: exercise.setReps && sets > 0 ? scaleSets(exercise.setReps, setCount) : exercise.setReps,
+        setWeightsPerCableKg: exercise.setWeightsPerCableKg
+          ? scaleSets(exercise.setWeightsPerCableKg.map(scaleWeight), setCount)
+          : exercise.setWeightsPerCableKg,
+      };
+    }),
+  };
+}
+
+/**
+ * Short description of a week's modifiers (e.g. "Deload • 60% intensity • 50% volume")
+ */
+export function describeWeekModifiers(week: WeekModifiers): string {
+  const parts: string[] = [];
+  if (week.isDeload) {
+    parts.push('Deload');
+  }
+  if (week.intensityPercent !== 100) {
+    parts.push(`${week.intensityPercent}% intensity`);
+  }
+  if (week.volumePercent !== 100) {
+    parts.push(`${week.volumePercent}% volume`);
+  }
+  return parts.length > 0 ? parts.join(' • ') : 'As written';
+}
@@ -0,0 +1,258 @@
+import { ProgressionScheme, ProgressionSettings, RoutineExercise } from '../models/Routine';
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG } from '../../utils/constants';
+
+/**
+ * One completed set of a routine run (a workout session for the exercise)
+ */
+export interface CompletedSet {
+  sessionId: string;
+  timestamp: number;
+  weightPerCableKg: number;
+  completedReps: number; // Working reps
+  velocityLossPercent: number | null; // Last working rep below the fastest, null without velocity data
+}
+
+/**
+ * Proposed change to a routine exercise after a routine run.
+ * An unchanged proposal (hold) is still returned so the decision is recorded.
+ */
+export interface ProgressionProposal {
+  routineExerciseId: string;
+  exerciseId: string | null;
+  exerciseName: string;
+  scheme: ProgressionScheme;
+  previousWeightPerCableKg: number;
+  newWeightPerCableKg: number;
+  previousSetReps: number[];
+  newSetReps: number[];
+  newSetWeightsPerCableKg: number[];
+  reason: string;
+  sessionIds: string[];
+}
+
+export const PROGRESSION_SCHEMES: ProgressionScheme[] = ['none', 'linear', 'double', 'rpe'];
+
+export const PROGRESSION_SCHEME_LABELS: Record<ProgressionScheme, string> = {
+  none: 'None',
+  linear: 'Linear',
+  double: 'Double Progression',
+  rpe: 'RPE-Based',
+};
+
+/**
+ * Proposed weights are rounded to this step
+ */
+export const PROGRESSION_WEIGHT_STEP_KG = 0.5;
+
+/**
+ * Double progression range width when only the rep targets are known
+ */
+export const DEFAULT_REP_RANGE_WIDTH = 4;
+
+export const DEFAULT_TARGET_RPE = 8;
+
+/**
+ * Load change per RPE point away from the target (percent of the working weight)
+ */
+export const RPE_LOAD_PERCENT_PER_POINT = 4;
+
+/**
+ * Estimated RPE within this distance of the target keeps the weight
+ */
+export const RPE_TOLERANCE = 0.5;
+
+/**
+ * Estimate the RPE of a set.
+ * RPE is not recorded, so it is derived from velocity loss (about 20% loss at RPE 7,
+ * 30% at RPE 8, 40% at RPE 9); a set that missed its rep target is treated as RPE 10.
+ * Returns null when the set has no velocity data.
+ */
+export function estimateSetRpe(set: CompletedSet, targetReps: number): number | null {
+  if (set.completedReps < targetReps) {
+    return 10;
+  }
+  if (set.velocityLossPercent === null) {
+    return null;
+  }
+  return Math.min(Math.max(5 + set.velocityLossPercent / 10, 5), 10);
+}
+
+/**
+ * Propose the next prescription of a routine exercise from the sets of its last routine run.
+ * Sets are matched to the prescribed sets in the order they were performed.
+ * Returns null when the exercise has no progression scheme or no completed sets.
+ */
+export function proposeProgression(
+  exercise: RoutineExercise,
+  sets: CompletedSet[]
+): ProgressionProposal | null {
+  const settings = exercise.progression;
+  if (!settings || settings.scheme === 'none' || sets.length === 0) {
+    return null;
+  }
+
+  const setReps = exercise.setReps && exercise.setReps.length > 0 ? exercise.setReps : [10];
+  const performed = [...sets].sort((a, b) => a.timestamp - b.timestamp).slice(0, setReps.length);
+
+  let change: { weightPerCableKg: number; setReps: number[]; reason: string };
+  switch (settings.scheme) {
+    case 'linear':
+      change = proposeLinear(exercise.weightPerCableKg, setReps, performed, settings);
+      break;
+    case 'double':
+      change = proposeDouble(exercise.weightPerCableKg, setReps, performed, settings);
+      break;
+    case 'rpe':
+      change = proposeRpe(exercise.weightPerCableKg, setReps, performed, settings);
+      break;
+    default:
+      return null;
+  }
+
+  const newWeightPerCableKg = roundWeight(change.weightPerCableKg);
+  const delta = newWeightPerCableKg - exercise.weightPerCableKg;
+
+  return {
+    routineExerciseId: exercise.id,
+    exerciseId: exercise.exercise.id ?? null,
+    exerciseName: exercise.exercise.name,
+    scheme: settings.scheme,
+    previousWeightPerCableKg: exercise.weightPerCableKg,
+    newWeightPerCableKg,
+    previousSetReps: setReps,
+    newSetReps: change.setReps,
+    // Per-set weights move by the same amount as the base weight
+    newSetWeightsPerCableKg: (exercise.setWeightsPerCableKg ?? []).map((weight) => roundWeight(weight + delta)),
+    reason: change.reason,
+    sessionIds: performed.map((set) => set.sessionId),
+  };
+}
+
+/**
+ * Whether a proposal changes the prescription
+ */
+export function isProgressionChange(proposal: ProgressionProposal): boolean {
+  return (
+    proposal.newWeightPerCableKg !== proposal.previousWeightPerCableKg ||
+    proposal.newSetReps.some((reps, index) => reps !== proposal.previousSetReps[index])
+  );
+}
+
+/**
+ * Apply a proposal to its routine exercise
+ */
+export function applyProgressionProposal(exercise: RoutineExercise, proposal: ProgressionProposal): RoutineExercise {
+  return {
+    ...exercise,
+    weightPerCableKg: proposal.newWeightPerCableKg,
+    setReps: proposal.newSetReps,
+    setWeightsPerCableKg: proposal.newSetWeightsPerCableKg,
+  };
+}
+
+/**
+ * Linear: add the increment when every prescribed set hit its reps, otherwise repeat the weight
+ */
+function proposeLinear(
+  weightPerCableKg: number,
+  setReps: number[],
+  performed: CompletedSet[],
+  settings: ProgressionSettings
+) {
+  const missed = findMissedSet(setReps, performed);
+  if (missed) {
+    return { weightPerCableKg, setReps, reason: missed };
+  }
+  return {
+    weightPerCableKg: weightPerCableKg + settings.incrementKg,
+    setReps,
+    reason: `All ${setReps.length} sets completed`,
+  };
+}
+
+/**
+ * Double progression: add a rep per set until every set reaches the top of the range,
+ * then add the increment and return to the bottom of the range
+ */
+function proposeDouble(
+  weightPerCableKg: number,
+  setReps: number[],
+  performed: CompletedSet[],
+  settings: ProgressionSettings
+) {
+  const repRangeMin = settings.repRangeMin ?? Math.min(...setReps);
+  const repRangeMax = Math.max(settings.repRangeMax ?? repRangeMin + DEFAULT_REP_RANGE_WIDTH, repRangeMin);
+
+  const missed = findMissedSet(setReps, performed);
+  if (missed) {
+    return { weightPerCableKg, setReps, reason: missed };
+  }
+
+  if (performed.every((set) => set.completedReps >= repRangeMax)) {
+    return {
+      weightPerCableKg: weightPerCableKg + settings.incrementKg,
+      setReps: setReps.map(() => repRangeMin),
+      reason: `All sets reached ${repRangeMax} reps`,
+    };
+  }
+
+  return {
+    weightPerCableKg,
+    setReps: setReps.map((reps) => Math.min(reps + 1, repRangeMax)),
+    reason: `All sets completed, adding a rep toward ${repRangeMax}`,
+  };
+}
+
+/**
+ * RPE-based: move the weight toward the target RPE, about 4% per RPE point
+ */
+function proposeRpe(
+  weightPerCableKg: number,
+  setReps: number[],
+  performed: CompletedSet[],
+  settings: ProgressionSettings
+) {
+  const targetRpe = settings.targetRpe ?? DEFAULT_TARGET_RPE;
+  const estimates = performed
+    .map((set, index) => estimateSetRpe(set, setReps[index]))
+    .filter((rpe): rpe is number => rpe !== null);
+
+  if (estimates.length === 0) {
+    return { weightPerCableKg, setReps, reason: 'No velocity data to estimate RPE' };
+  }
+
+  const rpe = estimates.reduce((sum, value) => sum + value, 0) / estimates.length;
+  const difference = targetRpe - rpe;
+  if (Math.abs(difference) <= RPE_TOLERANCE) {
+    return { weightPerCableKg, setReps, reason: `Estimated RPE ${rpe.toFixed(1)} on target ${targetRpe}` };
+  }
+
+  // At least one weight step in the needed direction
+  const change = (weightPerCableKg * difference * RPE_LOAD_PERCENT_PER_POINT) / 100;
+  const step = Math.sign(change) * Math.max(Math.abs(change), PROGRESSION_WEIGHT_STEP_KG);
+
+  return {
+    weightPerCableKg: weightPerCableKg + step,
+    setReps,
+    reason: `Estimated RPE ${rpe.toFixed(1)} ${difference > 0 ? 'below' : 'above'} target ${targetRpe}`,
+  };
+}
+
+/**
+ * Describe the first prescribed set that was skipped or fell short, or null when all were completed
+ */
+function findMissedSet(setReps: number[], performed: CompletedSet[]): string | null {
+  if (performed.length < setReps.length) {
+    return `Only ${performed.length} of ${setReps.length} sets completed`;
+  }
+  const index = performed.findIndex((set, i) => set.completedReps < setReps[i]);
+  if (index >= 0) {
+    return `Missed reps on set ${index + 1} (${performed[index].completedReps}/${setReps[index]})`;
+  }
+  return null;
+}
+
+function roundWeight(weightKg: number): number {
+  const rounded = Math.round(weightKg / PROGRESSION_WEIGHT_STEP_KG) * PROGRESSION_WEIGHT_STEP_KG;
+  return Math.min(Math.max(rounded, MIN_WEIGHT_KG), MAX_WEIGHT_KG);
+}
@@ -0,0 +1,319 @@
+import { WorkoutMetric } from '../models/Models';
+import { calculateRepAsymmetry, RepAsymmetry } from './AsymmetryAnalyzer';
+
+/**
+ * Velocity-based training metrics for one cable over one rep.
+ * Velocities are in m/s, power in watts, loads in kg, range of motion in device position units.
+ */
+export interface CableRepMetrics {
+  active: boolean; // false when the cable barely moved (single-cable exercises)
+  rangeOfMotion: number;
+  topPosition: number;
+  bottomPosition: number;
+  topTime: number; // When this cable reached its highest position
+  meanConcentricLoad: number;
+  peakLoad: number;
+  meanConcentricVelocity: number;
+  peakConcentricVelocity: number;
+  meanEccentricVelocity: number;
+  peakEccentricVelocity: number;
+  meanConcentricPower: number;
+  peakConcentricPower: number;
+}
+
+/**
+ * Per-rep analytics produced by RepAnalyzer
+ */
+export interface RepAnalytics {
+  repIndex: number; // 1-based, in the order the reps were segmented
+  isWarmup: boolean; // One of the first warmupTarget reps
+  startTime: number; // Bottom of the rep (start of the concentric)
+  topTime: number; // Top of the rep (end of the concentric)
+  endTime: number; // Bottom again (end of the eccentric)
+  concentricDurationMs: number;
+  eccentricDurationMs: number;
+  timeUnderTensionMs: number;
+  cableA: CableRepMetrics;
+  cableB: CableRepMetrics;
+  asymmetry: RepAsymmetry | null; // Left/right comparison (null unless both cables moved)
+  // Best of the active cables - the value velocity-loss thresholds are applied to
+  meanConcentricVelocity: number;
+  peakConcentricVelocity: number;
+  meanConcentricPower: number;
+}
+
+/**
+ * Device position units per meter (positions are reported in millimeters)
+ */
+export const POSITION_UNITS_PER_METER = 1000;
+
+/**
+ * Minimum travel (position units) before a turning point is accepted as the top or
+ * bottom of a rep - filters out jitter while the handles are held still
+ */
+export const MIN_PHASE_TRAVEL = 50;
+
+/**
+ * Minimum range of motion for a cable to be reported as active
+ */
+export const MIN_CABLE_ROM = 50;
+
+const GRAVITY = 9.81;
+
+type Phase = 'idle' | 'concentric' | 'eccentric';
+
+interface Sample {
+  timestamp: number;
+  positionA: number;
+  positionB: number;
+  loadA: number;
+  loadB: number;
+}
+
+/**
+ * Segments reps from the position stream into concentric (cable pulled out, position rising)
+ * and eccentric (position falling) phases and computes velocity, power, time under tension and
+ * range of motion for both cables.
+ *
+ * Segmentation follows the larger of the two cable positions so single-cable exercises work on
+ * either side. A rep runs from one bottom turning point to the next; turning points are
+ * confirmed once the handles have moved MIN_PHASE_TRAVEL back the other way. Time is taken from
+ * the metric timestamps so replays produce the same numbers.
+ */
+export class RepAnalyzer {
+  private samples: Sample[] = [];
+  private phase: Phase = 'idle';
+  private extremeIndex = 0; // Lowest (idle/eccentric) or highest (concentric) sample so far
+  private topIndex = 0;
+  private repIndex = 0;
+
+  constructor(private warmupTarget: number = 0) {}
+
+  /**
+   * Add a metric sample; returns the analytics of a rep once it has been completed
+   */
+  public process(metric: WorkoutMetric): RepAnalytics | null {
+    if (metric.timestamp === undefined) {
+      return null;
+    }
+
+    this.samples.push({
+      timestamp: metric.timestamp,
+      positionA: metric.positionA,
+      positionB: metric.positionB,
+      loadA: metric.loadA,
+      loadB: metric.loadB,
+    });
+
+    const index = this.samples.length - 1;
+    const value = this.signal(index);
+    const extreme = this.signal(this.extremeIndex);
+
+    if (this.phase === 'concentric') {
+      if (value >= extreme) {
+        this.extremeIndex = index;
+      } else if (extreme - value >= MIN_PHASE_TRAVEL) {
+        // Top confirmed - the eccentric started at the highest sample
+        this.topIndex = this.extremeIndex;
+        this.phase = 'eccentric';
+        this.extremeIndex = this.lowestSince(this.topIndex);
+      }
+      return null;
+    }
+
+    if (value <= extreme) {
+      this.extremeIndex = index;
+      if (this.phase === 'idle') {
+        // Nothing before the lowest sample belongs to a rep
+        this.samples = [this.samples[index]];
+        this.extremeIndex = 0;
+      }
+      return null;
+    }
+
+    if (value - extreme < MIN_PHASE_TRAVEL) {
+      return null;
+    }
+
+    // Bottom confirmed - a new concentric started at the lowest sample
+    const bottomIndex = this.extremeIndex;
+    const rep = this.phase === 'eccentric' ? this.buildRep(bottomIndex) : null;
+
+    this.samples = this.samples.slice(bottomIndex);
+    this.phase = 'concentric';
+    this.extremeIndex = this.highestSince(0);
+    return rep;
+  }
+
+  /**
+   * Complete the rep in progress when the set ends (the last eccentric has no following
+   * concentric to confirm its bottom). Returns null if no full rep is pending.
+   */
+  public flush(): RepAnalytics | null {
+    if (this.phase !== 'eccentric') {
+      return null;
+    }
+
+    const bottomIndex = this.lowestSince(this.topIndex);
+    if (this.signal(this.topIndex) - this.signal(bottomIndex) < MIN_PHASE_TRAVEL) {
+      return null;
+    }
+
+    const rep = this.buildRep(bottomIndex);
+    this.samples = this.samples.slice(bottomIndex);
+    this.phase = 'idle';
+    this.extremeIndex = 0;
+    return rep;
+  }
+
+  /**
+   * Reset for a new set
+   */
+  public reset(warmupTarget: number = this.warmupTarget): void {
+    this.warmupTarget = warmupTarget;
+    this.samples = [];
+    this.phase = 'idle';
+    this.extremeIndex = 0;
+    this.topIndex = 0;
+    this.repIndex = 0;
+  }
+
+  private buildRep(bottomIndex: number): RepAnalytics {
+    const concentric = this.samples.slice(0, this.topIndex + 1);
+    const eccentric = this.samples.slice(this.topIndex, bottomIndex + 1);
+    const rep = this.samples.slice(0, bottomIndex + 1);
+
+    const startTime = rep[0].timestamp;
+    const topTime = this.samples[this.topIndex].timestamp;
+    const endTime = rep[rep.length - 1].timestamp;
+
+    const cableA = analyzeCable(concentric, eccentric, rep, 'A');
+    const cableB = analyzeCable(concentric, eccentric, rep, 'B');
+    const active = [cableA, cableB].filter((cable) => cable.active);
+
+    this.repIndex++;
+    return {
+      repIndex: this.repIndex,
+      isWarmup: this.repIndex <= this.warmupTarget,
+      startTime,
+      topTime,
+      endTime,
+      concentricDurationMs: topTime - startTime,
+      eccentricDurationMs: endTime - topTime,
+      timeUnderTensionMs: endTime - startTime,
+      cableA,
+      cableB,
+      asymmetry: calculateRepAsymmetry(cableA, cableB),
+      meanConcentricVelocity: Math.max(0, ...active.map((cable) => cable.meanConcentricVelocity)),
+      peakConcentricVelocity: Math.max(0, ...active.map((cable) => cable.peakConcentricVelocity)),
+      meanConcentricPower: active.reduce((sum, cable) => sum + cable.meanConcentricPower, 0),
+    };
+  }
+
+  /**
+   * Segmentation signal: the larger cable position
+   */
+  private signal(index: number): number {
+    const sample = this.samples[index];
+    return sample ? Math.max(sample.positionA, sample.positionB) : 0;
+  }
+
+  private lowestSince(start: number): number {
+    let lowest = start;
+    for (let i = start; i < this.samples.length; i++) {
+      if (this.signal(i) <= this.signal(lowest)) {
+        lowest = i;
+      }
+    }
+    return lowest;
+  }
+
+  private highestSince(start: number): number {
+    let highest = start;
+    for (let i = start; i < this.samples.length; i++) {
+      if (this.signal(i) >= this.signal(highest)) {
+        highest = i;
+      }
+    }
+    return highest;
+  }
+}
+
+/**
+ * Compute the metrics of one cable over a rep
+ */
+function analyzeCable(concentric: Sample[], eccentric: Sample[], rep: Sample[], cable: 'A' | 'B'): CableRepMetrics {
+  const position = (sample: Sample) => (cable === 'A' ? sample.positionA : sample.positionB);
+  const load = (sample: Sample) => (cable === 'A' ? sample.loadA : sample.loadB);
+
+  const positions = rep.map(position);
+  const topPosition = Math.max(...positions);
+  const bottomPosition = Math.min(...positions);
+  const rangeOfMotion = topPosition - bottomPosition;
+  const peakLoad = Math.max(...rep.map(load));
+  if (rangeOfMotion < MIN_CABLE_ROM) {
+    return { ...INACTIVE_CABLE, rangeOfMotion, topPosition, bottomPosition, peakLoad };
+  }
+
+  const highest = rep.reduce((top, sample) => (position(sample) > position(top) ? sample : top), rep[0]);
+  const concentricLoads = concentric.map(load);
+
+  const up = phaseVelocities(concentric, position);
+  const down = phaseVelocities(eccentric, position);
+
+  // Power from the load held at each step of the concentric (F = m * g)
+  const powers = up.steps.map((velocity, i) => Math.max(velocity, 0) * load(concentric[i + 1]) * GRAVITY);
+
+  return {
+    active: true,
+    rangeOfMotion,
+    topPosition,
+    bottomPosition,
+    topTime: highest.timestamp,
+    meanConcentricLoad: concentricLoads.reduce((sum, l) => sum + l, 0) / concentricLoads.length,
+    peakLoad,
+    meanConcentricVelocity: Math.max(up.mean, 0),
+    peakConcentricVelocity: Math.max(0, ...up.steps),
+    meanEccentricVelocity: Math.max(-down.mean, 0),
+    peakEccentricVelocity: Math.max(0, ...down.steps.map((velocity) => -velocity)),
+    meanConcentricPower: powers.length > 0 ? powers.reduce((sum, p) => sum + p, 0) / powers.length : 0,
+    peakConcentricPower: Math.max(0, ...powers),
+  };
+}
+
+/**
+ * Signed velocities (m/s) between consecutive samples and the mean over the whole phase
+ */
+function phaseVelocities(
+  samples: Sample[],
+  position: (sample: Sample) => number
+): { mean: number; steps: number[] } {
+  const steps: number[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const dt = (samples[i].timestamp - samples[i - 1].timestamp) / 1000;
+    steps.push(dt > 0 ? (position(samples[i]) - position(samples[i - 1])) / POSITION_UNITS_PER_METER / dt : 0);
+  }
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const duration = first && last ? (last.timestamp - first.timestamp) / 1000 : 0;
+  const mean = duration > 0 ? (position(last) - position(first)) / POSITION_UNITS_PER_METER / duration : 0;
+
+  return { mean, steps };
+}
+
+const INACTIVE_CABLE: CableRepMetrics = {
+  active: false,
+  rangeOfMotion: 0,
+  topPosition: 0,
+  bottomPosition: 0,
+  topTime: 0,
+  meanConcentricLoad: 0,
+  peakLoad: 0,
+  meanConcentricVelocity: 0,
+  peakConcentricVelocity: 0,
+  meanEccentricVelocity: 0,
+  peakEccentricVelocity: 0,
+  meanConcentricPower: 0,
+  peakConcentricPower: 0,
+};
@@ -90,6 +90,15 @@ export class RepCounterFromMachine {
     this.minRepPosBRange = null;
   }
 
+  /**
+   * Forget the machine counter baseline while keeping the reps counted so far
+   * Used when the device restarts its counters (e.g. a workout resumed after a reconnect)
+   */
+  public resyncCounters(): void {
+    this.lastTopCounter = null;
+    this.lastCompleteCounter = null;
+  }
+
   /**
    * Process a new counter update from the machine
    */
@@ -0,0 +1,160 @@
+import { DropSetPlan, DropSetTrigger, WorkoutParameters, WorkoutType } from '../models/Models';
+import { DropSetReduction, DropSetSettings, RoutineExercise } from '../models/Routine';
+import { isDurationSet } from './DurationSetAnalyzer';
+import { PROGRESSION_WEIGHT_STEP_KG } from './ProgressionEngine';
+import { MIN_WEIGHT_KG } from '../../utils/constants';
+
+export const MAX_DROPS = 3;
+
+/**
+ * Seconds without a completed rep after which a drop set segment counts as failed
+ */
+export const FAILURE_STALL_SECONDS = 4;
+
+export const DROP_SET_TRIGGER_LABELS: Record<DropSetTrigger, string> = {
+  reps: 'Reps',
+  failure: 'Failure',
+};
+
+export const DROP_SET_REDUCTION_LABELS: Record<DropSetReduction, string> = {
+  percent: '%',
+  fixed: 'kg',
+};
+
+/**
+ * Workout type of one set of a routine exercise: its own mode, or the exercise's
+ */
+export function getSetWorkoutType(routineExercise: RoutineExercise, setIndex: number): WorkoutType | undefined {
+  return routineExercise.setModes?.[setIndex] ?? routineExercise.workoutType;
+}
+
+/**
+ * Weight of each drop, cut from the weight before it and rounded to the weight step.
+ * Drops that would not lower the weight any further are left out.
+ */
+export function computeDropWeights(weightPerCableKg: number, settings: DropSetSettings): number[] {
+  const weights: number[] = [];
+  let weight = weightPerCableKg;
+
+  for (let i = 0; i < Math.min(settings.drops, MAX_DROPS); i++) {
+    const reduced = settings.reduction === 'percent' ? weight * (1 - settings.amount / 100) : weight - settings.amount;
+    const next = Math.round(reduced / PROGRESSION_WEIGHT_STEP_KG) * PROGRESSION_WEIGHT_STEP_KG;
+    if (next <= MIN_WEIGHT_KG || next >= weight) {
+      break;
+    }
+    weights.push(next);
+    weight = next;
+  }
+
+  return weights;
+}
+
+/**
+ * Drops of one set of a routine exercise (null when the set has none). Only rep-based sets
+ * in a program mode drop weight; unless every set drops, only the final set does.
+ */
+export function getDropSetPlan(
+  routineExercise: RoutineExercise,
+  setIndex: number,
+  weightPerCableKg: number
+): DropSetPlan | null {
+  const settings = routineExercise.dropSet;
+  const totalSets = routineExercise.setReps?.length ?? 0;
+  if (
+    !settings ||
+    settings.drops <= 0 ||
+    (routineExercise.setType ?? 'reps') !== 'reps' ||
+    getSetWorkoutType(routineExercise, setIndex)?.type === 'echo' ||
+    (settings.lastSetOnly && setIndex !== totalSets - 1)
+  ) {
+    return null;
+  }
+
+  const weightsPerCableKg = computeDropWeights(weightPerCableKg, settings);
+  if (weightsPerCableKg.length === 0) {
+    return null;
+  }
+  return { trigger: settings.trigger, weightsPerCableKg, repsPerDrop: settings.repsPerDrop };
+}
+
+/**
+ * Workout parameters for one set of a routine exercise
+ */
+export function buildRoutineSetParameters(
+  current: WorkoutParameters,
+  routineExercise: RoutineExercise,
+  setIndex: number
+): WorkoutParameters {
+  const weightPerCableKg = routineExercise.setWeightsPerCableKg?.[setIndex] ?? routineExercise.weightPerCableKg;
+  return {
+    ...current,
+    workoutType: getSetWorkoutType(routineExercise, setIndex) ?? current.workoutType,
+    reps: routineExercise.setReps?.[setIndex] ?? current.reps,
+    weightPerCableKg,
+    progressionRegressionKg: routineExercise.progressionKg ?? 0,
+    selectedExerciseId: routineExercise.exercise.id ?? null,
+    routineExerciseId: routineExercise.id,
+    setType: routineExercise.setType ?? 'reps',
+    durationSeconds: routineExercise.duration ?? null,
+    velocityLossPercent: routineExercise.velocityLossPercent ?? null,
+    dropSet: getDropSetPlan(routineExercise, setIndex, weightPerCableKg),
+  };
+}
+
+/**
+ * Drop set a workout runs (null for Just Lift, timed and isometric sets, Echo and sets without drops)
+ */
+export function getActiveDropSet(params: WorkoutParameters): DropSetPlan | null {
+  if (
+    params.isJustLift ||
+    isDurationSet(params) ||
+    params.workoutType.type !== 'program' ||
+    !params.dropSet ||
+    params.dropSet.weightsPerCableKg.length === 0
+  ) {
+    return null;
+  }
+  return params.dropSet;
+}
+
+/**
+ * Whether the trainer runs without a rep limit and the app ends the set (Just Lift, timed and
+ * isometric sets, drop sets)
+ */
+export function runsWithoutRepLimit(params: WorkoutParameters): boolean {
+  return (params.isJustLift ?? false) || isDurationSet(params) || getActiveDropSet(params) !== null;
+}
+
+/**
+ * Number of segments of a set: the set itself plus one per drop
+ */
+export function getSegmentCount(params: WorkoutParameters): number {
+  return 1 + (getActiveDropSet(params)?.weightsPerCableKg.length ?? 0);
+}
+
+/**
+ * Working reps a segment runs for before the next one (null = until failure)
+ */
+export function getSegmentTargetReps(params: WorkoutParameters, segment: number): number | null {
+  const plan = getActiveDropSet(params);
+  if (plan?.trigger === 'failure') {
+    return null;
+  }
+  return segment === 0 || !plan ? params.reps : plan.repsPerDrop;
+}
+
+/**
+ * Parameters sent for a segment: the first segment is the set itself, every drop runs at its
+ * own weight without warmup reps
+ */
+export function buildDropSegmentParameters(params: WorkoutParameters, segment: number): WorkoutParameters {
+  const plan = getActiveDropSet(params);
+  if (!plan || segment === 0) {
+    return params;
+  }
+  return {
+    ...params,
+    weightPerCableKg: plan.weightsPerCableKg[Math.min(segment, plan.weightsPerCableKg.length) - 1],
+    warmupReps: 0,
+  };
+}
@@ -0,0 +1,155 @@
+import {
+  ChartDataPoint,
+  ChartEvent,
+  createRepCompleteEvent,
+  createRepStartEvent,
+  createWarmupCompleteEvent,
+  getTotalLoad,
+  SetStopReason,
+  WorkoutMetric,
+  WorkoutRep,
+  WorkoutSession,
+} from '../models/Models';
+
+/**
+ * Summary statistics of one recorded set (a workout session)
+ */
+export interface SetSummary {
+  totalReps: number;
+  warmupReps: number;
+  workingReps: number;
+  durationMs: number; // First to last metric sample
+  peakLoadKg: number; // Highest single-cable load over the set
+  averagePeakLoadKg: number; // Mean of the working reps' per-cable peak loads
+  averageRangeOfMotion: number; // Position units, working reps
+  averageTimeUnderTensionMs: number | null;
+  bestVelocity: number | null; // m/s, fastest working rep
+  lastVelocity: number | null; // m/s, final working rep
+  velocityLossPercent: number | null; // Drop of the last working rep below the best
+  stopReason: SetStopReason | null;
+}
+
+export const STOP_REASON_LABELS: Record<SetStopReason, string> = {
+  target_reached: 'Target reached',
+  velocity_loss: 'Velocity loss',
+  auto_stop: 'Auto stop',
+  user_stop: 'Stopped by user',
+  duration_reached: 'Duration reached',
+  failure: 'Failure',
+  connection_lost: 'Connection lost',
+};
+
+/**
+ * Convert the stored metric stream to chart points (samples without a timestamp are dropped)
+ */
+export function buildChartData(metrics: WorkoutMetric[]): ChartDataPoint[] {
+  return metrics
+    .filter((metric) => metric.timestamp !== undefined)
+    .map((metric) => ({
+      timestamp: metric.timestamp!,
+      totalLoad: getTotalLoad(metric),
+      loadA: metric.loadA,
+      loadB: metric.loadB,
+      positionA: metric.positionA,
+      positionB: metric.positionB,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Rep start/complete markers, plus a warmup marker after the last warmup rep
+ */
+export function buildChartEvents(reps: WorkoutRep[]): ChartEvent[] {
+  const events: ChartEvent[] = [];
+  const lastWarmup = [...reps].reverse().find((rep) => rep.isWarmup);
+
+  reps.forEach((rep) => {
+    events.push(createRepStartEvent(rep.startTime, rep.repIndex));
+    events.push(createRepCompleteEvent(rep.endTime, rep.repIndex));
+    if (rep === lastWarmup) {
+      events.push(createWarmupCompleteEvent(rep.endTime));
+    }
+  });
+
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Reduce a series to at most maxPoints by keeping evenly spaced samples.
+ * The first and last samples are always kept so the time range is preserved.
+ */
+export function downsampleChartData(points: ChartDataPoint[], maxPoints: number): ChartDataPoint[] {
+  if (points.length <= maxPoints || maxPoints < 2) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const result: ChartDataPoint[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    result.push(points[Math.round(i * step)]);
+  }
+  return result;
+}
+
+/**
+ * Chart point closest to a timestamp (points must be sorted by time)
+ */
+export function findNearestPoint(points: ChartDataPoint[], timestamp: number): ChartDataPoint | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].timestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const previous = points[Math.max(low - 1, 0)];
+  const next = points[low];
+  return timestamp - previous.timestamp <= next.timestamp - timestamp ? previous : next;
+}
+
+/**
+ * Per-set summary from the session, its rep records and its metric stream
+ */
+export function summarizeSet(session: WorkoutSession, reps: WorkoutRep[], points: ChartDataPoint[]): SetSummary {
+  const working = reps.filter((rep) => !rep.isWarmup);
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  const velocities = working
+    .map((rep) => rep.meanConcentricVelocity)
+    .filter((velocity): velocity is number => velocity != null && velocity > 0);
+  const bestVelocity = velocities.length > 0 ? Math.max(...velocities) : null;
+  const lastVelocity = velocities.length > 0 ? velocities[velocities.length - 1] : null;
+
+  const timesUnderTension = working
+    .map((rep) => rep.timeUnderTensionMs)
+    .filter((time): time is number => time != null);
+
+  return {
+    totalReps: reps.length > 0 ? reps.length : session.totalReps ?? 0,
+    warmupReps: reps.length > 0 ? reps.length - working.length : session.warmupReps ?? 0,
+    workingReps: reps.length > 0 ? working.length : session.workingReps ?? 0,
+    durationMs: points.length > 1 ? points[points.length - 1].timestamp - points[0].timestamp : 0,
+    peakLoadKg: Math.max(0, ...points.map((point) => Math.max(point.loadA, point.loadB))),
+    averagePeakLoadKg: mean(working.map((rep) => Math.max(rep.peakLoadA, rep.peakLoadB))),
+    averageRangeOfMotion: mean(
+      working.map((rep) =>
+        Math.max(rep.topPositionA - rep.bottomPositionA, rep.topPositionB - rep.bottomPositionB)
+      )
+    ),
+    averageTimeUnderTensionMs: timesUnderTension.length > 0 ? mean(timesUnderTension) : null,
+    bestVelocity,
+    lastVelocity,
+    velocityLossPercent:
+      bestVelocity && lastVelocity !== null ? Math.max((1 - lastVelocity / bestVelocity) * 100, 0) : null,
+    stopReason: session.stopReason ?? null,
+  };
+}
@@ -0,0 +1,68 @@
+import { RepAnalytics } from './RepAnalyzer';
+
+/**
+ * UI-facing snapshot of the velocity-loss check.
+ */
+export interface VelocityLossStatus {
+  bestVelocity: number; // m/s, fastest working rep of the set
+  lastVelocity: number; // m/s, most recent working rep
+  lossPercent: number; // Drop of the last rep below the best rep
+  shouldStop: boolean;
+}
+
+/**
+ * Working reps needed before the set can be stopped (the best rep plus one slower rep)
+ */
+export const VELOCITY_LOSS_MIN_REPS = 2;
+
+/**
+ * Velocity-loss set termination: stops the set once a working rep's mean concentric
+ * velocity falls the configured percentage below the best rep of the set.
+ *
+ * Warmup reps and reps without an active cable are ignored.
+ */
+export class VelocityLossDetector {
+  private bestVelocity = 0;
+  private workingReps = 0;
+
+  constructor(private thresholdPercent: number) {}
+
+  /**
+   * Evaluate a completed rep
+   */
+  public update(rep: RepAnalytics): VelocityLossStatus {
+    const velocity = rep.meanConcentricVelocity;
+    if (rep.isWarmup || velocity <= 0) {
+      return this.status(velocity, false);
+    }
+
+    this.workingReps++;
+    this.bestVelocity = Math.max(this.bestVelocity, velocity);
+
+    const lossPercent = this.lossPercent(velocity);
+    const shouldStop = this.workingReps >= VELOCITY_LOSS_MIN_REPS && lossPercent >= this.thresholdPercent;
+    return this.status(velocity, shouldStop);
+  }
+
+  /**
+   * Reset for a new set (optionally with a new threshold)
+   */
+  public reset(thresholdPercent: number = this.thresholdPercent): void {
+    this.thresholdPercent = thresholdPercent;
+    this.bestVelocity = 0;
+    this.workingReps = 0;
+  }
+
+  private lossPercent(velocity: number): number {
+    return this.bestVelocity > 0 ? Math.max((1 - velocity / this.bestVelocity) * 100, 0) : 0;
+  }
+
+  private status(lastVelocity: number, shouldStop: boolean): VelocityLossStatus {
+    return {
+      bestVelocity: this.bestVelocity,
+      lastVelocity,
+      lossPercent: this.lossPercent(lastVelocity),
+      shouldStop,
+    };
+  }
+}
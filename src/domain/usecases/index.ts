@@ -1,2 +1,15 @@
 // Export all use cases
 export * from './RepCounterFromMachine';
+export * from './AutoStopDetector';
+export * from './RepAnalyzer';
+export * from './VelocityLossDetector';
+export * from './AsymmetryAnalyzer';
+export * from './SessionAnalysis';
+export * from './OneRepMaxEstimator';
+export * from './PersonalRecordDetector';
+export * from './ProgressionEngine';
+export * from './ProgramSchedule';
+export * from './ExerciseGrouping';
+export * from './DurationSetAnalyzer';
+export * from './RoutineSetPlanner';
+export * from './ExerciseSearch';
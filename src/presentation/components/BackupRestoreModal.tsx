@@ -0,0 +1,173 @@
+/**
+ * BackupRestoreModal Component
+ * Opens a backup file the user picks, summarizes what it holds and restores it by merging or replacing
+ */
+
+import React, {useEffect, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {BackupSummary} from '../../data/backup/BackupArchive';
+import {RestoreMode} from '../../data/repository/BackupRepository';
+
+export interface BackupRestoreModalProps {
+  visible: boolean;
+  summary: BackupSummary | null;
+  error: string | null;
+  isWorking: boolean;
+  onPickFile: () => void;
+  onRestore: (mode: RestoreMode) => void;
+  onDismiss: () => void;
+  testID?: string;
+}
+
+const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Merge',
+  replace: 'Replace',
+};
+
+const RESTORE_MODE_DESCRIPTIONS: Record<RestoreMode, string> = {
+  merge:
+    'Adds workouts, routines and programs this phone does not have. Data on this phone is kept; ' +
+    'personal records keep the best value.',
+  replace: 'Deletes the workouts, routines, programs and preferences on this phone and restores the backup instead.',
+};
+
+// Tables counted in the summary
+const SUMMARY_TABLES: Array<{table: string; label: string}> = [
+  {table: 'workout_sessions', label: 'workouts'},
+  {table: 'routines', label: 'routines'},
+  {table: 'weekly_programs', label: 'programs'},
+  {table: 'personal_records', label: 'personal records'},
+];
+
+/**
+ * Backup restore modal
+ */
+export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({
+  visible,
+  summary,
+  error,
+  isWorking,
+  onPickFile,
+  onRestore,
+  onDismiss,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  // Start over whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setMode('merge');
+    }
+  }, [visible]);
+
+  const renderChip = (value: RestoreMode) => {
+    const selected = mode === value;
+    return (
+      <TouchableOpacity
+        key={value}
+        onPress={() => setMode(value)}
+        style={[
+          styles.chip,
+          {
+            paddingHorizontal: spacing.medium,
+            paddingVertical: spacing.extraSmall,
+            backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+          },
+        ]}
+        accessibilityRole="button"
+        accessibilityState={{selected}}
+        accessibilityLabel={RESTORE_MODE_LABELS[value]}>
+        <Text
+          style={[typography.labelMedium, {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant}]}>
+          {RESTORE_MODE_LABELS[value]}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title="Restore Backup"
+      variant="bottom"
+      testID={testID}
+      footer={
+        <View style={[styles.row, {gap: spacing.small}]}>
+          <Button onPress={onDismiss} variant="outlined" style={{flex: 1}}>
+            Cancel
+          </Button>
+          {summary ? (
+            <Button
+              onPress={() => onRestore(mode)}
+              loading={isWorking}
+              style={{flex: 1, backgroundColor: mode === 'replace' ? colors.error : colors.primary}}>
+              Restore
+            </Button>
+          ) : (
+            <Button onPress={onPickFile} loading={isWorking} style={{flex: 1}}>
+              Choose File
+            </Button>
+          )}
+        </View>
+      }>
+      <View style={{gap: spacing.medium}}>
+        {!summary ? (
+          <>
+            <Text style={[typography.bodyMedium, {color: colors.onSurface}]}>
+              Choose a backup file shared from Vitruvian Phoenix. You can review what it holds before restoring.
+            </Text>
+            {error && <Text style={[typography.bodySmall, {color: colors.error}]}>{error}</Text>}
+          </>
+        ) : (
+          <>
+            {/* Contents */}
+            <View style={{gap: spacing.extraSmall}}>
+              <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>
+                Backup from {new Date(summary.createdAt).toLocaleDateString()}
+              </Text>
+              <Text style={[typography.bodyMedium, {color: colors.onSurface}]}>
+                {SUMMARY_TABLES.map(({table, label}) => `${summary.rowCounts[table] ?? 0} ${label}`).join(' • ')}
+              </Text>
+              <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                {summary.favoriteCount} favorite exercises • database version {summary.databaseVersion}
+              </Text>
+            </View>
+
+            {/* Mode */}
+            <View style={{gap: spacing.small}}>
+              <View style={[styles.row, {gap: spacing.small}]}>
+                {(['merge', 'replace'] as RestoreMode[]).map(renderChip)}
+              </View>
+              <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                {RESTORE_MODE_DESCRIPTIONS[mode]}
+              </Text>
+            </View>
+
+            {error && <Text style={[typography.bodySmall, {color: colors.error}]}>{error}</Text>}
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chip: {
+    borderRadius: 8,
+  },
+});
+
+export default BackupRestoreModal;
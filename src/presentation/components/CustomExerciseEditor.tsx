@@ -0,0 +1,222 @@
+/**
+ * CustomExerciseEditor Component
+ * Modal for creating, editing and archiving the user's own exercises: name, muscle groups,
+ * equipment, default cable configuration, sidedness and notes
+ */
+
+import React, {useEffect, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {Input} from './Input';
+import {ExerciseEntity} from '../../data/local/entities';
+import {CustomExerciseInput} from '../../data/repository/ExerciseRepository';
+import {
+  CableConfiguration,
+  EXERCISE_SIDEDNESS_LABELS,
+  ExerciseSidedness,
+  LIBRARY_EQUIPMENT,
+  LIBRARY_MUSCLE_GROUPS,
+} from '../../domain/models/Exercise';
+
+export interface CustomExerciseEditorProps {
+  visible: boolean;
+  exercise: ExerciseEntity | null; // Custom exercise to edit, null to create one
+  error: string | null;
+  isSaving: boolean;
+  onSave: (input: CustomExerciseInput) => void;
+  onArchive: () => void;
+  onDismiss: () => void;
+  testID?: string;
+}
+
+const CABLE_CONFIG_LABELS: Record<CableConfiguration, string> = {
+  [CableConfiguration.SINGLE]: 'Single',
+  [CableConfiguration.DOUBLE]: 'Double',
+  [CableConfiguration.EITHER]: 'Either',
+};
+
+const splitCodes = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map(code => code.trim())
+    .filter(Boolean);
+
+/**
+ * Custom exercise editor modal
+ */
+export const CustomExerciseEditor: React.FC<CustomExerciseEditorProps> = ({
+  visible,
+  exercise,
+  error,
+  isSaving,
+  onSave,
+  onArchive,
+  onDismiss,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [name, setName] = useState('');
+  const [muscleGroups, setMuscleGroups] = useState<string[]>([]);
+  const [equipment, setEquipment] = useState<string[]>([]);
+  const [cableConfig, setCableConfig] = useState<CableConfiguration>(CableConfiguration.DOUBLE);
+  const [sidedness, setSidedness] = useState<ExerciseSidedness | null>('bilateral');
+  const [notes, setNotes] = useState('');
+
+  // Reset drafts whenever the editor opens
+  useEffect(() => {
+    if (visible) {
+      setName(exercise?.name ?? '');
+      setMuscleGroups(splitCodes(exercise?.muscleGroups));
+      setEquipment(splitCodes(exercise?.equipment));
+      setCableConfig(exercise?.cableConfig ?? CableConfiguration.DOUBLE);
+      setSidedness(exercise ? ((exercise.sidedness as ExerciseSidedness | null) ?? null) : 'bilateral');
+      setNotes(exercise?.notes ?? '');
+    }
+  }, [visible, exercise]);
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(entry => entry !== value) : [...values, value];
+
+  const handleSave = () => {
+    onSave({name, muscleGroups, equipment, cableConfig, sidedness, notes});
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          paddingHorizontal: spacing.medium,
+          paddingVertical: spacing.extraSmall,
+          backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{selected}}
+      accessibilityLabel={label}>
+      <Text
+        style={[
+          typography.labelMedium,
+          {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant},
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const sectionTitle = (title: string) => (
+    <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>{title}</Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title={exercise ? 'Edit Exercise' : 'New Exercise'}
+      variant="bottom"
+      testID={testID}
+      footer={
+        <View style={[styles.row, {gap: spacing.small}]}>
+          <Button onPress={onDismiss} variant="outlined" style={{flex: 1}}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} loading={isSaving} disabled={!name.trim()} style={{flex: 1}}>
+            Save
+          </Button>
+        </View>
+      }>
+      <View style={{gap: spacing.medium}}>
+        <Input label="Name" value={name} onChangeText={setName} placeholder="e.g. Landmine Press" />
+
+        {/* Muscle groups */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Muscle Groups')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {Object.entries(LIBRARY_MUSCLE_GROUPS).map(([code, label]) =>
+              renderChip(label, muscleGroups.includes(code), () => setMuscleGroups(toggle(muscleGroups, code)))
+            )}
+          </View>
+        </View>
+
+        {/* Equipment */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Equipment')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {Object.entries(LIBRARY_EQUIPMENT).map(([code, label]) =>
+              renderChip(label, equipment.includes(code), () => setEquipment(toggle(equipment, code)))
+            )}
+          </View>
+        </View>
+
+        {/* Cable configuration */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Cables')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {Object.values(CableConfiguration).map(config =>
+              renderChip(CABLE_CONFIG_LABELS[config], cableConfig === config, () => setCableConfig(config))
+            )}
+          </View>
+        </View>
+
+        {/* Sidedness */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Sides')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {(Object.keys(EXERCISE_SIDEDNESS_LABELS) as ExerciseSidedness[]).map(value =>
+              renderChip(EXERCISE_SIDEDNESS_LABELS[value], sidedness === value, () =>
+                setSidedness(sidedness === value ? null : value)
+              )
+            )}
+          </View>
+        </View>
+
+        {/* Notes */}
+        <Input
+          label="Notes"
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Setup, attachments, cues..."
+          multiline
+        />
+
+        {error && <Text style={[typography.bodySmall, {color: colors.error}]}>{error}</Text>}
+
+        {/* Archive */}
+        {exercise && (
+          <View style={{gap: spacing.extraSmall}}>
+            <Button onPress={onArchive} variant="text" disabled={isSaving}>
+              Archive Exercise
+            </Button>
+            <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant, textAlign: 'center'}]}>
+              Archived exercises leave the library. Routines, history and personal records that use them are
+              kept.
+            </Text>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 8,
+  },
+});
+
+export default CustomExerciseEditor;
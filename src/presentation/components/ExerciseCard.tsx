@@ -19,8 +19,10 @@ export interface ExerciseCardProps {
   thumbnailUrl?: string;
   isFavorite?: boolean;
   timesPerformed?: number;
+  isCustom?: boolean; // User-defined exercise, marked with a badge
   onPress?: () => void;
   onFavoritePress?: () => void;
+  onEditPress?: () => void;
   showPerformanceCount?: boolean;
   style?: ViewStyle;
   testID?: string;
@@ -40,8 +42,10 @@ export const ExerciseCard: React.FC<ExerciseCardProps> = ({
   thumbnailUrl,
   isFavorite = false,
   timesPerformed = 0,
+  isCustom = false,
   onPress,
   onFavoritePress,
+  onEditPress,
   showPerformanceCount = false,
   style,
   testID,
@@ -110,6 +114,25 @@ export const ExerciseCard: React.FC<ExerciseCardProps> = ({
             {name}
           </Text>
 
+          {isCustom && (
+            <View
+              style={{
+                alignSelf: 'flex-start',
+                backgroundColor: colors.secondaryContainer,
+                paddingHorizontal: spacing.small,
+                borderRadius: 4,
+                marginVertical: spacing.extraSmall,
+              }}>
+              <Text
+                style={[
+                  typography.labelSmall,
+                  {color: colors.onSecondaryContainer},
+                ]}>
+                Custom
+              </Text>
+            </View>
+          )}
+
           {muscleGroups && (
             <Text
               style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
@@ -157,6 +180,16 @@ export const ExerciseCard: React.FC<ExerciseCardProps> = ({
             </View>
           )}
 
+          {onEditPress && (
+            <Text
+              style={{fontSize: 20}}
+              onPress={onEditPress}
+              accessibilityRole="button"
+              accessibilityLabel={`Edit ${name}`}>
+              ✏️
+            </Text>
+          )}
+
           {onFavoritePress && (
             <Text
               style={{fontSize: 24}}
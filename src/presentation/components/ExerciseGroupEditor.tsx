@@ -0,0 +1,232 @@
+/**
+ * ExerciseGroupEditor Component
+ * Modal for configuring a superset, circuit or giant set of a routine: the group type and
+ * the rest between its exercises and between its rounds
+ */
+
+import React, {useEffect, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {ExerciseGroup, ExerciseGroupType} from '../../domain/models/Routine';
+import {EXERCISE_GROUP_TYPE_LABELS} from '../../domain/usecases/ExerciseGrouping';
+
+export interface ExerciseGroupEditorProps {
+  visible: boolean;
+  group: ExerciseGroup | null;
+  exerciseNames: string[]; // Exercises of the group in routine order
+  onSave: (changes: Omit<ExerciseGroup, 'id'>) => void;
+  onUngroup: () => void;
+  onDismiss: () => void;
+  testID?: string;
+}
+
+// Editing limits and steps
+const EXERCISE_REST_RANGE = {min: 0, max: 300, step: 5};
+const ROUND_REST_RANGE = {min: 0, max: 600, step: 15};
+
+// Types offered for groups of three or more exercises (two exercises always form a superset)
+const MULTI_EXERCISE_GROUP_TYPES: ExerciseGroupType[] = ['circuit', 'giant_set'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Exercise group editor modal
+ */
+export const ExerciseGroupEditor: React.FC<ExerciseGroupEditorProps> = ({
+  visible,
+  group,
+  exerciseNames,
+  onSave,
+  onUngroup,
+  onDismiss,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [type, setType] = useState<ExerciseGroupType>('superset');
+  const [exerciseRestSeconds, setExerciseRestSeconds] = useState(0);
+  const [roundRestSeconds, setRoundRestSeconds] = useState(0);
+
+  // Reset drafts whenever another group is opened
+  useEffect(() => {
+    if (group) {
+      setType(group.type);
+      setExerciseRestSeconds(group.restBetweenExercisesSeconds);
+      setRoundRestSeconds(group.restBetweenRoundsSeconds);
+    }
+  }, [group]);
+
+  if (!group) {
+    return null;
+  }
+
+  const handleSave = () => {
+    onSave({
+      type,
+      restBetweenExercisesSeconds: exerciseRestSeconds,
+      restBetweenRoundsSeconds: roundRestSeconds,
+    });
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          paddingHorizontal: spacing.medium,
+          paddingVertical: spacing.extraSmall,
+          backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{selected}}
+      accessibilityLabel={label}>
+      <Text
+        style={[
+          typography.labelMedium,
+          {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant},
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (label: string, onDecrement: () => void, onIncrement: () => void) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        onPress={onDecrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}>
+        <Icon name="remove" size={20} color={colors.primary} />
+      </TouchableOpacity>
+      <Text style={[typography.labelLarge, styles.stepperValue, {color: colors.onSurface}]}>{label}</Text>
+      <TouchableOpacity
+        onPress={onIncrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}>
+        <Icon name="add" size={20} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const sectionTitle = (title: string) => (
+    <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>{title}</Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title={EXERCISE_GROUP_TYPE_LABELS[type]}
+      variant="bottom"
+      testID={testID}
+      footer={
+        <View style={[styles.row, {gap: spacing.small}]}>
+          <Button onPress={onDismiss} variant="outlined" style={{flex: 1}}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} style={{flex: 1}}>
+            Done
+          </Button>
+        </View>
+      }>
+      <View style={{gap: spacing.medium}}>
+        {/* Exercises */}
+        <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+          {exerciseNames.join(' → ')}
+        </Text>
+        <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+          One set of each exercise makes a round. Rounds repeat until every exercise has done all of its sets.
+        </Text>
+
+        {/* Type */}
+        {exerciseNames.length > 2 && (
+          <View style={{gap: spacing.small}}>
+            {sectionTitle('Type')}
+            <View style={[styles.chips, {gap: spacing.small}]}>
+              {MULTI_EXERCISE_GROUP_TYPES.map(groupType =>
+                renderChip(EXERCISE_GROUP_TYPE_LABELS[groupType], type === groupType, () => setType(groupType))
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Rest */}
+        <View style={[styles.row, styles.spaceBetween]}>
+          {sectionTitle('Rest Between Exercises')}
+          {renderStepper(
+            `${exerciseRestSeconds}s`,
+            () =>
+              setExerciseRestSeconds(
+                clamp(exerciseRestSeconds - EXERCISE_REST_RANGE.step, EXERCISE_REST_RANGE.min, EXERCISE_REST_RANGE.max)
+              ),
+            () =>
+              setExerciseRestSeconds(
+                clamp(exerciseRestSeconds + EXERCISE_REST_RANGE.step, EXERCISE_REST_RANGE.min, EXERCISE_REST_RANGE.max)
+              )
+          )}
+        </View>
+        <View style={[styles.row, styles.spaceBetween]}>
+          {sectionTitle('Rest Between Rounds')}
+          {renderStepper(
+            `${roundRestSeconds}s`,
+            () =>
+              setRoundRestSeconds(clamp(roundRestSeconds - ROUND_REST_RANGE.step, ROUND_REST_RANGE.min, ROUND_REST_RANGE.max)),
+            () =>
+              setRoundRestSeconds(clamp(roundRestSeconds + ROUND_REST_RANGE.step, ROUND_REST_RANGE.min, ROUND_REST_RANGE.max))
+          )}
+        </View>
+
+        <Button
+          onPress={onUngroup}
+          variant="text"
+          icon={<Icon name="link-off" size={20} color={colors.error} />}
+          iconPosition="left"
+          textStyle={{color: colors.error}}>
+          Ungroup Exercises
+        </Button>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  spaceBetween: {
+    justifyContent: 'space-between',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+  },
+  stepperButton: {
+    padding: 4,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+});
+
+export default ExerciseGroupEditor;
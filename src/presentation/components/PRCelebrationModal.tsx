@@ -0,0 +1,115 @@
+/**
+ * PRCelebrationModal Component
+ * Celebrates a broken personal record; several records are shown one after another
+ */
+
+import React from 'react';
+import {View, Text} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {PRCelebrationEvent, PRCategory} from '../../domain/models/Models';
+import {PR_CATEGORY_LABELS} from '../../domain/usecases/PersonalRecordDetector';
+
+export interface PRCelebrationModalProps {
+  celebration: PRCelebrationEvent | null;
+  remaining?: number; // Further records queued after this one
+  onDismiss: () => void;
+  formatWeight?: (weightKg: number) => string;
+  testID?: string;
+}
+
+/**
+ * Format a record value in its category's unit
+ */
+const formatRecordValue = (
+  category: PRCategory,
+  value: number,
+  formatWeight: (weightKg: number) => string
+): string => {
+  switch (category) {
+    case 'max_reps_at_weight':
+      return `${value} reps`;
+    case 'max_volume':
+      return `${formatWeight(value)} volume`;
+    case 'max_e1rm':
+      return `${formatWeight(value)} e1RM`;
+    default:
+      return formatWeight(value);
+  }
+};
+
+/**
+ * PR celebration modal
+ */
+export const PRCelebrationModal: React.FC<PRCelebrationModalProps> = ({
+  celebration,
+  remaining = 0,
+  onDismiss,
+  formatWeight = weight => `${weight.toFixed(1)} kg`,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  if (!celebration) {
+    return null;
+  }
+
+  const {category, value, previousValue} = celebration;
+
+  return (
+    <Modal
+      visible={true}
+      onDismiss={onDismiss}
+      title="🎉 New Personal Record!"
+      variant="center"
+      testID={testID}
+      footer={
+        <Button onPress={onDismiss} fullWidth>
+          {remaining > 0 ? `Next (${remaining} more)` : 'Awesome!'}
+        </Button>
+      }>
+      <View style={{gap: spacing.medium, alignItems: 'center'}}>
+        <Text style={{fontSize: 64, textAlign: 'center'}}>🏆</Text>
+        <Text
+          style={[
+            typography.headlineSmall,
+            {
+              color: colors.primary,
+              fontWeight: 'bold',
+              textAlign: 'center',
+            },
+          ]}>
+          {celebration.exerciseName}
+        </Text>
+        <Text
+          style={[
+            typography.labelLarge,
+            {color: colors.secondary, textAlign: 'center'},
+          ]}>
+          {PR_CATEGORY_LABELS[category]} • {celebration.workoutMode}
+        </Text>
+        <Text
+          style={[
+            typography.titleLarge,
+            {color: colors.onSurface, textAlign: 'center'},
+          ]}>
+          {formatRecordValue(category, value, formatWeight)}
+        </Text>
+        <Text
+          style={[
+            typography.bodyMedium,
+            {color: colors.onSurfaceVariant, textAlign: 'center'},
+          ]}>
+          {formatWeight(celebration.weightPerCableKg)} × {celebration.reps} reps
+          {previousValue !== null &&
+            ` (previous best ${formatRecordValue(category, previousValue, formatWeight)})`}
+        </Text>
+      </View>
+    </Modal>
+  );
+};
+
+export default PRCelebrationModal;
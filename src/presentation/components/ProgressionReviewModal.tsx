@@ -0,0 +1,136 @@
+/**
+ * ProgressionReviewModal Component
+ * Shows the proposed weights and reps for a routine's next run and lets the user apply or keep them
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {
+  isProgressionChange,
+  ProgressionProposal,
+  PROGRESSION_SCHEME_LABELS,
+} from '../../domain/usecases/ProgressionEngine';
+
+export interface ProgressionReviewModalProps {
+  visible: boolean;
+  routineName: string;
+  proposals: ProgressionProposal[];
+  onApply: () => void;
+  onDecline: () => void;
+  onDismiss: () => void;
+  formatWeight?: (weightKg: number) => string;
+  testID?: string;
+}
+
+/**
+ * Format set reps compactly ("3×10" when every set has the same reps)
+ */
+const formatSetReps = (setReps: number[]): string =>
+  setReps.every(reps => reps === setReps[0])
+    ? `${setReps.length}×${setReps[0] ?? 0}`
+    : setReps.join('/');
+
+/**
+ * Progression review modal
+ */
+export const ProgressionReviewModal: React.FC<ProgressionReviewModalProps> = ({
+  visible,
+  routineName,
+  proposals,
+  onApply,
+  onDecline,
+  onDismiss,
+  formatWeight = weight => `${weight.toFixed(1)} kg`,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const hasChanges = proposals.some(isProgressionChange);
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title="Next Session"
+      variant="center"
+      testID={testID}
+      footer={
+        hasChanges ? (
+          <View style={[styles.footer, {gap: spacing.small}]}>
+            <Button onPress={onDecline} variant="outlined" style={{flex: 1}}>
+              Keep Current
+            </Button>
+            <Button onPress={onApply} style={{flex: 1}}>
+              Apply
+            </Button>
+          </View>
+        ) : (
+          <Button onPress={onDecline} fullWidth>
+            OK
+          </Button>
+        )
+      }>
+      <View style={{gap: spacing.medium}}>
+        <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+          {hasChanges
+            ? `Progression for ${routineName} based on your last run:`
+            : `No changes for ${routineName} after your last run:`}
+        </Text>
+        {proposals.map(proposal => {
+          const weightChanged = proposal.newWeightPerCableKg !== proposal.previousWeightPerCableKg;
+          const repsChanged = formatSetReps(proposal.newSetReps) !== formatSetReps(proposal.previousSetReps);
+
+          return (
+            <View
+              key={proposal.routineExerciseId}
+              style={[
+                styles.proposal,
+                {backgroundColor: colors.surfaceVariant, padding: spacing.small},
+              ]}>
+              <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>
+                {proposal.exerciseName}
+              </Text>
+              <Text style={[typography.labelSmall, {color: colors.onSurfaceVariant}]}>
+                {PROGRESSION_SCHEME_LABELS[proposal.scheme]}
+              </Text>
+              <Text
+                style={[
+                  typography.bodyMedium,
+                  {color: weightChanged ? colors.primary : colors.onSurface, marginTop: spacing.extraSmall},
+                ]}>
+                {weightChanged
+                  ? `${formatWeight(proposal.previousWeightPerCableKg)} → ${formatWeight(proposal.newWeightPerCableKg)}`
+                  : formatWeight(proposal.previousWeightPerCableKg)}
+              </Text>
+              <Text
+                style={[typography.bodyMedium, {color: repsChanged ? colors.primary : colors.onSurface}]}>
+                {repsChanged
+                  ? `${formatSetReps(proposal.previousSetReps)} → ${formatSetReps(proposal.newSetReps)} reps`
+                  : `${formatSetReps(proposal.previousSetReps)} reps`}
+              </Text>
+              <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                {proposal.reason}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  footer: {
+    flexDirection: 'row',
+  },
+  proposal: {
+    borderRadius: 8,
+  },
+});
+
+export default ProgressionReviewModal;
@@ -26,6 +26,7 @@ export interface RoutineCardProps {
   onEdit?: () => void;
   onDelete?: () => void;
   onDuplicate?: () => void;
+  onShare?: () => void;
   showMenu?: boolean;
   style?: ViewStyle;
   testID?: string;
@@ -45,6 +46,7 @@ export const RoutineCard: React.FC<RoutineCardProps> = ({
   onEdit,
   onDelete,
   onDuplicate,
+  onShare,
   showMenu = true,
   style,
   testID,
@@ -163,7 +165,7 @@ export const RoutineCard: React.FC<RoutineCardProps> = ({
           </View>
 
           {/* Overflow menu */}
-          {showMenu && (onEdit || onDelete || onDuplicate) && (
+          {showMenu && (onEdit || onDelete || onDuplicate || onShare) && (
             <View style={{position: 'absolute', top: 0, right: 0}}>
               <TouchableOpacity
                 onPress={() => setMenuVisible(!menuVisible)}
@@ -199,7 +201,7 @@ export const RoutineCard: React.FC<RoutineCardProps> = ({
                       }}
                       style={{
                         padding: spacing.medium,
-                        borderBottomWidth: onDuplicate || onDelete ? 1 : 0,
+                        borderBottomWidth: onDuplicate || onShare || onDelete ? 1 : 0,
                         borderBottomColor: colors.surfaceVariant,
                       }}
                       accessibilityRole="menuitem">
@@ -216,7 +218,7 @@ export const RoutineCard: React.FC<RoutineCardProps> = ({
                       }}
                       style={{
                         padding: spacing.medium,
-                        borderBottomWidth: onDelete ? 1 : 0,
+                        borderBottomWidth: onShare || onDelete ? 1 : 0,
                         borderBottomColor: colors.surfaceVariant,
                       }}
                       accessibilityRole="menuitem">
@@ -225,6 +227,23 @@ export const RoutineCard: React.FC<RoutineCardProps> = ({
                       </Text>
                     </TouchableOpacity>
                   )}
+                  {onShare && (
+                    <TouchableOpacity
+                      onPress={() => {
+                        setMenuVisible(false);
+                        onShare();
+                      }}
+                      style={{
+                        padding: spacing.medium,
+                        borderBottomWidth: onDelete ? 1 : 0,
+                        borderBottomColor: colors.surfaceVariant,
+                      }}
+                      accessibilityRole="menuitem">
+                      <Text style={[typography.bodyMedium, {color: colors.onSurface}]}>
+                        Share
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   {onDelete && (
                     <TouchableOpacity
                       onPress={() => {
@@ -0,0 +1,632 @@
+/**
+ * RoutineExerciseEditor Component
+ * Modal for configuring one exercise of a routine: set type (reps, timed or isometric hold),
+ * per-set reps, weights and modes, velocity-loss stop, workout mode, Echo level and eccentric load,
+ * drop sets, rest time, cable configuration and notes
+ */
+
+import React, {useEffect, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {Input} from './Input';
+import {
+  DropSetReduction,
+  DropSetSettings,
+  RoutineExercise,
+  createDefaultDropSetSettings,
+} from '../../domain/models/Routine';
+import {CableConfiguration} from '../../domain/models/Exercise';
+import {
+  EccentricLoad,
+  EccentricLoadDisplay,
+  EchoLevel,
+  EchoLevelDisplay,
+  ProgramMode,
+  ProgramModeData,
+  SetType,
+  WorkoutType,
+  DropSetTrigger,
+  getWorkoutTypeDisplayName,
+} from '../../domain/models/Models';
+import {
+  computeDropWeights,
+  DROP_SET_REDUCTION_LABELS,
+  DROP_SET_TRIGGER_LABELS,
+  MAX_DROPS,
+} from '../../domain/usecases/RoutineSetPlanner';
+import {MAX_WEIGHT_KG, MIN_WEIGHT_KG} from '../../utils/constants';
+
+export interface RoutineExerciseEditorProps {
+  visible: boolean;
+  routineExercise: RoutineExercise | null;
+  onSave: (routineExercise: RoutineExercise) => void;
+  onDismiss: () => void;
+  testID?: string;
+}
+
+interface SetDraft {
+  reps: number;
+  weightPerCableKg: number;
+  mode: WorkoutType | null; // null = the exercise's mode
+}
+
+// Editing limits and steps
+const REPS_RANGE = {min: 1, max: 50};
+const WEIGHT_STEP_KG = 0.5;
+const REST_RANGE = {min: 0, max: 600, step: 15};
+const DURATION_RANGE = {min: 5, max: 600, step: 5};
+const DEFAULT_DURATION_SECONDS = 30;
+const MAX_SETS = 10;
+const DROP_AMOUNT_RANGES: Record<DropSetReduction, {min: number; max: number; step: number; default: number}> = {
+  percent: {min: 5, max: 50, step: 5, default: 20},
+  fixed: {min: 0.5, max: 20, step: 0.5, default: 2.5},
+};
+const DROP_REPS_RANGE = {min: 1, max: 20};
+const VELOCITY_LOSS_OPTIONS: Array<number | null> = [null, 10, 20, 30, 40];
+const DROP_TRIGGERS: DropSetTrigger[] = ['reps', 'failure'];
+const DROP_REDUCTIONS: DropSetReduction[] = ['percent', 'fixed'];
+
+const SET_TYPES: Array<{type: SetType; label: string}> = [
+  {type: 'reps', label: 'Reps'},
+  {type: 'timed', label: 'Timed'},
+  {type: 'isometric', label: 'Isometric Hold'},
+];
+
+const PROGRAM_MODES: ProgramModeData[] = [
+  ProgramMode.OldSchool,
+  ProgramMode.Pump,
+  ProgramMode.TUT,
+  ProgramMode.TUTBeast,
+  ProgramMode.EccentricOnly,
+];
+
+const ECHO_LEVELS = [EchoLevel.HARD, EchoLevel.HARDER, EchoLevel.HARDEST, EchoLevel.EPIC];
+
+const ECCENTRIC_LOADS = [
+  EccentricLoad.LOAD_0,
+  EccentricLoad.LOAD_50,
+  EccentricLoad.LOAD_75,
+  EccentricLoad.LOAD_100,
+  EccentricLoad.LOAD_125,
+  EccentricLoad.LOAD_150,
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Whether two modes are the same (Echo settings are shared by all sets of an exercise)
+ */
+const isSameMode = (a: WorkoutType | null, b: WorkoutType | null): boolean => {
+  if (!a || !b) {
+    return a === b;
+  }
+  if (a.type === 'program' && b.type === 'program') {
+    return a.mode.modeValue === b.mode.modeValue;
+  }
+  return a.type === b.type;
+};
+
+/**
+ * Per-set drafts of a routine exercise (per-set weights fall back to weightPerCableKg)
+ */
+const toSetDrafts = (routineExercise: RoutineExercise): SetDraft[] =>
+  (routineExercise.setReps ?? []).map((reps, index) => ({
+    reps,
+    weightPerCableKg: routineExercise.setWeightsPerCableKg?.[index] ?? routineExercise.weightPerCableKg,
+    mode: routineExercise.setModes?.[index] ?? null,
+  }));
+
+/**
+ * Routine exercise editor modal
+ */
+export const RoutineExerciseEditor: React.FC<RoutineExerciseEditorProps> = ({
+  visible,
+  routineExercise,
+  onSave,
+  onDismiss,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [setType, setSetType] = useState<SetType>('reps');
+  const [durationSeconds, setDurationSeconds] = useState(DEFAULT_DURATION_SECONDS);
+  const [sets, setSets] = useState<SetDraft[]>([]);
+  const [workoutType, setWorkoutType] = useState<WorkoutType>({type: 'program', mode: ProgramMode.OldSchool});
+  const [echoLevel, setEchoLevel] = useState<EchoLevel>(EchoLevel.HARDER);
+  const [eccentricLoad, setEccentricLoad] = useState<EccentricLoad>(EccentricLoad.LOAD_100);
+  const [dropSet, setDropSet] = useState<DropSetSettings>(createDefaultDropSetSettings());
+  const [velocityLossPercent, setVelocityLossPercent] = useState<number | null>(null);
+  const [restSeconds, setRestSeconds] = useState(60);
+  const [cableConfig, setCableConfig] = useState<CableConfiguration>(CableConfiguration.DOUBLE);
+  const [notes, setNotes] = useState('');
+
+  // Start from the exercise's current configuration each time it is opened
+  useEffect(() => {
+    if (!routineExercise) {
+      return;
+    }
+    setSetType(routineExercise.setType ?? 'reps');
+    setDurationSeconds(routineExercise.duration ?? DEFAULT_DURATION_SECONDS);
+    setSets(toSetDrafts(routineExercise));
+    setWorkoutType(routineExercise.workoutType ?? {type: 'program', mode: ProgramMode.OldSchool});
+    setEchoLevel(
+      routineExercise.workoutType?.type === 'echo'
+        ? routineExercise.workoutType.level
+        : routineExercise.echoLevel ?? EchoLevel.HARDER
+    );
+    setEccentricLoad(
+      routineExercise.workoutType?.type === 'echo'
+        ? routineExercise.workoutType.eccentricLoad
+        : routineExercise.eccentricLoad ?? EccentricLoad.LOAD_100
+    );
+    setDropSet(routineExercise.dropSet ?? createDefaultDropSetSettings());
+    setVelocityLossPercent(routineExercise.velocityLossPercent ?? null);
+    setRestSeconds(routineExercise.restSeconds ?? 60);
+    setCableConfig(routineExercise.cableConfig);
+    setNotes(routineExercise.notes ?? '');
+  }, [routineExercise]);
+
+  if (!routineExercise) {
+    return null;
+  }
+
+  const isEcho = workoutType.type === 'echo';
+  const isDurationSet = setType !== 'reps';
+  const usesEcho = isEcho || sets.some(set => set.mode?.type === 'echo');
+  const dropAmountRange = DROP_AMOUNT_RANGES[dropSet.reduction];
+
+  const updateSet = (index: number, changes: Partial<SetDraft>) => {
+    setSets(prev => prev.map((set, i) => (i === index ? {...set, ...changes} : set)));
+  };
+
+  // A new set repeats the last one
+  const addSet = () => {
+    setSets(prev =>
+      prev.length >= MAX_SETS
+        ? prev
+        : [...prev, prev[prev.length - 1] ?? {reps: 10, weightPerCableKg: routineExercise.weightPerCableKg, mode: null}]
+    );
+  };
+
+  const removeSet = (index: number) => {
+    setSets(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : prev));
+  };
+
+  const selectProgramMode = (mode: ProgramModeData) => {
+    setWorkoutType({type: 'program', mode});
+  };
+
+  const selectEcho = () => {
+    setWorkoutType({type: 'echo', level: echoLevel, eccentricLoad});
+  };
+
+  const selectEchoLevel = (level: EchoLevel) => {
+    setEchoLevel(level);
+    if (isEcho) {
+      setWorkoutType({type: 'echo', level, eccentricLoad});
+    }
+  };
+
+  const selectEccentricLoad = (load: EccentricLoad) => {
+    setEccentricLoad(load);
+    if (isEcho) {
+      setWorkoutType({type: 'echo', level: echoLevel, eccentricLoad: load});
+    }
+  };
+
+  // Tapping a set's mode steps through the exercise's mode, every program mode and Echo
+  const cycleSetMode = (index: number) => {
+    const options: Array<WorkoutType | null> = [
+      null,
+      ...PROGRAM_MODES.map((mode): WorkoutType => ({type: 'program', mode})),
+      {type: 'echo', level: echoLevel, eccentricLoad},
+    ];
+    const position = options.findIndex(option => isSameMode(option, sets[index].mode));
+    updateSet(index, {mode: options[(position + 1) % options.length]});
+  };
+
+  const updateDropSet = (changes: Partial<DropSetSettings>) => {
+    setDropSet(prev => ({...prev, ...changes}));
+  };
+
+  const selectDropReduction = (reduction: DropSetReduction) => {
+    if (reduction !== dropSet.reduction) {
+      updateDropSet({reduction, amount: DROP_AMOUNT_RANGES[reduction].default});
+    }
+  };
+
+  // Per-set weights and modes are only stored when they differ from the exercise's
+  const handleSave = () => {
+    const weights = sets.map(set => set.weightPerCableKg);
+    const hasPerSetWeights = weights.some(weight => weight !== weights[0]);
+    const setModes = sets.map(set =>
+      !set.mode || isSameMode(set.mode, workoutType)
+        ? null
+        : set.mode.type === 'echo'
+          ? {type: 'echo' as const, level: echoLevel, eccentricLoad}
+          : set.mode
+    );
+
+    onSave({
+      ...routineExercise,
+      setReps: sets.map(set => set.reps),
+      weightPerCableKg: weights[0] ?? routineExercise.weightPerCableKg,
+      setWeightsPerCableKg: hasPerSetWeights ? weights : [],
+      setType,
+      duration: isDurationSet ? durationSeconds : null,
+      velocityLossPercent: isDurationSet ? null : velocityLossPercent,
+      workoutType,
+      setModes: setModes.some(Boolean) ? setModes : [],
+      echoLevel,
+      eccentricLoad,
+      dropSet,
+      restSeconds,
+      cableConfig,
+      notes: notes.trim(),
+    });
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          paddingHorizontal: spacing.medium,
+          paddingVertical: spacing.extraSmall,
+          backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{selected}}
+      accessibilityLabel={label}>
+      <Text
+        style={[
+          typography.labelMedium,
+          {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant},
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (label: string, onDecrement: () => void, onIncrement: () => void) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        onPress={onDecrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}>
+        <Icon name="remove" size={20} color={colors.primary} />
+      </TouchableOpacity>
+      <Text style={[typography.labelLarge, styles.stepperValue, {color: colors.onSurface}]}>{label}</Text>
+      <TouchableOpacity
+        onPress={onIncrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}>
+        <Icon name="add" size={20} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const sectionTitle = (title: string) => (
+    <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>{title}</Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title={routineExercise.exercise.name}
+      variant="bottom"
+      testID={testID}
+      footer={
+        <View style={[styles.row, {gap: spacing.small}]}>
+          <Button onPress={onDismiss} variant="outlined" style={{flex: 1}}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} style={{flex: 1}}>
+            Done
+          </Button>
+        </View>
+      }>
+      <View style={{gap: spacing.medium}}>
+        {/* Set type */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Set Type')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {SET_TYPES.map(({type, label}) => renderChip(label, setType === type, () => setSetType(type)))}
+          </View>
+          {isDurationSet && (
+            <View style={[styles.row, styles.spaceBetween]}>
+              <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+                {setType === 'isometric' ? 'Hold for' : 'Work for'}
+              </Text>
+              {renderStepper(
+                `${durationSeconds}s`,
+                () =>
+                  setDurationSeconds(
+                    clamp(durationSeconds - DURATION_RANGE.step, DURATION_RANGE.min, DURATION_RANGE.max)
+                  ),
+                () =>
+                  setDurationSeconds(
+                    clamp(durationSeconds + DURATION_RANGE.step, DURATION_RANGE.min, DURATION_RANGE.max)
+                  )
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Sets */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Sets')}
+          {sets.map((set, index) => (
+            <View key={index} style={[styles.row, {gap: spacing.small}]}>
+              <Text style={[typography.labelMedium, styles.setLabel, {color: colors.onSurfaceVariant}]}>
+                Set {index + 1}
+              </Text>
+              {!isDurationSet &&
+                renderStepper(
+                  `${set.reps} reps`,
+                  () => updateSet(index, {reps: clamp(set.reps - 1, REPS_RANGE.min, REPS_RANGE.max)}),
+                  () => updateSet(index, {reps: clamp(set.reps + 1, REPS_RANGE.min, REPS_RANGE.max)})
+                )}
+              {renderStepper(
+                `${set.weightPerCableKg.toFixed(1)} kg`,
+                () =>
+                  updateSet(index, {
+                    weightPerCableKg: clamp(set.weightPerCableKg - WEIGHT_STEP_KG, MIN_WEIGHT_KG, MAX_WEIGHT_KG),
+                  }),
+                () =>
+                  updateSet(index, {
+                    weightPerCableKg: clamp(set.weightPerCableKg + WEIGHT_STEP_KG, MIN_WEIGHT_KG, MAX_WEIGHT_KG),
+                  })
+              )}
+              <TouchableOpacity
+                onPress={() => removeSet(index)}
+                disabled={sets.length <= 1}
+                style={styles.stepperButton}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove set ${index + 1}`}>
+                <Icon
+                  name="close"
+                  size={20}
+                  color={sets.length <= 1 ? colors.surfaceVariant : colors.onSurfaceVariant}
+                />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Button onPress={addSet} variant="text" size="small" disabled={sets.length >= MAX_SETS}>
+            Add Set
+          </Button>
+          <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>Weights are per cable</Text>
+        </View>
+
+        {/* Velocity-loss stop (rep sets only) */}
+        {!isDurationSet && (
+          <View style={{gap: spacing.small}}>
+            {sectionTitle('Stop on Velocity Loss')}
+            <View style={[styles.chips, {gap: spacing.small}]}>
+              {VELOCITY_LOSS_OPTIONS.map(percent =>
+                renderChip(percent === null ? 'Off' : `${percent}%`, velocityLossPercent === percent, () =>
+                  setVelocityLossPercent(percent)
+                )
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Workout mode */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Mode')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {PROGRAM_MODES.map(mode =>
+              renderChip(
+                mode.displayName,
+                workoutType.type === 'program' && workoutType.mode.modeValue === mode.modeValue,
+                () => selectProgramMode(mode)
+              )
+            )}
+            {renderChip('Echo', isEcho, selectEcho)}
+          </View>
+        </View>
+
+        {/* Mode by set */}
+        {sets.length > 1 && (
+          <View style={{gap: spacing.small}}>
+            {sectionTitle('Mode by Set')}
+            <View style={[styles.chips, {gap: spacing.small}]}>
+              {sets.map((set, index) => (
+                <React.Fragment key={index}>
+                  {renderChip(
+                    `Set ${index + 1}: ${getWorkoutTypeDisplayName(set.mode ?? workoutType)}`,
+                    !!set.mode && !isSameMode(set.mode, workoutType),
+                    () => cycleSetMode(index)
+                  )}
+                </React.Fragment>
+              ))}
+            </View>
+            <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+              Tap a set to change its mode, e.g. an Echo finisher after Old School sets
+            </Text>
+          </View>
+        )}
+
+        {/* Echo configuration */}
+        {usesEcho && (
+          <>
+            <View style={{gap: spacing.small}}>
+              {sectionTitle('Echo Level')}
+              <View style={[styles.chips, {gap: spacing.small}]}>
+                {ECHO_LEVELS.map(level =>
+                  renderChip(EchoLevelDisplay[level], echoLevel === level, () => selectEchoLevel(level))
+                )}
+              </View>
+            </View>
+            <View style={{gap: spacing.small}}>
+              {sectionTitle('Eccentric Load')}
+              <View style={[styles.chips, {gap: spacing.small}]}>
+                {ECCENTRIC_LOADS.map(load =>
+                  renderChip(EccentricLoadDisplay[load], eccentricLoad === load, () => selectEccentricLoad(load))
+                )}
+              </View>
+            </View>
+          </>
+        )}
+
+        {/* Drop set */}
+        {!isDurationSet && (
+          <View style={{gap: spacing.small}}>
+            {sectionTitle('Drop Set')}
+            <View style={[styles.chips, {gap: spacing.small}]}>
+              {Array.from({length: MAX_DROPS + 1}, (_, drops) =>
+                renderChip(drops === 0 ? 'Off' : `${drops} drop${drops > 1 ? 's' : ''}`, dropSet.drops === drops, () =>
+                  updateDropSet({drops})
+                )
+              )}
+            </View>
+            {dropSet.drops > 0 && (
+              <>
+                <View style={[styles.row, styles.spaceBetween, {gap: spacing.small}]}>
+                  <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>Drop by</Text>
+                  {DROP_REDUCTIONS.map(reduction =>
+                    renderChip(DROP_SET_REDUCTION_LABELS[reduction], dropSet.reduction === reduction, () =>
+                      selectDropReduction(reduction)
+                    )
+                  )}
+                  {renderStepper(
+                    dropSet.reduction === 'percent' ? `${dropSet.amount}%` : `${dropSet.amount.toFixed(1)} kg`,
+                    () =>
+                      updateDropSet({
+                        amount: clamp(dropSet.amount - dropAmountRange.step, dropAmountRange.min, dropAmountRange.max),
+                      }),
+                    () =>
+                      updateDropSet({
+                        amount: clamp(dropSet.amount + dropAmountRange.step, dropAmountRange.min, dropAmountRange.max),
+                      })
+                  )}
+                </View>
+                <View style={[styles.row, styles.spaceBetween, {gap: spacing.small}]}>
+                  <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>Drop after</Text>
+                  {DROP_TRIGGERS.map(trigger =>
+                    renderChip(DROP_SET_TRIGGER_LABELS[trigger], dropSet.trigger === trigger, () =>
+                      updateDropSet({trigger})
+                    )
+                  )}
+                  {dropSet.trigger === 'reps' ? (
+                    renderStepper(
+                      `${dropSet.repsPerDrop} reps`,
+                      () =>
+                        updateDropSet({
+                          repsPerDrop: clamp(dropSet.repsPerDrop - 1, DROP_REPS_RANGE.min, DROP_REPS_RANGE.max),
+                        }),
+                      () =>
+                        updateDropSet({
+                          repsPerDrop: clamp(dropSet.repsPerDrop + 1, DROP_REPS_RANGE.min, DROP_REPS_RANGE.max),
+                        })
+                    )
+                  ) : (
+                    <View style={styles.stepper} />
+                  )}
+                </View>
+                <View style={[styles.chips, {gap: spacing.small}]}>
+                  {renderChip('Last set', dropSet.lastSetOnly, () => updateDropSet({lastSetOnly: true}))}
+                  {renderChip('Every set', !dropSet.lastSetOnly, () => updateDropSet({lastSetOnly: false}))}
+                </View>
+                <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                  {[sets[sets.length - 1]?.weightPerCableKg ?? routineExercise.weightPerCableKg]
+                    .concat(
+                      computeDropWeights(
+                        sets[sets.length - 1]?.weightPerCableKg ?? routineExercise.weightPerCableKg,
+                        dropSet
+                      )
+                    )
+                    .map(weight => `${weight.toFixed(1)} kg`)
+                    .join(' → ')}
+                  {dropSet.trigger === 'reps'
+                    ? ` with ${dropSet.repsPerDrop} reps per drop.`
+                    : ', each until no rep is completed for a few seconds.'}{' '}
+                  The handles stay loaded between drops. Echo sets run without drops.
+                </Text>
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Rest */}
+        <View style={[styles.row, styles.spaceBetween]}>
+          {sectionTitle('Rest Between Sets')}
+          {renderStepper(
+            `${restSeconds}s`,
+            () => setRestSeconds(clamp(restSeconds - REST_RANGE.step, REST_RANGE.min, REST_RANGE.max)),
+            () => setRestSeconds(clamp(restSeconds + REST_RANGE.step, REST_RANGE.min, REST_RANGE.max))
+          )}
+        </View>
+
+        {/* Cable configuration */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Cables')}
+          <View style={[styles.chips, {gap: spacing.small}]}>
+            {renderChip('Single', cableConfig === CableConfiguration.SINGLE, () =>
+              setCableConfig(CableConfiguration.SINGLE)
+            )}
+            {renderChip('Double', cableConfig === CableConfiguration.DOUBLE, () =>
+              setCableConfig(CableConfiguration.DOUBLE)
+            )}
+          </View>
+        </View>
+
+        {/* Notes */}
+        <Input
+          label="Notes"
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Cues, setup, tempo..."
+          multiline
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  spaceBetween: {
+    justifyContent: 'space-between',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 8,
+  },
+  setLabel: {
+    width: 44,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+  },
+  stepperButton: {
+    padding: 4,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+});
+
+export default RoutineExerciseEditor;
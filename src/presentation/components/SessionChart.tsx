@@ -0,0 +1,459 @@
+/**
+ * SessionChart Component
+ * Load and position of both cables over a recorded session with rep markers
+ *
+ * Gestures:
+ * - Drag with one finger to scrub (shows the values under the cursor)
+ * - Pinch to zoom, or use the zoom/pan buttons
+ */
+
+import React, {useCallback, useMemo, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  PanResponder,
+  LayoutChangeEvent,
+  ViewStyle,
+} from 'react-native';
+import Svg, {G, Line, Polyline, Circle, Text as SvgText} from 'react-native-svg';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {ChartDataPoint, ChartEvent} from '../../domain/models/Models';
+import {
+  downsampleChartData,
+  findNearestPoint,
+} from '../../domain/usecases/SessionAnalysis';
+
+export interface SessionChartProps {
+  data: ChartDataPoint[];
+  events?: ChartEvent[];
+  plotHeight?: number;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+const MIN_WINDOW_MS = 2000;
+const ZOOM_STEP = 2;
+const MAX_POINTS = 300;
+const AXIS_WIDTH = 36;
+const PLOT_GAP = 24;
+
+/**
+ * Session chart component
+ */
+export const SessionChart: React.FC<SessionChartProps> = ({
+  data,
+  events = [],
+  plotHeight = 140,
+  style,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [width, setWidth] = useState(0);
+  const [cursor, setCursor] = useState<number | null>(null);
+
+  const fullWindow = useMemo<TimeWindow>(
+    () => ({
+      start: data.length > 0 ? data[0].timestamp : 0,
+      end: data.length > 0 ? data[data.length - 1].timestamp : 0,
+    }),
+    [data]
+  );
+  const [zoomWindow, setZoomWindow] = useState<TimeWindow | null>(null);
+  const timeWindow = zoomWindow ?? fullWindow;
+
+  const plotWidth = Math.max(width - AXIS_WIDTH, 1);
+  const span = Math.max(timeWindow.end - timeWindow.start, 1);
+
+  /**
+   * Keep a window inside the session and no narrower than MIN_WINDOW_MS
+   */
+  const clampWindow = useCallback(
+    (center: number, windowSpan: number): TimeWindow | null => {
+      const fullSpan = fullWindow.end - fullWindow.start;
+      const clampedSpan = Math.min(Math.max(windowSpan, MIN_WINDOW_MS), fullSpan);
+      if (clampedSpan >= fullSpan) {
+        return null;
+      }
+      const start = Math.min(
+        Math.max(center - clampedSpan / 2, fullWindow.start),
+        fullWindow.end - clampedSpan
+      );
+      return {start, end: start + clampedSpan};
+    },
+    [fullWindow]
+  );
+
+  const zoom = useCallback(
+    (factor: number) => {
+      const center = cursor ?? (timeWindow.start + timeWindow.end) / 2;
+      setZoomWindow(clampWindow(center, span / factor));
+    },
+    [cursor, timeWindow, span, clampWindow]
+  );
+
+  const pan = useCallback(
+    (direction: -1 | 1) => {
+      const center = (timeWindow.start + timeWindow.end) / 2;
+      setZoomWindow(clampWindow(center + (direction * span) / 2, span));
+    },
+    [timeWindow, span, clampWindow]
+  );
+
+  // Gesture state lives in a ref so the responder is only created once
+  const gesture = useRef({
+    startX: 0,
+    pinchDistance: 0,
+    pinchSpan: 0,
+    timeWindow,
+    plotWidth,
+    clampWindow,
+  });
+  gesture.current.timeWindow = timeWindow;
+  gesture.current.plotWidth = plotWidth;
+  gesture.current.clampWindow = clampWindow;
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (evt) => {
+          gesture.current.startX = evt.nativeEvent.locationX - AXIS_WIDTH;
+          gesture.current.pinchDistance = 0;
+          setCursor(timeAt(gesture.current.startX));
+        },
+        onPanResponderMove: (evt, gestureState) => {
+          const touches = evt.nativeEvent.touches;
+          if (touches.length >= 2) {
+            const distance = Math.abs(touches[0].pageX - touches[1].pageX);
+            const {timeWindow: current} = gesture.current;
+            if (gesture.current.pinchDistance === 0) {
+              gesture.current.pinchDistance = distance;
+              gesture.current.pinchSpan = current.end - current.start;
+              return;
+            }
+            if (distance > 0) {
+              const center = (current.start + current.end) / 2;
+              const nextSpan =
+                (gesture.current.pinchSpan * gesture.current.pinchDistance) / distance;
+              setZoomWindow(gesture.current.clampWindow(center, nextSpan));
+            }
+            return;
+          }
+          setCursor(timeAt(gesture.current.startX + gestureState.dx));
+        },
+      }),
+    []
+  );
+
+  /**
+   * Timestamp under an x offset within the plot area
+   */
+  function timeAt(x: number): number {
+    const {timeWindow: current, plotWidth: currentWidth} = gesture.current;
+    const fraction = Math.min(Math.max(x / currentWidth, 0), 1);
+    return current.start + fraction * (current.end - current.start);
+  }
+
+  const visible = useMemo(
+    () =>
+      downsampleChartData(
+        data.filter(
+          (point) =>
+            point.timestamp >= timeWindow.start && point.timestamp <= timeWindow.end
+        ),
+        MAX_POINTS
+      ),
+    [data, timeWindow]
+  );
+
+  const maxLoad = Math.max(1, ...visible.map((p) => Math.max(p.loadA, p.loadB)));
+  const maxPosition = Math.max(
+    1,
+    ...visible.map((p) => Math.max(p.positionA, p.positionB))
+  );
+
+  const xOf = (timestamp: number) =>
+    AXIS_WIDTH + ((timestamp - timeWindow.start) / span) * plotWidth;
+  const loadTop = 0;
+  const positionTop = plotHeight + PLOT_GAP;
+  const yOf = (value: number, max: number, top: number) =>
+    top + plotHeight - (Math.max(value, 0) / max) * plotHeight;
+
+  const polyline = (value: (p: ChartDataPoint) => number, max: number, top: number) =>
+    visible.map((p) => `${xOf(p.timestamp)},${yOf(value(p), max, top)}`).join(' ');
+
+  const markers = events.filter(
+    (event) =>
+      event.type !== 'repComplete' &&
+      event.timestamp >= timeWindow.start &&
+      event.timestamp <= timeWindow.end
+  );
+
+  const cursorPoint = cursor !== null ? findNearestPoint(data, cursor) : null;
+  const seconds = (timestamp: number) =>
+    ((timestamp - fullWindow.start) / 1000).toFixed(1);
+
+  const cableAColor = colors.primary;
+  const cableBColor = colors.info;
+  const svgHeight = plotHeight * 2 + PLOT_GAP + 16;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderPlot = (
+    label: string,
+    top: number,
+    max: number,
+    valueA: (p: ChartDataPoint) => number,
+    valueB: (p: ChartDataPoint) => number
+  ) => (
+    <G>
+      <Line
+        x1={AXIS_WIDTH}
+        y1={top + plotHeight}
+        x2={AXIS_WIDTH + plotWidth}
+        y2={top + plotHeight}
+        stroke={colors.outlineVariant}
+        strokeWidth={1}
+      />
+      <Line
+        x1={AXIS_WIDTH}
+        y1={top}
+        x2={AXIS_WIDTH + plotWidth}
+        y2={top}
+        stroke={colors.outlineVariant}
+        strokeWidth={0.5}
+        strokeDasharray="2,4"
+      />
+      <SvgText x={0} y={top + 10} fontSize={10} fill={colors.onSurfaceVariant}>
+        {max.toFixed(0)}
+      </SvgText>
+      <SvgText x={0} y={top + plotHeight} fontSize={10} fill={colors.onSurfaceVariant}>
+        {label}
+      </SvgText>
+      <Polyline
+        points={polyline(valueA, max, top)}
+        fill="none"
+        stroke={cableAColor}
+        strokeWidth={1.5}
+      />
+      <Polyline
+        points={polyline(valueB, max, top)}
+        fill="none"
+        stroke={cableBColor}
+        strokeWidth={1.5}
+      />
+      {cursorPoint && (
+        <>
+          <Circle
+            cx={xOf(cursorPoint.timestamp)}
+            cy={yOf(valueA(cursorPoint), max, top)}
+            r={3}
+            fill={cableAColor}
+          />
+          <Circle
+            cx={xOf(cursorPoint.timestamp)}
+            cy={yOf(valueB(cursorPoint), max, top)}
+            r={3}
+            fill={cableBColor}
+          />
+        </>
+      )}
+    </G>
+  );
+
+  return (
+    <View style={style} testID={testID}>
+      {/* Scrub readout */}
+      <View style={[styles.readout, {marginBottom: spacing.small}]}>
+        <Text style={[typography.labelMedium, {color: colors.onSurfaceVariant}]}>
+          {cursorPoint ? `${seconds(cursorPoint.timestamp)} s` : 'Drag to scrub'}
+        </Text>
+        {cursorPoint && (
+          <Text style={[typography.labelMedium, {color: colors.onSurface}]}>
+            <Text style={{color: cableAColor}}>
+              L {cursorPoint.loadA.toFixed(1)} kg / {cursorPoint.positionA.toFixed(0)}
+            </Text>
+            {'   '}
+            <Text style={{color: cableBColor}}>
+              R {cursorPoint.loadB.toFixed(1)} kg / {cursorPoint.positionB.toFixed(0)}
+            </Text>
+          </Text>
+        )}
+      </View>
+
+      <View onLayout={handleLayout} {...panResponder.panHandlers}>
+        {width > 0 && (
+          <Svg width={width} height={svgHeight}>
+            {renderPlot('kg', loadTop, maxLoad, (p) => p.loadA, (p) => p.loadB)}
+            {renderPlot(
+              'mm',
+              positionTop,
+              maxPosition,
+              (p) => p.positionA,
+              (p) => p.positionB
+            )}
+
+            {/* Rep markers */}
+            {markers.map((event, index) => {
+              const x = xOf(event.timestamp);
+              const isWarmupMarker = event.type === 'warmupComplete';
+              return (
+                <G key={`${event.type}-${event.timestamp}-${index}`}>
+                  <Line
+                    x1={x}
+                    y1={0}
+                    x2={x}
+                    y2={positionTop + plotHeight}
+                    stroke={isWarmupMarker ? colors.warning : colors.outline}
+                    strokeWidth={isWarmupMarker ? 1.5 : 0.75}
+                    strokeDasharray={isWarmupMarker ? undefined : '3,3'}
+                  />
+                  {event.type === 'repStart' && (
+                    <SvgText
+                      x={x + 2}
+                      y={positionTop - 6}
+                      fontSize={9}
+                      fill={colors.onSurfaceVariant}>
+                      {event.repNumber}
+                    </SvgText>
+                  )}
+                </G>
+              );
+            })}
+
+            {/* Scrub cursor */}
+            {cursorPoint && (
+              <Line
+                x1={xOf(cursorPoint.timestamp)}
+                y1={0}
+                x2={xOf(cursorPoint.timestamp)}
+                y2={positionTop + plotHeight}
+                stroke={colors.onSurface}
+                strokeWidth={1}
+              />
+            )}
+
+            {/* Time axis */}
+            <SvgText
+              x={AXIS_WIDTH}
+              y={svgHeight - 2}
+              fontSize={10}
+              fill={colors.onSurfaceVariant}>
+              {`${seconds(timeWindow.start)} s`}
+            </SvgText>
+            <SvgText
+              x={AXIS_WIDTH + plotWidth}
+              y={svgHeight - 2}
+              fontSize={10}
+              textAnchor="end"
+              fill={colors.onSurfaceVariant}>
+              {`${seconds(timeWindow.end)} s`}
+            </SvgText>
+          </Svg>
+        )}
+      </View>
+
+      {/* Legend and zoom controls */}
+      <View style={[styles.controls, {marginTop: spacing.small}]}>
+        <View style={styles.legend}>
+          <View style={[styles.legendSwatch, {backgroundColor: cableAColor}]} />
+          <Text style={[typography.labelSmall, {color: colors.onSurfaceVariant}]}>Left</Text>
+          <View
+            style={[
+              styles.legendSwatch,
+              {backgroundColor: cableBColor, marginLeft: spacing.small},
+            ]}
+          />
+          <Text style={[typography.labelSmall, {color: colors.onSurfaceVariant}]}>Right</Text>
+        </View>
+
+        <View style={styles.legend}>
+          <ChartButton icon="chevron-left" label="Pan left" onPress={() => pan(-1)} disabled={!zoomWindow} />
+          <ChartButton icon="zoom-out" label="Zoom out" onPress={() => zoom(1 / ZOOM_STEP)} disabled={!zoomWindow} />
+          <ChartButton icon="zoom-in" label="Zoom in" onPress={() => zoom(ZOOM_STEP)} />
+          <ChartButton icon="chevron-right" label="Pan right" onPress={() => pan(1)} disabled={!zoomWindow} />
+          <ChartButton
+            icon="fullscreen"
+            label="Reset zoom"
+            onPress={() => {
+              setZoomWindow(null);
+              setCursor(null);
+            }}
+            disabled={!zoomWindow && cursor === null}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Icon button for the chart controls
+ */
+const ChartButton: React.FC<{
+  icon: string;
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+}> = ({icon, label, onPress, disabled = false}) => {
+  const colors = useColors();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={disabled}
+      style={styles.controlButton}
+      accessibilityRole="button"
+      accessibilityLabel={label}>
+      <Icon
+        name={icon}
+        size={22}
+        color={disabled ? colors.outlineVariant : colors.onSurface}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  readout: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 18,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  controlButton: {
+    padding: 4,
+  },
+});
+
+export default SessionChart;
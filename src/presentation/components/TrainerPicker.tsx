@@ -0,0 +1,96 @@
+/**
+ * TrainerPicker Component
+ * Chooses the trainer a workout runs on when several trainers are set up
+ * Reusable React Native component
+ */
+
+import React from 'react';
+import {View, Text, TouchableOpacity, ScrollView, StyleSheet, StyleProp, ViewStyle} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {TrainerInfo} from '../../data/repository/BleRepository';
+import {ConnectionStatus} from '../../data/ble/types';
+
+export interface TrainerPickerProps {
+  trainers: TrainerInfo[];
+  selectedTrainerId: string;
+  onSelect: (trainerId: string) => void;
+  label?: string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+/**
+ * Row of trainer chips with their connection state (hidden with a single trainer)
+ */
+export const TrainerPicker: React.FC<TrainerPickerProps> = ({
+  trainers,
+  selectedTrainerId,
+  onSelect,
+  label = 'Trainer',
+  style,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  if (trainers.length < 2) {
+    return null;
+  }
+
+  return (
+    <View style={[{gap: spacing.small}, style]} testID={testID}>
+      <Text style={[typography.labelLarge, {color: colors.onSurface}]}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {trainers.map(trainer => {
+          const selected = trainer.trainerId === selectedTrainerId;
+          const connected = trainer.connectionState.status === ConnectionStatus.Ready;
+          return (
+            <TouchableOpacity
+              key={trainer.trainerId}
+              onPress={() => onSelect(trainer.trainerId)}
+              style={[
+                styles.chip,
+                {
+                  paddingHorizontal: spacing.medium,
+                  paddingVertical: spacing.small,
+                  marginRight: spacing.small,
+                  gap: spacing.extraSmall,
+                  backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+                },
+              ]}
+              accessibilityRole="button"
+              accessibilityState={{selected}}
+              accessibilityLabel={`${trainer.name}, ${connected ? 'connected' : 'not connected'}`}>
+              <View
+                style={[styles.statusDot, {backgroundColor: connected ? colors.primary : colors.error}]}
+              />
+              <Text
+                style={[
+                  typography.labelMedium,
+                  {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant},
+                ]}>
+                {trainer.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+});
+
+export default TrainerPicker;
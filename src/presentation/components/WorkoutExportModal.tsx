@@ -0,0 +1,225 @@
+/**
+ * WorkoutExportModal Component
+ * Picks a format, date range and exercises and exports the matching workouts
+ */
+
+import React, {useEffect, useMemo, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {Modal} from './Modal';
+import {Button} from './Button';
+import {WorkoutExportFilter, WorkoutExportFormat} from '../../data/repository/ExportRepository';
+
+export interface WorkoutExportModalProps {
+  visible: boolean;
+  exercises: Array<{id: string; name: string}>; // Exercises with recorded workouts
+  matchingCount: number | null;
+  error: string | null;
+  isExporting: boolean;
+  onFilterChange: (filter: WorkoutExportFilter) => void;
+  onExport: (format: WorkoutExportFormat, filter: WorkoutExportFilter) => void;
+  onDismiss: () => void;
+  testID?: string;
+}
+
+type ExportRange = 'week' | 'month' | 'quarter' | 'year' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: Array<{id: ExportRange; label: string; days: number | null}> = [
+  {id: 'week', label: '7 days', days: 7},
+  {id: 'month', label: '30 days', days: 30},
+  {id: 'quarter', label: '90 days', days: 90},
+  {id: 'year', label: '1 year', days: 365},
+  {id: 'all', label: 'All time', days: null},
+];
+
+const FORMATS: Array<{id: WorkoutExportFormat; label: string; description: string}> = [
+  {
+    id: 'sessions_csv',
+    label: 'Sessions CSV',
+    description: 'One row per set with weight, reps, duration, asymmetry and hold stability.',
+  },
+  {
+    id: 'metrics_csv',
+    label: 'Samples CSV',
+    description: 'Every load and position sample of both cables, for detailed analysis.',
+  },
+  {
+    id: 'fit',
+    label: 'FIT activity',
+    description: 'A strength training activity with one set per workout, for Garmin Connect and other training logs.',
+  },
+];
+
+/**
+ * Workout export modal
+ */
+export const WorkoutExportModal: React.FC<WorkoutExportModalProps> = ({
+  visible,
+  exercises,
+  matchingCount,
+  error,
+  isExporting,
+  onFilterChange,
+  onExport,
+  onDismiss,
+  testID,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const [format, setFormat] = useState<WorkoutExportFormat>('sessions_csv');
+  const [range, setRange] = useState<ExportRange>('month');
+  const [exerciseIds, setExerciseIds] = useState<string[]>([]);
+
+  // Start over whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormat('sessions_csv');
+      setRange('month');
+      setExerciseIds([]);
+    }
+  }, [visible]);
+
+  const filter = useMemo<WorkoutExportFilter>(() => {
+    const days = RANGES.find(option => option.id === range)?.days ?? null;
+    return {
+      startDate: days !== null ? Date.now() - days * DAY_MS : null,
+      endDate: null,
+      exerciseIds,
+    };
+  }, [range, exerciseIds]);
+
+  useEffect(() => {
+    if (visible) {
+      onFilterChange(filter);
+    }
+  }, [visible, filter, onFilterChange]);
+
+  const toggleExercise = (exerciseId: string) => {
+    setExerciseIds(prev =>
+      prev.includes(exerciseId)
+        ? prev.filter(id => id !== exerciseId)
+        : [...prev, exerciseId]
+    );
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          paddingHorizontal: spacing.medium,
+          paddingVertical: spacing.extraSmall,
+          backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{selected}}
+      accessibilityLabel={label}>
+      <Text
+        style={[typography.labelMedium, {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant}]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const sectionTitle = (title: string) => (
+    <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>{title}</Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      onDismiss={onDismiss}
+      title="Export Workouts"
+      variant="bottom"
+      testID={testID}
+      footer={
+        <View style={[styles.row, {gap: spacing.small}]}>
+          <Button onPress={onDismiss} variant="outlined" style={{flex: 1}}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onExport(format, filter)}
+            loading={isExporting}
+            disabled={matchingCount === 0}
+            style={{flex: 1}}>
+            Export
+          </Button>
+        </View>
+      }>
+      <View style={{gap: spacing.medium}}>
+        {/* Format */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Format')}
+          <View style={[styles.wrapRow, {gap: spacing.small}]}>
+            {FORMATS.map(option =>
+              renderChip(option.id, option.label, format === option.id, () => setFormat(option.id))
+            )}
+          </View>
+          <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+            {FORMATS.find(option => option.id === format)?.description}
+          </Text>
+        </View>
+
+        {/* Date range */}
+        <View style={{gap: spacing.small}}>
+          {sectionTitle('Date Range')}
+          <View style={[styles.wrapRow, {gap: spacing.small}]}>
+            {RANGES.map(option =>
+              renderChip(option.id, option.label, range === option.id, () => setRange(option.id))
+            )}
+          </View>
+        </View>
+
+        {/* Exercises */}
+        {exercises.length > 0 && (
+          <View style={{gap: spacing.small}}>
+            {sectionTitle('Exercises')}
+            <View style={[styles.wrapRow, {gap: spacing.small}]}>
+              {renderChip('all', 'All exercises', exerciseIds.length === 0, () => setExerciseIds([]))}
+              {exercises.map(exercise =>
+                renderChip(exercise.id, exercise.name, exerciseIds.includes(exercise.id), () =>
+                  toggleExercise(exercise.id)
+                )
+              )}
+            </View>
+          </View>
+        )}
+
+        {matchingCount !== null && (
+          <Text style={[typography.bodyMedium, {color: colors.onSurface}]}>
+            {matchingCount === 1 ? '1 workout' : `${matchingCount} workouts`} will be exported
+          </Text>
+        )}
+        {error && <Text style={[typography.bodySmall, {color: colors.error}]}>{error}</Text>}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderRadius: 8,
+  },
+});
+
+export default WorkoutExportModal;
@@ -6,8 +6,12 @@
 
 import React from 'react';
 import {View, StyleSheet, ViewStyle} from 'react-native';
-import {useSpacing} from '../theme';
+import {useColors, useSpacing} from '../theme';
 import {StatsCard} from './StatsCard';
+import {
+  ASYMMETRY_THRESHOLDS,
+  RepAsymmetry,
+} from '../../domain/usecases/AsymmetryAnalyzer';
 
 export interface WorkoutMetric {
   label: string;
@@ -15,6 +19,7 @@ export interface WorkoutMetric {
   icon?: string | React.ReactNode;
   iconColor?: string;
   onPress?: () => void;
+  warning?: boolean; // Outline the card to flag the value
 }
 
 export interface WorkoutMetricsDisplayProps {
@@ -34,6 +39,7 @@ export const WorkoutMetricsDisplay: React.FC<WorkoutMetricsDisplayProps> = ({
   style,
   testID,
 }) => {
+  const colors = useColors();
   const spacing = useSpacing();
 
   return (
@@ -60,6 +66,11 @@ export const WorkoutMetricsDisplay: React.FC<WorkoutMetricsDisplayProps> = ({
             icon={metric.icon}
             iconColor={metric.iconColor}
             onPress={metric.onPress}
+            style={
+              metric.warning
+                ? {borderColor: colors.error, borderWidth: 2}
+                : undefined
+            }
           />
         </View>
       ))}
@@ -113,3 +124,50 @@ export const createWorkoutSummaryMetrics = (
     },
   ];
 };
+
+/**
+ * Left/right asymmetry metrics for the latest rep
+ * Each value names the heavier, longer or later side (L = cable A, R = cable B);
+ * values past ASYMMETRY_THRESHOLDS are flagged
+ */
+export const createAsymmetryMetrics = (
+  asymmetry: RepAsymmetry
+): WorkoutMetric[] => {
+  const side = (value: number): string =>
+    Math.abs(value) < 0.5 ? '' : value > 0 ? ' L' : ' R';
+
+  return [
+    {
+      label: 'Load Imbalance',
+      value: `${Math.abs(asymmetry.loadImbalancePercent).toFixed(0)}%${side(
+        asymmetry.loadImbalancePercent
+      )}`,
+      icon: '⚖️',
+      iconColor: '#9333EA',
+      warning:
+        Math.abs(asymmetry.loadImbalancePercent) >=
+        ASYMMETRY_THRESHOLDS.LOAD_PERCENT,
+    },
+    {
+      label: 'ROM Imbalance',
+      value: `${Math.abs(asymmetry.romImbalancePercent).toFixed(0)}%${side(
+        asymmetry.romImbalancePercent
+      )}`,
+      icon: '📏',
+      iconColor: '#3B82F6',
+      warning:
+        Math.abs(asymmetry.romImbalancePercent) >=
+        ASYMMETRY_THRESHOLDS.ROM_PERCENT,
+    },
+    {
+      label: 'Timing Offset',
+      value: `${Math.abs(asymmetry.timingOffsetMs).toFixed(0)} ms${side(
+        asymmetry.timingOffsetMs
+      )}`,
+      icon: '⏱️',
+      iconColor: '#F59E0B',
+      warning:
+        Math.abs(asymmetry.timingOffsetMs) >= ASYMMETRY_THRESHOLDS.TIMING_MS,
+    },
+  ];
+};
@@ -0,0 +1,91 @@
+/**
+ * WorkoutSessionHost Component
+ * Runs the workout session of every registered trainer, so each trainer's set keeps being
+ * tracked, and its routine keeps advancing, whichever screen or trainer is shown
+ */
+
+import React, {useEffect, useRef} from 'react';
+import {useTrainers} from '../hooks/useTrainers';
+import {useWorkoutSessionRunner} from '../hooks/useWorkoutSession';
+import {useRoutineProgress} from '../hooks/useRoutines';
+import {PRIMARY_TRAINER_ID} from '../../data/repository/BleRepository';
+import {buildRoutineSetParameters} from '../../domain/usecases/RoutineSetPlanner';
+
+interface TrainerSessionRunnerProps {
+  trainerId: string;
+}
+
+/**
+ * Runner of one trainer's session (renders nothing)
+ */
+const TrainerSessionRunner: React.FC<TrainerSessionRunnerProps> = ({trainerId}) => {
+  const {workoutState, workoutParameters, startWorkout, startRest, updateWorkoutParameters} =
+    useWorkoutSessionRunner(trainerId);
+  const {isEnding, getRestAfterCurrentSet, getUpcomingSet, nextSet} = useRoutineProgress(trainerId);
+
+  const previousStateTypeRef = useRef(workoutState.type);
+
+  // Rest after a routine set completes, then start the next set in routine order
+  useEffect(() => {
+    const previousType = previousStateTypeRef.current;
+    previousStateTypeRef.current = workoutState.type;
+
+    if (
+      workoutState.type !== 'completed' ||
+      previousType !== 'active' ||
+      isEnding ||
+      workoutParameters.isJustLift
+    ) {
+      return;
+    }
+
+    const rest = getRestAfterCurrentSet();
+    const upcoming = getUpcomingSet();
+    if (!rest || !upcoming) {
+      return;
+    }
+
+    startRest(rest, () => {
+      nextSet();
+      updateWorkoutParameters(
+        buildRoutineSetParameters(workoutParameters, upcoming.routineExercise, upcoming.setIndex)
+      );
+      startWorkout(true, false);
+    });
+  }, [
+    workoutState.type,
+    workoutParameters,
+    isEnding,
+    getRestAfterCurrentSet,
+    getUpcomingSet,
+    startRest,
+    nextSet,
+    updateWorkoutParameters,
+    startWorkout,
+  ]);
+
+  return null;
+};
+
+/**
+ * Mounts one session runner per trainer. Render it once, above the navigator.
+ */
+export const WorkoutSessionHost: React.FC = () => {
+  const {trainers} = useTrainers();
+
+  // The primary trainer runs from the start, before the trainer list has loaded
+  const trainerIds = [
+    PRIMARY_TRAINER_ID,
+    ...trainers.map(trainer => trainer.trainerId).filter(trainerId => trainerId !== PRIMARY_TRAINER_ID),
+  ];
+
+  return (
+    <>
+      {trainerIds.map(trainerId => (
+        <TrainerSessionRunner key={trainerId} trainerId={trainerId} />
+      ))}
+    </>
+  );
+};
+
+export default WorkoutSessionHost;
@@ -35,6 +35,11 @@ export type {ConnectionErrorDialogProps} from './ConnectionErrorDialog';
 export {ConnectionLostDialog} from './ConnectionLostDialog';
 export type {ConnectionLostDialogProps} from './ConnectionLostDialog';
 
+export {TrainerPicker} from './TrainerPicker';
+export type {TrainerPickerProps} from './TrainerPicker';
+
+export {WorkoutSessionHost} from './WorkoutSessionHost';
+
 // Empty State Component
 export {EmptyState} from './EmptyState';
 export type {EmptyStateProps} from './EmptyState';
@@ -49,13 +54,38 @@ export type {RestTimerProps} from './RestTimer';
 // Exercise and Routine Components
 export {ExerciseCard} from './ExerciseCard';
 export type {ExerciseCardProps} from './ExerciseCard';
+export {CustomExerciseEditor} from './CustomExerciseEditor';
+export type {CustomExerciseEditorProps} from './CustomExerciseEditor';
 
 export {RoutineCard} from './RoutineCard';
 export type {RoutineCardProps, RoutineExercise} from './RoutineCard';
+export {RoutineExerciseEditor} from './RoutineExerciseEditor';
+export type {RoutineExerciseEditorProps} from './RoutineExerciseEditor';
+export {ExerciseGroupEditor} from './ExerciseGroupEditor';
+export type {ExerciseGroupEditorProps} from './ExerciseGroupEditor';
 
 // Stats and Metrics Components
 export {StatsCard} from './StatsCard';
 export type {StatsCardProps} from './StatsCard';
 
-export {WorkoutMetricsDisplay, createWorkoutSummaryMetrics} from './WorkoutMetricsDisplay';
+export {
+  WorkoutMetricsDisplay,
+  createWorkoutSummaryMetrics,
+  createAsymmetryMetrics,
+} from './WorkoutMetricsDisplay';
 export type {WorkoutMetricsDisplayProps, WorkoutMetric} from './WorkoutMetricsDisplay';
+
+export {SessionChart} from './SessionChart';
+export type {SessionChartProps} from './SessionChart';
+
+// Personal Record Components
+export {PRCelebrationModal} from './PRCelebrationModal';
+export type {PRCelebrationModalProps} from './PRCelebrationModal';
+export {ProgressionReviewModal} from './ProgressionReviewModal';
+export type {ProgressionReviewModalProps} from './ProgressionReviewModal';
+export {BackupRestoreModal} from './BackupRestoreModal';
+export type {BackupRestoreModalProps} from './BackupRestoreModal';
+
+// Export Components
+export {WorkoutExportModal} from './WorkoutExportModal';
+export type {WorkoutExportModalProps} from './WorkoutExportModal';
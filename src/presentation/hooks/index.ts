@@ -6,12 +6,18 @@
 // BLE Connection Management
 export { useBleConnection } from './useBleConnection';
 
+// Multiple Trainers
+export { useTrainers } from './useTrainers';
+
 // Workout Session Management
 export { useWorkoutSession } from './useWorkoutSession';
 
 // Workout History & Statistics
 export { useWorkoutHistory } from './useWorkoutHistory';
 
+// Session Detail
+export { useSessionDetail } from './useSessionDetail';
+
 // Exercise Library
 export {
   useExerciseLibrary,
@@ -25,9 +31,15 @@ export { usePersonalRecords } from './usePersonalRecords';
 // Routines Management
 export { useRoutines } from './useRoutines';
 
+// Routine Progression
+export { useProgression } from './useProgression';
+
 // Weekly Programs Management
 export { useWeeklyPrograms } from './useWeeklyPrograms';
 
+// Routine and Program Sharing
+export { useRoutineSharing } from './useRoutineSharing';
+
 // Workout Timers
 export {
   useWorkoutTimer,
@@ -46,3 +58,9 @@ export {
 
 // User Preferences
 export { usePreferences } from './usePreferences';
+
+// Data Backup and Restore
+export { useDataBackup } from './useDataBackup';
+
+// Workout History Export
+export { useWorkoutExport } from './useWorkoutExport';
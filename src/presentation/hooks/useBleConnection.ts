@@ -5,9 +5,21 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { create } from 'zustand';
-import { VitruvianBleManager } from '../../data/ble/BleManager';
+import { getBleManager } from '../../data/ble/BleManager';
+import {
+  getBleRepository,
+  isSimulatedTrainerEnabled,
+  ReconnectState,
+  ScannedTrainer,
+} from '../../data/repository/BleRepository';
 import { HandleState, WorkoutMetric, ConnectionState as DomainConnectionState } from '../../domain/models/Models';
-import { ConnectionState as BleConnectionState, RepNotification, ConnectionStatus } from '../../data/ble/types';
+import {
+  ConnectionState as BleConnectionState,
+  RepNotification,
+  ConnectionStatus,
+  CommandResult,
+} from '../../data/ble/types';
+import { serializeBleSession } from '../../data/ble/BleSessionRecorder';
 
 interface ScannedDevice {
   name: string;
@@ -51,6 +63,8 @@ interface BleHookConnectionState {
   isAutoConnecting: boolean;
   connectionError: string | null;
   connectionLostDuringWorkout: boolean;
+  reconnectState: ReconnectState;
+  lastCommandFailure: CommandResult | null;
 
   // Actions
   setConnectionState: (state: DomainConnectionState) => void;
@@ -62,6 +76,8 @@ interface BleHookConnectionState {
   setIsAutoConnecting: (connecting: boolean) => void;
   setConnectionError: (error: string | null) => void;
   setConnectionLostDuringWorkout: (lost: boolean) => void;
+  setReconnectState: (state: ReconnectState) => void;
+  setLastCommandFailure: (result: CommandResult | null) => void;
   clearScannedDevices: () => void;
   reset: () => void;
 }
@@ -76,6 +92,8 @@ const useBleConnectionStore = create<BleHookConnectionState>((set) => ({
   isAutoConnecting: false,
   connectionError: null,
   connectionLostDuringWorkout: false,
+  reconnectState: { status: 'idle' },
+  lastCommandFailure: null,
 
   // Actions
   setConnectionState: (state) => set({ connectionState: state }),
@@ -92,6 +110,8 @@ const useBleConnectionStore = create<BleHookConnectionState>((set) => ({
   setIsAutoConnecting: (connecting) => set({ isAutoConnecting: connecting }),
   setConnectionError: (error) => set({ connectionError: error }),
   setConnectionLostDuringWorkout: (lost) => set({ connectionLostDuringWorkout: lost }),
+  setReconnectState: (state) => set({ reconnectState: state }),
+  setLastCommandFailure: (result) => set({ lastCommandFailure: result }),
   clearScannedDevices: () => set({ scannedDevices: [] }),
   reset: () =>
     set({
@@ -103,53 +123,79 @@ const useBleConnectionStore = create<BleHookConnectionState>((set) => ({
       isAutoConnecting: false,
       connectionError: null,
       connectionLostDuringWorkout: false,
+      reconnectState: { status: 'idle' },
+      lastCommandFailure: null,
     }),
 }));
 
-// Singleton BLE Manager instance
-let bleManagerInstance: VitruvianBleManager | null = null;
-
-const getBleManager = (): VitruvianBleManager => {
-  if (!bleManagerInstance) {
-    bleManagerInstance = new VitruvianBleManager();
-  }
-  return bleManagerInstance;
-};
-
 /**
  * Custom hook for BLE connection management
  */
 export const useBleConnection = () => {
   const store = useBleConnectionStore();
+  // Shared with BleRepository, which handles reconnection and workout resume
   const [bleManager] = useState(() => getBleManager());
+  const [bleRepository] = useState(() => getBleRepository());
+  // The simulated trainer has no BLE manager; scans and events come from the repository
+  const [isSimulated] = useState(() => isSimulatedTrainerEnabled());
+  const [deviceSource] = useState(() => (isSimulated ? bleRepository : bleManager));
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Initialize BLE manager and set up event listeners
   useEffect(() => {
+    const handleConnectionStateChange = (state: BleConnectionState) => {
+      // Convert BLE layer state to domain layer state
+      const domainState = convertBleConnectionStateToDomain(state);
+      store.setConnectionState(domainState);
+    };
+
+    const handleDeviceScanned = (device: ScannedDevice) => {
+      store.addScannedDevice(device);
+    };
+
+    const handleDeviceFound = (device: ScannedTrainer) => {
+      store.addScannedDevice({ name: device.name ?? 'Unknown', address: device.id, rssi: device.rssi ?? 0 });
+    };
+
+    const handleMonitorData = (metric: WorkoutMetric) => {
+      store.setCurrentMetric(metric);
+    };
+
+    const handleHandleStateChange = (state: HandleState) => {
+      store.setHandleState(state);
+    };
+
+    const handleReconnectStateChange = (state: ReconnectState) => {
+      store.setReconnectState(state);
+      if (state.status === 'failed' && state.workoutInterrupted) {
+        store.setConnectionLostDuringWorkout(true);
+      }
+    };
+
+    const handleCommandResult = (result: CommandResult) => {
+      // Cancelled commands were superseded on purpose (STOP, disconnect)
+      if (result.status === 'failed' || result.status === 'timeout') {
+        store.setLastCommandFailure(result);
+      }
+    };
+
     const initialize = async () => {
       if (isInitialized) return;
 
       try {
-        await bleManager.initialize();
+        if (isSimulated) {
+          bleRepository.on('deviceFound', handleDeviceFound);
+        } else {
+          await bleManager.initialize();
+          bleManager.on('deviceScanned', handleDeviceScanned);
+        }
 
         // Set up event listeners
-        bleManager.on('connectionStateChange', (state: BleConnectionState) => {
-          // Convert BLE layer state to domain layer state
-          const domainState = convertBleConnectionStateToDomain(state);
-          store.setConnectionState(domainState);
-        });
-
-        bleManager.on('deviceScanned', (device: ScannedDevice) => {
-          store.addScannedDevice(device);
-        });
-
-        bleManager.on('monitorData', (metric: WorkoutMetric) => {
-          store.setCurrentMetric(metric);
-        });
-
-        bleManager.on('handleStateChange', (state: HandleState) => {
-          store.setHandleState(state);
-        });
+        deviceSource.on('connectionStateChange', handleConnectionStateChange);
+        deviceSource.on('monitorData', handleMonitorData);
+        deviceSource.on('handleStateChange', handleHandleStateChange);
+        deviceSource.on('commandResult', handleCommandResult);
+        bleRepository.on('reconnectStateChange', handleReconnectStateChange);
 
         setIsInitialized(true);
       } catch (error) {
@@ -160,11 +206,17 @@ export const useBleConnection = () => {
 
     initialize();
 
-    // Cleanup
+    // Cleanup (only our own listeners - the manager is shared with BleRepository)
     return () => {
-      bleManager.removeAllListeners();
+      bleManager.off('deviceScanned', handleDeviceScanned);
+      bleRepository.off('deviceFound', handleDeviceFound);
+      deviceSource.off('connectionStateChange', handleConnectionStateChange);
+      deviceSource.off('monitorData', handleMonitorData);
+      deviceSource.off('handleStateChange', handleHandleStateChange);
+      deviceSource.off('commandResult', handleCommandResult);
+      bleRepository.off('reconnectStateChange', handleReconnectStateChange);
     };
-  }, [bleManager, isInitialized, store]);
+  }, [bleManager, bleRepository, deviceSource, isSimulated, isInitialized, store]);
 
   // Start scanning for devices
   const startScanning = useCallback(async () => {
@@ -172,49 +224,50 @@ export const useBleConnection = () => {
       store.clearScannedDevices();
       store.setIsScanning(true);
       store.setConnectionError(null);
-      await bleManager.startScanning();
+      await deviceSource.startScanning();
     } catch (error) {
       console.error('Failed to start scanning:', error);
       store.setConnectionError(error instanceof Error ? error.message : 'Scan failed');
       store.setIsScanning(false);
     }
-  }, [bleManager, store]);
+  }, [deviceSource, store]);
 
   // Stop scanning
   const stopScanning = useCallback(async () => {
     try {
-      await bleManager.stopScanning();
+      await deviceSource.stopScanning();
       store.setIsScanning(false);
     } catch (error) {
       console.error('Failed to stop scanning:', error);
     }
-  }, [bleManager, store]);
+  }, [deviceSource, store]);
 
   // Connect to a specific device
   const connectToDevice = useCallback(
     async (deviceAddress: string) => {
       try {
         store.setConnectionError(null);
-        await bleManager.connectToDevice(deviceAddress);
+        await deviceSource.connectToDevice(deviceAddress);
       } catch (error) {
         console.error('Failed to connect to device:', error);
         store.setConnectionError(error instanceof Error ? error.message : 'Connection failed');
         throw error;
       }
     },
-    [bleManager, store]
+    [deviceSource, store]
   );
 
   // Disconnect from current device
   const disconnect = useCallback(async () => {
     try {
-      await bleManager.disconnect();
+      // Through the repository so it stops reconnecting and forgets the device
+      await bleRepository.disconnect();
       store.reset();
     } catch (error) {
       console.error('Failed to disconnect:', error);
       store.setConnectionError(error instanceof Error ? error.message : 'Disconnect failed');
     }
-  }, [bleManager, store]);
+  }, [bleRepository, store]);
 
   // Auto-connect to first available device
   const autoConnect = useCallback(
@@ -270,7 +323,21 @@ export const useBleConnection = () => {
 
   // Enable handle detection for auto-start
   const enableHandleDetection = useCallback(() => {
-    bleManager.enableHandleDetection();
+    deviceSource.enableHandleDetection();
+  }, [deviceSource]);
+
+  // Start capturing raw BLE traffic for offline debugging
+  const startCapture = useCallback(
+    (metadata: Record<string, unknown> = {}) => {
+      bleManager.startCapture(metadata);
+    },
+    [bleManager]
+  );
+
+  // Stop capturing and return the session file contents
+  const stopCapture = useCallback((): string | null => {
+    const session = bleManager.stopCapture();
+    return session ? serializeBleSession(session) : null;
   }, [bleManager]);
 
   // Clear connection error
@@ -283,6 +350,16 @@ export const useBleConnection = () => {
     store.setConnectionLostDuringWorkout(false);
   }, [store]);
 
+  // Clear the last command failure
+  const clearCommandFailure = useCallback(() => {
+    store.setLastCommandFailure(null);
+  }, [store]);
+
+  // Stop automatic reconnection
+  const cancelReconnect = useCallback(() => {
+    bleRepository.cancelReconnect();
+  }, [bleRepository]);
+
   return {
     // State
     connectionState: store.connectionState,
@@ -293,6 +370,8 @@ export const useBleConnection = () => {
     isAutoConnecting: store.isAutoConnecting,
     connectionError: store.connectionError,
     connectionLostDuringWorkout: store.connectionLostDuringWorkout,
+    reconnectState: store.reconnectState,
+    lastCommandFailure: store.lastCommandFailure,
     isInitialized,
 
     // Actions
@@ -302,8 +381,12 @@ export const useBleConnection = () => {
     disconnect,
     autoConnect,
     enableHandleDetection,
+    startCapture,
+    stopCapture,
     clearConnectionError,
     dismissConnectionLostAlert,
+    cancelReconnect,
+    clearCommandFailure,
 
     // BLE Manager instance (for advanced usage)
     bleManager,
@@ -0,0 +1,122 @@
+/**
+ * Custom hook for full data backups
+ * Shares backups as files and restores them from a backup file the user picks
+ */
+
+import { useState, useCallback } from 'react';
+import { getBackupRepository, RestoreMode, RestoreReport } from '../../data/repository/BackupRepository';
+import {
+  BackupArchive,
+  BackupSummary,
+  parseBackupArchive,
+  serializeBackupArchive,
+  summarizeBackupArchive,
+} from '../../data/backup/BackupArchive';
+import { pickTextFile, shareFile } from '../../utils/fileSharing';
+
+// Backups may also arrive with a generic type (e.g. from cloud drives)
+const BACKUP_MIME_TYPES = ['application/json', 'text/plain', 'application/octet-stream'];
+
+/**
+ * File name of a backup, e.g. vitruvian-backup-2026-03-14.json
+ */
+const getBackupFileName = (createdAt: number): string =>
+  `vitruvian-backup-${new Date(createdAt).toISOString().slice(0, 10)}.json`;
+
+/**
+ * Custom hook for data backup and restore
+ */
+export const useDataBackup = () => {
+  const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null);
+  const [summary, setSummary] = useState<BackupSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back up everything and open the share sheet with the backup file
+  const shareBackup = useCallback(async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const archive = await getBackupRepository().createBackup();
+      await shareFile(getBackupFileName(archive.createdAt), serializeBackupArchive(archive), {
+        mimeType: 'application/json',
+        uti: 'public.json',
+        dialogTitle: 'Vitruvian Phoenix backup',
+      });
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+      throw err;
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  // Let the user pick a backup file, validate it and summarize it (null when cancelled or invalid)
+  const pickBackup = useCallback(async (): Promise<BackupSummary | null> => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const file = await pickTextFile(BACKUP_MIME_TYPES);
+      if (!file) {
+        return null;
+      }
+      const archive = parseBackupArchive(file.text);
+      const backupSummary = summarizeBackupArchive(archive);
+      setPendingArchive(archive);
+      setSummary(backupSummary);
+      return backupSummary;
+    } catch (err) {
+      setPendingArchive(null);
+      setSummary(null);
+      setError(err instanceof Error ? err.message : 'Failed to read backup');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  // Restore the loaded backup
+  const restoreBackup = useCallback(
+    async (mode: RestoreMode): Promise<RestoreReport> => {
+      if (!pendingArchive) {
+        throw new Error('No backup to restore');
+      }
+      try {
+        setIsWorking(true);
+        setError(null);
+        const report = await getBackupRepository().restoreBackup(pendingArchive, mode);
+        setPendingArchive(null);
+        setSummary(null);
+        return report;
+      } catch (err) {
+        console.error('Failed to restore backup:', err);
+        setError(err instanceof Error ? err.message : 'Failed to restore backup');
+        throw err;
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [pendingArchive]
+  );
+
+  // Discard the loaded backup
+  const clearBackup = useCallback(() => {
+    setPendingArchive(null);
+    setSummary(null);
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    summary,
+    isWorking,
+    error,
+
+    // Actions
+    shareBackup,
+    pickBackup,
+    restoreBackup,
+    clearBackup,
+  };
+};
@@ -6,22 +6,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { create } from 'zustand';
 import { ExerciseEntity } from '../../data/local/entities';
-import {
-  getAllExercises,
-  getExerciseById,
-  getFavorites,
-  searchExercises,
-  getExercisesByMuscleGroup,
-  getExercisesByEquipment,
-  updateFavorite,
-  incrementPerformed,
-} from '../../data/local/daos/exerciseDao';
+import { getExerciseById, updateFavorite, incrementPerformed } from '../../data/local/daos/exerciseDao';
+import { CustomExerciseInput, getExerciseRepository } from '../../data/repository/ExerciseRepository';
 
 interface ExerciseLibraryState {
   exercises: ExerciseEntity[];
   searchQuery: string;
   selectedMuscleGroups: Set<string>;
   selectedEquipment: Set<string>;
+  selectedGrips: Set<string>;
+  selectedMovements: Set<string>;
   showFavoritesOnly: boolean;
   isLoading: boolean;
   error: string | null;
@@ -30,6 +24,8 @@ interface ExerciseLibraryState {
   setSearchQuery: (query: string) => void;
   setSelectedMuscleGroups: (groups: Set<string>) => void;
   setSelectedEquipment: (equipment: Set<string>) => void;
+  setSelectedGrips: (grips: Set<string>) => void;
+  setSelectedMovements: (movements: Set<string>) => void;
   setShowFavoritesOnly: (show: boolean) => void;
   setIsLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -40,6 +36,8 @@ const useExerciseLibraryStore = create<ExerciseLibraryState>((set) => ({
   searchQuery: '',
   selectedMuscleGroups: new Set(),
   selectedEquipment: new Set(),
+  selectedGrips: new Set(),
+  selectedMovements: new Set(),
   showFavoritesOnly: false,
   isLoading: false,
   error: null,
@@ -48,6 +46,8 @@ const useExerciseLibraryStore = create<ExerciseLibraryState>((set) => ({
   setSearchQuery: (query) => set({ searchQuery: query }),
   setSelectedMuscleGroups: (groups) => set({ selectedMuscleGroups: groups }),
   setSelectedEquipment: (equipment) => set({ selectedEquipment: equipment }),
+  setSelectedGrips: (grips) => set({ selectedGrips: grips }),
+  setSelectedMovements: (movements) => set({ selectedMovements: movements }),
   setShowFavoritesOnly: (show) => set({ showFavoritesOnly: show }),
   setIsLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
@@ -88,61 +88,14 @@ export const useExerciseLibrary = () => {
       store.setIsLoading(true);
       store.setError(null);
 
-      let exercises: ExerciseEntity[] = [];
-
-      // Show favorites only
-      if (store.showFavoritesOnly) {
-        exercises = await getFavorites();
-      }
-      // Search query takes precedence
-      else if (store.searchQuery.trim().length > 0) {
-        exercises = await searchExercises(store.searchQuery.trim());
-      }
-      // Filter by muscle group
-      else if (store.selectedMuscleGroups.size > 0) {
-        const results = await Promise.all(
-          Array.from(store.selectedMuscleGroups).map((group) => getExercisesByMuscleGroup(group))
-        );
-        // Flatten and remove duplicates
-        const allExercises = results.flat();
-        const uniqueIds = new Set<string>();
-        exercises = allExercises.filter((ex) => {
-          if (uniqueIds.has(ex.id)) return false;
-          uniqueIds.add(ex.id);
-          return true;
-        });
-      }
-      // Filter by equipment
-      else if (store.selectedEquipment.size > 0) {
-        const results = await Promise.all(
-          Array.from(store.selectedEquipment).map((equipment) => getExercisesByEquipment(equipment))
-        );
-        // Flatten and remove duplicates
-        const allExercises = results.flat();
-        const uniqueIds = new Set<string>();
-        exercises = allExercises.filter((ex) => {
-          if (uniqueIds.has(ex.id)) return false;
-          uniqueIds.add(ex.id);
-          return true;
-        });
-      }
-      // No filters, show all
-      else {
-        exercises = await getAllExercises();
-      }
-
-      // Apply additional filters if both muscle and equipment are selected
-      if (store.selectedMuscleGroups.size > 0 && store.selectedEquipment.size > 0) {
-        exercises = exercises.filter((exercise) => {
-          const matchesMuscle = Array.from(store.selectedMuscleGroups).some((group) =>
-            exercise.muscleGroups.includes(group)
-          );
-          const matchesEquipment = Array.from(store.selectedEquipment).some((equipment) =>
-            exercise.equipment.includes(equipment)
-          );
-          return matchesMuscle && matchesEquipment;
-        });
-      }
+      // Search and every filter combine
+      const exercises = await getExerciseRepository().searchLibrary(store.searchQuery, {
+        muscleGroups: Array.from(store.selectedMuscleGroups),
+        equipment: Array.from(store.selectedEquipment),
+        grips: Array.from(store.selectedGrips),
+        movements: Array.from(store.selectedMovements),
+        favoritesOnly: store.showFavoritesOnly,
+      });
 
       store.setExercises(exercises);
     } catch (err) {
@@ -192,6 +145,36 @@ export const useExerciseLibrary = () => {
     [store, loadExercises]
   );
 
+  // Toggle grip filter
+  const toggleGripFilter = useCallback(
+    (grip: string) => {
+      const newGrips = new Set(store.selectedGrips);
+      if (newGrips.has(grip)) {
+        newGrips.delete(grip);
+      } else {
+        newGrips.add(grip);
+      }
+      store.setSelectedGrips(newGrips);
+      loadExercises();
+    },
+    [store, loadExercises]
+  );
+
+  // Toggle movement filter
+  const toggleMovementFilter = useCallback(
+    (movement: string) => {
+      const newMovements = new Set(store.selectedMovements);
+      if (newMovements.has(movement)) {
+        newMovements.delete(movement);
+      } else {
+        newMovements.add(movement);
+      }
+      store.setSelectedMovements(newMovements);
+      loadExercises();
+    },
+    [store, loadExercises]
+  );
+
   // Toggle favorite
   const toggleFavorite = useCallback(
     async (exerciseId: string) => {
@@ -220,6 +203,8 @@ export const useExerciseLibrary = () => {
     store.setSearchQuery('');
     store.setSelectedMuscleGroups(new Set());
     store.setSelectedEquipment(new Set());
+    store.setSelectedGrips(new Set());
+    store.setSelectedMovements(new Set());
     store.setShowFavoritesOnly(false);
     loadExercises();
   }, [store, loadExercises]);
@@ -243,6 +228,40 @@ export const useExerciseLibrary = () => {
     }
   }, []);
 
+  // Create a custom exercise (validation errors are thrown for the editor to show)
+  const createCustomExercise = useCallback(
+    async (input: CustomExerciseInput): Promise<ExerciseEntity> => {
+      const exercise = await getExerciseRepository().createCustomExercise(input);
+      await loadExercises();
+      return exercise;
+    },
+    [loadExercises]
+  );
+
+  // Edit a custom exercise
+  const updateCustomExercise = useCallback(
+    async (exerciseId: string, input: CustomExerciseInput): Promise<ExerciseEntity> => {
+      const exercise = await getExerciseRepository().updateCustomExercise(exerciseId, input);
+      await loadExercises();
+      return exercise;
+    },
+    [loadExercises]
+  );
+
+  // Archive a custom exercise (routines, history and records that use it are kept)
+  const archiveCustomExercise = useCallback(
+    async (exerciseId: string) => {
+      try {
+        await getExerciseRepository().archiveCustomExercise(exerciseId);
+        await loadExercises();
+      } catch (err) {
+        console.error('Failed to archive custom exercise:', err);
+        store.setError('Failed to archive exercise');
+      }
+    },
+    [store, loadExercises]
+  );
+
   // Load exercises on mount and when filters change
   useEffect(() => {
     loadExercises();
@@ -250,6 +269,8 @@ export const useExerciseLibrary = () => {
     store.searchQuery,
     store.selectedMuscleGroups,
     store.selectedEquipment,
+    store.selectedGrips,
+    store.selectedMovements,
     store.showFavoritesOnly,
   ]);
 
@@ -259,6 +280,8 @@ export const useExerciseLibrary = () => {
     searchQuery: store.searchQuery,
     selectedMuscleGroups: store.selectedMuscleGroups,
     selectedEquipment: store.selectedEquipment,
+    selectedGrips: store.selectedGrips,
+    selectedMovements: store.selectedMovements,
     showFavoritesOnly: store.showFavoritesOnly,
     isLoading: store.isLoading,
     error: store.error,
@@ -267,11 +290,16 @@ export const useExerciseLibrary = () => {
     updateSearchQuery,
     toggleMuscleGroupFilter,
     toggleEquipmentFilter,
+    toggleGripFilter,
+    toggleMovementFilter,
     toggleFavorite,
     toggleShowFavoritesOnly,
     clearFilters,
     getExercise,
     markExercisePerformed,
+    createCustomExercise,
+    updateCustomExercise,
+    archiveCustomExercise,
     refresh: loadExercises,
   };
 };
@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { PersonalRecord } from '../../domain/models/Models';
+import { OneRepMaxEstimate, OneRepMaxFormula, PersonalRecord } from '../../domain/models/Models';
 import { PersonalRecordEntity } from '../../data/local/entities';
 import {
   getAllPRs,
@@ -14,12 +14,17 @@ import {
   getLatestPR,
   updatePRIfBetter,
 } from '../../data/local/daos/personalRecordDao';
+import { getPersonalRecordRepository } from '../../data/repository/PersonalRecordRepository';
+
+// Sessions saved before one-rep max tracking are estimated once per app run
+let oneRepMaxBackfillDone = false;
 
 /**
  * Custom hook for personal records management
  */
 export const usePersonalRecords = () => {
   const [allPRs, setAllPRs] = useState<PersonalRecordEntity[]>([]);
+  const [oneRepMaxHistory, setOneRepMaxHistory] = useState<OneRepMaxEstimate[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -106,6 +111,21 @@ export const usePersonalRecords = () => {
     [loadAllPRs]
   );
 
+  // Load the estimated one-rep max history of every exercise for a formula
+  const loadOneRepMaxHistory = useCallback(async (formula: OneRepMaxFormula) => {
+    try {
+      const repository = getPersonalRecordRepository();
+      if (!oneRepMaxBackfillDone) {
+        oneRepMaxBackfillDone = true;
+        await repository.backfillOneRepMaxEstimates();
+      }
+      setOneRepMaxHistory(await repository.getAllOneRepMaxHistory(formula));
+    } catch (err) {
+      console.error('Failed to load one-rep max history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load one-rep max history');
+    }
+  }, []);
+
   // Convert PersonalRecordEntity to domain PersonalRecord
   const mapToDomainPR = (entity: PersonalRecordEntity): PersonalRecord => ({
     id: entity.id ?? 0,
@@ -114,6 +134,9 @@ export const usePersonalRecords = () => {
     reps: entity.reps,
     timestamp: entity.timestamp,
     workoutMode: entity.workoutMode,
+    category: entity.category,
+    value: entity.value,
+    sessionId: entity.sessionId,
   });
 
   // Get all PRs as domain objects
@@ -129,6 +152,7 @@ export const usePersonalRecords = () => {
   return {
     // State
     allPRs,
+    oneRepMaxHistory,
     isLoading,
     error,
 
@@ -140,6 +164,7 @@ export const usePersonalRecords = () => {
     getLatestPRForExercise,
     checkAndUpdatePR,
     getAllPRsAsDomain,
+    loadOneRepMaxHistory,
     refresh: loadAllPRs,
   };
 };
@@ -6,7 +6,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { getPreferencesManager } from '../../data/repository';
 import { UserPreferences } from '../../domain/models/UserPreferences';
-import { WeightUnit } from '../../domain/models/Models';
+import { OneRepMaxFormula, WeightUnit } from '../../domain/models/Models';
 
 export const usePreferences = () => {
   const preferencesManager = getPreferencesManager();
@@ -14,6 +14,8 @@ export const usePreferences = () => {
     weightUnit: WeightUnit.KG,
     autoplayEnabled: true,
     stopAtTop: false,
+    oneRepMaxFormula: 'epley',
+    autoApplyProgression: false,
   });
   const [isLoading, setIsLoading] = useState(true);
 
@@ -83,6 +85,30 @@ export const usePreferences = () => {
     [preferencesManager]
   );
 
+  // Set one-rep max formula
+  const setOneRepMaxFormula = useCallback(
+    async (formula: OneRepMaxFormula) => {
+      try {
+        await preferencesManager.setOneRepMaxFormula(formula);
+      } catch (error) {
+        console.error('Failed to set one-rep max formula:', error);
+      }
+    },
+    [preferencesManager]
+  );
+
+  // Set auto-apply progression
+  const setAutoApplyProgression = useCallback(
+    async (enabled: boolean) => {
+      try {
+        await preferencesManager.setAutoApplyProgression(enabled);
+      } catch (error) {
+        console.error('Failed to set auto-apply progression:', error);
+      }
+    },
+    [preferencesManager]
+  );
+
   // Clear all preferences
   const clearPreferences = useCallback(async () => {
     try {
@@ -98,6 +124,8 @@ export const usePreferences = () => {
     setWeightUnit,
     setAutoplayEnabled,
     setStopAtTop,
+    setOneRepMaxFormula,
+    setAutoApplyProgression,
     clearPreferences,
   };
 };
@@ -0,0 +1,190 @@
+/**
+ * Custom hook for routine auto-progression
+ * Reviews the last run of a routine, proposes the next prescription and records the decision
+ */
+
+import { useState, useCallback } from 'react';
+import { Routine, ProgressionLogEntry } from '../../domain/models/Routine';
+import { getWorkoutRepository } from '../../data/repository/WorkoutRepository';
+import { getPreferencesManager } from '../../data/repository';
+import {
+  applyProgressionProposal,
+  CompletedSet,
+  isProgressionChange,
+  ProgressionProposal,
+  proposeProgression,
+} from '../../domain/usecases/ProgressionEngine';
+import { summarizeSet } from '../../domain/usecases/SessionAnalysis';
+
+/**
+ * Proposals for the last run of a routine
+ */
+export interface ProgressionReview {
+  routine: Routine;
+  proposals: ProgressionProposal[];
+}
+
+/**
+ * Custom hook for routine progression
+ */
+export const useProgression = () => {
+  const [pendingReview, setPendingReview] = useState<ProgressionReview | null>(null);
+  const [history, setHistory] = useState<ProgressionLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Build the proposals for the last run of a routine.
+  // Returns null when the run was already reviewed or no progressing exercise was performed.
+  const reviewRoutine = useCallback(async (routineId: string): Promise<ProgressionReview | null> => {
+    try {
+      const repository = getWorkoutRepository();
+      const routine = await repository.getRoutine(routineId);
+      if (!routine?.lastUsed) {
+        return null;
+      }
+
+      const lastReview = await repository.getLastProgressionReview(routineId);
+      if (lastReview !== null && lastReview >= routine.lastUsed) {
+        return null;
+      }
+
+      const progressing = (routine.exercises ?? []).filter(
+        (exercise) => exercise.progression && exercise.progression.scheme !== 'none' && exercise.exercise.id
+      );
+      if (progressing.length === 0) {
+        return null;
+      }
+
+      // Sets of this routine since it was last started belong to this run
+      const runSessions = (await repository.getAllSessions()).filter(
+        (session) =>
+          session.routineId === routineId &&
+          (session.timestamp ?? 0) >= routine.lastUsed! &&
+          !session.isJustLift &&
+          session.id
+      );
+
+      const proposals: ProgressionProposal[] = [];
+      for (const exercise of progressing) {
+        const sets: CompletedSet[] = [];
+        for (const session of runSessions.filter((s) => s.routineExerciseId === exercise.id)) {
+          const reps = await repository.getRepsForSession(session.id!);
+          const summary = summarizeSet(session, reps, []);
+          sets.push({
+            sessionId: session.id!,
+            timestamp: session.timestamp ?? 0,
+            weightPerCableKg: session.weightPerCableKg ?? 0,
+            completedReps: summary.workingReps,
+            velocityLossPercent: summary.velocityLossPercent,
+          });
+        }
+
+        const proposal = proposeProgression(exercise, sets);
+        if (proposal) {
+          proposals.push(proposal);
+        }
+      }
+
+      return proposals.length > 0 ? { routine, proposals } : null;
+    } catch (err) {
+      console.error('Failed to review routine progression:', err);
+      return null;
+    }
+  }, []);
+
+  // Apply (or decline) a review and record every decision in the audit trail
+  const resolveReview = useCallback(async (review: ProgressionReview, apply: boolean) => {
+    try {
+      setError(null);
+      const repository = getWorkoutRepository();
+      const { routine, proposals } = review;
+
+      if (apply && proposals.some(isProgressionChange)) {
+        const exercises = (routine.exercises ?? []).map((exercise) => {
+          const proposal = proposals.find((p) => p.routineExerciseId === exercise.id);
+          return proposal ? applyProgressionProposal(exercise, proposal) : exercise;
+        });
+        await repository.updateRoutine({ ...routine, exercises });
+      }
+
+      const timestamp = Date.now();
+      await repository.saveProgressionLog(
+        proposals.map((proposal) => ({
+          routineId: routine.id,
+          routineExerciseId: proposal.routineExerciseId,
+          exerciseId: proposal.exerciseId,
+          exerciseName: proposal.exerciseName,
+          timestamp,
+          scheme: proposal.scheme,
+          previousWeightPerCableKg: proposal.previousWeightPerCableKg,
+          newWeightPerCableKg: proposal.newWeightPerCableKg,
+          previousSetReps: proposal.previousSetReps,
+          newSetReps: proposal.newSetReps,
+          reason: proposal.reason,
+          sessionIds: proposal.sessionIds,
+          applied: apply,
+        }))
+      );
+
+      setPendingReview((current) => (current?.routine.id === routine.id ? null : current));
+      console.log(`Progression ${apply ? 'applied' : 'declined'} for routine: ${routine.name}`);
+    } catch (err) {
+      console.error('Failed to resolve progression review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update routine progression');
+      throw err;
+    }
+  }, []);
+
+  // Review a routine after a run: apply right away when auto-apply is enabled, otherwise keep it pending
+  const checkRoutine = useCallback(
+    async (routineId: string): Promise<ProgressionReview | null> => {
+      const review = await reviewRoutine(routineId);
+      if (!review) {
+        return null;
+      }
+
+      const preferences = await getPreferencesManager().getPreferences();
+      if (preferences.autoApplyProgression) {
+        await resolveReview(review, true);
+      } else {
+        setPendingReview(review);
+      }
+      return review;
+    },
+    [reviewRoutine, resolveReview]
+  );
+
+  // Close the pending review without recording a decision (it is offered again later)
+  const dismissReview = useCallback(() => {
+    setPendingReview(null);
+  }, []);
+
+  // Load the progression history of a routine
+  const loadHistory = useCallback(async (routineId: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setHistory(await getWorkoutRepository().getProgressionLog(routineId));
+    } catch (err) {
+      console.error('Failed to load progression history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load progression history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    // State
+    pendingReview,
+    history,
+    isLoading,
+    error,
+
+    // Actions
+    reviewRoutine,
+    checkRoutine,
+    resolveReview,
+    dismissReview,
+    loadHistory,
+  };
+};
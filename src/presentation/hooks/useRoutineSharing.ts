@@ -0,0 +1,130 @@
+/**
+ * Custom hook for sharing routines and weekly programs
+ * Sends share files through the share sheet and imports them from pasted text or deep links
+ */
+
+import { useState, useCallback } from 'react';
+import { Share } from 'react-native';
+import {
+  getShareRepository,
+  ShareConflictResolution,
+  ShareImportPreview,
+  ShareImportResult,
+} from '../../data/repository/ShareRepository';
+import { buildShareLink, extractShareText, parseShareFile, ShareFile } from '../../data/share/ShareFile';
+
+/**
+ * Custom hook for routine and program sharing
+ */
+export const useRoutineSharing = () => {
+  const [pendingFile, setPendingFile] = useState<ShareFile | null>(null);
+  const [preview, setPreview] = useState<ShareImportPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Open the share sheet with a share file as an import link
+  const shareFile = useCallback(async (file: ShareFile, title: string) => {
+    await Share.share({
+      title,
+      message: `${title} - open in Vitruvian Phoenix to import:\n${buildShareLink(file)}`,
+    });
+  }, []);
+
+  // Share a routine
+  const shareRoutine = useCallback(
+    async (routineId: string) => {
+      try {
+        setError(null);
+        const file = await getShareRepository().exportRoutine(routineId);
+        await shareFile(file, file.routines[0].name);
+      } catch (err) {
+        console.error('Failed to share routine:', err);
+        setError(err instanceof Error ? err.message : 'Failed to share routine');
+        throw err;
+      }
+    },
+    [shareFile]
+  );
+
+  // Share a weekly program with its routines
+  const shareProgram = useCallback(
+    async (programId: string) => {
+      try {
+        setError(null);
+        const file = await getShareRepository().exportProgram(programId);
+        await shareFile(file, file.program?.title ?? 'Weekly program');
+      } catch (err) {
+        console.error('Failed to share program:', err);
+        setError(err instanceof Error ? err.message : 'Failed to share program');
+        throw err;
+      }
+    },
+    [shareFile]
+  );
+
+  // Validate shared text (JSON or a message with an import link) and preview what it would add
+  const loadImport = useCallback(async (text: string): Promise<ShareImportPreview | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const file = parseShareFile(extractShareText(text));
+      const importPreview = await getShareRepository().previewImport(file);
+      setPendingFile(file);
+      setPreview(importPreview);
+      return importPreview;
+    } catch (err) {
+      console.error('Failed to read share file:', err);
+      setPendingFile(null);
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to read share file');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Import the previewed share file
+  const confirmImport = useCallback(
+    async (resolution: ShareConflictResolution): Promise<ShareImportResult> => {
+      if (!pendingFile) {
+        throw new Error('No share file to import');
+      }
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await getShareRepository().importShareFile(pendingFile, resolution);
+        setPendingFile(null);
+        setPreview(null);
+        return result;
+      } catch (err) {
+        console.error('Failed to import share file:', err);
+        setError(err instanceof Error ? err.message : 'Failed to import share file');
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [pendingFile]
+  );
+
+  // Discard the previewed share file
+  const clearImport = useCallback(() => {
+    setPendingFile(null);
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    preview,
+    isLoading,
+    error,
+
+    // Actions
+    shareRoutine,
+    shareProgram,
+    loadImport,
+    confirmImport,
+    clearImport,
+  };
+};
@@ -1,65 +1,336 @@
 /**
  * Custom hook for routine management
  * Replaces routine management from MainViewModel
+ * A loaded routine is walked set by set, alternating the exercises of supersets and circuits.
+ * Every trainer walks its own loaded routine, so athletes training side by side can follow different routines.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { create } from 'zustand';
 import { Routine, RoutineExercise } from '../../domain/models/Routine';
 import {
   getAllRoutines,
-  getRoutineById,
-  insertRoutine,
+  insertRoutineWithExercises,
   updateRoutineWithExercises,
   deleteRoutineComplete,
   markRoutineUsed,
 } from '../../data/local/daos/workoutDao';
+import { RoutineEntity, RoutineExerciseEntity } from '../../data/local/entities';
+import { formatSetModes, getWorkoutRepository } from '../../data/repository/WorkoutRepository';
 import { generateUUID } from '../../domain/models/Models';
+import { buildRoutineSteps, getRestAfterStep, StepRest } from '../../domain/usecases/ExerciseGrouping';
+import { useSelectedTrainerId } from './useTrainers';
 
 interface RoutinesState {
   routines: Routine[];
-  loadedRoutine: Routine | null;
-  currentExerciseIndex: number;
-  currentSetIndex: number;
   isLoading: boolean;
   error: string | null;
 
   setRoutines: (routines: Routine[]) => void;
-  setLoadedRoutine: (routine: Routine | null) => void;
-  setCurrentExerciseIndex: (index: number) => void;
-  setCurrentSetIndex: (index: number) => void;
   setIsLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  reset: () => void;
 }
 
 const useRoutinesStore = create<RoutinesState>((set) => ({
   routines: [],
-  loadedRoutine: null,
-  currentExerciseIndex: 0,
-  currentSetIndex: 0,
   isLoading: false,
   error: null,
 
   setRoutines: (routines) => set({ routines }),
-  setLoadedRoutine: (routine) => set({ loadedRoutine: routine }),
-  setCurrentExerciseIndex: (index) => set({ currentExerciseIndex: index }),
-  setCurrentSetIndex: (index) => set({ currentSetIndex: index }),
   setIsLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
+}));
+
+interface RoutineProgressState {
+  loadedRoutine: Routine | null;
+  currentExerciseIndex: number;
+  currentSetIndex: number;
+  currentStepIndex: number; // Position in the routine's set order (see buildRoutineSteps)
+  isEnding: boolean; // Set when the user ends the workout, so no rest follows the stopped set
+
+  setLoadedRoutine: (routine: Routine | null) => void;
+  setCurrentExerciseIndex: (index: number) => void;
+  setCurrentSetIndex: (index: number) => void;
+  setCurrentStep: (stepIndex: number, exerciseIndex: number, setIndex: number) => void;
+  setIsEnding: (isEnding: boolean) => void;
+  reset: () => void;
+}
+
+const createRoutineProgressStore = () => create<RoutineProgressState>((set) => ({
+  loadedRoutine: null,
+  currentExerciseIndex: 0,
+  currentSetIndex: 0,
+  currentStepIndex: 0,
+  isEnding: false,
+
+  setLoadedRoutine: (routine) => set({ loadedRoutine: routine, isEnding: false }),
+  setCurrentExerciseIndex: (index) => set({ currentExerciseIndex: index }),
+  setCurrentSetIndex: (index) => set({ currentSetIndex: index }),
+  setCurrentStep: (stepIndex, exerciseIndex, setIndex) =>
+    set({ currentStepIndex: stepIndex, currentExerciseIndex: exerciseIndex, currentSetIndex: setIndex }),
+  setIsEnding: (isEnding) => set({ isEnding }),
   reset: () =>
     set({
       loadedRoutine: null,
       currentExerciseIndex: 0,
       currentSetIndex: 0,
+      currentStepIndex: 0,
+      isEnding: false,
     }),
 }));
 
+type RoutineProgressStore = ReturnType<typeof createRoutineProgressStore>;
+
+const routineProgressStores = new Map<string, RoutineProgressStore>();
+
+/**
+ * Routine progress store of a trainer, created on first use
+ */
+const getRoutineProgressStore = (trainerId: string): RoutineProgressStore => {
+  let progressStore = routineProgressStores.get(trainerId);
+  if (!progressStore) {
+    progressStore = createRoutineProgressStore();
+    routineProgressStores.set(trainerId, progressStore);
+  }
+  return progressStore;
+};
+
+/**
+ * Convert a Routine and its exercises to database entities
+ */
+const routineToEntities = (
+  routine: Routine
+): { routineEntity: RoutineEntity; exerciseEntities: RoutineExerciseEntity[] } => {
+  const routineEntity: RoutineEntity = {
+    id: routine.id,
+    name: routine.name,
+    description: routine.description || '',
+    createdAt: routine.createdAt || Date.now(),
+    lastUsed: routine.lastUsed ?? null,
+    useCount: routine.useCount || 0,
+  };
+
+  const exerciseEntities: RoutineExerciseEntity[] = (routine.exercises || []).map((ex) => ({
+    id: ex.id,
+    routineId: routine.id,
+    exerciseName: ex.exercise.name,
+    exerciseMuscleGroup: ex.exercise.muscleGroup,
+    exerciseEquipment: ex.exercise.equipment || '',
+    exerciseDefaultCableConfig: ex.exercise.defaultCableConfig || 'DOUBLE',
+    exerciseId: ex.exercise.id || null,
+    cableConfig: ex.cableConfig || 'DOUBLE',
+    orderIndex: ex.orderIndex,
+    setReps: (ex.setReps || []).join(','),
+    weightPerCableKg: ex.weightPerCableKg,
+    setWeights: (ex.setWeightsPerCableKg || []).join(','),
+    mode: ex.workoutType?.type === 'echo' ? 'Echo' :
+          ex.workoutType?.type === 'program' ? ex.workoutType.mode.displayName.replace(/\s+/g, '') :
+          'OldSchool',
+    eccentricLoad: ex.workoutType?.type === 'echo' ? ex.workoutType.eccentricLoad : (ex.eccentricLoad || 100),
+    echoLevel: ex.workoutType?.type === 'echo' ? ex.workoutType.level : (ex.echoLevel || 1),
+    progressionKg: ex.progressionKg || 0,
+    restSeconds: ex.restSeconds || 60,
+    notes: ex.notes || '',
+    duration: ex.duration ?? null,
+    setType: ex.setType ?? 'reps',
+    velocityLossPercent: ex.velocityLossPercent ?? null,
+    setModes: formatSetModes(ex.setModes),
+    progressionScheme: ex.progression?.scheme ?? 'none',
+    progressionIncrementKg: ex.progression?.incrementKg ?? 1,
+    repRangeMin: ex.progression?.repRangeMin ?? null,
+    repRangeMax: ex.progression?.repRangeMax ?? null,
+    targetRpe: ex.progression?.targetRpe ?? null,
+    groupId: ex.group?.id ?? null,
+    groupType: ex.group?.type ?? null,
+    groupExerciseRestSeconds: ex.group?.restBetweenExercisesSeconds ?? null,
+    groupRoundRestSeconds: ex.group?.restBetweenRoundsSeconds ?? null,
+    dropCount: ex.dropSet?.drops ?? 0,
+    dropTrigger: ex.dropSet?.trigger ?? 'reps',
+    dropReduction: ex.dropSet?.reduction ?? 'percent',
+    dropAmount: ex.dropSet?.amount ?? 20,
+    dropReps: ex.dropSet?.repsPerDrop ?? 6,
+    dropLastSetOnly: ex.dropSet?.lastSetOnly ?? true,
+  }));
+
+  return { routineEntity, exerciseEntities };
+};
+
+/**
+ * Custom hook for the routine loaded on a trainer (the selected trainer by default)
+ */
+export const useRoutineProgress = (trainerId?: string) => {
+  const selectedTrainerId = useSelectedTrainerId();
+  const store = getRoutineProgressStore(trainerId ?? selectedTrainerId)();
+
+  // Set order of the loaded routine
+  const steps = useMemo(() => buildRoutineSteps(store.loadedRoutine?.exercises ?? []), [store.loadedRoutine]);
+
+  // Load a routine for workout execution
+  const loadRoutine = useCallback(
+    (routine: Routine) => {
+      if (!routine.exercises || routine.exercises.length === 0) {
+        console.warn('Cannot load routine with no exercises');
+        return;
+      }
+
+      store.setLoadedRoutine(routine);
+      const firstStep = buildRoutineSteps(routine.exercises)[0];
+      store.setCurrentStep(0, firstStep?.exerciseIndex ?? 0, firstStep?.setIndex ?? 0);
+
+      // Mark routine as used
+      markRoutineUsed(routine.id).catch((err) => {
+        console.error('Failed to mark routine as used:', err);
+      });
+
+      console.log(`Routine loaded: ${routine.name}`);
+      console.log(`  Total exercises: ${routine.exercises.length}`);
+      console.log(`  First exercise: ${routine.exercises[0].exercise.name}`);
+    },
+    [store]
+  );
+
+  // Clear loaded routine
+  const clearLoadedRoutine = useCallback(() => {
+    store.reset();
+    console.log('Cleared loaded routine');
+  }, [store]);
+
+  // End the routine after the current set (no rest or further sets follow it)
+  const endAfterCurrentSet = useCallback(() => {
+    store.setIsEnding(true);
+  }, [store]);
+
+  // Get current exercise from loaded routine
+  const getCurrentExercise = useCallback((): RoutineExercise | null => {
+    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
+      return null;
+    }
+    return store.loadedRoutine.exercises[store.currentExerciseIndex] || null;
+  }, [store.loadedRoutine, store.currentExerciseIndex]);
+
+  // Move to a step of the loaded routine
+  const goToStep = useCallback(
+    (stepIndex: number) => {
+      const step = steps[stepIndex];
+      if (step) {
+        store.setCurrentStep(stepIndex, step.exerciseIndex, step.setIndex);
+      }
+    },
+    [store, steps]
+  );
+
+  // Move to the first set of the next exercise
+  const nextExercise = useCallback(() => {
+    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
+      return;
+    }
+
+    const totalExercises = store.loadedRoutine.exercises.length;
+    const nextStepIndex = steps.findIndex(
+      (step, index) => index > store.currentStepIndex && step.exerciseIndex > store.currentExerciseIndex
+    );
+
+    if (nextStepIndex >= 0) {
+      goToStep(nextStepIndex);
+      console.log(`Moved to exercise ${steps[nextStepIndex].exerciseIndex + 1}/${totalExercises}`);
+    } else {
+      console.log('Last exercise in routine completed');
+      clearLoadedRoutine();
+    }
+  }, [store, steps, goToStep, clearLoadedRoutine]);
+
+  // Move to the first set of the previous exercise
+  const previousExercise = useCallback(() => {
+    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
+      return;
+    }
+
+    const previousStepIndex = steps.findIndex(
+      (step) => step.exerciseIndex === store.currentExerciseIndex - 1 && step.setIndex === 0
+    );
+
+    if (previousStepIndex >= 0) {
+      goToStep(previousStepIndex);
+      console.log(`Moved to exercise ${store.currentExerciseIndex}/${store.loadedRoutine.exercises.length}`);
+    }
+  }, [store, steps, goToStep]);
+
+  // Move to the next set in routine order (the next exercise of a superset or circuit round)
+  const nextSet = useCallback(() => {
+    if (!store.loadedRoutine) {
+      return;
+    }
+
+    const nextStepIndex = store.currentStepIndex + 1;
+    if (nextStepIndex < steps.length) {
+      goToStep(nextStepIndex);
+      const step = steps[nextStepIndex];
+      console.log(`Moved to exercise ${step.exerciseIndex + 1}, set ${step.setIndex + 1} (step ${nextStepIndex + 1}/${steps.length})`);
+    } else {
+      console.log('Last set in routine completed');
+      clearLoadedRoutine();
+    }
+  }, [store, steps, goToStep, clearLoadedRoutine]);
+
+  // Check if there are more sets of the current exercise
+  const hasMoreSets = useCallback((): boolean => {
+    return steps.some(
+      (step, index) => index > store.currentStepIndex && step.exerciseIndex === store.currentExerciseIndex
+    );
+  }, [steps, store.currentStepIndex, store.currentExerciseIndex]);
+
+  // Check if there are more exercises in routine
+  const hasMoreExercises = useCallback((): boolean => {
+    return steps.some(
+      (step, index) => index > store.currentStepIndex && step.exerciseIndex !== store.currentExerciseIndex
+    );
+  }, [steps, store.currentStepIndex, store.currentExerciseIndex]);
+
+  // Rest after the current set and the set that follows it (null after the routine's last set)
+  const getRestAfterCurrentSet = useCallback((): StepRest | null => {
+    if (!store.loadedRoutine?.exercises) {
+      return null;
+    }
+    return getRestAfterStep(store.loadedRoutine.exercises, steps, store.currentStepIndex);
+  }, [store.loadedRoutine, steps, store.currentStepIndex]);
+
+  // Exercise and set that follow the current set
+  const getUpcomingSet = useCallback((): { routineExercise: RoutineExercise; setIndex: number } | null => {
+    const step = steps[store.currentStepIndex + 1];
+    const routineExercise = step ? store.loadedRoutine?.exercises?.[step.exerciseIndex] : undefined;
+    return step && routineExercise ? { routineExercise, setIndex: step.setIndex } : null;
+  }, [store.loadedRoutine, steps, store.currentStepIndex]);
+
+  return {
+    // State
+    loadedRoutine: store.loadedRoutine,
+    currentExerciseIndex: store.currentExerciseIndex,
+    currentSetIndex: store.currentSetIndex,
+    currentStepIndex: store.currentStepIndex,
+    totalSteps: steps.length,
+    isEnding: store.isEnding,
+
+    // Actions
+    loadRoutine,
+    clearLoadedRoutine,
+    endAfterCurrentSet,
+    getCurrentExercise,
+    nextExercise,
+    previousExercise,
+    nextSet,
+    hasMoreSets,
+    hasMoreExercises,
+    getRestAfterCurrentSet,
+    getUpcomingSet,
+  };
+};
+
 /**
  * Custom hook for routine management
  */
-export const useRoutines = () => {
+export const useRoutines = (trainerId?: string) => {
   const store = useRoutinesStore();
+  const progress = useRoutineProgress(trainerId);
 
   // Load all routines
   const loadRoutines = useCallback(async () => {
@@ -76,33 +347,28 @@ export const useRoutines = () => {
     }
   }, [store]);
 
-  // Get routine by ID
+  // Get routine by ID (with its exercises)
   const getRoutine = useCallback(async (routineId: string): Promise<Routine | null> => {
     try {
-      return await getRoutineById(routineId);
+      return await getWorkoutRepository().getRoutine(routineId);
     } catch (err) {
       console.error('Failed to get routine:', err);
       return null;
     }
   }, []);
 
-  // Save a new routine
+  // Save a new routine with its exercises
   const saveRoutine = useCallback(
     async (routine: Routine) => {
       try {
         store.setError(null);
 
-        // Convert Routine to RoutineEntity
-        const routineEntity = {
+        const { routineEntity, exerciseEntities } = routineToEntities({
+          ...routine,
           id: routine.id || generateUUID(),
-          name: routine.name,
-          description: routine.description || '',
-          createdAt: routine.createdAt || Date.now(),
-          lastUsed: routine.lastUsed ?? null,
-          useCount: routine.useCount || 0,
-        };
-
-        await insertRoutine(routineEntity);
+        });
+
+        await insertRoutineWithExercises(routineEntity, exerciseEntities);
         await loadRoutines();
         console.log(`Routine saved: ${routine.name}`);
       } catch (err) {
@@ -120,40 +386,7 @@ export const useRoutines = () => {
       try {
         store.setError(null);
 
-        // Convert Routine to RoutineEntity
-        const routineEntity = {
-          id: routine.id,
-          name: routine.name,
-          description: routine.description || '',
-          createdAt: routine.createdAt || Date.now(),
-          lastUsed: routine.lastUsed ?? null,
-          useCount: routine.useCount || 0,
-        };
-
-        // Convert RoutineExercises to RoutineExerciseEntities
-        const exerciseEntities = (routine.exercises || []).map((ex, index) => ({
-          id: ex.id,
-          routineId: routine.id,
-          exerciseName: ex.exercise.name,
-          exerciseMuscleGroup: ex.exercise.muscleGroup,
-          exerciseEquipment: ex.exercise.equipment || '',
-          exerciseDefaultCableConfig: ex.exercise.defaultCableConfig || 'DOUBLE',
-          exerciseId: ex.exercise.id || null,
-          cableConfig: ex.cableConfig || 'DOUBLE',
-          orderIndex: ex.orderIndex,
-          setReps: (ex.setReps || []).join(','),
-          weightPerCableKg: ex.weightPerCableKg,
-          setWeights: (ex.setWeightsPerCableKg || []).join(','),
-          mode: ex.workoutType?.type === 'echo' ? 'Echo' :
-                ex.workoutType?.type === 'program' ? ex.workoutType.mode.displayName.replace(/\s+/g, '') :
-                'OldSchool',
-          eccentricLoad: ex.workoutType?.type === 'echo' ? ex.workoutType.eccentricLoad : (ex.eccentricLoad || 100),
-          echoLevel: ex.workoutType?.type === 'echo' ? ex.workoutType.level : (ex.echoLevel || 1),
-          progressionKg: ex.progressionKg || 0,
-          restSeconds: ex.restSeconds || 60,
-          notes: ex.notes || '',
-          duration: ex.duration ?? null,
-        }));
+        const { routineEntity, exerciseEntities } = routineToEntities(routine);
 
         await updateRoutineWithExercises(routineEntity, exerciseEntities);
         await loadRoutines();
@@ -184,114 +417,6 @@ export const useRoutines = () => {
     [store, loadRoutines]
   );
 
-  // Load a routine for workout execution
-  const loadRoutine = useCallback(
-    (routine: Routine) => {
-      if (!routine.exercises || routine.exercises.length === 0) {
-        console.warn('Cannot load routine with no exercises');
-        return;
-      }
-
-      store.setLoadedRoutine(routine);
-      store.setCurrentExerciseIndex(0);
-      store.setCurrentSetIndex(0);
-
-      // Mark routine as used
-      markRoutineUsed(routine.id).catch((err) => {
-        console.error('Failed to mark routine as used:', err);
-      });
-
-      console.log(`Routine loaded: ${routine.name}`);
-      console.log(`  Total exercises: ${routine.exercises.length}`);
-      console.log(`  First exercise: ${routine.exercises[0].exercise.name}`);
-    },
-    [store]
-  );
-
-  // Clear loaded routine
-  const clearLoadedRoutine = useCallback(() => {
-    store.reset();
-    console.log('Cleared loaded routine');
-  }, [store]);
-
-  // Get current exercise from loaded routine
-  const getCurrentExercise = useCallback((): RoutineExercise | null => {
-    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
-      return null;
-    }
-    return store.loadedRoutine.exercises[store.currentExerciseIndex] || null;
-  }, [store.loadedRoutine, store.currentExerciseIndex]);
-
-  // Move to next exercise
-  const nextExercise = useCallback(() => {
-    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
-      return;
-    }
-
-    const currentIndex = store.currentExerciseIndex;
-    const totalExercises = store.loadedRoutine.exercises.length;
-
-    if (currentIndex < totalExercises - 1) {
-      store.setCurrentExerciseIndex(currentIndex + 1);
-      store.setCurrentSetIndex(0);
-      console.log(`Moved to exercise ${currentIndex + 2}/${totalExercises}`);
-    } else {
-      console.log('Last exercise in routine completed');
-      clearLoadedRoutine();
-    }
-  }, [store, clearLoadedRoutine]);
-
-  // Move to previous exercise
-  const previousExercise = useCallback(() => {
-    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
-      return;
-    }
-
-    const currentIndex = store.currentExerciseIndex;
-
-    if (currentIndex > 0) {
-      store.setCurrentExerciseIndex(currentIndex - 1);
-      store.setCurrentSetIndex(0);
-      console.log(`Moved to exercise ${currentIndex}/${store.loadedRoutine.exercises.length}`);
-    }
-  }, [store]);
-
-  // Move to next set
-  const nextSet = useCallback(() => {
-    const currentExercise = getCurrentExercise();
-    if (!currentExercise || !currentExercise.setReps) {
-      return;
-    }
-
-    const totalSets = currentExercise.setReps.length;
-    const currentSet = store.currentSetIndex;
-
-    if (currentSet < totalSets - 1) {
-      store.setCurrentSetIndex(currentSet + 1);
-      console.log(`Moved to set ${currentSet + 2}/${totalSets}`);
-    } else {
-      // Last set of exercise, move to next exercise
-      nextExercise();
-    }
-  }, [store, getCurrentExercise, nextExercise]);
-
-  // Check if there are more sets in current exercise
-  const hasMoreSets = useCallback((): boolean => {
-    const currentExercise = getCurrentExercise();
-    if (!currentExercise || !currentExercise.setReps) {
-      return false;
-    }
-    return store.currentSetIndex < currentExercise.setReps.length - 1;
-  }, [store.currentSetIndex, getCurrentExercise]);
-
-  // Check if there are more exercises in routine
-  const hasMoreExercises = useCallback((): boolean => {
-    if (!store.loadedRoutine || !store.loadedRoutine.exercises) {
-      return false;
-    }
-    return store.currentExerciseIndex < store.loadedRoutine.exercises.length - 1;
-  }, [store.loadedRoutine, store.currentExerciseIndex]);
-
   // Load routines on mount
   useEffect(() => {
     loadRoutines();
@@ -300,11 +425,9 @@ export const useRoutines = () => {
   return {
     // State
     routines: store.routines,
-    loadedRoutine: store.loadedRoutine,
-    currentExerciseIndex: store.currentExerciseIndex,
-    currentSetIndex: store.currentSetIndex,
     isLoading: store.isLoading,
     error: store.error,
+    ...progress,
 
     // Actions
     loadRoutines,
@@ -312,14 +435,6 @@ export const useRoutines = () => {
     saveRoutine,
     updateRoutine,
     deleteRoutine,
-    loadRoutine,
-    clearLoadedRoutine,
-    getCurrentExercise,
-    nextExercise,
-    previousExercise,
-    nextSet,
-    hasMoreSets,
-    hasMoreExercises,
     refresh: loadRoutines,
   };
 };
@@ -0,0 +1,75 @@
+/**
+ * Custom hook for the detail view of a single recorded session
+ * Loads the session, its metric stream and its rep records
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ChartDataPoint, ChartEvent, WorkoutRep, WorkoutSession } from '../../domain/models/Models';
+import { getWorkoutRepository } from '../../data/repository/WorkoutRepository';
+import {
+  buildChartData,
+  buildChartEvents,
+  SetSummary,
+  summarizeSet,
+} from '../../domain/usecases/SessionAnalysis';
+
+/**
+ * Custom hook for session detail data
+ */
+export const useSessionDetail = (sessionId: string) => {
+  const [session, setSession] = useState<WorkoutSession | null>(null);
+  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [reps, setReps] = useState<WorkoutRep[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load session, metrics and reps
+  const loadSession = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const repository = getWorkoutRepository();
+      const [loadedSession, metrics, loadedReps] = await Promise.all([
+        repository.getSession(sessionId),
+        repository.getMetricsForSession(sessionId),
+        repository.getRepsForSession(sessionId),
+      ]);
+      setSession(loadedSession);
+      setChartData(buildChartData(metrics));
+      setReps(loadedReps);
+      if (!loadedSession) {
+        setError('Workout not found');
+      }
+    } catch (err) {
+      console.error('Failed to load session detail:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load workout');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const chartEvents = useMemo<ChartEvent[]>(() => buildChartEvents(reps), [reps]);
+
+  const summary = useMemo<SetSummary | null>(
+    () => (session ? summarizeSet(session, reps, chartData) : null),
+    [session, reps, chartData]
+  );
+
+  return {
+    // State
+    session,
+    chartData,
+    chartEvents,
+    reps,
+    summary,
+    isLoading,
+    error,
+
+    // Actions
+    refresh: loadSession,
+  };
+};
@@ -0,0 +1,207 @@
+/**
+ * Custom hook for managing several trainers from one device
+ * Each trainer has its own BleRepository connection, states, metric stream and workout session;
+ * the selected trainer is the one the workout screens show and start sets on
+ */
+
+import { useEffect, useCallback } from 'react';
+import { create } from 'zustand';
+import {
+  addTrainer as registerTrainer,
+  getBleRepository,
+  getTrainers,
+  PRIMARY_TRAINER_ID,
+  removeTrainer as unregisterTrainer,
+  ScannedTrainer,
+  TrainerInfo,
+} from '../../data/repository/BleRepository';
+import { generateUUID } from '../../domain/models/Models';
+
+interface TrainersState {
+  trainers: TrainerInfo[];
+  selectedTrainerId: string;
+  error: string | null;
+
+  setTrainers: (trainers: TrainerInfo[]) => void;
+  setSelectedTrainerId: (trainerId: string) => void;
+  setError: (error: string | null) => void;
+}
+
+const useTrainersStore = create<TrainersState>((set) => ({
+  trainers: [],
+  selectedTrainerId: PRIMARY_TRAINER_ID,
+  error: null,
+
+  // A removed trainer can no longer be selected
+  setTrainers: (trainers) =>
+    set((state) => ({
+      trainers,
+      selectedTrainerId: trainers.some((trainer) => trainer.trainerId === state.selectedTrainerId)
+        ? state.selectedTrainerId
+        : PRIMARY_TRAINER_ID,
+    })),
+  setSelectedTrainerId: (trainerId) => set({ selectedTrainerId: trainerId }),
+  setError: (error) => set({ error }),
+}));
+
+/**
+ * Trainer the workout screens show and start sets on
+ */
+export const useSelectedTrainerId = (): string => useTrainersStore((state) => state.selectedTrainerId);
+
+/**
+ * Custom hook for trainer management
+ */
+export const useTrainers = () => {
+  const store = useTrainersStore();
+
+  // Refresh the trainer list from the repositories
+  const refreshTrainers = useCallback(() => {
+    store.setTrainers(getTrainers());
+  }, [store]);
+
+  // Keep connection and handle states up to date for every trainer
+  const trainerIds = store.trainers.map((trainer) => trainer.trainerId).join(',');
+  useEffect(() => {
+    const repositories = getTrainers().map((trainer) => getBleRepository(trainer.trainerId));
+    repositories.forEach((repository) => {
+      repository.on('connectionStateChange', refreshTrainers);
+      repository.on('handleStateChange', refreshTrainers);
+    });
+
+    return () => {
+      repositories.forEach((repository) => {
+        repository.off('connectionStateChange', refreshTrainers);
+        repository.off('handleStateChange', refreshTrainers);
+      });
+    };
+  }, [trainerIds, refreshTrainers]);
+
+  // Initial load
+  useEffect(() => {
+    refreshTrainers();
+  }, []);
+
+  // Register another trainer
+  const addTrainer = useCallback(
+    (name: string): string => {
+      const trainerId = generateUUID();
+      registerTrainer(trainerId, name);
+      refreshTrainers();
+      return trainerId;
+    },
+    [refreshTrainers]
+  );
+
+  // Disconnect and remove a trainer
+  const removeTrainer = useCallback(
+    async (trainerId: string) => {
+      try {
+        store.setError(null);
+        await unregisterTrainer(trainerId);
+      } catch (err) {
+        console.error('Failed to remove trainer:', err);
+        store.setError(err instanceof Error ? err.message : 'Failed to remove trainer');
+      } finally {
+        refreshTrainers();
+      }
+    },
+    [store, refreshTrainers]
+  );
+
+  // Select the trainer the workout screens show and start sets on
+  const selectTrainer = useCallback(
+    (trainerId: string) => {
+      store.setSelectedTrainerId(trainerId);
+    },
+    [store]
+  );
+
+  // Connect a trainer to a device address
+  const connectTrainer = useCallback(
+    async (trainerId: string, deviceAddress: string) => {
+      try {
+        store.setError(null);
+        await getBleRepository(trainerId).connectToDevice(deviceAddress);
+      } catch (err) {
+        console.error(`Failed to connect trainer ${trainerId}:`, err);
+        store.setError(err instanceof Error ? err.message : 'Failed to connect trainer');
+        throw err;
+      }
+    },
+    [store]
+  );
+
+  // Scan for a trainer that is not connected yet and connect to the first one found
+  const autoConnectTrainer = useCallback(
+    async (trainerId: string, timeoutMs: number = 30000): Promise<boolean> => {
+      const repository = getBleRepository(trainerId);
+      store.setError(null);
+
+      const device = await new Promise<ScannedTrainer | null>((resolve) => {
+        const handleDeviceFound = (found: ScannedTrainer) => {
+          clearTimeout(timeout);
+          repository.off('deviceFound', handleDeviceFound);
+          resolve(found);
+        };
+        const timeout = setTimeout(() => {
+          repository.off('deviceFound', handleDeviceFound);
+          repository.stopScanning();
+          resolve(null);
+        }, timeoutMs);
+
+        repository.on('deviceFound', handleDeviceFound);
+        repository.startScanning().catch((err) => {
+          console.error(`Failed to scan for trainer ${trainerId}:`, err);
+          clearTimeout(timeout);
+          repository.off('deviceFound', handleDeviceFound);
+          resolve(null);
+        });
+      });
+
+      if (!device) {
+        store.setError('No trainer found');
+        return false;
+      }
+
+      try {
+        await repository.connectToDevice(device.id);
+        return true;
+      } catch (err) {
+        console.error(`Failed to connect trainer ${trainerId}:`, err);
+        store.setError(err instanceof Error ? err.message : 'Failed to connect trainer');
+        return false;
+      }
+    },
+    [store]
+  );
+
+  // Disconnect a trainer
+  const disconnectTrainer = useCallback(
+    async (trainerId: string) => {
+      try {
+        await getBleRepository(trainerId).disconnect();
+      } catch (err) {
+        console.error(`Failed to disconnect trainer ${trainerId}:`, err);
+        store.setError(err instanceof Error ? err.message : 'Failed to disconnect trainer');
+      }
+    },
+    [store]
+  );
+
+  return {
+    // State
+    trainers: store.trainers,
+    selectedTrainerId: store.selectedTrainerId,
+    error: store.error,
+
+    // Actions
+    refreshTrainers,
+    addTrainer,
+    removeTrainer,
+    selectTrainer,
+    connectTrainer,
+    autoConnectTrainer,
+    disconnectTrainer,
+  };
+};
@@ -1,18 +1,26 @@
 /**
  * Custom hook for weekly program management
- * Provides access to weekly programs and active program state
+ * Provides access to weekly programs and active program state,
+ * advancing the active program's mesocycle week as calendar weeks pass
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { create } from 'zustand';
-import { WeeklyProgramEntity, WeeklyProgramWithDays } from '../../data/local/entities';
+import {
+  ProgramDayEntity,
+  ProgramWeekEntity,
+  WeeklyProgramEntity,
+  WeeklyProgramWithDays,
+} from '../../data/local/entities';
 import {
   getAllProgramsWithDays,
   getActiveProgramWithDays,
   activateProgram as activateProgramDao,
   deleteProgram as deleteProgramDao,
   insertProgramWithDays,
+  setProgramCurrentWeek,
 } from '../../data/local/daos/workoutDao';
+import { advanceMesocycle, getStartOfWeek } from '../../domain/usecases/ProgramSchedule';
 
 interface WeeklyProgramsState {
   programs: WeeklyProgramWithDays[];
@@ -59,10 +67,19 @@ export const useWeeklyPrograms = () => {
     }
   }, [store]);
 
-  // Load active program
+  // Load active program, moving it to the current week of its mesocycle
   const loadActiveProgram = useCallback(async () => {
     try {
-      const activeProgram = await getActiveProgramWithDays();
+      let activeProgram = await getActiveProgramWithDays();
+      if (activeProgram) {
+        const { program } = activeProgram;
+        const position = advanceMesocycle(program.weekCount, program.currentWeek, program.weekStartedAt);
+        if (position.currentWeek !== program.currentWeek || position.weekStartedAt !== program.weekStartedAt) {
+          await setProgramCurrentWeek(program.id, position.currentWeek, position.weekStartedAt);
+          activeProgram = { ...activeProgram, program: { ...program, ...position } };
+          console.log(`Program ${program.title} advanced to week ${position.currentWeek}/${program.weekCount}`);
+        }
+      }
       store.setActiveProgram(activeProgram);
     } catch (err) {
       console.error('Failed to load active program:', err);
@@ -75,6 +92,8 @@ export const useWeeklyPrograms = () => {
       try {
         store.setError(null);
         await activateProgramDao(programId);
+        // A newly activated program starts at its first week
+        await setProgramCurrentWeek(programId, 1, getStartOfWeek(Date.now()));
         await loadPrograms();
         await loadActiveProgram();
         console.log(`Program activated: ${programId}`);
@@ -105,12 +124,30 @@ export const useWeeklyPrograms = () => {
     [store, loadPrograms, loadActiveProgram]
   );
 
-  // Save a program with its days
+  // Move a program to a week of its mesocycle (the week starts now)
+  const setCurrentWeek = useCallback(
+    async (programId: string, weekNumber: number) => {
+      try {
+        store.setError(null);
+        await setProgramCurrentWeek(programId, weekNumber, getStartOfWeek(Date.now()));
+        await loadPrograms();
+        await loadActiveProgram();
+        console.log(`Program ${programId} set to week ${weekNumber}`);
+      } catch (err) {
+        console.error('Failed to set program week:', err);
+        store.setError(err instanceof Error ? err.message : 'Failed to set program week');
+        throw err;
+      }
+    },
+    [store, loadPrograms, loadActiveProgram]
+  );
+
+  // Save a program with its days and week modifiers
   const saveProgram = useCallback(
-    async (program: WeeklyProgramEntity, days: any[]) => {
+    async (program: WeeklyProgramEntity, days: ProgramDayEntity[], weeks: ProgramWeekEntity[] = []) => {
       try {
         store.setError(null);
-        await insertProgramWithDays(program, days);
+        await insertProgramWithDays(program, days, weeks);
         await loadPrograms();
         await loadActiveProgram();
         console.log(`Program saved: ${program.title}`);
@@ -142,6 +179,7 @@ export const useWeeklyPrograms = () => {
     activateProgram,
     deleteProgram,
     saveProgram,
+    setCurrentWeek,
     refresh: loadPrograms,
   };
 };
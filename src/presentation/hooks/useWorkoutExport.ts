@@ -0,0 +1,76 @@
+/**
+ * Custom hook for exporting the workout history
+ * Writes CSV or FIT files for the filtered sessions and sends them through the share sheet
+ */
+
+import { useState, useCallback } from 'react';
+import {
+  getExportRepository,
+  WorkoutExportFile,
+  WorkoutExportFilter,
+  WorkoutExportFormat,
+} from '../../data/repository/ExportRepository';
+import { shareFile } from '../../utils/fileSharing';
+
+// iOS type identifiers of the exported files
+const EXPORT_UTIS: Record<string, string> = {
+  'text/csv': 'public.comma-separated-values-text',
+  'application/vnd.ant.fit': 'public.data',
+};
+
+/**
+ * Custom hook for workout history export
+ */
+export const useWorkoutExport = () => {
+  const [matchingCount, setMatchingCount] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Count the sessions a filter selects
+  const countMatching = useCallback(async (filter: WorkoutExportFilter): Promise<number> => {
+    try {
+      const sessions = await getExportRepository().getMatchingSessions(filter);
+      setMatchingCount(sessions.length);
+      return sessions.length;
+    } catch (err) {
+      console.error('Failed to count sessions to export:', err);
+      setMatchingCount(null);
+      return 0;
+    }
+  }, []);
+
+  // Export the filtered sessions and open the share sheet with the file
+  const exportWorkouts = useCallback(
+    async (format: WorkoutExportFormat, filter: WorkoutExportFilter): Promise<WorkoutExportFile> => {
+      try {
+        setIsExporting(true);
+        setError(null);
+        const file = await getExportRepository().exportWorkouts(format, filter);
+        await shareFile(file.fileName, file.content, {
+          mimeType: file.mimeType,
+          uti: EXPORT_UTIS[file.mimeType],
+          encoding: file.encoding,
+        });
+        return file;
+      } catch (err) {
+        console.error('Failed to export workouts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to export workouts');
+        throw err;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  return {
+    // State
+    matchingCount,
+    isExporting,
+    error,
+
+    // Actions
+    countMatching,
+    exportWorkouts,
+  };
+};
@@ -4,11 +4,12 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { WorkoutSession } from '../../domain/models/Models';
+import { WorkoutRep, WorkoutSession } from '../../domain/models/Models';
 import {
   getAllSessions,
   getRecentSessions,
   getSession,
+  getRepsForSession,
   deleteSession,
   deleteAllSessions,
 } from '../../data/local/daos/workoutDao';
@@ -142,6 +143,16 @@ export const useWorkoutHistory = () => {
     }
   }, []);
 
+  // Get the rep-by-rep breakdown of a session
+  const getSessionReps = useCallback(async (sessionId: string): Promise<WorkoutRep[]> => {
+    try {
+      return await getRepsForSession(sessionId);
+    } catch (err) {
+      console.error('Failed to get session reps:', err);
+      return [];
+    }
+  }, []);
+
   // Delete a workout
   const deleteWorkout = useCallback(
     async (sessionId: string) => {
@@ -193,6 +204,7 @@ export const useWorkoutHistory = () => {
     loadRecentHistory,
     loadAllSessions,
     getSessionById,
+    getSessionReps,
     deleteWorkout,
     deleteAllWorkouts,
     refresh: () => {
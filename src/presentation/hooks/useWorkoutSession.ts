@@ -1,9 +1,13 @@
 /**
  * Custom hook for active workout session state and control
  * Replaces workout execution logic from MainViewModel
+ *
+ * Every trainer has its own session, so several athletes can train side by side. A session runner
+ * per trainer (see WorkoutSessionHost) follows the trainer's BLE events; screens read the session
+ * and start or stop its sets.
  */
 
-import { useEffect, useCallback, useRef } from 'react';
+import { MutableRefObject, useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import { create } from 'zustand';
 import {
   WorkoutState,
@@ -15,12 +19,46 @@ import {
   HapticEvent,
   ProgramMode,
   HandleState,
+  SetStopReason,
+  PRCelebrationEvent,
 } from '../../domain/models/Models';
 import { RepCounterFromMachine } from '../../domain/usecases/RepCounterFromMachine';
+import { AutoStopDetector, AUTO_STOP_DURATION_SECONDS } from '../../domain/usecases/AutoStopDetector';
+import { RepAnalyzer, RepAnalytics } from '../../domain/usecases/RepAnalyzer';
+import { VelocityLossDetector, VelocityLossStatus } from '../../domain/usecases/VelocityLossDetector';
+import { summarizeAsymmetry } from '../../domain/usecases/AsymmetryAnalyzer';
+import { StepRest } from '../../domain/usecases/ExerciseGrouping';
+import {
+  IsometricHoldSummary,
+  isDurationSet,
+  resolveSetType,
+  summarizeIsometricHold,
+  summarizeTimedSet,
+} from '../../domain/usecases/DurationSetAnalyzer';
+import {
+  buildDropSegmentParameters,
+  FAILURE_STALL_SECONDS,
+  getActiveDropSet,
+  getSegmentCount,
+  getSegmentTargetReps,
+  runsWithoutRepLimit,
+} from '../../domain/usecases/RoutineSetPlanner';
+import { RepNotification } from '../../data/ble/types';
+import { parseBleSession } from '../../data/ble/BleSessionRecorder';
+import { BleSessionReplayer } from '../../data/ble/BleSessionReplayer';
+import {
+  getBleRepository,
+  IBleRepository,
+  PRIMARY_TRAINER_ID,
+  ReconnectState,
+  WorkoutResume,
+} from '../../data/repository/BleRepository';
 import { useBleConnection } from './useBleConnection';
-import { insertSession, insertMetrics } from '../../data/local/daos/workoutDao';
-import { updatePRIfBetter } from '../../data/local/daos/personalRecordDao';
-import { WorkoutMetricEntity, WorkoutSessionEntity } from '../../data/local/entities';
+import { useSelectedTrainerId } from './useTrainers';
+import { insertSession, insertMetrics, insertReps } from '../../data/local/daos/workoutDao';
+import { getPersonalRecordRepository } from '../../data/repository/PersonalRecordRepository';
+import { getExerciseRepository } from '../../data/repository/ExerciseRepository';
+import { WorkoutMetricEntity, WorkoutRepEntity, WorkoutSessionEntity } from '../../data/local/entities';
 
 interface AutoStopUiState {
   isActive: boolean;
@@ -28,6 +66,29 @@ interface AutoStopUiState {
   secondsRemaining: number;
 }
 
+interface DurationSetUiState {
+  elapsedSeconds: number;
+  targetSeconds: number;
+  hold: IsometricHoldSummary | null; // Steadiness so far (isometric holds only)
+}
+
+interface DropSetUiState {
+  segment: number; // 0 = the set itself, then one per drop
+  totalSegments: number;
+  weightPerCableKg: number;
+  segmentReps: number; // Working reps of the current segment
+  targetReps: number | null; // null = until failure
+}
+
+/**
+ * A set rebuilt from a replayed BLE session (kept in memory, never saved to the history)
+ */
+export interface ReplayResult {
+  session: WorkoutSessionEntity;
+  metrics: WorkoutMetric[];
+  repAnalytics: RepAnalytics[];
+}
+
 interface WorkoutSessionState {
   // State
   workoutState: WorkoutState;
@@ -35,11 +96,17 @@ interface WorkoutSessionState {
   repCount: RepCount;
   autoStopState: AutoStopUiState;
   autoStartCountdown: number | null;
+  velocityLossState: VelocityLossStatus | null;
+  durationState: DurationSetUiState | null; // Progress of a timed or isometric set
+  dropSetState: DropSetUiState | null; // Current segment of a drop set
+  prCelebrations: PRCelebrationEvent[]; // Records broken by the last saved set, shown one at a time
+  replayResult: ReplayResult | null; // Set rebuilt by the last session replay
 
   // Session tracking
   currentSessionId: string | null;
   workoutStartTime: number;
   collectedMetrics: WorkoutMetric[];
+  repAnalytics: RepAnalytics[];
 
   // Actions
   setWorkoutState: (state: WorkoutState) => void;
@@ -47,14 +114,24 @@ interface WorkoutSessionState {
   setRepCount: (count: RepCount) => void;
   setAutoStopState: (state: AutoStopUiState) => void;
   setAutoStartCountdown: (seconds: number | null) => void;
+  setVelocityLossState: (state: VelocityLossStatus | null) => void;
+  setDurationState: (state: DurationSetUiState | null) => void;
+  setDropSetState: (state: DropSetUiState | null) => void;
+  setPRCelebrations: (events: PRCelebrationEvent[]) => void;
+  dismissPRCelebration: () => void;
+  setReplayResult: (result: ReplayResult | null) => void;
   setCurrentSessionId: (id: string | null) => void;
   setWorkoutStartTime: (time: number) => void;
   addMetric: (metric: WorkoutMetric) => void;
+  addRepAnalytics: (rep: RepAnalytics) => void;
   clearMetrics: () => void;
   reset: () => void;
 }
 
-const useWorkoutSessionStore = create<WorkoutSessionState>((set) => ({
+/**
+ * Session store of one trainer (its sets always run on that trainer)
+ */
+const createWorkoutSessionStore = (trainerId: string) => create<WorkoutSessionState>((set) => ({
   // Initial state
   workoutState: { type: 'idle' },
   workoutParameters: {
@@ -67,6 +144,7 @@ const useWorkoutSessionStore = create<WorkoutSessionState>((set) => ({
     stopAtTop: false,
     warmupReps: 3,
     selectedExerciseId: null,
+    trainerId,
   },
   repCount: {
     warmupReps: 0,
@@ -80,23 +158,39 @@ const useWorkoutSessionStore = create<WorkoutSessionState>((set) => ({
     secondsRemaining: 3,
   },
   autoStartCountdown: null,
+  velocityLossState: null,
+  durationState: null,
+  dropSetState: null,
+  prCelebrations: [],
+  replayResult: null,
   currentSessionId: null,
   workoutStartTime: 0,
   collectedMetrics: [],
+  repAnalytics: [],
 
   // Actions
   setWorkoutState: (state) => set({ workoutState: state }),
-  setWorkoutParameters: (params) => set({ workoutParameters: params }),
+  setWorkoutParameters: (params) => set({ workoutParameters: { ...params, trainerId } }),
   setRepCount: (count) => set({ repCount: count }),
   setAutoStopState: (state) => set({ autoStopState: state }),
   setAutoStartCountdown: (seconds) => set({ autoStartCountdown: seconds }),
+  setVelocityLossState: (state) => set({ velocityLossState: state }),
+  setDurationState: (state) => set({ durationState: state }),
+  setDropSetState: (state) => set({ dropSetState: state }),
+  setPRCelebrations: (events) => set({ prCelebrations: events }),
+  dismissPRCelebration: () => set((state) => ({ prCelebrations: state.prCelebrations.slice(1) })),
+  setReplayResult: (result) => set({ replayResult: result }),
   setCurrentSessionId: (id) => set({ currentSessionId: id }),
   setWorkoutStartTime: (time) => set({ workoutStartTime: time }),
   addMetric: (metric) =>
     set((state) => ({
       collectedMetrics: [...state.collectedMetrics, metric],
     })),
-  clearMetrics: () => set({ collectedMetrics: [] }),
+  addRepAnalytics: (rep) =>
+    set((state) => ({
+      repAnalytics: [...state.repAnalytics, rep],
+    })),
+  clearMetrics: () => set({ collectedMetrics: [], repAnalytics: [] }),
   reset: () =>
     set({
       workoutState: { type: 'idle' },
@@ -112,32 +206,154 @@ const useWorkoutSessionStore = create<WorkoutSessionState>((set) => ({
         secondsRemaining: 3,
       },
       autoStartCountdown: null,
+      velocityLossState: null,
+      durationState: null,
+      dropSetState: null,
       currentSessionId: null,
       workoutStartTime: 0,
       collectedMetrics: [],
+      repAnalytics: [],
     }),
 }));
 
-const AUTO_STOP_DURATION_SECONDS = 3;
+type WorkoutSessionStore = ReturnType<typeof createWorkoutSessionStore>;
+
+const workoutSessionStores = new Map<string, WorkoutSessionStore>();
+
+/**
+ * Session store of a trainer, created on first use
+ */
+const getWorkoutSessionStore = (trainerId: string): WorkoutSessionStore => {
+  let sessionStore = workoutSessionStores.get(trainerId);
+  if (!sessionStore) {
+    sessionStore = createWorkoutSessionStore(trainerId);
+    workoutSessionStores.set(trainerId, sessionStore);
+  }
+  return sessionStore;
+};
+
+/**
+ * Detectors, timers and replay of a trainer's current set, shared by every hook instance of the
+ * trainer so a set keeps its progress whichever screen started it
+ */
+interface WorkoutSessionRuntime {
+  repCounterRef: MutableRefObject<RepCounterFromMachine>;
+  autoStopDetectorRef: MutableRefObject<AutoStopDetector>; // Just Lift auto-stop, timed from metric timestamps
+  repAnalyzerRef: MutableRefObject<RepAnalyzer>; // Per-rep velocity, power, TUT and ROM
+  velocityLossDetectorRef: MutableRefObject<VelocityLossDetector>; // Enabled by velocityLossPercent
+  stopReasonRef: MutableRefObject<SetStopReason | null>; // Why the current set ended
+  lastMetricRef: MutableRefObject<WorkoutMetric | null>; // Latest positions, passed with each rep notification
+  replayerRef: MutableRefObject<BleSessionReplayer | null>; // Active session replay (offline debugging)
+  isReplaySetRef: MutableRefObject<boolean>; // Stays set after the replayer finishes
+  autoStartTimerRef: MutableRefObject<NodeJS.Timeout | null>;
+  autoStopTimerRef: MutableRefObject<NodeJS.Timeout | null>;
+  durationTimerRef: MutableRefObject<NodeJS.Timeout | null>;
+  failureTimerRef: MutableRefObject<NodeJS.Timeout | null>;
+  dropStartRepsRef: MutableRefObject<number[]>; // Working reps when each drop of a drop set started
+  restTimerRef: MutableRefObject<NodeJS.Timeout | null>; // Rest between routine sets
+  restCompleteRef: MutableRefObject<(() => void) | null>; // What runs when the rest ends
+}
+
+const workoutSessionRuntimes = new Map<string, WorkoutSessionRuntime>();
+
+/**
+ * Set runtime of a trainer, created on first use
+ */
+const getWorkoutSessionRuntime = (trainerId: string): WorkoutSessionRuntime => {
+  let runtime = workoutSessionRuntimes.get(trainerId);
+  if (!runtime) {
+    runtime = {
+      repCounterRef: { current: new RepCounterFromMachine() },
+      autoStopDetectorRef: { current: new AutoStopDetector(AUTO_STOP_DURATION_SECONDS) },
+      repAnalyzerRef: { current: new RepAnalyzer() },
+      velocityLossDetectorRef: { current: new VelocityLossDetector(0) },
+      stopReasonRef: { current: null },
+      lastMetricRef: { current: null },
+      replayerRef: { current: null },
+      isReplaySetRef: { current: false },
+      autoStartTimerRef: { current: null },
+      autoStopTimerRef: { current: null },
+      durationTimerRef: { current: null },
+      failureTimerRef: { current: null },
+      dropStartRepsRef: { current: [] },
+      restTimerRef: { current: null },
+      restCompleteRef: { current: null },
+    };
+    workoutSessionRuntimes.set(trainerId, runtime);
+  }
+  return runtime;
+};
+
 const AUTO_START_DELAY_MS = 1200;
 
 /**
- * Custom hook for workout session management
+ * Repository of a trainer, or null if the trainer has been removed
+ */
+const findTrainerRepository = (trainerId: string): IBleRepository | null => {
+  try {
+    return getBleRepository(trainerId);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Repository of the trainer assigned to a set. Throws if the trainer has been removed: a set
+ * never falls back to another trainer, which may be another athlete's machine.
  */
-export const useWorkoutSession = () => {
-  const store = useWorkoutSessionStore();
-  const { bleManager, currentMetric, handleState } = useBleConnection();
+const resolveTrainerRepository = (trainerId: string = PRIMARY_TRAINER_ID): IBleRepository => {
+  const repository = findTrainerRepository(trainerId);
+  if (!repository) {
+    throw new Error('This trainer has been removed. Pick another trainer to continue.');
+  }
+  return repository;
+};
 
-  // Rep counter instance
-  const repCounterRef = useRef<RepCounterFromMachine>(new RepCounterFromMachine());
+/**
+ * Workout session of a trainer. Only the trainer's runner (runsSession) follows its BLE events
+ * and owns its timers; every other instance reads the session and controls its sets.
+ */
+const useTrainerWorkoutSession = (trainerId: string, runsSession: boolean) => {
+  const sessionStore = getWorkoutSessionStore(trainerId);
+  const store = sessionStore();
+  const { bleManager, currentMetric: primaryMetric, handleState: primaryHandleState } = useBleConnection();
 
-  // Timers
-  const autoStartTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const autoStopTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const autoStopStartTimeRef = useRef<number | null>(null);
+  // The primary trainer's stream comes from useBleConnection, any other trainer is followed here
+  const isPrimaryTrainer = trainerId === PRIMARY_TRAINER_ID;
+  const bleRepository = useMemo(() => findTrainerRepository(trainerId), [trainerId]);
+  const [trainerMetric, setTrainerMetric] = useState<WorkoutMetric | null>(null);
+  const [trainerHandleState, setTrainerHandleState] = useState<HandleState>(HandleState.Released);
+  const currentMetric = isPrimaryTrainer ? primaryMetric : trainerMetric;
+  const handleState = isPrimaryTrainer ? primaryHandleState : trainerHandleState;
+
+  // Detectors, timers and replay of the trainer's current set
+  const {
+    repCounterRef,
+    autoStopDetectorRef,
+    repAnalyzerRef,
+    velocityLossDetectorRef,
+    stopReasonRef,
+    lastMetricRef,
+    replayerRef,
+    isReplaySetRef,
+    autoStartTimerRef,
+    autoStopTimerRef,
+    durationTimerRef,
+    failureTimerRef,
+    dropStartRepsRef,
+    restTimerRef,
+    restCompleteRef,
+  } = getWorkoutSessionRuntime(trainerId);
+
+  // Latest set completion and drop segment handlers, for timers that outlive the render that started them
+  const handleSetCompletionRef = useRef<(reason: SetStopReason) => Promise<void>>(async () => {});
+  const advanceDropSegmentRef = useRef<(reason: SetStopReason) => Promise<void>>(async () => {});
 
   // Set up rep counter callback
   useEffect(() => {
+    if (!runsSession) {
+      return;
+    }
     const repCounter = repCounterRef.current;
 
     repCounter.onRepEvent = (repEvent: RepEvent) => {
@@ -150,24 +366,124 @@ export const useWorkoutSession = () => {
           `working=${newRepCount.workingReps}/${store.workoutParameters.reps}`
       );
 
+      // Drop sets run without a rep limit and move on segment by segment
+      if (sessionStore.getState().dropSetState) {
+        handleDropSetRep(newRepCount.workingReps ?? 0);
+        return;
+      }
+
       // Check if workout should stop
       if (repCounter.shouldStopWorkout()) {
         console.log('Machine indicates workout should stop');
-        handleSetCompletion();
+        handleSetCompletion('target_reached');
       }
     };
 
     return () => {
       repCounter.onRepEvent = null;
     };
-  }, [store]);
+  }, [store, runsSession]);
+
+  // Feed machine rep counters into the rep counter while a set is active
+  useEffect(() => {
+    if (!runsSession) {
+      return;
+    }
+    const handleRepNotification = (notification: RepNotification) => {
+      if (sessionStore.getState().workoutState.type !== 'active') {
+        return;
+      }
+      const metric = lastMetricRef.current;
+      repCounterRef.current.process(
+        notification.topCounter,
+        notification.completeCounter,
+        metric?.positionA ?? 0,
+        metric?.positionB ?? 0
+      );
+    };
+
+    if (!bleRepository) {
+      return;
+    }
+    bleRepository.on('repNotification', handleRepNotification);
+    return () => {
+      bleRepository.off('repNotification', handleRepNotification);
+    };
+  }, [bleRepository, runsSession]);
+
+  // Follow the metric stream and handle state of a non-primary trainer
+  useEffect(() => {
+    if (isPrimaryTrainer || !bleRepository) {
+      return;
+    }
+
+    setTrainerMetric(null);
+    setTrainerHandleState(bleRepository.getHandleState());
+
+    const handleMonitorData = (metric: WorkoutMetric) => setTrainerMetric(metric);
+    const handleHandleStateChange = (state: HandleState) => setTrainerHandleState(state);
+
+    bleRepository.on('monitorData', handleMonitorData);
+    bleRepository.on('handleStateChange', handleHandleStateChange);
+    return () => {
+      bleRepository.off('monitorData', handleMonitorData);
+      bleRepository.off('handleStateChange', handleHandleStateChange);
+    };
+  }, [bleRepository, isPrimaryTrainer]);
+
+  // Continue the same set when BleRepository resumes it after a reconnect
+  useEffect(() => {
+    if (!runsSession || !bleRepository) {
+      return;
+    }
+    const handleWorkoutResumed = (resume: WorkoutResume) => {
+      console.log(
+        `Workout resumed after reconnect (${resume.completedWarmupReps} warmup / ` +
+          `${resume.completedWorkingReps} working reps already done)`
+      );
+      // The device restarts its counters with the resumed program
+      repCounterRef.current.resyncCounters();
+    };
+
+    const handleReconnectStateChange = (state: ReconnectState) => {
+      if (
+        state.status === 'failed' &&
+        state.workoutInterrupted &&
+        sessionStore.getState().workoutState.type === 'active'
+      ) {
+        console.error('Reconnect failed - ending interrupted workout');
+        stopReasonRef.current = 'connection_lost';
+        saveWorkoutSession();
+        store.setWorkoutState({ type: 'error', message: 'Connection lost' });
+      }
+    };
+
+    bleRepository.on('workoutResumed', handleWorkoutResumed);
+    bleRepository.on('reconnectStateChange', handleReconnectStateChange);
+    return () => {
+      bleRepository.off('workoutResumed', handleWorkoutResumed);
+      bleRepository.off('reconnectStateChange', handleReconnectStateChange);
+    };
+  }, [bleRepository, store, runsSession]);
 
   // Monitor current metric for auto-stop and collection
   useEffect(() => {
+    if (!runsSession) {
+      return;
+    }
+    lastMetricRef.current = currentMetric;
+
     if (currentMetric && store.workoutState.type === 'active') {
       // Collect metric for history
       store.addMetric(currentMetric);
 
+      // Segment reps and keep their analytics
+      const repAnalytics = repAnalyzerRef.current.process(currentMetric);
+      if (repAnalytics) {
+        store.addRepAnalytics(repAnalytics);
+        checkVelocityLoss(repAnalytics);
+      }
+
       // Check auto-stop for Just Lift mode
       if (store.workoutParameters.isJustLift) {
         checkAutoStop(currentMetric);
@@ -177,10 +493,13 @@ export const useWorkoutSession = () => {
     } else {
       resetAutoStopTimer();
     }
-  }, [currentMetric, store.workoutState, store.workoutParameters]);
+  }, [currentMetric, store.workoutState, store.workoutParameters, runsSession]);
 
   // Auto-start timer based on handle state
   useEffect(() => {
+    if (!runsSession) {
+      return;
+    }
     if (
       store.workoutParameters.useAutoStart &&
       store.workoutState.type === 'idle' &&
@@ -190,7 +509,7 @@ export const useWorkoutSession = () => {
     } else {
       cancelAutoStartTimer();
     }
-  }, [handleState, store.workoutState, store.workoutParameters]);
+  }, [handleState, store.workoutState, store.workoutParameters, runsSession]);
 
   // Start auto-start countdown timer
   const startAutoStartTimer = useCallback(() => {
@@ -220,32 +539,23 @@ export const useWorkoutSession = () => {
   // Check auto-stop conditions for Just Lift mode
   const checkAutoStop = useCallback(
     (metric: WorkoutMetric) => {
-      const repCounter = repCounterRef.current;
-
-      if (!repCounter.hasMeaningfulRange()) {
-        resetAutoStopTimer();
-        return;
-      }
-
-      const inDangerZone = repCounter.isInDangerZone(metric.positionA, metric.positionB);
-
-      if (inDangerZone) {
-        const startTime = autoStopStartTimeRef.current ?? Date.now();
-        autoStopStartTimeRef.current = startTime;
-
-        const elapsed = (Date.now() - startTime) / 1000;
-        const progress = Math.min(elapsed / AUTO_STOP_DURATION_SECONDS, 1);
-        const remaining = Math.max(AUTO_STOP_DURATION_SECONDS - elapsed, 0);
+      const status = autoStopDetectorRef.current.update(
+        repCounterRef.current,
+        metric.positionA,
+        metric.positionB,
+        metric.timestamp ?? Date.now()
+      );
 
+      if (status.isActive) {
         store.setAutoStopState({
           isActive: true,
-          progress,
-          secondsRemaining: Math.ceil(remaining),
+          progress: status.progress,
+          secondsRemaining: status.secondsRemaining,
         });
 
-        if (elapsed >= AUTO_STOP_DURATION_SECONDS) {
+        if (status.shouldStop) {
           console.log('Auto-stop threshold reached in Just Lift - stopping workout');
-          handleSetCompletion();
+          handleSetCompletion('auto_stop');
         }
       } else {
         resetAutoStopTimer();
@@ -254,14 +564,35 @@ export const useWorkoutSession = () => {
     [store]
   );
 
+  // Check velocity loss after each completed rep
+  const checkVelocityLoss = useCallback(
+    (rep: RepAnalytics) => {
+      const threshold = store.workoutParameters.velocityLossPercent;
+      if (!threshold || stopReasonRef.current) {
+        return;
+      }
+
+      const status = velocityLossDetectorRef.current.update(rep);
+      store.setVelocityLossState(status);
+
+      if (status.shouldStop) {
+        console.log(
+          `Velocity loss ${status.lossPercent.toFixed(1)}% reached the ${threshold}% threshold - stopping workout`
+        );
+        handleSetCompletion('velocity_loss');
+      }
+    },
+    [store]
+  );
+
   // Reset auto-stop timer
   const resetAutoStopTimer = useCallback(() => {
-    autoStopStartTimeRef.current = null;
+    autoStopDetectorRef.current.reset();
     if (!store.autoStopState.isActive) {
       store.setAutoStopState({
         isActive: false,
         progress: 0,
-        secondsRemaining: 3,
+        secondsRemaining: AUTO_STOP_DURATION_SECONDS,
       });
     }
   }, [store]);
@@ -272,21 +603,50 @@ export const useWorkoutSession = () => {
       console.log(`$$$ startWorkout() CALLED! skipCountdown=${skipCountdown}, isJustLiftMode=${isJustLiftMode} $$$`);
 
       try {
+        // Read latest parameters (may have been updated in the same tick)
+        const latestParams = sessionStore.getState().workoutParameters;
         const params = {
-          ...store.workoutParameters,
+          ...latestParams,
           isJustLift: isJustLiftMode,
           useAutoStart: isJustLiftMode ? true : store.workoutParameters.useAutoStart,
         };
+        // An isometric hold has no reps to warm up with
+        if (resolveSetType(params) === 'isometric') {
+          params.warmupReps = 0;
+        }
         store.setWorkoutParameters(params);
 
-        // Configure rep counter
+        // A removed trainer fails the set before the countdown (replays are fed from the session file instead)
+        const trainerRepository = replayerRef.current ? null : resolveTrainerRepository(params.trainerId);
+
+        // Configure rep counter (timed and isometric sets and drop sets count reps without a
+        // target, like Just Lift)
         const repCounter = repCounterRef.current;
-        const workingTarget = params.isJustLift ? 0 : params.reps;
+        const unlimitedReps = runsWithoutRepLimit(params);
+        const workingTarget = unlimitedReps ? 0 : params.reps;
         repCounter.reset();
+        repAnalyzerRef.current.reset(params.warmupReps ?? 3);
+        velocityLossDetectorRef.current.reset(params.velocityLossPercent ?? 0);
+        stopReasonRef.current = null;
+        isReplaySetRef.current = replayerRef.current !== null;
+        store.setVelocityLossState(null);
+        store.setDurationState(null);
+        dropStartRepsRef.current = [];
+        store.setDropSetState(
+          getActiveDropSet(params)
+            ? {
+                segment: 0,
+                totalSegments: getSegmentCount(params),
+                weightPerCableKg: params.weightPerCableKg ?? 0,
+                segmentReps: 0,
+                targetReps: getSegmentTargetReps(params, 0),
+              }
+            : null
+        );
         repCounter.configure(
           params.warmupReps ?? 3,
           workingTarget,
-          params.isJustLift ?? false,
+          unlimitedReps,
           params.stopAtTop ?? false
         );
 
@@ -313,8 +673,20 @@ export const useWorkoutSession = () => {
         // Set to active before BLE command
         store.setWorkoutState({ type: 'active' });
 
+        // Timed and isometric sets end when their duration runs out
+        if (isDurationSet(params)) {
+          startDurationTimer(params.durationSeconds!, resolveSetType(params) === 'isometric');
+        }
+
+        // Attach the parameters to a raw BLE capture so it can be replayed later
+        if (bleManager.isCapturing()) {
+          bleManager.annotateCapture({ workoutParameters: params });
+        }
+
         // Send workout command to device
-        await bleManager.startWorkout(params);
+        if (trainerRepository) {
+          await trainerRepository.startWorkout(params);
+        }
 
         console.log('Workout command sent successfully! Tracking reps now.');
       } catch (error) {
@@ -328,16 +700,220 @@ export const useWorkoutSession = () => {
     [bleManager, store]
   );
 
+  // Stop the timer of a timed or isometric set
+  const clearDurationTimer = useCallback(() => {
+    if (durationTimerRef.current) {
+      clearInterval(durationTimerRef.current);
+      durationTimerRef.current = null;
+    }
+  }, []);
+
+  // Count a timed or isometric set down and end it once its duration has passed
+  const startDurationTimer = useCallback(
+    (targetSeconds: number, isIsometric: boolean) => {
+      clearDurationTimer();
+      const startedAt = Date.now();
+      store.setDurationState({ elapsedSeconds: 0, targetSeconds, hold: null });
+
+      durationTimerRef.current = setInterval(() => {
+        const state = sessionStore.getState();
+        if (state.workoutState.type !== 'active') {
+          clearDurationTimer();
+          return;
+        }
+
+        const elapsedSeconds = Math.min(Math.floor((Date.now() - startedAt) / 1000), targetSeconds);
+        store.setDurationState({
+          elapsedSeconds,
+          targetSeconds,
+          hold: isIsometric ? summarizeIsometricHold(targetSeconds, state.collectedMetrics) : null,
+        });
+
+        if (elapsedSeconds >= targetSeconds) {
+          clearDurationTimer();
+          console.log(`Set duration of ${targetSeconds}s reached - stopping workout`);
+          handleSetCompletionRef.current('duration_reached');
+        }
+      }, 1000);
+    },
+    [store, clearDurationTimer]
+  );
+
+  // Stop waiting for the next rep of a drop set segment
+  const clearFailureTimer = useCallback(() => {
+    if (failureTimerRef.current) {
+      clearTimeout(failureTimerRef.current);
+      failureTimerRef.current = null;
+    }
+  }, []);
+
+  // A drop set segment that goes on until failure fails once no rep is completed for a while
+  const armFailureTimer = useCallback(() => {
+    clearFailureTimer();
+    failureTimerRef.current = setTimeout(() => {
+      failureTimerRef.current = null;
+      console.log(`No rep for ${FAILURE_STALL_SECONDS}s - drop set segment failed`);
+      advanceDropSegmentRef.current('failure');
+    }, FAILURE_STALL_SECONDS * 1000);
+  }, [clearFailureTimer]);
+
+  // Follow a drop set's working reps and move on once the segment's reps are done
+  const handleDropSetRep = useCallback(
+    (workingReps: number) => {
+      const dropSet = sessionStore.getState().dropSetState;
+      if (!dropSet || stopReasonRef.current) {
+        return;
+      }
+
+      const segmentReps = workingReps - (dropStartRepsRef.current[dropSet.segment - 1] ?? 0);
+      if (segmentReps !== dropSet.segmentReps) {
+        store.setDropSetState({ ...dropSet, segmentReps });
+      }
+
+      if (dropSet.targetReps !== null) {
+        if (segmentReps >= dropSet.targetReps) {
+          advanceDropSegmentRef.current('target_reached');
+        }
+      } else if (segmentReps > 0) {
+        armFailureTimer();
+      }
+    },
+    [store, armFailureTimer]
+  );
+
+  // Send a drop set's next segment without releasing tension, or end the set after the last one
+  const advanceDropSegment = useCallback(
+    async (reason: SetStopReason) => {
+      clearFailureTimer();
+      const state = sessionStore.getState();
+      const dropSet = state.dropSetState;
+      if (!dropSet || stopReasonRef.current || state.workoutState.type !== 'active') {
+        return;
+      }
+
+      const segment = dropSet.segment + 1;
+      if (segment >= dropSet.totalSegments) {
+        handleSetCompletionRef.current(reason);
+        return;
+      }
+
+      // Update the segment before sending so reps arriving meanwhile count toward the drop
+      const params = buildDropSegmentParameters(state.workoutParameters, segment);
+      const targetReps = getSegmentTargetReps(state.workoutParameters, segment);
+      dropStartRepsRef.current.push(state.repCount.workingReps ?? 0);
+      store.setDropSetState({
+        segment,
+        totalSegments: dropSet.totalSegments,
+        weightPerCableKg: params.weightPerCableKg ?? 0,
+        segmentReps: 0,
+        targetReps,
+      });
+      console.log(`Drop ${segment}/${dropSet.totalSegments - 1}: ${params.weightPerCableKg}kg per cable`);
+
+      try {
+        if (!isReplaySetRef.current) {
+          await resolveTrainerRepository(params.trainerId).changeWorkoutSegment(params);
+        }
+        // The device restarts its counters with the new program
+        repCounterRef.current.resyncCounters();
+        if (targetReps === null) {
+          armFailureTimer();
+        }
+      } catch (error) {
+        console.error('Failed to change drop set segment:', error);
+        handleSetCompletionRef.current('connection_lost');
+      }
+    },
+    [store, clearFailureTimer, armFailureTimer]
+  );
+  advanceDropSegmentRef.current = advanceDropSegment;
+
+  // Close the rep still in its eccentric phase when the set ends
+  const flushRepAnalytics = useCallback(() => {
+    const repAnalytics = repAnalyzerRef.current.flush();
+    if (repAnalytics) {
+      store.addRepAnalytics(repAnalytics);
+    }
+  }, [store]);
+
+  // Cancel a running rest without starting the next set
+  const cancelRest = useCallback(() => {
+    if (restTimerRef.current) {
+      clearInterval(restTimerRef.current);
+      restTimerRef.current = null;
+    }
+    restCompleteRef.current = null;
+  }, []);
+
+  // End the rest and start whatever follows it
+  const skipRest = useCallback(() => {
+    const onComplete = restCompleteRef.current;
+    cancelRest();
+    onComplete?.();
+  }, [cancelRest]);
+
+  // Rest between routine sets, counting down in the resting state
+  const startRest = useCallback(
+    (rest: StepRest, onComplete: () => void) => {
+      cancelRest();
+      restCompleteRef.current = onComplete;
+
+      if (rest.restSeconds <= 0) {
+        skipRest();
+        return;
+      }
+
+      console.log(`Resting ${rest.restSeconds}s before ${rest.nextExerciseName} set ${rest.currentSet}/${rest.totalSets}`);
+      store.setWorkoutState({
+        type: 'resting',
+        restSecondsRemaining: rest.restSeconds,
+        nextExerciseName: rest.nextExerciseName,
+        isLastExercise: rest.isLastExercise,
+        currentSet: rest.currentSet,
+        totalSets: rest.totalSets,
+      });
+
+      restTimerRef.current = setInterval(() => {
+        const state = sessionStore.getState().workoutState;
+        if (state.type !== 'resting') {
+          cancelRest();
+        } else if (state.restSecondsRemaining <= 1) {
+          skipRest();
+        } else {
+          store.setWorkoutState({ ...state, restSecondsRemaining: state.restSecondsRemaining - 1 });
+        }
+      }, 1000);
+    },
+    [store, cancelRest, skipRest]
+  );
+
   // Stop workout
   const stopWorkout = useCallback(async () => {
     console.log('stopWorkout() called from UI');
 
+    // Between sets the last set is already stopped and saved
+    if (sessionStore.getState().workoutState.type === 'resting') {
+      cancelRest();
+      store.setWorkoutState({ type: 'completed' });
+      return;
+    }
+
+    stopReasonRef.current = stopReasonRef.current ?? 'user_stop';
+    clearDurationTimer();
+    clearFailureTimer();
+    const isReplay = isReplaySetRef.current || replayerRef.current !== null;
+    replayerRef.current?.stop();
+    replayerRef.current = null;
+
     try {
       // Stop hardware
-      await bleManager.stopWorkout();
+      if (!isReplay) {
+        await bleRepository?.stopWorkout();
+      }
 
       // Mark as completed
       store.setWorkoutState({ type: 'completed' });
+      flushRepAnalytics();
 
       // Save session
       await saveWorkoutSession();
@@ -348,53 +924,91 @@ export const useWorkoutSession = () => {
     } catch (error) {
       console.error('Failed to stop workout:', error);
     }
-  }, [bleManager, store]);
+  }, [bleRepository, store, flushRepAnalytics, cancelRest, clearDurationTimer, clearFailureTimer]);
 
   // Handle set completion (auto-stop)
-  const handleSetCompletion = useCallback(async () => {
-    console.log('HANDLE SET COMPLETION CALLED');
+  const handleSetCompletion = useCallback(async (reason: SetStopReason) => {
+    console.log(`HANDLE SET COMPLETION CALLED (${reason})`);
+    stopReasonRef.current = reason;
+    clearDurationTimer();
+    clearFailureTimer();
 
     try {
       // Stop hardware
-      await bleManager.stopWorkout();
+      if (!isReplaySetRef.current) {
+        await bleRepository?.stopWorkout();
+      }
 
       // Save progress
+      flushRepAnalytics();
       await saveWorkoutSession();
 
       // For Just Lift mode, auto-reset to Idle
-      if (store.workoutParameters.isJustLift) {
+      if (sessionStore.getState().workoutParameters.isJustLift) {
         console.log('Just Lift mode: Auto-resetting to Idle');
         store.reset();
         store.setWorkoutState({ type: 'idle' });
-        bleManager.enableHandleDetection();
-        bleManager.enableJustLiftWaitingMode();
+        if (!isReplaySetRef.current && bleRepository) {
+          bleRepository.enableHandleDetection();
+          bleRepository.enableJustLiftWaitingMode();
+        }
       } else {
         store.setWorkoutState({ type: 'completed' });
       }
     } catch (error) {
       console.error('Failed to handle set completion:', error);
     }
-  }, [bleManager, store]);
+  }, [bleRepository, store, flushRepAnalytics, clearDurationTimer, clearFailureTimer]);
+  handleSetCompletionRef.current = handleSetCompletion;
 
   // Save workout session to database
   const saveWorkoutSession = useCallback(async () => {
-    if (!store.currentSessionId) return;
+    // Read the session from the store, as timers call this from the render that started the set
+    const state = sessionStore.getState();
+    const sessionId = state.currentSessionId;
+    if (!sessionId) return;
 
     try {
-      const params = store.workoutParameters;
-      const warmup = store.repCount.warmupReps ?? 0;
-      const working = store.repCount.workingReps ?? 0;
-      const duration = Date.now() - store.workoutStartTime;
+      const params = state.workoutParameters;
+      const warmup = state.repCount.warmupReps ?? 0;
+      const working = state.repCount.workingReps ?? 0;
+      const duration = Date.now() - state.workoutStartTime;
 
       // Calculate actual weight from metrics
       const actualPerCableWeightKg =
-        store.collectedMetrics.length > 0
-          ? Math.max(...store.collectedMetrics.map((m) => (m.loadA + m.loadB) / 2))
+        state.collectedMetrics.length > 0
+          ? Math.max(...state.collectedMetrics.map((m) => (m.loadA + m.loadB) / 2))
           : params.weightPerCableKg ?? 10;
 
+      // Read reps from the store again - the last rep may have been added by flushRepAnalytics in this tick
+      const repAnalytics = sessionStore.getState().repAnalytics;
+
+      // Left/right asymmetry over the working reps
+      const asymmetry = summarizeAsymmetry(
+        repAnalytics.filter((rep) => !rep.isWarmup).map((rep) => rep.asymmetry)
+      );
+
+      // Timed sets summarize their reps, isometric holds how steadily load and position were held
+      const setType = resolveSetType(params);
+      const targetDurationSeconds = setType !== 'reps' ? params.durationSeconds ?? null : null;
+      const timedSummary =
+        setType === 'timed'
+          ? summarizeTimedSet(
+              targetDurationSeconds!,
+              duration,
+              repAnalytics.filter((rep) => !rep.isWarmup).map((rep) => rep.timeUnderTensionMs)
+            )
+          : null;
+      const holdSummary =
+        setType === 'isometric' ? summarizeIsometricHold(targetDurationSeconds!, state.collectedMetrics) : null;
+      const timeUnderTensionMs = timedSummary?.timeUnderTensionMs ?? holdSummary?.holdMs ?? null;
+
+      // Records and estimates of a drop set only count the reps done before the first drop
+      const topSegmentReps = Math.min(dropStartRepsRef.current[0] ?? working, working);
+
       const sessionEntity: WorkoutSessionEntity = {
-        id: store.currentSessionId!,
-        timestamp: store.workoutStartTime,
+        id: sessionId,
+        timestamp: state.workoutStartTime,
         mode: params.workoutType.type === 'program' ? params.workoutType.mode.displayName : 'Echo',
         reps: params.reps,
         weightPerCableKg: actualPerCableWeightKg,
@@ -408,14 +1022,35 @@ export const useWorkoutSession = () => {
         eccentricLoad: params.workoutType.type === 'echo' ? params.workoutType.eccentricLoad : 100,
         echoLevel: params.workoutType.type === 'echo' ? params.workoutType.level : 2,
         exerciseId: params.selectedExerciseId ?? null,
+        stopReason: stopReasonRef.current,
+        loadAsymmetryPercent: asymmetry?.loadImbalancePercent ?? null,
+        romAsymmetryPercent: asymmetry?.romImbalancePercent ?? null,
+        timingOffsetMs: asymmetry?.timingOffsetMs ?? null,
+        setType,
+        targetDurationSeconds,
+        timeUnderTensionMs: timeUnderTensionMs !== null ? Math.round(timeUnderTensionMs) : null,
+        holdLoadKg: holdSummary?.meanLoadKg ?? null,
+        loadVariationPercent: holdSummary?.loadVariationPercent ?? null,
+        positionVariationMm: holdSummary?.positionVariationMm ?? null,
+        routineId: params.routineId ?? null,
+        routineExerciseId: params.routineExerciseId ?? null,
       };
 
+      // A replayed set is only rebuilt for debugging: no history, records, estimates or progression
+      if (isReplaySetRef.current) {
+        store.setReplayResult({ session: sessionEntity, metrics: [...state.collectedMetrics], repAnalytics });
+        console.log(
+          `Rebuilt replayed session with ${state.collectedMetrics.length} metrics and ${repAnalytics.length} reps`
+        );
+        return;
+      }
+
       await insertSession(sessionEntity);
 
       // Save metrics
-      if (store.collectedMetrics.length > 0) {
-        const metrics: WorkoutMetricEntity[] = store.collectedMetrics.map((m) => ({
-          sessionId: store.currentSessionId!,
+      if (state.collectedMetrics.length > 0) {
+        const metrics: WorkoutMetricEntity[] = state.collectedMetrics.map((m) => ({
+          sessionId,
           timestamp: m.timestamp ?? Date.now(),
           loadA: m.loadA,
           loadB: m.loadB,
@@ -426,23 +1061,81 @@ export const useWorkoutSession = () => {
         await insertMetrics(metrics);
       }
 
-      // Track personal record if exercise is selected
-      if (params.selectedExerciseId && working > 0 && !params.isJustLift && params.workoutType.type !== 'echo') {
-        const isNewPR = await updatePRIfBetter(
-          params.selectedExerciseId,
-          actualPerCableWeightKg,
-          working,
-          sessionEntity.mode,
-          Date.now()
-        );
+      // Save rep-by-rep records
+      if (repAnalytics.length > 0) {
+        const reps: WorkoutRepEntity[] = repAnalytics.map((rep) => ({
+          sessionId,
+          repIndex: rep.repIndex,
+          isWarmup: rep.isWarmup,
+          startTime: rep.startTime,
+          endTime: rep.endTime,
+          topPositionA: rep.cableA.topPosition,
+          topPositionB: rep.cableB.topPosition,
+          bottomPositionA: rep.cableA.bottomPosition,
+          bottomPositionB: rep.cableB.bottomPosition,
+          peakLoadA: rep.cableA.peakLoad,
+          peakLoadB: rep.cableB.peakLoad,
+          meanConcentricVelocity: rep.meanConcentricVelocity,
+          peakConcentricVelocity: rep.peakConcentricVelocity,
+          meanConcentricPower: rep.meanConcentricPower,
+          timeUnderTensionMs: rep.timeUnderTensionMs,
+        }));
+        await insertReps(reps);
+      }
+
+      // Track personal records if exercise is selected (records are kept per mode, so Echo counts too)
+      if (params.selectedExerciseId && topSegmentReps > 0 && !params.isJustLift) {
+        const recordBreaks = await getPersonalRecordRepository().checkPersonalRecords({
+          sessionId,
+          exerciseId: params.selectedExerciseId,
+          workoutMode: sessionEntity.mode,
+          weightPerCableKg: actualPerCableWeightKg,
+          reps: topSegmentReps,
+          timestamp: Date.now(),
+        });
 
-        if (isNewPR) {
-          console.log(`NEW PERSONAL RECORD! Exercise: ${params.selectedExerciseId}, Weight: ${actualPerCableWeightKg}kg, Reps: ${working}`);
-          // TODO: Emit PR celebration event
+        // Celebrate records that beat an earlier one (the first set of an exercise sets every category)
+        const beaten = recordBreaks.filter((recordBreak) => recordBreak.previous !== null);
+        if (beaten.length > 0) {
+          const exercise = await getExerciseRepository()
+            .getExerciseById(params.selectedExerciseId)
+            .catch(() => null);
+          console.log(`NEW PERSONAL RECORD! Exercise: ${params.selectedExerciseId}, ${beaten.length} categories`);
+          store.setPRCelebrations(
+            beaten.map(({ record, previous }) => ({
+              exerciseName: exercise?.name ?? 'Exercise',
+              weightPerCableKg: record.weightPerCableKg,
+              reps: record.reps,
+              workoutMode: record.workoutMode,
+              category: record.category,
+              value: record.value,
+              previousValue: previous?.value ?? null,
+            }))
+          );
         }
+
+        // Estimated one-rep max from the working set (velocity estimate uses the fastest working rep)
+        const workingVelocities = repAnalytics
+          .filter((rep) => !rep.isWarmup)
+          .slice(0, topSegmentReps)
+          .filter((rep) => rep.meanConcentricVelocity > 0)
+          .map((rep) => rep.meanConcentricVelocity);
+        await getPersonalRecordRepository().recordOneRepMaxEstimates(
+          sessionId,
+          params.selectedExerciseId,
+          state.workoutStartTime,
+          {
+            weightPerCableKg: actualPerCableWeightKg,
+            reps: topSegmentReps,
+            meanConcentricVelocity: workingVelocities.length > 0 ? Math.max(...workingVelocities) : null,
+          }
+        );
       }
 
-      console.log(`Saved workout session: ${store.currentSessionId} with ${store.collectedMetrics.length} metrics`);
+      console.log(
+        `Saved workout session: ${sessionId} with ${state.collectedMetrics.length} metrics ` +
+          `and ${repAnalytics.length} reps`
+      );
     } catch (error) {
       console.error('Failed to save workout session:', error);
     }
@@ -456,6 +1149,68 @@ export const useWorkoutSession = () => {
     [store]
   );
 
+  // Replay a recorded BLE session file through the live pipeline
+  // The set starts when the recorded workout frame is reached and stops on the recorded
+  // STOP/INIT, unless the rep counter or auto-stop ends it first. The rebuilt set ends up in
+  // replayResult and is never saved
+  const replaySession = useCallback(
+    (sessionFile: string, speed: number = 1) => {
+      const session = parseBleSession(sessionFile);
+      const params = session.metadata.workoutParameters as WorkoutParameters | undefined;
+      if (!params) {
+        throw new Error('Session has no workout parameters');
+      }
+
+      // The replay is fed to this session's own trainer, whose events the session follows
+      const replayTarget = bleRepository?.getReplayTarget() ?? null;
+      if (!replayTarget) {
+        throw new Error('This trainer cannot replay recorded sessions');
+      }
+
+      replayerRef.current?.stop();
+      store.reset();
+      store.setReplayResult(null);
+      store.setWorkoutParameters(params);
+
+      const replayer = new BleSessionReplayer(session);
+      replayerRef.current = replayer;
+      let started = false;
+
+      replayer.on('command', (bytes: Uint8Array) => {
+        const command = bytes[0];
+        if (!started && (command === 0x04 || command === 0x4e)) {
+          started = true;
+          startWorkout(true, params.isJustLift ?? false);
+        } else if (started && (command === 0x0a || command === 0x05) && bytes.length === 4) {
+          if (sessionStore.getState().workoutState.type === 'active') {
+            stopWorkout();
+          }
+        }
+      });
+      replayer.on('complete', () => {
+        console.log('Session replay complete');
+        if (replayerRef.current === replayer) {
+          replayerRef.current = null;
+        }
+      });
+
+      if (!session.events.some((e) => e.dir === 'out')) {
+        started = true;
+        startWorkout(true, params.isJustLift ?? false);
+      }
+
+      console.log(`Replaying BLE session (${session.events.length} events) at ${speed}x`);
+      replayer.play(replayTarget, { speed });
+    },
+    [bleRepository, store, startWorkout, stopWorkout]
+  );
+
+  // Stop a session replay
+  const stopReplay = useCallback(() => {
+    replayerRef.current?.stop();
+    replayerRef.current = null;
+  }, []);
+
   // Reset for new workout
   const resetForNewWorkout = useCallback(() => {
     store.reset();
@@ -463,17 +1218,36 @@ export const useWorkoutSession = () => {
     console.log('Reset for new workout - state returned to Idle');
   }, [store]);
 
-  // Cleanup on unmount
+  // Cleanup when the runner unmounts (the timers are shared, so screens leave them running)
   useEffect(() => {
+    if (!runsSession) {
+      return;
+    }
     return () => {
       if (autoStartTimerRef.current) {
         clearTimeout(autoStartTimerRef.current);
+        autoStartTimerRef.current = null;
       }
       if (autoStopTimerRef.current) {
         clearTimeout(autoStopTimerRef.current);
+        autoStopTimerRef.current = null;
+      }
+      if (restTimerRef.current) {
+        clearInterval(restTimerRef.current);
+        restTimerRef.current = null;
+      }
+      if (durationTimerRef.current) {
+        clearInterval(durationTimerRef.current);
+        durationTimerRef.current = null;
       }
+      if (failureTimerRef.current) {
+        clearTimeout(failureTimerRef.current);
+        failureTimerRef.current = null;
+      }
+      replayerRef.current?.stop();
+      replayerRef.current = null;
     };
-  }, []);
+  }, [trainerId, runsSession]);
 
   return {
     // State
@@ -482,11 +1256,41 @@ export const useWorkoutSession = () => {
     repCount: store.repCount,
     autoStopState: store.autoStopState,
     autoStartCountdown: store.autoStartCountdown,
+    velocityLossState: store.velocityLossState,
+    durationState: store.durationState,
+    dropSetState: store.dropSetState,
+    repAnalytics: store.repAnalytics,
+    prCelebrations: store.prCelebrations,
+    replayResult: store.replayResult,
+    currentMetric,
+    trainerId,
 
     // Actions
     startWorkout,
     stopWorkout,
+    startRest,
+    skipRest,
     updateWorkoutParameters,
     resetForNewWorkout,
+    replaySession,
+    stopReplay,
+    dismissPRCelebration: store.dismissPRCelebration,
   };
 };
+
+/**
+ * Custom hook for workout session management
+ * Shows and controls the session of the given trainer, or of the selected trainer
+ */
+export const useWorkoutSession = (trainerId?: string) => {
+  const selectedTrainerId = useSelectedTrainerId();
+  return useTrainerWorkoutSession(trainerId ?? selectedTrainerId, false);
+};
+
+/**
+ * Runs the session of a trainer: follows its BLE events and ends its sets. Mount exactly one
+ * runner per trainer (WorkoutSessionHost does this for every registered trainer).
+ */
+export const useWorkoutSessionRunner = (trainerId: string) => {
+  return useTrainerWorkoutSession(trainerId, true);
+};
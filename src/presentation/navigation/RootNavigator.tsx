@@ -60,6 +60,9 @@ const styles = require('react-native').StyleSheet.create({
 
 // Import actual screens
 import { JustLiftScreen } from '../screens/JustLiftScreen';
+import { SessionDetailScreen } from '../screens/SessionDetailScreen';
+import { RoutineBuilderScreen } from '../screens/RoutineBuilderScreen';
+import { ShareImportScreen } from '../screens/ShareImportScreen';
 
 // Placeholder screens - replace with actual screen imports as they're developed
 const HomeScreen = () => <PlaceholderScreen name="Home" />;
@@ -215,6 +218,14 @@ const RootStackNavigator = () => {
         }}
       />
 
+      <Stack.Screen
+        name={SCREEN_NAMES.ROUTINE_BUILDER}
+        component={RoutineBuilderScreen}
+        options={{
+          cardStyleInterpolator: CardStyleInterpolators.forHorizontalIOS,
+        }}
+      />
+
       <Stack.Screen
         name={SCREEN_NAMES.ACTIVE_WORKOUT}
         component={ActiveWorkoutScreen}
@@ -240,6 +251,23 @@ const RootStackNavigator = () => {
         }}
       />
 
+      <Stack.Screen
+        name={SCREEN_NAMES.SHARE_IMPORT}
+        component={ShareImportScreen}
+        options={{
+          cardStyleInterpolator: CardStyleInterpolators.forHorizontalIOS,
+        }}
+      />
+
+      {/* Analytics Screens */}
+      <Stack.Screen
+        name={SCREEN_NAMES.SESSION_DETAIL}
+        component={SessionDetailScreen}
+        options={{
+          cardStyleInterpolator: CardStyleInterpolators.forHorizontalIOS,
+        }}
+      />
+
       {/* Settings/Debug Screens */}
       <Stack.Screen
         name={SCREEN_NAMES.CONNECTION_LOGS}
@@ -21,11 +21,22 @@ export type RootStackParamList = {
   JustLift: undefined;
   SingleExercise: undefined;
   DailyRoutines: undefined;
+  RoutineBuilder: {
+    routineId?: string; // Optional - omitted when creating, existing ID for editing
+  };
   ActiveWorkout: undefined;
   WeeklyPrograms: undefined;
   ProgramBuilder: {
     programId?: string; // Optional - "new" for creating, existing ID for editing
   };
+  ShareImport: {
+    data?: string; // Optional - share file JSON from an import link
+  };
+
+  // Analytics screens (push onto stack from Analytics tab)
+  SessionDetail: {
+    sessionId: string;
+  };
 
   // Settings/Debug screens (push onto stack from Settings tab)
   ConnectionLogs: undefined;
@@ -50,9 +61,12 @@ export const SCREEN_NAMES = {
   JUST_LIFT: 'JustLift' as const,
   SINGLE_EXERCISE: 'SingleExercise' as const,
   DAILY_ROUTINES: 'DailyRoutines' as const,
+  ROUTINE_BUILDER: 'RoutineBuilder' as const,
   ACTIVE_WORKOUT: 'ActiveWorkout' as const,
   WEEKLY_PROGRAMS: 'WeeklyPrograms' as const,
   PROGRAM_BUILDER: 'ProgramBuilder' as const,
+  SHARE_IMPORT: 'ShareImport' as const,
+  SESSION_DETAIL: 'SessionDetail' as const,
   CONNECTION_LOGS: 'ConnectionLogs' as const,
 
   // Bottom Tabs
@@ -97,6 +111,7 @@ export const DEEP_LINK_CONFIG: DeepLinkConfig = {
     JustLift: 'just-lift',
     SingleExercise: 'single-exercise',
     DailyRoutines: 'daily-routines',
+    RoutineBuilder: 'routine-builder/:routineId?',
     ActiveWorkout: 'active-workout',
     WeeklyPrograms: 'weekly-programs',
     ProgramBuilder: {
@@ -105,6 +120,8 @@ export const DEEP_LINK_CONFIG: DeepLinkConfig = {
         programId: (id: string) => id || 'new',
       },
     },
+    ShareImport: 'import',
+    SessionDetail: 'session/:sessionId',
     ConnectionLogs: 'connection-logs',
   },
 };
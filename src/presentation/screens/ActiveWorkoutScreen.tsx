@@ -17,15 +17,44 @@ import {
 import {useColors, useTypography, useSpacing} from '../theme';
 import {useWorkoutSession} from '../hooks/useWorkoutSession';
 import {useBleConnection} from '../hooks/useBleConnection';
-import {WorkoutMetricsDisplay, WorkoutMetric} from '../components/WorkoutMetricsDisplay';
+import {useRoutines} from '../hooks/useRoutines';
+import {useTrainers} from '../hooks/useTrainers';
+import {
+  WorkoutMetricsDisplay,
+  WorkoutMetric,
+  createAsymmetryMetrics,
+} from '../components/WorkoutMetricsDisplay';
 import {Button, TextButton} from '../components/Button';
 import {Card} from '../components/Card';
 import {CountdownTimer} from '../components/CountdownTimer';
 import {RestTimer} from '../components/RestTimer';
 import {ConnectingOverlay} from '../components/ConnectingOverlay';
 import {ConnectionErrorDialog} from '../components/ConnectionErrorDialog';
-import {Modal, AlertDialog} from '../components/Modal';
-import {WeightUnit} from '../../domain/models/Models';
+import {AlertDialog} from '../components/Modal';
+import {PRCelebrationModal} from '../components/PRCelebrationModal';
+import {TrainerPicker} from '../components/TrainerPicker';
+import {WeightUnit, getWorkoutTypeDisplayName} from '../../domain/models/Models';
+import {EXERCISE_GROUP_TYPE_LABELS} from '../../domain/usecases/ExerciseGrouping';
+import {IsometricHoldSummary} from '../../domain/usecases/DurationSetAnalyzer';
+import {buildRoutineSetParameters} from '../../domain/usecases/RoutineSetPlanner';
+import {PRIMARY_TRAINER_ID} from '../../data/repository/BleRepository';
+import {ConnectionStatus} from '../../data/ble/types';
+
+/**
+ * Format seconds as m:ss
+ */
+const formatClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Readable names of the commands sent to the trainer
+const COMMAND_NAMES: Record<string, string> = {
+  init: 'Initialize',
+  'init-preset': 'Initialize preset',
+  'program-params': 'Start set',
+  'echo-control': 'Start echo set',
+  stop: 'Stop',
+  'color-scheme': 'LED color',
+};
 
 export interface ActiveWorkoutScreenProps {
   // Navigation props
@@ -54,6 +83,7 @@ export interface ActiveWorkoutScreenProps {
  * - Stop workout button
  * - Auto-save session to database
  * - PR celebration on achievement
+ * - Rest and next set of a loaded routine (alternating supersets and circuits)
  * - Prevents accidental back navigation
  */
 export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
@@ -77,31 +107,67 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
     repCount,
     autoStopState,
     autoStartCountdown,
+    durationState,
+    dropSetState,
+    repAnalytics,
+    prCelebrations,
+    currentMetric,
+    startWorkout,
     stopWorkout,
+    skipRest,
+    updateWorkoutParameters,
     resetForNewWorkout,
+    dismissPRCelebration,
   } = useWorkoutSession();
 
   const {
     connectionState,
-    currentMetric,
     isAutoConnecting,
     connectionError,
     clearConnectionError,
+    lastCommandFailure,
+    clearCommandFailure,
   } = useBleConnection();
 
+  const {
+    loadedRoutine,
+    currentExerciseIndex: routineExerciseIndex,
+    currentSetIndex: routineSetIndex,
+    getCurrentExercise,
+    getUpcomingSet,
+    endAfterCurrentSet,
+  } = useRoutines();
+
+  // The screen shows the session of the selected trainer
+  const {trainers, selectedTrainerId, selectTrainer} = useTrainers();
+  const selectedTrainer = trainers.find(trainer => trainer.trainerId === selectedTrainerId);
+  const isTrainerConnected =
+    selectedTrainerId === PRIMARY_TRAINER_ID
+      ? connectionState.type === 'connected'
+      : selectedTrainer?.connectionState.status === ConnectionStatus.Ready;
+
   // Local state
   const [showExitConfirmation, setShowExitConfirmation] = useState(false);
-  const [showPRCelebration, setShowPRCelebration] = useState(false);
-  const [prDetails, setPrDetails] = useState<{
-    exerciseName: string;
-    weight: string;
-    reps: number;
-  } | null>(null);
+
+
+  // A loaded routine drives the title and exercise position
+  const routineExercise = !workoutParameters.isJustLift ? getCurrentExercise() : null;
+  const currentGroup = routineExercise?.group ?? null;
+  const displayExerciseIndex = routineExercise ? routineExerciseIndex : currentExerciseIndex;
+  const displayTotalExercises = routineExercise
+    ? loadedRoutine?.exercises?.length ?? totalExercises
+    : totalExercises;
 
   // Determine screen title
-  const screenTitle = routineName ||
+  const screenTitle = routineName || (routineExercise ? loadedRoutine?.name : undefined) ||
     (workoutParameters.isJustLift ? 'Just Lift' : exerciseName || 'Single Exercise');
 
+  // End the workout (and the rest of the routine)
+  const endWorkout = useCallback(() => {
+    endAfterCurrentSet();
+    stopWorkout();
+  }, [endAfterCurrentSet, stopWorkout]);
+
   // Handle back press (Android hardware back button)
   useEffect(() => {
     const backHandler = BackHandler.addEventListener(
@@ -123,9 +189,10 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
     return () => backHandler.remove();
   }, [workoutState]);
 
-  // Auto-navigate back on workout completion
+  // Auto-navigate back on workout completion (once any PR celebrations have been dismissed)
+  const hasPRCelebration = prCelebrations.length > 0;
   useEffect(() => {
-    if (workoutState.type === 'completed') {
+    if (workoutState.type === 'completed' && !hasPRCelebration) {
       const timer = setTimeout(() => {
         if (onNavigateBack) {
           onNavigateBack();
@@ -145,16 +212,16 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
 
       return () => clearTimeout(timer);
     }
-  }, [workoutState, workoutParameters.isJustLift, onNavigateBack]);
+  }, [workoutState, workoutParameters.isJustLift, onNavigateBack, hasPRCelebration]);
 
   // Handle exit confirmation
   const handleExitWorkout = useCallback(() => {
-    stopWorkout();
+    endWorkout();
     setShowExitConfirmation(false);
     if (onNavigateBack) {
       onNavigateBack();
     }
-  }, [stopWorkout, onNavigateBack]);
+  }, [endWorkout, onNavigateBack]);
 
   // Handle back button press
   const handleBackPress = useCallback(() => {
@@ -207,6 +274,11 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
     ];
   };
 
+  // Left/right comparison of the latest rep that used both cables
+  const latestAsymmetry =
+    [...repAnalytics].reverse().find(rep => rep.asymmetry !== null)?.asymmetry ??
+    null;
+
   // Render countdown state
   if (workoutState.type === 'countdown') {
     return (
@@ -221,6 +293,11 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
 
   // Render resting state
   if (workoutState.type === 'resting') {
+    const upcoming = getUpcomingSet();
+    const upcomingParameters = upcoming
+      ? buildRoutineSetParameters(workoutParameters, upcoming.routineExercise, upcoming.setIndex)
+      : null;
+
     return (
       <View style={{flex: 1, backgroundColor: colors.background}} testID={testID}>
         <RestTimer
@@ -229,15 +306,27 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
           isLastExercise={workoutState.isLastExercise}
           currentSet={workoutState.currentSet}
           totalSets={workoutState.totalSets}
-          onSkipRest={() => {
-            // Skip rest functionality would be implemented here
-            console.log('Skip rest pressed');
-          }}
-          onEndWorkout={() => {
-            stopWorkout();
-          }}
+          nextExerciseWeight={upcomingParameters?.weightPerCableKg}
+          nextExerciseReps={upcomingParameters?.reps ?? undefined}
+          nextExerciseMode={upcomingParameters
+            ? getWorkoutTypeDisplayName(upcomingParameters.workoutType)
+            : undefined}
+          currentExerciseIndex={displayExerciseIndex}
+          totalExercises={displayTotalExercises}
+          formatWeight={formatWeight}
+          onSkipRest={skipRest}
+          onEndWorkout={endWorkout}
           testID={testID ? `${testID}-rest` : undefined}
         />
+
+        {/* PR Celebration Dialog */}
+        <PRCelebrationModal
+          celebration={prCelebrations[0] ?? null}
+          remaining={prCelebrations.length - 1}
+          onDismiss={dismissPRCelebration}
+          formatWeight={formatWeight}
+          testID={testID ? `${testID}-pr` : undefined}
+        />
       </View>
     );
   }
@@ -276,18 +365,37 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                 numberOfLines={1}>
                 {screenTitle}
               </Text>
-              {totalExercises > 1 && (
+              {displayTotalExercises > 1 && (
                 <Text
                   style={[
                     typography.bodySmall,
                     {color: colors.onSurfaceVariant},
                   ]}>
-                  Exercise {currentExerciseIndex + 1} of {totalExercises}
+                  Exercise {displayExerciseIndex + 1} of {displayTotalExercises}
+                </Text>
+              )}
+              {routineExercise && (
+                <Text
+                  style={[
+                    typography.bodySmall,
+                    {color: colors.onSurfaceVariant},
+                  ]}
+                  numberOfLines={1}>
+                  {currentGroup ? `${EXERCISE_GROUP_TYPE_LABELS[currentGroup.type]} • ` : ''}
+                  {routineExercise.exercise.name} • Set {routineSetIndex + 1} of{' '}
+                  {routineExercise.setReps?.length ?? 0}
                 </Text>
               )}
             </View>
           </View>
         </View>
+        <TrainerPicker
+          trainers={trainers}
+          selectedTrainerId={selectedTrainerId}
+          onSelect={selectTrainer}
+          label="Showing"
+          style={{marginTop: spacing.small}}
+        />
       </View>
 
       {/* Main Content */}
@@ -298,7 +406,7 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
           gap: spacing.large,
         }}>
         {/* Connection Status */}
-        {connectionState.type !== 'connected' && (
+        {!isTrainerConnected && (
           <Card
             style={{
               backgroundColor: colors.errorContainer,
@@ -318,12 +426,51 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                   typography.bodySmall,
                   {color: colors.onErrorContainer},
                 ]}>
-                Please connect to your Vitruvian Trainer to start workout.
+                {selectedTrainerId === PRIMARY_TRAINER_ID
+                  ? 'Please connect to your Vitruvian Trainer to start workout.'
+                  : `Please connect ${selectedTrainer?.name ?? 'this trainer'} in Settings to start workout.`}
               </Text>
             </View>
           </Card>
         )}
 
+        {/* Last Command Failure */}
+        {lastCommandFailure && (
+          <Card
+            style={{
+              backgroundColor: colors.errorContainer,
+              borderWidth: 1,
+              borderColor: colors.error,
+            }}>
+            <View style={{padding: spacing.medium, gap: spacing.small}}>
+              <Text
+                style={[
+                  typography.titleMedium,
+                  {color: colors.onErrorContainer},
+                ]}>
+                ⚠️ {COMMAND_NAMES[lastCommandFailure.label] ?? lastCommandFailure.label} command{' '}
+                {lastCommandFailure.status === 'timeout' ? 'timed out' : 'failed'}
+              </Text>
+              <Text
+                style={[
+                  typography.bodySmall,
+                  {color: colors.onErrorContainer},
+                ]}>
+                The trainer did not confirm the command after {lastCommandFailure.attempts}{' '}
+                {lastCommandFailure.attempts === 1 ? 'attempt' : 'attempts'}
+                {lastCommandFailure.error ? ` (${lastCommandFailure.error})` : ''}. Check the
+                trainer before lifting.
+              </Text>
+              <TextButton
+                onPress={clearCommandFailure}
+                size="small"
+                style={{alignSelf: 'flex-end'}}>
+                Dismiss
+              </TextButton>
+            </View>
+          </Card>
+        )}
+
         {/* Workout State */}
         <Card>
           <View style={{padding: spacing.large, gap: spacing.medium}}>
@@ -400,7 +547,18 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                 />
               </View>
 
-              {!workoutParameters.isJustLift && (
+              {/* Timed and isometric sets count down instead of up to a rep target */}
+              {durationState && (
+                <DurationProgress
+                  elapsedSeconds={durationState.elapsedSeconds}
+                  targetSeconds={durationState.targetSeconds}
+                  workingReps={durationState.hold ? null : repCount.workingReps || 0}
+                  hold={durationState.hold}
+                  formatWeight={formatWeight}
+                />
+              )}
+
+              {!workoutParameters.isJustLift && !durationState && (
                 <>
                   <View
                     style={{
@@ -414,39 +572,64 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                         typography.bodyMedium,
                         {color: colors.onSurfaceVariant},
                       ]}>
-                      Working Reps
+                      {dropSetState && dropSetState.segment > 0
+                        ? `Drop ${dropSetState.segment} of ${dropSetState.totalSegments - 1} • ${formatWeight(
+                            dropSetState.weightPerCableKg
+                          )}`
+                        : 'Working Reps'}
                     </Text>
                     <Text
                       style={[
                         typography.titleLarge,
                         {color: colors.primary, fontWeight: 'bold'},
                       ]}>
-                      {repCount.workingReps || 0} /{' '}
-                      {workoutParameters.reps || 0}
+                      {dropSetState
+                        ? dropSetState.targetReps !== null
+                          ? `${dropSetState.segmentReps} / ${dropSetState.targetReps}`
+                          : `${dropSetState.segmentReps} • to failure`
+                        : `${repCount.workingReps || 0} / ${workoutParameters.reps || 0}`}
                     </Text>
                   </View>
 
-                  {/* Working Progress Bar */}
-                  <View
-                    style={{
-                      height: 8,
-                      backgroundColor: colors.surfaceVariant,
-                      borderRadius: 4,
-                      overflow: 'hidden',
-                    }}>
+                  {/* Working Progress Bar (a segment that runs to failure has no target) */}
+                  {dropSetState?.targetReps !== null && (
                     <View
                       style={{
-                        height: '100%',
-                        width: `${Math.min(
-                          ((repCount.workingReps || 0) /
-                            (workoutParameters.reps || 1)) *
-                            100,
-                          100
-                        )}%`,
-                        backgroundColor: colors.primary,
-                      }}
-                    />
-                  </View>
+                        height: 8,
+                        backgroundColor: colors.surfaceVariant,
+                        borderRadius: 4,
+                        overflow: 'hidden',
+                      }}>
+                      <View
+                        style={{
+                          height: '100%',
+                          width: `${Math.min(
+                            (dropSetState
+                              ? dropSetState.segmentReps / (dropSetState.targetReps || 1)
+                              : (repCount.workingReps || 0) / (workoutParameters.reps || 1)) * 100,
+                            100
+                          )}%`,
+                          backgroundColor: colors.primary,
+                        }}
+                      />
+                    </View>
+                  )}
+
+                  {/* Weights still to come in a drop set */}
+                  {dropSetState && dropSetState.segment < dropSetState.totalSegments - 1 && (
+                    <Text
+                      style={[
+                        typography.bodySmall,
+                        {color: colors.onSurfaceVariant},
+                      ]}>
+                      Then{' '}
+                      {(workoutParameters.dropSet?.weightsPerCableKg ?? [])
+                        .slice(dropSetState.segment)
+                        .map(weight => formatWeight(weight))
+                        .join(' → ')}{' '}
+                      without releasing the handles
+                    </Text>
+                  )}
                 </>
               )}
             </View>
@@ -469,6 +652,22 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                 columns={3}
                 testID={testID ? `${testID}-metrics` : undefined}
               />
+              {latestAsymmetry && (
+                <>
+                  <Text
+                    style={[
+                      typography.titleMedium,
+                      {color: colors.onSurface, fontWeight: 'bold'},
+                    ]}>
+                    Left / Right Balance
+                  </Text>
+                  <WorkoutMetricsDisplay
+                    metrics={createAsymmetryMetrics(latestAsymmetry)}
+                    columns={3}
+                    testID={testID ? `${testID}-asymmetry` : undefined}
+                  />
+                </>
+              )}
             </View>
           </Card>
         )}
@@ -540,7 +739,7 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
                   {
                     text: 'Stop',
                     style: 'destructive',
-                    onPress: stopWorkout,
+                    onPress: endWorkout,
                   },
                 ],
                 {cancelable: true}
@@ -647,50 +846,89 @@ export const ActiveWorkoutScreen: React.FC<ActiveWorkoutScreenProps> = ({
       )}
 
       {/* PR Celebration Dialog */}
-      {showPRCelebration && prDetails && (
-        <Modal
-          visible={true}
-          onDismiss={() => setShowPRCelebration(false)}
-          title="🎉 New Personal Record!"
-          variant="center"
-          testID={testID ? `${testID}-pr` : undefined}
-          footer={
-            <Button
-              onPress={() => setShowPRCelebration(false)}
-              fullWidth>
-              Awesome!
-            </Button>
-          }>
-          <View style={{gap: spacing.medium, alignItems: 'center'}}>
-            <Text style={{fontSize: 64, textAlign: 'center'}}>🏆</Text>
-            <Text
-              style={[
-                typography.headlineSmall,
-                {
-                  color: colors.primary,
-                  fontWeight: 'bold',
-                  textAlign: 'center',
-                },
-              ]}>
-              {prDetails.exerciseName}
-            </Text>
-            <Text
-              style={[
-                typography.titleLarge,
-                {color: colors.onSurface, textAlign: 'center'},
-              ]}>
-              {prDetails.weight} × {prDetails.reps} reps
-            </Text>
-            <Text
-              style={[
-                typography.bodyMedium,
-                {color: colors.onSurfaceVariant, textAlign: 'center'},
-              ]}>
-              You've just set a new personal record! Keep up the amazing work!
-            </Text>
-          </View>
-        </Modal>
-      )}
+      <PRCelebrationModal
+        celebration={prCelebrations[0] ?? null}
+        remaining={prCelebrations.length - 1}
+        onDismiss={dismissPRCelebration}
+        formatWeight={formatWeight}
+        testID={testID ? `${testID}-pr` : undefined}
+      />
+    </View>
+  );
+};
+
+/**
+ * Time left in a timed or isometric set, with the reps of a timed set or the
+ * steadiness of a hold
+ */
+interface DurationProgressProps {
+  elapsedSeconds: number;
+  targetSeconds: number;
+  workingReps: number | null;
+  hold: IsometricHoldSummary | null;
+  formatWeight: (weightKg: number) => string;
+}
+
+const DurationProgress: React.FC<DurationProgressProps> = ({
+  elapsedSeconds,
+  targetSeconds,
+  workingReps,
+  hold,
+  formatWeight,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const row = (label: string, value: string) => (
+    <View
+      style={{
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: spacing.small,
+      }}>
+      <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+        {label}
+      </Text>
+      <Text
+        style={[
+          typography.titleLarge,
+          {color: colors.primary, fontWeight: 'bold'},
+        ]}>
+        {value}
+      </Text>
     </View>
   );
+
+  return (
+    <>
+      {row(hold ? 'Hold Time Left' : 'Time Left', formatClock(Math.max(targetSeconds - elapsedSeconds, 0)))}
+
+      {/* Duration Progress Bar */}
+      <View
+        style={{
+          height: 8,
+          backgroundColor: colors.surfaceVariant,
+          borderRadius: 4,
+          overflow: 'hidden',
+        }}>
+        <View
+          style={{
+            height: '100%',
+            width: `${Math.min((elapsedSeconds / Math.max(targetSeconds, 1)) * 100, 100)}%`,
+            backgroundColor: colors.primary,
+          }}
+        />
+      </View>
+
+      {workingReps !== null && row('Working Reps', `${workingReps}`)}
+      {hold && hold.holdMs > 0 && (
+        <>
+          {row('Load', `${formatWeight(hold.meanLoadKg)} ± ${hold.loadVariationPercent.toFixed(0)}%`)}
+          {row('Position Drift', `± ${hold.positionVariationMm.toFixed(0)} mm`)}
+        </>
+      )}
+    </>
+  );
 };
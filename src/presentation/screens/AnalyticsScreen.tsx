@@ -7,8 +7,11 @@
  * - Workout statistics (total workouts, streak, volume)
  * - Charts for workout trends (using react-native-chart-kit)
  * - Personal records list with muscle group distribution
- * - Recent workout history with delete functionality
+ * - Recent workout history with delete functionality (tap a workout for its detail view)
+ * - CSV and FIT export of the workout history, filtered by date range and exercise
  * - PR progression tracking with charts
+ * - Left/right cable asymmetry trend
+ * - Estimated one-rep max strength curves per exercise
  */
 
 import React, {useState, useEffect, useMemo, useCallback} from 'react';
@@ -25,19 +28,48 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import {LineChart, BarChart} from 'react-native-chart-kit';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+
+import {RootStackParamList, SCREEN_NAMES} from '../navigation/types';
 
 import {useColors, useTypography, useSpacing, useIsDark} from '../theme';
 import {useWorkoutHistory} from '../hooks/useWorkoutHistory';
 import {usePersonalRecords} from '../hooks/usePersonalRecords';
+import {usePreferences} from '../hooks/usePreferences';
+import {useWorkoutExport} from '../hooks/useWorkoutExport';
 import {Card} from '../components/Card';
 import {StatsCard} from '../components/StatsCard';
 import {EmptyState} from '../components/EmptyState';
+import {WorkoutExportModal} from '../components/WorkoutExportModal';
 import {getExerciseRepository} from '../../data/repository/ExerciseRepository';
 import {PersonalRecordEntity} from '../../data/local/entities';
-import {WorkoutSession} from '../../domain/models/Models';
+import {
+  WorkoutExportFilter,
+  WorkoutExportFormat,
+} from '../../data/repository/ExportRepository';
+import {
+  OneRepMaxEstimate,
+  OneRepMaxFormula,
+  PRCategory,
+  WorkoutSession,
+} from '../../domain/models/Models';
+import {ASYMMETRY_THRESHOLDS} from '../../domain/usecases/AsymmetryAnalyzer';
+import {
+  estimateOneRepMax,
+  ONE_REP_MAX_FORMULAS,
+  ONE_REP_MAX_FORMULA_LABELS,
+  projectRepMax,
+} from '../../domain/usecases/OneRepMaxEstimator';
+import {PR_CATEGORY_LABELS} from '../../domain/usecases/PersonalRecordDetector';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
+// Rep counts shown in the strength curve's projected rep maxes
+const PROJECTED_REP_COUNTS = [1, 3, 5, 8, 10, 12];
+
+type AnalyticsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+
 /**
  * Tab configuration
  */
@@ -59,6 +91,7 @@ const TABS: TabConfig[] = [
  * AnalyticsScreen Component
  */
 export const AnalyticsScreen: React.FC = () => {
+  const navigation = useNavigation<AnalyticsScreenNavigationProp>();
   const colors = useColors();
   const typography = useTypography();
   const spacing = useSpacing();
@@ -79,10 +112,20 @@ export const AnalyticsScreen: React.FC = () => {
 
   const {
     allPRs,
+    oneRepMaxHistory,
     isLoading: prsLoading,
+    loadOneRepMaxHistory,
     refresh: refreshPRs,
   } = usePersonalRecords();
 
+  const {preferences, setOneRepMaxFormula} = usePreferences();
+  const oneRepMaxFormula = preferences.oneRepMaxFormula ?? 'epley';
+
+  // Reload the strength curves when the formula changes or new sessions are saved
+  useEffect(() => {
+    loadOneRepMaxHistory(oneRepMaxFormula);
+  }, [oneRepMaxFormula, allSessions, loadOneRepMaxHistory]);
+
   /**
    * Background gradient colors based on theme
    */
@@ -100,6 +143,9 @@ export const AnalyticsScreen: React.FC = () => {
           <HistoryTab
             workoutHistory={workoutHistory}
             onDeleteWorkout={deleteWorkout}
+            onOpenWorkout={sessionId =>
+              navigation.navigate(SCREEN_NAMES.SESSION_DETAIL, {sessionId})
+            }
             onRefresh={refreshHistory}
           />
         );
@@ -111,6 +157,9 @@ export const AnalyticsScreen: React.FC = () => {
             personalRecords={allPRs}
             allSessions={allSessions}
             workoutStats={workoutStats}
+            oneRepMaxHistory={oneRepMaxHistory}
+            oneRepMaxFormula={oneRepMaxFormula}
+            onSelectFormula={setOneRepMaxFormula}
           />
         );
       default:
@@ -199,12 +248,14 @@ export const AnalyticsScreen: React.FC = () => {
 interface HistoryTabProps {
   workoutHistory: WorkoutSession[];
   onDeleteWorkout: (sessionId: string) => void;
+  onOpenWorkout: (sessionId: string) => void;
   onRefresh: () => void;
 }
 
 const HistoryTab: React.FC<HistoryTabProps> = ({
   workoutHistory,
   onDeleteWorkout,
+  onOpenWorkout,
   onRefresh,
 }) => {
   const colors = useColors();
@@ -262,6 +313,36 @@ const HistoryTab: React.FC<HistoryTabProps> = ({
     [onDeleteWorkout]
   );
 
+  // Export
+  const [showExport, setShowExport] = useState(false);
+  const {
+    matchingCount,
+    isExporting,
+    error: exportError,
+    countMatching,
+    exportWorkouts,
+  } = useWorkoutExport();
+
+  const exportExercises = useMemo(
+    () =>
+      Object.entries(exerciseNames)
+        .map(([id, name]) => ({id, name}))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [exerciseNames]
+  );
+
+  const handleExport = useCallback(
+    async (format: WorkoutExportFormat, filter: WorkoutExportFilter) => {
+      try {
+        await exportWorkouts(format, filter);
+        setShowExport(false);
+      } catch (error) {
+        // The export modal shows the error
+      }
+    },
+    [exportWorkouts]
+  );
+
   if (workoutHistory.length === 0) {
     return (
       <EmptyState
@@ -275,17 +356,22 @@ const HistoryTab: React.FC<HistoryTabProps> = ({
 
   return (
     <View>
-      <Text
-        style={[
-          typography.headlineSmall,
-          {
-            color: colors.onSurface,
-            fontWeight: 'bold',
-            marginBottom: spacing.medium,
-          },
-        ]}>
-        Recent Workouts
-      </Text>
+      <View style={[styles.historyTitleRow, {marginBottom: spacing.medium}]}>
+        <Text
+          style={[
+            typography.headlineSmall,
+            {color: colors.onSurface, fontWeight: 'bold', flex: 1},
+          ]}>
+          Recent Workouts
+        </Text>
+        <TouchableOpacity
+          onPress={() => setShowExport(true)}
+          style={styles.historyAction}
+          accessibilityRole="button"
+          accessibilityLabel="Export workouts">
+          <Icon name="file-download" size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
 
       {workoutHistory.map((session, index) => (
         <WorkoutHistoryCard
@@ -295,8 +381,20 @@ const HistoryTab: React.FC<HistoryTabProps> = ({
             session.exerciseId ? exerciseNames[session.exerciseId] : null
           }
           onDelete={handleDelete}
+          onPress={onOpenWorkout}
         />
       ))}
+
+      <WorkoutExportModal
+        visible={showExport}
+        exercises={exportExercises}
+        matchingCount={matchingCount}
+        error={exportError}
+        isExporting={isExporting}
+        onFilterChange={countMatching}
+        onExport={handleExport}
+        onDismiss={() => setShowExport(false)}
+      />
     </View>
   );
 };
@@ -308,12 +406,14 @@ interface WorkoutHistoryCardProps {
   session: WorkoutSession;
   exerciseName: string | null | undefined;
   onDelete: (sessionId: string) => void;
+  onPress: (sessionId: string) => void;
 }
 
 const WorkoutHistoryCard: React.FC<WorkoutHistoryCardProps> = ({
   session,
   exerciseName,
   onDelete,
+  onPress,
 }) => {
   const colors = useColors();
   const typography = useTypography();
@@ -337,7 +437,8 @@ const WorkoutHistoryCard: React.FC<WorkoutHistoryCardProps> = ({
       style={{marginBottom: spacing.medium}}
       elevation={2}
       borderWidth={1}
-      borderRadius={16}>
+      borderRadius={16}
+      onPress={session.id ? () => onPress(session.id!) : undefined}>
       <View style={{padding: spacing.medium}}>
         <View style={styles.historyCardHeader}>
           <View style={{flex: 1}}>
@@ -435,9 +536,13 @@ const PersonalBestsTab: React.FC<PersonalBestsTabProps> = ({
       return acc;
     }, {} as Record<string, PersonalRecordEntity[]>);
 
-    // Get best PR for each exercise
+    // Get best max-weight PR for each exercise, plus the best of the other categories
     return Object.entries(grouped)
-      .map(([exerciseId, prs]) => {
+      .map(([exerciseId, records]) => {
+        const maxWeightRecords = records.filter(
+          pr => pr.category === 'max_weight'
+        );
+        const prs = maxWeightRecords.length > 0 ? maxWeightRecords : records;
         const bestPR = prs.reduce((best, current) => {
           if (current.weightPerCableKg > best.weightPerCableKg) {
             return current;
@@ -450,7 +555,18 @@ const PersonalBestsTab: React.FC<PersonalBestsTabProps> = ({
           }
           return best;
         });
-        return {exerciseId, pr: bestPR};
+        const categoryBests = (['max_volume', 'max_e1rm'] as PRCategory[])
+          .map(category => ({
+            category,
+            value: Math.max(
+              0,
+              ...records
+                .filter(pr => pr.category === category)
+                .map(pr => pr.value)
+            ),
+          }))
+          .filter(best => best.value > 0);
+        return {exerciseId, pr: bestPR, categoryBests};
       })
       .sort((a, b) => b.pr.weightPerCableKg - a.pr.weightPerCableKg);
   }, [personalRecords]);
@@ -507,12 +623,13 @@ const PersonalBestsTab: React.FC<PersonalBestsTabProps> = ({
         Your Personal Records
       </Text>
 
-      {prsByExercise.map(({exerciseId, pr}, index) => (
+      {prsByExercise.map(({exerciseId, pr, categoryBests}, index) => (
         <PersonalRecordCard
           key={exerciseId}
           rank={index + 1}
           exerciseName={exerciseNames[exerciseId] || 'Loading...'}
           pr={pr}
+          categoryBests={categoryBests}
         />
       ))}
     </View>
@@ -526,12 +643,14 @@ interface PersonalRecordCardProps {
   rank: number;
   exerciseName: string;
   pr: PersonalRecordEntity;
+  categoryBests: Array<{category: PRCategory; value: number}>;
 }
 
 const PersonalRecordCard: React.FC<PersonalRecordCardProps> = ({
   rank,
   exerciseName,
   pr,
+  categoryBests,
 }) => {
   const colors = useColors();
   const typography = useTypography();
@@ -615,6 +734,20 @@ const PersonalRecordCard: React.FC<PersonalRecordCardProps> = ({
               {dateStr}
             </Text>
           </View>
+          {categoryBests.length > 0 && (
+            <Text
+              style={[
+                typography.bodySmall,
+                {color: colors.onSurfaceVariant, marginTop: spacing.extraSmall},
+              ]}>
+              {categoryBests
+                .map(
+                  best =>
+                    `${PR_CATEGORY_LABELS[best.category]}: ${best.value.toFixed(1)} kg`
+                )
+                .join(' • ')}
+            </Text>
+          )}
         </View>
 
         {/* Star icon for #1 */}
@@ -637,12 +770,18 @@ interface TrendsTabProps {
     workoutStreak: number | null;
     progressPercentage: number | null;
   };
+  oneRepMaxHistory: OneRepMaxEstimate[];
+  oneRepMaxFormula: OneRepMaxFormula;
+  onSelectFormula: (formula: OneRepMaxFormula) => void;
 }
 
 const TrendsTab: React.FC<TrendsTabProps> = ({
   personalRecords,
   allSessions,
   workoutStats,
+  oneRepMaxHistory,
+  oneRepMaxFormula,
+  onSelectFormula,
 }) => {
   const colors = useColors();
   const typography = useTypography();
@@ -736,6 +875,42 @@ const TrendsTab: React.FC<TrendsTabProps> = ({
     };
   }, [allSessions]);
 
+  // Prepare chart data - Left/right asymmetry of the last 10 sessions that used both cables
+  const asymmetrySessions = useMemo(() => {
+    return allSessions
+      .filter(
+        s =>
+          s.loadAsymmetryPercent !== null &&
+          s.loadAsymmetryPercent !== undefined
+      )
+      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+      .slice(-10);
+  }, [allSessions]);
+
+  const asymmetryChartData = useMemo(() => {
+    const labels = asymmetrySessions.map(session => {
+      const date = new Date(session.timestamp || 0);
+      return `${date.getMonth() + 1}/${date.getDate()}`;
+    });
+
+    return {
+      labels,
+      datasets: [
+        {
+          data: asymmetrySessions.map(s => s.loadAsymmetryPercent ?? 0),
+          color: (opacity = 1) => `rgba(147, 51, 234, ${opacity})`, // purple-500
+          strokeWidth: 2,
+        },
+        {
+          data: asymmetrySessions.map(s => s.romAsymmetryPercent ?? 0),
+          color: (opacity = 1) => `rgba(59, 130, 246, ${opacity})`, // blue-500
+          strokeWidth: 2,
+        },
+      ],
+      legend: ['Load', 'ROM'],
+    };
+  }, [asymmetrySessions]);
+
   const chartConfig = {
     backgroundColor: colors.surface,
     backgroundGradientFrom: colors.surface,
@@ -892,6 +1067,62 @@ const TrendsTab: React.FC<TrendsTabProps> = ({
         </Card>
       )}
 
+      {/* Estimated one-rep max strength curve */}
+      {(oneRepMaxHistory.length > 0 || personalRecords.length > 0) && (
+        <StrengthCurveCard
+          history={oneRepMaxHistory}
+          personalRecords={personalRecords}
+          formula={oneRepMaxFormula}
+          onSelectFormula={onSelectFormula}
+          chartConfig={chartConfig}
+        />
+      )}
+
+      {/* Left/right asymmetry chart */}
+      {asymmetrySessions.length >= 2 && (
+        <Card
+          style={{marginBottom: spacing.medium}}
+          elevation={4}
+          borderWidth={1}
+          borderRadius={16}>
+          <View style={{padding: spacing.medium}}>
+            <View style={styles.chartHeader}>
+              <Icon
+                name="compare-arrows"
+                size={24}
+                color={colors.primary}
+                style={{marginRight: spacing.small}}
+              />
+              <Text
+                style={[
+                  typography.titleMedium,
+                  {color: colors.onSurface, fontWeight: 'bold'},
+                ]}>
+                Left / Right Balance
+              </Text>
+            </View>
+
+            <LineChart
+              data={asymmetryChartData}
+              width={SCREEN_WIDTH - spacing.medium * 4}
+              height={220}
+              chartConfig={chartConfig}
+              style={{
+                marginVertical: spacing.small,
+                borderRadius: 16,
+              }}
+              yAxisLabel=""
+              yAxisSuffix="%"
+            />
+            <Text
+              style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+              Positive = left side heavier / longer. Values beyond ±
+              {ASYMMETRY_THRESHOLDS.LOAD_PERCENT}% are flagged during sets.
+            </Text>
+          </View>
+        </Card>
+      )}
+
       {/* Workouts per week chart */}
       {allSessions.length >= 2 && (
         <Card
@@ -946,6 +1177,324 @@ const TrendsTab: React.FC<TrendsTabProps> = ({
   );
 };
 
+/**
+ * Strength Curve Card - Estimated one-rep max over time for one exercise,
+ * with the exercise's PRs converted to e1RM so different rep ranges can be compared
+ */
+interface StrengthCurveCardProps {
+  history: OneRepMaxEstimate[];
+  personalRecords: PersonalRecordEntity[];
+  formula: OneRepMaxFormula;
+  onSelectFormula: (formula: OneRepMaxFormula) => void;
+  chartConfig: React.ComponentProps<typeof LineChart>['chartConfig'];
+}
+
+const StrengthCurveCard: React.FC<StrengthCurveCardProps> = ({
+  history,
+  personalRecords,
+  formula,
+  onSelectFormula,
+  chartConfig,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+  const exerciseRepo = getExerciseRepository();
+
+  const [selectedExerciseId, setSelectedExerciseId] = useState<string | null>(
+    null
+  );
+  const [exerciseNames, setExerciseNames] = useState<Record<string, string>>(
+    {}
+  );
+
+  // Exercises with estimates or PRs, most recently trained first
+  const exerciseIds = useMemo(() => {
+    const lastTrained: Record<string, number> = {};
+    [...history, ...personalRecords].forEach(entry => {
+      lastTrained[entry.exerciseId] = Math.max(
+        lastTrained[entry.exerciseId] || 0,
+        entry.timestamp
+      );
+    });
+    return Object.keys(lastTrained).sort(
+      (a, b) => lastTrained[b] - lastTrained[a]
+    );
+  }, [history, personalRecords]);
+
+  const exerciseId =
+    selectedExerciseId && exerciseIds.includes(selectedExerciseId)
+      ? selectedExerciseId
+      : exerciseIds[0] ?? null;
+
+  // Load exercise names
+  useEffect(() => {
+    const loadExerciseNames = async () => {
+      const names: Record<string, string> = {};
+      for (const id of exerciseIds) {
+        if (!exerciseNames[id]) {
+          try {
+            const exercise = await exerciseRepo.getExerciseById(id);
+            if (exercise) {
+              names[id] = exercise.name;
+            }
+          } catch (err) {
+            console.error('Failed to load exercise name:', err);
+          }
+        }
+      }
+      setExerciseNames(prev => ({...prev, ...names}));
+    };
+
+    loadExerciseNames();
+  }, [exerciseIds]);
+
+  // Last 10 estimates of the selected exercise
+  const exerciseHistory = useMemo(
+    () =>
+      history.filter(estimate => estimate.exerciseId === exerciseId).slice(-10),
+    [history, exerciseId]
+  );
+
+  const bestEstimate = useMemo(
+    () =>
+      history
+        .filter(estimate => estimate.exerciseId === exerciseId)
+        .reduce(
+          (best, estimate) => Math.max(best, estimate.estimatedOneRepMaxKg),
+          0
+        ),
+    [history, exerciseId]
+  );
+
+  // Weight/rep PRs of the selected exercise as e1RM (velocity has no rep relationship - use Epley)
+  const prEstimates = useMemo(
+    () =>
+      personalRecords
+        .filter(
+          pr =>
+            pr.exerciseId === exerciseId &&
+            (pr.category === 'max_weight' ||
+              pr.category === 'max_reps_at_weight')
+        )
+        .map(pr => ({
+          pr,
+          estimate: estimateOneRepMax(
+            {weightPerCableKg: pr.weightPerCableKg, reps: pr.reps},
+            formula === 'velocity' ? 'epley' : formula
+          ),
+        }))
+        .sort((a, b) => (b.estimate ?? 0) - (a.estimate ?? 0)),
+    [personalRecords, exerciseId, formula]
+  );
+
+  const chartData = useMemo(
+    () => ({
+      labels: exerciseHistory.map(estimate => {
+        const date = new Date(estimate.timestamp);
+        return `${date.getMonth() + 1}/${date.getDate()}`;
+      }),
+      datasets: [
+        {
+          data: exerciseHistory.map(estimate => estimate.estimatedOneRepMaxKg),
+          color: (opacity = 1) => `rgba(147, 51, 234, ${opacity})`, // purple-500
+          strokeWidth: 2,
+        },
+      ],
+    }),
+    [exerciseHistory]
+  );
+
+  return (
+    <Card
+      style={{marginBottom: spacing.medium}}
+      elevation={4}
+      borderWidth={1}
+      borderRadius={16}>
+      <View style={{padding: spacing.medium}}>
+        <View style={styles.chartHeader}>
+          <Icon
+            name="trending-up"
+            size={24}
+            color={colors.primary}
+            style={{marginRight: spacing.small}}
+          />
+          <Text
+            style={[
+              typography.titleMedium,
+              {color: colors.onSurface, fontWeight: 'bold'},
+            ]}>
+            Strength Curve (e1RM)
+          </Text>
+        </View>
+
+        {/* Formula selector */}
+        <View style={[styles.chipRow, {marginBottom: spacing.small}]}>
+          {ONE_REP_MAX_FORMULAS.map(option => (
+            <Chip
+              key={option}
+              label={ONE_REP_MAX_FORMULA_LABELS[option]}
+              selected={option === formula}
+              onPress={() => onSelectFormula(option)}
+            />
+          ))}
+        </View>
+
+        {/* Exercise selector */}
+        {exerciseIds.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={{marginBottom: spacing.small}}>
+            {exerciseIds.map(id => (
+              <Chip
+                key={id}
+                label={exerciseNames[id] || 'Exercise'}
+                selected={id === exerciseId}
+                onPress={() => setSelectedExerciseId(id)}
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        {exerciseHistory.length >= 2 ? (
+          <LineChart
+            data={chartData}
+            width={SCREEN_WIDTH - spacing.medium * 4}
+            height={220}
+            chartConfig={chartConfig}
+            bezier
+            style={{
+              marginVertical: spacing.small,
+              borderRadius: 16,
+            }}
+            yAxisLabel=""
+            yAxisSuffix="kg"
+          />
+        ) : (
+          <Text
+            style={[
+              typography.bodySmall,
+              {color: colors.onSurfaceVariant, marginVertical: spacing.small},
+            ]}>
+            {formula === 'velocity'
+              ? 'Velocity estimates need sessions with rep velocity data.'
+              : 'Complete at least two sessions of this exercise to see a curve.'}
+          </Text>
+        )}
+
+        {/* Projected rep maxes from the best estimate */}
+        {bestEstimate > 0 && (
+          <>
+            <Text
+              style={[
+                typography.labelLarge,
+                {color: colors.onSurface, marginTop: spacing.small},
+              ]}>
+              Best e1RM: {bestEstimate.toFixed(1)} kg per cable
+            </Text>
+            <View style={[styles.statsRow, {marginTop: spacing.small}]}>
+              {PROJECTED_REP_COUNTS.map(reps => (
+                <View key={reps} style={styles.statItem}>
+                  <Text
+                    style={[
+                      typography.titleSmall,
+                      {color: colors.onSurface, fontWeight: 'bold'},
+                    ]}>
+                    {projectRepMax(bestEstimate, reps, formula).toFixed(1)}
+                  </Text>
+                  <Text
+                    style={[
+                      typography.bodySmall,
+                      {color: colors.onSurfaceVariant},
+                    ]}>
+                    {reps}RM
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* PRs compared across rep ranges */}
+        {prEstimates.length > 0 && (
+          <View style={{marginTop: spacing.medium}}>
+            <Text
+              style={[
+                typography.labelLarge,
+                {color: colors.onSurface, marginBottom: spacing.extraSmall},
+              ]}>
+              Personal records as e1RM
+            </Text>
+            {prEstimates.map(({pr, estimate}) => (
+              <View
+                key={pr.id ?? `${pr.workoutMode}-${pr.category}-${pr.weightPerCableKg}`}
+                style={styles.prDetailsRow}>
+                <Text
+                  style={[
+                    typography.bodySmall,
+                    {color: colors.onSurfaceVariant, flex: 1},
+                  ]}>
+                  {pr.workoutMode}: {pr.weightPerCableKg.toFixed(1)} kg ×{' '}
+                  {pr.reps}
+                </Text>
+                <Text
+                  style={[
+                    typography.bodySmall,
+                    {color: colors.onSurface, fontWeight: 'bold'},
+                  ]}>
+                  {estimate !== null ? `${estimate.toFixed(1)} kg` : '-'}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    </Card>
+  );
+};
+
+/**
+ * Selectable chip used by the strength curve filters
+ */
+const Chip: React.FC<{
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}> = ({label, selected, onPress}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={{
+        paddingHorizontal: spacing.medium,
+        paddingVertical: spacing.small,
+        borderRadius: 8,
+        backgroundColor: selected
+          ? colors.primaryContainer
+          : colors.surfaceVariant,
+        marginRight: spacing.small,
+      }}
+      accessibilityRole="button"
+      accessibilityState={{selected}}>
+      <Text
+        style={[
+          typography.labelMedium,
+          {
+            color: selected
+              ? colors.onPrimaryContainer
+              : colors.onSurfaceVariant,
+          },
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -991,6 +1540,13 @@ const styles = StyleSheet.create({
   content: {
     paddingTop: Platform.OS === 'android' ? 16 : 0,
   },
+  historyTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyAction: {
+    padding: 8,
+  },
   historyCardHeader: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -1035,6 +1591,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  chipRow: {
+    flexDirection: 'row',
+  },
 });
 
 export default AnalyticsScreen;
@@ -7,10 +7,12 @@
  * - Display list of saved routines
  * - Show routine cards with exercise preview
  * - Start workout from routine
- * - Edit/delete/duplicate routines with overflow menu
- * - Create new routine button
+ * - Edit/delete/duplicate/share routines with overflow menu
+ * - Import routines shared by others
+ * - Create new routine button (opens the routine builder)
  * - Auto-connect to device before starting workout
  * - Navigate to ActiveWorkout when starting routine
+ * - Review weight/rep progression after a routine run
  */
 
 import React, {useState, useCallback, useEffect} from 'react';
@@ -32,13 +34,21 @@ import {useColors, useTypography, useSpacing, useIsDark} from '../theme';
 import {useRoutines} from '../hooks/useRoutines';
 import {useBleConnection} from '../hooks/useBleConnection';
 import {useWorkoutSession} from '../hooks/useWorkoutSession';
+import {useProgression} from '../hooks/useProgression';
+import {useRoutineSharing} from '../hooks/useRoutineSharing';
+import {useTrainers} from '../hooks/useTrainers';
 import {RoutineCard} from '../components/RoutineCard';
 import {EmptyState} from '../components/EmptyState';
 import {Button} from '../components/Button';
 import {ConnectingOverlay} from '../components/ConnectingOverlay';
 import {ConnectionErrorDialog} from '../components/ConnectionErrorDialog';
+import {ProgressionReviewModal} from '../components/ProgressionReviewModal';
+import {TrainerPicker} from '../components/TrainerPicker';
 import {Routine, RoutineExercise} from '../../domain/models/Routine';
 import {generateUUID} from '../../domain/models/Models';
+import {getDropSetPlan, getSetWorkoutType} from '../../domain/usecases/RoutineSetPlanner';
+import {PRIMARY_TRAINER_ID} from '../../data/repository/BleRepository';
+import {ConnectionStatus} from '../../data/ble/types';
 
 type DailyRoutinesScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -130,11 +140,24 @@ export const DailyRoutinesScreen: React.FC = () => {
     clearConnectionError,
   } = useBleConnection();
 
-  const {startWorkout, updateWorkoutParameters} = useWorkoutSession();
+  const {workoutState, startWorkout, updateWorkoutParameters} = useWorkoutSession();
+
+  const {pendingReview, checkRoutine, resolveReview, dismissReview} = useProgression();
+
+  const {shareRoutine} = useRoutineSharing();
+
+  // The routine runs on the selected trainer
+  const {trainers, selectedTrainerId, selectTrainer, autoConnectTrainer} = useTrainers();
+  const selectedTrainer = trainers.find(trainer => trainer.trainerId === selectedTrainerId);
+  const isTrainerConnected =
+    selectedTrainerId === PRIMARY_TRAINER_ID
+      ? connectionState.type === 'connected'
+      : selectedTrainer?.connectionState.status === ConnectionStatus.Ready;
 
   // Local state
   const [isConnecting, setIsConnecting] = useState(false);
   const [pendingRoutine, setPendingRoutine] = useState<Routine | null>(null);
+  const [trainerConnectionError, setTrainerConnectionError] = useState<string | null>(null);
 
   /**
    * Background gradient colors based on theme
@@ -153,7 +176,7 @@ export const DailyRoutinesScreen: React.FC = () => {
       console.log(`Starting workout from routine: ${routine.name}`);
 
       // Check if already connected
-      if (connectionState.type === 'connected') {
+      if (isTrainerConnected) {
         // Load routine and start workout
         loadRoutineForWorkout(routine);
 
@@ -161,7 +184,7 @@ export const DailyRoutinesScreen: React.FC = () => {
         if (routine.exercises && routine.exercises.length > 0) {
           const firstExercise = routine.exercises[0];
           updateWorkoutParameters({
-            workoutType: firstExercise.workoutType ?? {type: 'program', mode: {modeValue: 0, displayName: 'Old School'}},
+            workoutType: getSetWorkoutType(firstExercise, 0) ?? {type: 'program', mode: {modeValue: 0, displayName: 'Old School'}},
             reps: firstExercise.setReps?.[0] ?? 10,
             weightPerCableKg: firstExercise.weightPerCableKg ?? 10,
             progressionRegressionKg: firstExercise.progressionKg ?? 0,
@@ -170,6 +193,12 @@ export const DailyRoutinesScreen: React.FC = () => {
             stopAtTop: false,
             warmupReps: 3,
             selectedExerciseId: firstExercise.exercise.id,
+            routineId: routine.id,
+            routineExerciseId: firstExercise.id,
+            setType: firstExercise.setType ?? 'reps',
+            durationSeconds: firstExercise.duration ?? null,
+            velocityLossPercent: firstExercise.velocityLossPercent ?? null,
+            dropSet: getDropSetPlan(firstExercise, 0, firstExercise.weightPerCableKg ?? 10),
           });
         }
 
@@ -182,7 +211,12 @@ export const DailyRoutinesScreen: React.FC = () => {
         setIsConnecting(true);
 
         try {
-          await autoConnect(30000); // 30 second timeout
+          if (selectedTrainerId === PRIMARY_TRAINER_ID) {
+            await autoConnect(30000); // 30 second timeout
+          } else if (!(await autoConnectTrainer(selectedTrainerId, 30000))) {
+            setTrainerConnectionError(`Failed to connect to ${selectedTrainer?.name ?? 'trainer'}`);
+            return;
+          }
 
           // Connection successful, load and start
           loadRoutineForWorkout(routine);
@@ -190,7 +224,7 @@ export const DailyRoutinesScreen: React.FC = () => {
           if (routine.exercises && routine.exercises.length > 0) {
             const firstExercise = routine.exercises[0];
             updateWorkoutParameters({
-              workoutType: firstExercise.workoutType ?? {type: 'program', mode: {modeValue: 0, displayName: 'Old School'}},
+              workoutType: getSetWorkoutType(firstExercise, 0) ?? {type: 'program', mode: {modeValue: 0, displayName: 'Old School'}},
               reps: firstExercise.setReps?.[0] ?? 10,
               weightPerCableKg: firstExercise.weightPerCableKg ?? 10,
               progressionRegressionKg: firstExercise.progressionKg ?? 0,
@@ -199,6 +233,12 @@ export const DailyRoutinesScreen: React.FC = () => {
               stopAtTop: false,
               warmupReps: 3,
               selectedExerciseId: firstExercise.exercise.id,
+              routineId: routine.id,
+              routineExerciseId: firstExercise.id,
+              setType: firstExercise.setType ?? 'reps',
+              durationSeconds: firstExercise.duration ?? null,
+              velocityLossPercent: firstExercise.velocityLossPercent ?? null,
+              dropSet: getDropSetPlan(firstExercise, 0, firstExercise.weightPerCableKg ?? 10),
             });
           }
 
@@ -214,28 +254,27 @@ export const DailyRoutinesScreen: React.FC = () => {
       }
     },
     [
-      connectionState,
+      isTrainerConnected,
+      selectedTrainerId,
+      selectedTrainer,
       loadRoutineForWorkout,
       updateWorkoutParameters,
       startWorkout,
       autoConnect,
+      autoConnectTrainer,
       navigation,
     ]
   );
 
   /**
    * Handle routine edit
-   * TODO: Implement RoutineBuilderDialog
    */
-  const handleEditRoutine = useCallback((routine: Routine) => {
-    console.log('Edit routine:', routine.name);
-    // TODO: Navigate to RoutineBuilder or show RoutineBuilderDialog
-    Alert.alert(
-      'Edit Routine',
-      'Routine builder not yet implemented.\n\nThis will allow you to edit exercises, sets, reps, and weights.',
-      [{text: 'OK'}]
-    );
-  }, []);
+  const handleEditRoutine = useCallback(
+    (routine: Routine) => {
+      navigation.navigate(SCREEN_NAMES.ROUTINE_BUILDER, {routineId: routine.id});
+    },
+    [navigation]
+  );
 
   /**
    * Handle routine delete with confirmation
@@ -319,19 +358,33 @@ export const DailyRoutinesScreen: React.FC = () => {
     [routines, saveRoutine]
   );
 
+  /**
+   * Share a routine through the share sheet
+   */
+  const handleShareRoutine = useCallback(
+    async (routine: Routine) => {
+      try {
+        await shareRoutine(routine.id);
+      } catch (error) {
+        Alert.alert('Error', 'Failed to share routine. Please try again.');
+      }
+    },
+    [shareRoutine]
+  );
+
+  /**
+   * Open the import screen for shared routines
+   */
+  const handleImport = useCallback(() => {
+    navigation.navigate(SCREEN_NAMES.SHARE_IMPORT, {});
+  }, [navigation]);
+
   /**
    * Handle create new routine
-   * TODO: Implement RoutineBuilderDialog
    */
   const handleCreateRoutine = useCallback(() => {
-    console.log('Create new routine');
-    // TODO: Navigate to RoutineBuilder or show RoutineBuilderDialog
-    Alert.alert(
-      'Create Routine',
-      'Routine builder not yet implemented.\n\nThis will allow you to create custom workout routines with multiple exercises.',
-      [{text: 'OK'}]
-    );
-  }, []);
+    navigation.navigate(SCREEN_NAMES.ROUTINE_BUILDER, {});
+  }, [navigation]);
 
   /**
    * Retry connection after error
@@ -342,6 +395,44 @@ export const DailyRoutinesScreen: React.FC = () => {
     }
   }, [pendingRoutine, handleStartWorkout]);
 
+  /**
+   * Offer progression for the most recently run routine when returning to the list
+   */
+  const lastUsedRoutineId = routines.find(routine => routine.lastUsed)?.id;
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      if (!lastUsedRoutineId || (workoutState.type !== 'idle' && workoutState.type !== 'completed')) {
+        return;
+      }
+      checkRoutine(lastUsedRoutineId)
+        .then(review => {
+          if (review) {
+            refresh();
+          }
+        })
+        .catch(error => console.error('Failed to check routine progression:', error));
+    });
+    return unsubscribe;
+  }, [navigation, lastUsedRoutineId, workoutState.type, checkRoutine, refresh]);
+
+  /**
+   * Apply or decline the pending progression
+   */
+  const handleResolveProgression = useCallback(
+    async (apply: boolean) => {
+      if (!pendingReview) {
+        return;
+      }
+      try {
+        await resolveReview(pendingReview, apply);
+        await refresh();
+      } catch (error) {
+        Alert.alert('Error', 'Failed to update routine progression. Please try again.');
+      }
+    },
+    [pendingReview, resolveReview, refresh]
+  );
+
   /**
    * Pull-to-refresh routines
    */
@@ -374,7 +465,13 @@ export const DailyRoutinesScreen: React.FC = () => {
         <Text style={[typography.titleLarge, {color: colors.onSurface, fontWeight: 'bold'}]}>
           Daily Routines
         </Text>
-        <View style={{width: 40}} />
+        <TouchableOpacity
+          onPress={handleImport}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Import routine">
+          <Icon name="file-download" size={24} color={colors.onSurface} />
+        </TouchableOpacity>
       </View>
 
       {/* Content */}
@@ -394,6 +491,13 @@ export const DailyRoutinesScreen: React.FC = () => {
           My Routines
         </Text>
 
+        <TrainerPicker
+          trainers={trainers}
+          selectedTrainerId={selectedTrainerId}
+          onSelect={selectTrainer}
+          style={{marginBottom: spacing.medium}}
+        />
+
         {/* Empty state or routine list */}
         {routines.length === 0 ? (
           <EmptyState
@@ -418,6 +522,7 @@ export const DailyRoutinesScreen: React.FC = () => {
                 onEdit={() => handleEditRoutine(routine)}
                 onDelete={() => handleDeleteRoutine(routine)}
                 onDuplicate={() => handleDuplicateRoutine(routine)}
+                onShare={() => handleShareRoutine(routine)}
                 testID={`routine-card-${routine.id}`}
               />
             ))}
@@ -460,15 +565,27 @@ export const DailyRoutinesScreen: React.FC = () => {
 
       {/* Connection error dialog */}
       <ConnectionErrorDialog
-        visible={!!connectionError}
-        message={connectionError || ''}
+        visible={!!(connectionError || trainerConnectionError)}
+        message={connectionError || trainerConnectionError || ''}
         onDismiss={() => {
           clearConnectionError();
+          setTrainerConnectionError(null);
           setPendingRoutine(null);
         }}
         onRetry={handleRetryConnection}
         testID="daily-routines-connection-error"
       />
+
+      {/* Progression review after a routine run */}
+      <ProgressionReviewModal
+        visible={!!pendingReview}
+        routineName={pendingReview?.routine.name ?? ''}
+        proposals={pendingReview?.proposals ?? []}
+        onApply={() => handleResolveProgression(true)}
+        onDecline={() => handleResolveProgression(false)}
+        onDismiss={dismissReview}
+        testID="daily-routines-progression-review"
+      />
     </View>
   );
 };
@@ -121,6 +121,8 @@ export const JustLiftScreen: React.FC = () => {
       progressionRegressionKg: weightChangeKg,
       isJustLift: true,
       useAutoStart: true,
+      routineId: null,
+      routineExerciseId: null,
     };
 
     updateWorkoutParameters(updatedParameters);
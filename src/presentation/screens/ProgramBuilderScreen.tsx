@@ -7,6 +7,7 @@
  * - Assign routines to days of the week
  * - Program name editing
  * - Day selection with routine assignment
+ * - Multi-week mesocycle with per-week intensity/volume and deload weeks
  * - Save program functionality
  */
 
@@ -32,8 +33,15 @@ import { Button, TextButton } from '../components/Button';
 import { Input } from '../components/Input';
 import { Modal } from '../components/Modal';
 import { Routine } from '../../domain/models/Routine';
-import { WeeklyProgramEntity, ProgramDayEntity } from '../../data/local/entities';
+import { WeeklyProgramEntity, ProgramDayEntity, ProgramWeekEntity } from '../../data/local/entities';
 import { generateUUID } from '../../domain/models/Models';
+import {
+  DELOAD_WEEK_MODIFIERS,
+  getWeekModifiers,
+  hasWeekModifiers,
+  MAX_PROGRAM_WEEKS,
+  WeekModifiers,
+} from '../../domain/usecases/ProgramSchedule';
 
 type ProgramBuilderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ProgramBuilder'>;
 type ProgramBuilderScreenRouteProp = RouteProp<RootStackParamList, 'ProgramBuilder'>;
@@ -49,6 +57,10 @@ const DAYS_OF_WEEK = [
   { value: 7, name: 'Sunday' },
 ];
 
+// Week modifier limits and steps (percent)
+const INTENSITY_RANGE = { min: 40, max: 150, step: 5 };
+const VOLUME_RANGE = { min: 20, max: 200, step: 10 };
+
 /**
  * ProgramBuilderScreen Component
  */
@@ -73,6 +85,8 @@ export const ProgramBuilderScreen: React.FC = () => {
   const [dailyRoutines, setDailyRoutines] = useState<Map<number, Routine | null>>(
     new Map(DAYS_OF_WEEK.map(day => [day.value, null]))
   );
+  const [weekCount, setWeekCount] = useState(1);
+  const [weeks, setWeeks] = useState<WeekModifiers[]>([]);
 
   // Load existing program data if editing
   useEffect(() => {
@@ -80,6 +94,8 @@ export const ProgramBuilderScreen: React.FC = () => {
       const existingProgram = programs.find(p => p.program.id === programId);
       if (existingProgram) {
         setProgramName(existingProgram.program.title);
+        setWeekCount(existingProgram.program.weekCount);
+        setWeeks(existingProgram.weeks);
 
         // Convert program days to map
         const routineMap = new Map<number, Routine | null>();
@@ -118,10 +134,33 @@ export const ProgramBuilderScreen: React.FC = () => {
     setDailyRoutines(prev => new Map(prev).set(dayValue, null));
   }, []);
 
+  // Handle week modifier change
+  const handleWeekChange = useCallback((weekNumber: number, changes: Partial<WeekModifiers>) => {
+    setWeeks(prev => [
+      ...prev.filter(week => week.weekNumber !== weekNumber),
+      { ...getWeekModifiers(prev, weekNumber), ...changes },
+    ]);
+  }, []);
+
+  // Handle deload toggle (a deload week gets the default deload modifiers)
+  const handleToggleDeload = useCallback(
+    (week: WeekModifiers) => {
+      handleWeekChange(
+        week.weekNumber,
+        week.isDeload
+          ? { isDeload: false, intensityPercent: 100, volumePercent: 100 }
+          : { isDeload: true, ...DELOAD_WEEK_MODIFIERS }
+      );
+    },
+    [handleWeekChange]
+  );
+
   // Handle save program
   const handleSaveProgram = useCallback(async () => {
     try {
-      // Create program entity
+      const existingProgram = programs.find(p => p.program.id === programId)?.program;
+
+      // Create program entity (an edited program keeps its place in the mesocycle)
       const program: WeeklyProgramEntity = {
         id: isEditing ? programId : generateUUID(),
         title: programName,
@@ -129,8 +168,16 @@ export const ProgramBuilderScreen: React.FC = () => {
         isActive: false,
         lastUsed: null,
         createdAt: Date.now(),
+        weekCount,
+        currentWeek: Math.min(existingProgram?.currentWeek ?? 1, weekCount),
+        weekStartedAt: existingProgram?.weekStartedAt ?? null,
       };
 
+      // Only weeks that change the routines are stored
+      const programWeeks: ProgramWeekEntity[] = weeks
+        .filter(week => week.weekNumber <= weekCount && hasWeekModifiers(week))
+        .map(week => ({ ...week, programId: program.id }));
+
       // Create program days for assigned routines
       const days: ProgramDayEntity[] = [];
       dailyRoutines.forEach((routine, dayValue) => {
@@ -143,16 +190,18 @@ export const ProgramBuilderScreen: React.FC = () => {
         }
       });
 
-      await saveProgram(program, days);
+      await saveProgram(program, days, programWeeks);
       navigation.goBack();
     } catch (error) {
       console.error('Failed to save program:', error);
     }
-  }, [isEditing, programId, programName, dailyRoutines, saveProgram, navigation]);
+  }, [isEditing, programId, programName, dailyRoutines, weekCount, weeks, programs, saveProgram, navigation]);
 
   // Calculate summary stats
   const workoutDays = Array.from(dailyRoutines.values()).filter(r => r !== null).length;
   const restDays = 7 - workoutDays;
+  const weekList = Array.from({ length: weekCount }, (_, index) => getWeekModifiers(weeks, index + 1));
+  const deloadWeeks = weekList.filter(week => week.isDeload).length;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -236,6 +285,37 @@ export const ProgramBuilderScreen: React.FC = () => {
           />
         ))}
 
+        {/* Mesocycle card */}
+        <Card style={styles.summaryCard} elevation={4} borderWidth={1} borderRadius={16}>
+          <View style={{ padding: spacing.medium }}>
+            <View style={styles.weekRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={[typography.titleMedium, { color: colors.onSurface, fontWeight: 'bold' }]}>
+                  Mesocycle
+                </Text>
+                <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant }]}>
+                  The weekly schedule repeats for each week with that week's adjustments
+                </Text>
+              </View>
+              <Stepper
+                label={`${weekCount} ${weekCount === 1 ? 'week' : 'weeks'}`}
+                onDecrement={() => setWeekCount(count => Math.max(1, count - 1))}
+                onIncrement={() => setWeekCount(count => Math.min(MAX_PROGRAM_WEEKS, count + 1))}
+              />
+            </View>
+
+            {weekCount > 1 &&
+              weekList.map(week => (
+                <WeekModifierRow
+                  key={week.weekNumber}
+                  week={week}
+                  onToggleDeload={() => handleToggleDeload(week)}
+                  onChange={changes => handleWeekChange(week.weekNumber, changes)}
+                />
+              ))}
+          </View>
+        </Card>
+
         {/* Summary card */}
         <Card style={styles.summaryCard} elevation={4} borderWidth={1} borderRadius={16}>
           <View style={{ padding: spacing.medium }}>
@@ -249,6 +329,11 @@ export const ProgramBuilderScreen: React.FC = () => {
             <Text style={[typography.bodyMedium, { color: colors.onSurface }]}>
               {workoutDays} workout days, {restDays} rest days
             </Text>
+            {weekCount > 1 && (
+              <Text style={[typography.bodyMedium, { color: colors.onSurface }]}>
+                {weekCount}-week cycle, {deloadWeeks} deload {deloadWeeks === 1 ? 'week' : 'weeks'}
+              </Text>
+            )}
           </View>
         </Card>
 
@@ -370,6 +455,118 @@ const DayRoutineCard: React.FC<DayRoutineCardProps> = ({ day, routine, onPress,
   );
 };
 
+/**
+ * Stepper Component - value between minus and plus buttons
+ */
+interface StepperProps {
+  label: string;
+  onDecrement: () => void;
+  onIncrement: () => void;
+}
+
+const Stepper: React.FC<StepperProps> = ({ label, onDecrement, onIncrement }) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        onPress={onDecrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}>
+        <Icon name="remove" size={20} color={colors.primary} />
+      </TouchableOpacity>
+      <Text
+        style={[
+          typography.labelLarge,
+          { color: colors.onSurface, minWidth: 56, textAlign: 'center', marginHorizontal: spacing.extraSmall },
+        ]}>
+        {label}
+      </Text>
+      <TouchableOpacity
+        onPress={onIncrement}
+        style={styles.stepperButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}>
+        <Icon name="add" size={20} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/**
+ * WeekModifierRow Component - intensity, volume and deload of one mesocycle week
+ */
+interface WeekModifierRowProps {
+  week: WeekModifiers;
+  onToggleDeload: () => void;
+  onChange: (changes: Partial<WeekModifiers>) => void;
+}
+
+const WeekModifierRow: React.FC<WeekModifierRowProps> = ({ week, onToggleDeload, onChange }) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const clamp = (value: number, range: { min: number; max: number }) =>
+    Math.min(Math.max(value, range.min), range.max);
+
+  return (
+    <View style={[styles.weekModifiers, { borderTopColor: colors.surfaceVariant, paddingTop: spacing.small }]}>
+      <View style={styles.weekRow}>
+        <Text style={[typography.titleSmall, { color: colors.onSurface, fontWeight: 'bold', flex: 1 }]}>
+          Week {week.weekNumber}
+        </Text>
+        <TouchableOpacity
+          onPress={onToggleDeload}
+          style={{
+            paddingHorizontal: spacing.medium,
+            paddingVertical: spacing.extraSmall,
+            borderRadius: 8,
+            backgroundColor: week.isDeload ? colors.primaryContainer : colors.surfaceVariant,
+          }}
+          accessibilityRole="button"
+          accessibilityState={{ selected: week.isDeload }}
+          accessibilityLabel={`Deload week ${week.weekNumber}`}>
+          <Text
+            style={[
+              typography.labelMedium,
+              { color: week.isDeload ? colors.onPrimaryContainer : colors.onSurfaceVariant },
+            ]}>
+            Deload
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.weekRow}>
+        <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant, flex: 1 }]}>Intensity</Text>
+        <Stepper
+          label={`${week.intensityPercent}%`}
+          onDecrement={() =>
+            onChange({ intensityPercent: clamp(week.intensityPercent - INTENSITY_RANGE.step, INTENSITY_RANGE) })
+          }
+          onIncrement={() =>
+            onChange({ intensityPercent: clamp(week.intensityPercent + INTENSITY_RANGE.step, INTENSITY_RANGE) })
+          }
+        />
+      </View>
+      <View style={styles.weekRow}>
+        <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant, flex: 1 }]}>Volume (sets)</Text>
+        <Stepper
+          label={`${week.volumePercent}%`}
+          onDecrement={() =>
+            onChange({ volumePercent: clamp(week.volumePercent - VOLUME_RANGE.step, VOLUME_RANGE) })
+          }
+          onIncrement={() =>
+            onChange({ volumePercent: clamp(week.volumePercent + VOLUME_RANGE.step, VOLUME_RANGE) })
+          }
+        />
+      </View>
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -421,6 +618,22 @@ const styles = StyleSheet.create({
   routineCard: {
     width: '100%',
   },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  weekModifiers: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    gap: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    padding: 4,
+  },
 });
 
 export default ProgramBuilderScreen;
@@ -0,0 +1,706 @@
+/**
+ * RoutineBuilderScreen - Create or edit a routine
+ * Replaces the RoutineBuilderDialog from the Android app
+ *
+ * Features:
+ * - Routine name and description editing
+ * - Add exercises from the exercise library, or create a custom exercise and add it
+ * - Per-exercise configuration (sets, reps, weights, mode, rest, cables, notes)
+ * - Link exercises into supersets, circuits and giant sets
+ * - Drag to reorder exercises
+ * - Save routine functionality
+ */
+
+import React, {useState, useEffect, useCallback, useRef} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Animated,
+  PanResponder,
+  Platform,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+import {RootStackParamList} from '../navigation/types';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {useRoutines} from '../hooks/useRoutines';
+import {useExerciseLibrary} from '../hooks/useExerciseLibrary';
+import {Card} from '../components/Card';
+import {Button} from '../components/Button';
+import {Input} from '../components/Input';
+import {Modal} from '../components/Modal';
+import {EmptyState} from '../components/EmptyState';
+import {RoutineExerciseEditor} from '../components/RoutineExerciseEditor';
+import {ExerciseGroupEditor} from '../components/ExerciseGroupEditor';
+import {CustomExerciseEditor} from '../components/CustomExerciseEditor';
+import {
+  createDefaultRoutine,
+  createDefaultRoutineExercise,
+  ExerciseGroup,
+  Routine,
+  RoutineExercise,
+} from '../../domain/models/Routine';
+import {
+  EXERCISE_GROUP_TYPE_LABELS,
+  linkWithNext,
+  normalizeGroups,
+  unlinkFromNext,
+  updateGroup,
+} from '../../domain/usecases/ExerciseGrouping';
+import {getSetWorkoutType} from '../../domain/usecases/RoutineSetPlanner';
+import {CableConfiguration, Exercise} from '../../domain/models/Exercise';
+import {generateUUID, getWorkoutTypeDisplayName} from '../../domain/models/Models';
+import {ExerciseEntity} from '../../data/local/entities';
+import {CustomExerciseInput} from '../../data/repository/ExerciseRepository';
+
+type RoutineBuilderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'RoutineBuilder'>;
+type RoutineBuilderScreenRouteProp = RouteProp<RootStackParamList, 'RoutineBuilder'>;
+
+// Space between exercise rows (included in drag distance calculations)
+const ROW_GAP = 12;
+
+// Maximum number of library exercises listed in the picker at once
+const PICKER_LIMIT = 50;
+
+/**
+ * Convert a library exercise to the Exercise domain model
+ */
+const toExercise = (entity: ExerciseEntity): Exercise => ({
+  name: entity.name,
+  muscleGroup: entity.muscleGroups.split(',')[0]?.trim() || 'Full Body',
+  equipment: entity.equipment.split(',')[0]?.trim() || '',
+  defaultCableConfig: entity.cableConfig ?? CableConfiguration.DOUBLE,
+  id: entity.id,
+});
+
+/**
+ * Index a dragged row lands on: it passes a neighbour once it is moved over half of that row
+ */
+const getDropIndex = (rowHeights: number[], from: number, dy: number): number => {
+  let target = from;
+  let remaining = dy;
+  if (dy > 0) {
+    while (target < rowHeights.length - 1 && remaining > rowHeights[target + 1] / 2) {
+      remaining -= rowHeights[target + 1];
+      target++;
+    }
+  } else {
+    while (target > 0 && -remaining > rowHeights[target - 1] / 2) {
+      remaining += rowHeights[target - 1];
+      target--;
+    }
+  }
+  return target;
+};
+
+/**
+ * Short description of an exercise's prescription (e.g. "3×10 • 20.0 kg • Old School",
+ * "3×45s hold • 20.0 kg • Old School")
+ */
+const describeRoutineExercise = (routineExercise: RoutineExercise): string => {
+  const setReps = routineExercise.setReps ?? [];
+  const setType = routineExercise.setType ?? 'reps';
+  const reps =
+    setType !== 'reps' && routineExercise.duration
+      ? `${setReps.length}×${routineExercise.duration}s${setType === 'isometric' ? ' hold' : ''}`
+      : setReps.every(r => r === setReps[0])
+        ? `${setReps.length}×${setReps[0] ?? 0}`
+        : setReps.join('/');
+  const weights = routineExercise.setWeightsPerCableKg ?? [];
+  const weight =
+    weights.length > 0
+      ? `${Math.min(...weights).toFixed(1)}-${Math.max(...weights).toFixed(1)} kg`
+      : `${routineExercise.weightPerCableKg.toFixed(1)} kg`;
+  const modes = new Set(
+    setReps.map((_, index) => {
+      const workoutType = getSetWorkoutType(routineExercise, index);
+      return workoutType ? getWorkoutTypeDisplayName(workoutType) : 'Old School';
+    })
+  );
+  const mode = modes.size > 0 ? Array.from(modes).join('/') : 'Old School';
+  const drops = setType === 'reps' ? routineExercise.dropSet?.drops ?? 0 : 0;
+  return `${reps} • ${weight} • ${mode}${drops > 0 ? ` • ${drops} drop${drops > 1 ? 's' : ''}` : ''}`;
+};
+
+/**
+ * RoutineBuilderScreen Component
+ */
+export const RoutineBuilderScreen: React.FC = () => {
+  const navigation = useNavigation<RoutineBuilderScreenNavigationProp>();
+  const route = useRoute<RoutineBuilderScreenRouteProp>();
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const {getRoutine, saveRoutine, updateRoutine} = useRoutines();
+  const {exercises: libraryExercises, searchQuery, updateSearchQuery, createCustomExercise} = useExerciseLibrary();
+
+  const routineId = route.params?.routineId;
+  const isEditing = !!routineId;
+
+  // State
+  const [existingRoutine, setExistingRoutine] = useState<Routine | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [exercises, setExercises] = useState<RoutineExercise[]>([]);
+  const [editingExercise, setEditingExercise] = useState<RoutineExercise | null>(null);
+  const [showExercisePicker, setShowExercisePicker] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showCustomEditor, setShowCustomEditor] = useState(false);
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [isSavingCustom, setIsSavingCustom] = useState(false);
+
+  const dragY = useRef(new Animated.Value(0)).current;
+  const rowHeights = useRef<Map<string, number>>(new Map());
+
+  // Load existing routine if editing
+  useEffect(() => {
+    if (!routineId) {
+      return;
+    }
+    getRoutine(routineId).then(routine => {
+      if (routine) {
+        setExistingRoutine(routine);
+        setName(routine.name);
+        setDescription(routine.description ?? '');
+        setExercises([...(routine.exercises ?? [])].sort((a, b) => a.orderIndex - b.orderIndex));
+      }
+    });
+  }, [routineId, getRoutine]);
+
+  // Handle exercise added from the library (opens its configuration right away)
+  const handleAddExercise = useCallback(
+    (entity: ExerciseEntity) => {
+      const routineExercise = createDefaultRoutineExercise(toExercise(entity), {
+        id: generateUUID(),
+        orderIndex: exercises.length,
+      });
+      setExercises(prev => [...prev, routineExercise]);
+      setShowExercisePicker(false);
+      setEditingExercise(routineExercise);
+    },
+    [exercises.length]
+  );
+
+  // Open the custom exercise editor in place of the picker
+  const handleNewCustomExercise = useCallback(() => {
+    setShowExercisePicker(false);
+    setCustomError(null);
+    setShowCustomEditor(true);
+  }, []);
+
+  // Handle custom exercise created (added to the routine like a library exercise)
+  const handleCustomExerciseSaved = useCallback(
+    async (input: CustomExerciseInput) => {
+      try {
+        setIsSavingCustom(true);
+        setCustomError(null);
+        const entity = await createCustomExercise(input);
+        setShowCustomEditor(false);
+        handleAddExercise(entity);
+      } catch (error) {
+        setCustomError(error instanceof Error ? error.message : 'Failed to save exercise');
+      } finally {
+        setIsSavingCustom(false);
+      }
+    },
+    [createCustomExercise, handleAddExercise]
+  );
+
+  // Handle exercise configuration saved
+  const handleExerciseSaved = useCallback((updated: RoutineExercise) => {
+    setExercises(prev => prev.map(exercise => (exercise.id === updated.id ? updated : exercise)));
+    setEditingExercise(null);
+  }, []);
+
+  // Handle exercise removal
+  const handleRemoveExercise = useCallback((exerciseId: string) => {
+    rowHeights.current.delete(exerciseId);
+    setExercises(prev =>
+      normalizeGroups(prev.filter(exercise => exercise.id !== exerciseId)).map((exercise, index) => ({
+        ...exercise,
+        orderIndex: index,
+      }))
+    );
+  }, []);
+
+  // Handle link toggle between an exercise and the one after it
+  const handleToggleLink = useCallback((index: number) => {
+    setExercises(prev => {
+      const isLinked = !!prev[index].group && prev[index].group?.id === prev[index + 1]?.group?.id;
+      return isLinked ? unlinkFromNext(prev, index) : linkWithNext(prev, index);
+    });
+  }, []);
+
+  // Handle group settings saved
+  const handleGroupSaved = useCallback(
+    (changes: Omit<ExerciseGroup, 'id'>) => {
+      if (editingGroupId) {
+        setExercises(prev => updateGroup(prev, editingGroupId, changes));
+      }
+      setEditingGroupId(null);
+    },
+    [editingGroupId]
+  );
+
+  // Handle group dissolved
+  const handleUngroup = useCallback(() => {
+    if (editingGroupId) {
+      setExercises(prev =>
+        prev.map(exercise => (exercise.group?.id === editingGroupId ? {...exercise, group: null} : exercise))
+      );
+    }
+    setEditingGroupId(null);
+  }, [editingGroupId]);
+
+  // Handle drag start
+  const handleDragStart = useCallback(
+    (index: number) => {
+      dragY.setValue(0);
+      setDragIndex(index);
+    },
+    [dragY]
+  );
+
+  // Handle drag end: move the exercise to where it was dropped
+  const handleDragEnd = useCallback(
+    (index: number, dy: number) => {
+      const heights = exercises.map(exercise => rowHeights.current.get(exercise.id) ?? 0);
+      const target = getDropIndex(heights, index, dy);
+      if (target !== index) {
+        setExercises(prev => {
+          const reordered = [...prev];
+          const [moved] = reordered.splice(index, 1);
+          reordered.splice(target, 0, moved);
+          return normalizeGroups(reordered).map((exercise, orderIndex) => ({...exercise, orderIndex}));
+        });
+      }
+      dragY.setValue(0);
+      setDragIndex(null);
+    },
+    [exercises, dragY]
+  );
+
+  // Handle save routine
+  const handleSaveRoutine = useCallback(async () => {
+    if (name.trim().length === 0) {
+      Alert.alert('Name Required', 'Give the routine a name before saving.');
+      return;
+    }
+    if (exercises.length === 0) {
+      Alert.alert('No Exercises', 'Add at least one exercise to the routine.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const orderedExercises = exercises.map((exercise, orderIndex) => ({...exercise, orderIndex}));
+
+      if (isEditing && existingRoutine) {
+        await updateRoutine({
+          ...existingRoutine,
+          name: name.trim(),
+          description: description.trim(),
+          exercises: orderedExercises,
+        });
+      } else {
+        await saveRoutine(
+          createDefaultRoutine({
+            id: generateUUID(),
+            name: name.trim(),
+            description: description.trim(),
+            exercises: orderedExercises,
+          })
+        );
+      }
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save routine:', error);
+      Alert.alert('Error', 'Failed to save routine. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [name, description, exercises, isEditing, existingRoutine, updateRoutine, saveRoutine, navigation]);
+
+  const editingGroupExercises = exercises.filter(exercise => editingGroupId && exercise.group?.id === editingGroupId);
+
+  return (
+    <View style={[styles.container, {backgroundColor: colors.background}]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: colors.surface,
+            borderBottomColor: colors.surfaceVariant,
+          },
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back">
+          <Icon name="arrow-back" size={24} color={colors.onSurface} />
+        </TouchableOpacity>
+        <Text style={[typography.headlineSmall, {color: colors.onSurface, flex: 1}]}>
+          {isEditing ? 'Edit Routine' : 'New Routine'}
+        </Text>
+        <TouchableOpacity
+          onPress={handleSaveRoutine}
+          disabled={isSaving}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel="Save routine">
+          <Icon name="done" size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Content */}
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.content, {padding: spacing.medium}]}
+        scrollEnabled={dragIndex === null}
+        showsVerticalScrollIndicator={false}>
+        <Input label="Name" value={name} onChangeText={setName} placeholder="e.g. Push Day" />
+        <Input
+          label="Description"
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Optional"
+          multiline
+        />
+
+        <Text
+          style={[
+            typography.titleMedium,
+            {color: colors.onSurface, fontWeight: 'bold', marginVertical: spacing.medium},
+          ]}>
+          Exercises
+        </Text>
+
+        {exercises.length === 0 ? (
+          <EmptyState
+            icon={<Icon name="fitness-center" size={64} color={colors.onSurfaceVariant} />}
+            title="No Exercises Yet"
+            message="Add exercises from the library to build the routine"
+            actionText="Add Exercise"
+            onAction={() => setShowExercisePicker(true)}
+          />
+        ) : (
+          <>
+            {exercises.map((exercise, index) => (
+              <DraggableExerciseRow
+                key={exercise.id}
+                routineExercise={exercise}
+                index={index}
+                isDragging={dragIndex === index}
+                isGroupStart={!!exercise.group && exercises[index - 1]?.group?.id !== exercise.group.id}
+                isLinkedWithNext={!!exercise.group && exercises[index + 1]?.group?.id === exercise.group.id}
+                canLink={index < exercises.length - 1}
+                dragY={dragY}
+                onLayoutHeight={height => rowHeights.current.set(exercise.id, height + ROW_GAP)}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onPress={() => setEditingExercise(exercise)}
+                onEditGroup={() => setEditingGroupId(exercise.group?.id ?? null)}
+                onToggleLink={() => handleToggleLink(index)}
+                onRemove={() => handleRemoveExercise(exercise.id)}
+              />
+            ))}
+            <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant, textAlign: 'center'}]}>
+              Drag the handle to reorder exercises, link exercises to alternate their sets
+            </Text>
+            <Button
+              onPress={() => setShowExercisePicker(true)}
+              variant="outlined"
+              fullWidth
+              icon={<Icon name="add" size={20} color={colors.primary} />}
+              iconPosition="left"
+              style={{marginTop: spacing.medium}}>
+              Add Exercise
+            </Button>
+          </>
+        )}
+
+        {/* Bottom spacing */}
+        <View style={{height: spacing.extraLarge}} />
+      </ScrollView>
+
+      {/* Exercise picker modal */}
+      {showExercisePicker && (
+        <Modal
+          visible={showExercisePicker}
+          onDismiss={() => setShowExercisePicker(false)}
+          title="Add Exercise"
+          variant="bottom">
+          <View>
+            <Input
+              value={searchQuery}
+              onChangeText={updateSearchQuery}
+              placeholder="Search exercises"
+              leftIcon={<Icon name="search" size={20} color={colors.onSurfaceVariant} />}
+            />
+            <TouchableOpacity
+              onPress={handleNewCustomExercise}
+              style={[styles.pickerItem, {paddingVertical: spacing.small, borderBottomColor: colors.surfaceVariant}]}
+              accessibilityRole="button"
+              accessibilityLabel="New custom exercise">
+              <Text style={[typography.bodyLarge, {color: colors.primary}]}>+ New custom exercise</Text>
+            </TouchableOpacity>
+            {libraryExercises.length === 0 ? (
+              <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+                No exercises found.
+              </Text>
+            ) : (
+              libraryExercises.slice(0, PICKER_LIMIT).map(entity => (
+                <TouchableOpacity
+                  key={entity.id}
+                  onPress={() => handleAddExercise(entity)}
+                  style={[styles.pickerItem, {paddingVertical: spacing.small, borderBottomColor: colors.surfaceVariant}]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Add ${entity.name}`}>
+                  <Text style={[typography.bodyLarge, {color: colors.onSurface}]}>{entity.name}</Text>
+                  <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                    {[entity.isCustom ? 'Custom' : '', entity.muscleGroups, entity.equipment]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </Modal>
+      )}
+
+      {/* Custom exercise creation */}
+      <CustomExerciseEditor
+        visible={showCustomEditor}
+        exercise={null}
+        error={customError}
+        isSaving={isSavingCustom}
+        onSave={handleCustomExerciseSaved}
+        onArchive={() => setShowCustomEditor(false)}
+        onDismiss={() => setShowCustomEditor(false)}
+      />
+
+      {/* Exercise configuration */}
+      <RoutineExerciseEditor
+        visible={editingExercise !== null}
+        routineExercise={editingExercise}
+        onSave={handleExerciseSaved}
+        onDismiss={() => setEditingExercise(null)}
+      />
+
+      {/* Group configuration */}
+      <ExerciseGroupEditor
+        visible={editingGroupId !== null}
+        group={editingGroupExercises[0]?.group ?? null}
+        exerciseNames={editingGroupExercises.map(exercise => exercise.exercise.name)}
+        onSave={handleGroupSaved}
+        onUngroup={handleUngroup}
+        onDismiss={() => setEditingGroupId(null)}
+      />
+    </View>
+  );
+};
+
+/**
+ * DraggableExerciseRow Component - exercise row with a drag handle for reordering
+ */
+interface DraggableExerciseRowProps {
+  routineExercise: RoutineExercise;
+  index: number;
+  isDragging: boolean;
+  isGroupStart: boolean; // First exercise of a superset, circuit or giant set
+  isLinkedWithNext: boolean;
+  canLink: boolean;
+  dragY: Animated.Value;
+  onLayoutHeight: (height: number) => void;
+  onDragStart: (index: number) => void;
+  onDragEnd: (index: number, dy: number) => void;
+  onPress: () => void;
+  onEditGroup: () => void;
+  onToggleLink: () => void;
+  onRemove: () => void;
+}
+
+const DraggableExerciseRow: React.FC<DraggableExerciseRowProps> = ({
+  routineExercise,
+  index,
+  isDragging,
+  isGroupStart,
+  isLinkedWithNext,
+  canLink,
+  dragY,
+  onLayoutHeight,
+  onDragStart,
+  onDragEnd,
+  onPress,
+  onEditGroup,
+  onToggleLink,
+  onRemove,
+}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  // The responder is created once, so it reads the latest index and callbacks from a ref
+  const latest = useRef({index, onDragStart, onDragEnd});
+  latest.current = {index, onDragStart, onDragEnd};
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => latest.current.onDragStart(latest.current.index),
+      onPanResponderMove: (_, gesture) => dragY.setValue(gesture.dy),
+      onPanResponderRelease: (_, gesture) => latest.current.onDragEnd(latest.current.index, gesture.dy),
+      onPanResponderTerminate: (_, gesture) => latest.current.onDragEnd(latest.current.index, gesture.dy),
+    })
+  ).current;
+
+  const group = routineExercise.group;
+
+  return (
+    <Animated.View
+      onLayout={event => onLayoutHeight(event.nativeEvent.layout.height)}
+      style={[
+        {marginBottom: ROW_GAP},
+        isDragging && [styles.draggingRow, {transform: [{translateY: dragY}]}],
+      ]}>
+      {isGroupStart && group && (
+        <TouchableOpacity
+          onPress={onEditGroup}
+          style={[styles.groupLabel, {marginBottom: spacing.extraSmall}]}
+          accessibilityRole="button"
+          accessibilityLabel={`Edit ${EXERCISE_GROUP_TYPE_LABELS[group.type]}`}>
+          <Icon name="link" size={16} color={colors.primary} />
+          <Text style={[typography.labelMedium, {color: colors.primary, marginLeft: spacing.extraSmall}]}>
+            {EXERCISE_GROUP_TYPE_LABELS[group.type]} • {group.restBetweenExercisesSeconds}s between exercises •{' '}
+            {group.restBetweenRoundsSeconds}s between rounds
+          </Text>
+        </TouchableOpacity>
+      )}
+      <Card
+        onPress={onPress}
+        style={group ? {...styles.exerciseCard, borderLeftWidth: 4, borderLeftColor: colors.primary} : styles.exerciseCard}
+        elevation={isDragging ? 8 : 4}
+        borderRadius={16}>
+        <View style={[styles.exerciseRow, {padding: spacing.medium}]}>
+          <View
+            {...panResponder.panHandlers}
+            style={styles.dragHandle}
+            accessibilityRole="adjustable"
+            accessibilityLabel={`Reorder ${routineExercise.exercise.name}`}>
+            <Icon name="drag-handle" size={24} color={colors.onSurfaceVariant} />
+          </View>
+          <View style={{flex: 1, marginLeft: spacing.small}}>
+            <Text style={[typography.titleMedium, {color: colors.onSurface, fontWeight: 'bold'}]}>
+              {routineExercise.exercise.name}
+            </Text>
+            <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant, marginTop: spacing.extraSmall}]}>
+              {describeRoutineExercise(routineExercise)}
+            </Text>
+            {!!routineExercise.notes && (
+              <Text
+                style={[typography.bodySmall, {color: colors.onSurfaceVariant, fontStyle: 'italic'}]}
+                numberOfLines={1}>
+                {routineExercise.notes}
+              </Text>
+            )}
+          </View>
+          {canLink && (
+            <TouchableOpacity
+              onPress={onToggleLink}
+              style={styles.removeButton}
+              accessibilityRole="button"
+              accessibilityState={{selected: isLinkedWithNext}}
+              accessibilityLabel={
+                isLinkedWithNext
+                  ? `Unlink ${routineExercise.exercise.name} from the next exercise`
+                  : `Link ${routineExercise.exercise.name} with the next exercise`
+              }>
+              <Icon
+                name={isLinkedWithNext ? 'link' : 'add-link'}
+                size={22}
+                color={isLinkedWithNext ? colors.primary : colors.onSurfaceVariant}
+              />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={onRemove}
+            style={styles.removeButton}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${routineExercise.exercise.name}`}>
+            <Icon name="delete" size={22} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      </Card>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    ...Platform.select({
+      ios: {
+        paddingTop: 44,
+      },
+      android: {
+        paddingTop: 12,
+      },
+    }),
+  },
+  headerButton: {
+    padding: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 8,
+  },
+  exerciseCard: {
+    width: '100%',
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draggingRow: {
+    zIndex: 10,
+    elevation: 10,
+  },
+  dragHandle: {
+    padding: 4,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  groupLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pickerItem: {
+    borderBottomWidth: 1,
+  },
+});
+
+export default RoutineBuilderScreen;
@@ -0,0 +1,396 @@
+/**
+ * SessionDetailScreen - Replay of a recorded workout session
+ *
+ * Features:
+ * - Load and position of both cables over time with rep markers
+ * - Zoom and scrub through the recording
+ * - Set summary statistics (reps, loads, velocity, time under tension)
+ * - Timed set and isometric hold summaries
+ * - Rep-by-rep breakdown
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+import {RootStackParamList} from '../navigation/types';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {useSessionDetail} from '../hooks/useSessionDetail';
+import {Card} from '../components/Card';
+import {EmptyState} from '../components/EmptyState';
+import {LoadingSpinner} from '../components/LoadingSpinner';
+import {SessionChart} from '../components/SessionChart';
+import {
+  WorkoutMetricsDisplay,
+  WorkoutMetric as DisplayMetric,
+} from '../components/WorkoutMetricsDisplay';
+import {getExerciseRepository} from '../../data/repository/ExerciseRepository';
+import {WorkoutRep, WorkoutSession} from '../../domain/models/Models';
+import {
+  SetSummary,
+  STOP_REASON_LABELS,
+} from '../../domain/usecases/SessionAnalysis';
+
+type SessionDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SessionDetail'>;
+type SessionDetailScreenRouteProp = RouteProp<RootStackParamList, 'SessionDetail'>;
+
+/**
+ * SessionDetailScreen Component
+ */
+export const SessionDetailScreen: React.FC = () => {
+  const navigation = useNavigation<SessionDetailScreenNavigationProp>();
+  const route = useRoute<SessionDetailScreenRouteProp>();
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const {sessionId} = route.params;
+  const {session, chartData, chartEvents, reps, summary, isLoading, error} =
+    useSessionDetail(sessionId);
+
+  const [exerciseName, setExerciseName] = useState<string | null>(null);
+
+  // Load exercise name
+  useEffect(() => {
+    if (!session?.exerciseId) {
+      return;
+    }
+    getExerciseRepository()
+      .getExerciseById(session.exerciseId)
+      .then(exercise => setExerciseName(exercise?.name ?? null))
+      .catch(err => console.error('Failed to load exercise name:', err));
+  }, [session?.exerciseId]);
+
+  const date = new Date(session?.timestamp || 0);
+  const subtitle = session
+    ? `${date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })} • ${date.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`
+    : '';
+
+  const renderContent = () => {
+    if (isLoading && !session) {
+      return <LoadingSpinner />;
+    }
+
+    if (error || !session) {
+      return (
+        <EmptyState
+          icon="error-outline"
+          title="Workout unavailable"
+          message={error || 'This workout could not be loaded'}
+          style={{paddingTop: spacing.extraLarge}}
+        />
+      );
+    }
+
+    return (
+      <>
+        {/* Load / position replay */}
+        <Card style={{marginBottom: spacing.medium}} elevation={2} borderRadius={16}>
+          <View style={{padding: spacing.medium}}>
+            <Text
+              style={[
+                typography.titleMedium,
+                {color: colors.onSurface, fontWeight: 'bold', marginBottom: spacing.small},
+              ]}>
+              Load & Position
+            </Text>
+            {chartData.length > 1 ? (
+              <SessionChart data={chartData} events={chartEvents} />
+            ) : (
+              <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+                No metric data was recorded for this workout
+              </Text>
+            )}
+          </View>
+        </Card>
+
+        {/* Set summary */}
+        {summary && (
+          <Card style={{marginBottom: spacing.medium}} elevation={2} borderRadius={16}>
+            <View style={{padding: spacing.medium}}>
+              <Text
+                style={[
+                  typography.titleMedium,
+                  {color: colors.onSurface, fontWeight: 'bold', marginBottom: spacing.small},
+                ]}>
+                Set Summary
+              </Text>
+              <WorkoutMetricsDisplay metrics={createSetSummaryMetrics(summary)} columns={3} />
+              {summary.stopReason && (
+                <Text
+                  style={[
+                    typography.bodySmall,
+                    {color: colors.onSurfaceVariant, marginTop: spacing.small},
+                  ]}>
+                  Ended by: {STOP_REASON_LABELS[summary.stopReason]}
+                </Text>
+              )}
+            </View>
+          </Card>
+        )}
+
+        {/* Timed set / isometric hold */}
+        {session.setType && session.setType !== 'reps' && (
+          <Card style={{marginBottom: spacing.medium}} elevation={2} borderRadius={16}>
+            <View style={{padding: spacing.medium}}>
+              <Text
+                style={[
+                  typography.titleMedium,
+                  {color: colors.onSurface, fontWeight: 'bold', marginBottom: spacing.small},
+                ]}>
+                {session.setType === 'isometric' ? 'Isometric Hold' : 'Timed Set'}
+              </Text>
+              <WorkoutMetricsDisplay metrics={createDurationSetMetrics(session)} columns={3} />
+            </View>
+          </Card>
+        )}
+
+        {/* Rep-by-rep breakdown */}
+        {reps.length > 0 && (
+          <Card style={{marginBottom: spacing.medium}} elevation={2} borderRadius={16}>
+            <View style={{padding: spacing.medium}}>
+              <Text
+                style={[
+                  typography.titleMedium,
+                  {color: colors.onSurface, fontWeight: 'bold', marginBottom: spacing.small},
+                ]}>
+                Reps
+              </Text>
+              {reps.map(rep => (
+                <RepRow key={rep.repIndex} rep={rep} />
+              ))}
+            </View>
+          </Card>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: colors.background}]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: colors.surface,
+            borderBottomColor: colors.surfaceVariant,
+          },
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back">
+          <Icon name="arrow-back" size={24} color={colors.onSurface} />
+        </TouchableOpacity>
+
+        <View style={{flex: 1}}>
+          <Text style={[typography.headlineSmall, {color: colors.onSurface}]}>
+            {exerciseName || session?.mode || 'Workout'}
+          </Text>
+          {subtitle !== '' && (
+            <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+              {subtitle}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{padding: spacing.medium}}>
+        {renderContent()}
+      </ScrollView>
+    </View>
+  );
+};
+
+/**
+ * One line of the rep breakdown
+ */
+const RepRow: React.FC<{rep: WorkoutRep}> = ({rep}) => {
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const rangeOfMotion = Math.max(
+    rep.topPositionA - rep.bottomPositionA,
+    rep.topPositionB - rep.bottomPositionB
+  );
+
+  return (
+    <View
+      style={[
+        styles.repRow,
+        {borderBottomColor: colors.surfaceVariant, paddingVertical: spacing.small},
+      ]}>
+      <Text
+        style={[
+          typography.labelLarge,
+          {color: rep.isWarmup ? colors.onSurfaceVariant : colors.onSurface, width: 56},
+        ]}>
+        {rep.isWarmup ? `W${rep.repIndex}` : `#${rep.repIndex}`}
+      </Text>
+      <Text style={[typography.bodySmall, styles.repCell, {color: colors.onSurface}]}>
+        {Math.max(rep.peakLoadA, rep.peakLoadB).toFixed(1)} kg
+      </Text>
+      <Text style={[typography.bodySmall, styles.repCell, {color: colors.onSurface}]}>
+        {rangeOfMotion.toFixed(0)} mm
+      </Text>
+      <Text style={[typography.bodySmall, styles.repCell, {color: colors.onSurface}]}>
+        {rep.meanConcentricVelocity != null ? `${rep.meanConcentricVelocity.toFixed(2)} m/s` : '-'}
+      </Text>
+      <Text style={[typography.bodySmall, styles.repCell, {color: colors.onSurface}]}>
+        {((rep.timeUnderTensionMs ?? rep.endTime - rep.startTime) / 1000).toFixed(1)} s
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * Stat tiles for the set summary
+ */
+function createSetSummaryMetrics(summary: SetSummary): DisplayMetric[] {
+  const metrics: DisplayMetric[] = [
+    {
+      label: 'Reps',
+      value: `${summary.workingReps}${summary.warmupReps > 0 ? ` +${summary.warmupReps}W` : ''}`,
+      icon: 'repeat',
+    },
+    {label: 'Duration', value: `${(summary.durationMs / 1000).toFixed(0)} s`, icon: 'timer'},
+    {label: 'Peak Load', value: `${summary.peakLoadKg.toFixed(1)} kg`, icon: 'fitness-center'},
+    {label: 'Avg Rep Peak', value: `${summary.averagePeakLoadKg.toFixed(1)} kg`, icon: 'trending-up'},
+    {label: 'Avg ROM', value: `${summary.averageRangeOfMotion.toFixed(0)} mm`, icon: 'height'},
+  ];
+
+  if (summary.averageTimeUnderTensionMs !== null) {
+    metrics.push({
+      label: 'Avg TUT',
+      value: `${(summary.averageTimeUnderTensionMs / 1000).toFixed(1)} s`,
+      icon: 'hourglass-empty',
+    });
+  }
+  if (summary.bestVelocity !== null) {
+    metrics.push({label: 'Best Velocity', value: `${summary.bestVelocity.toFixed(2)} m/s`, icon: 'speed'});
+  }
+  if (summary.velocityLossPercent !== null) {
+    metrics.push({
+      label: 'Velocity Loss',
+      value: `${summary.velocityLossPercent.toFixed(0)}%`,
+      icon: 'trending-down',
+    });
+  }
+
+  return metrics;
+}
+
+/**
+ * Stat tiles for a timed set or an isometric hold
+ */
+function createDurationSetMetrics(session: WorkoutSession): DisplayMetric[] {
+  const metrics: DisplayMetric[] = [];
+  if (session.targetDurationSeconds != null) {
+    metrics.push({label: 'Target', value: `${session.targetDurationSeconds} s`, icon: 'timer'});
+  }
+
+  if (session.setType === 'isometric') {
+    if (session.timeUnderTensionMs != null) {
+      metrics.push({
+        label: 'Held',
+        value: `${(session.timeUnderTensionMs / 1000).toFixed(1)} s`,
+        icon: 'hourglass-empty',
+      });
+    }
+    if (session.holdLoadKg != null) {
+      metrics.push({label: 'Hold Load', value: `${session.holdLoadKg.toFixed(1)} kg`, icon: 'fitness-center'});
+    }
+    if (session.loadVariationPercent != null) {
+      metrics.push({
+        label: 'Load Variation',
+        value: `±${session.loadVariationPercent.toFixed(1)}%`,
+        icon: 'show-chart',
+      });
+    }
+    if (session.positionVariationMm != null) {
+      metrics.push({
+        label: 'Position Drift',
+        value: `±${session.positionVariationMm.toFixed(0)} mm`,
+        icon: 'height',
+      });
+    }
+    return metrics;
+  }
+
+  const workingReps = session.workingReps ?? 0;
+  metrics.push({label: 'Reps', value: `${workingReps}`, icon: 'repeat'});
+  if (session.duration) {
+    metrics.push({
+      label: 'Reps / Min',
+      value: ((workingReps * 60000) / session.duration).toFixed(1),
+      icon: 'speed',
+    });
+  }
+  if (session.timeUnderTensionMs != null) {
+    metrics.push({
+      label: 'Time Under Tension',
+      value: `${(session.timeUnderTensionMs / 1000).toFixed(1)} s`,
+      icon: 'hourglass-empty',
+    });
+  }
+  return metrics;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    ...Platform.select({
+      ios: {
+        paddingTop: 44,
+      },
+      android: {
+        paddingTop: 12,
+      },
+    }),
+  },
+  headerButton: {
+    padding: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  repRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  repCell: {
+    flex: 1,
+    textAlign: 'right',
+  },
+});
+
+export default SessionDetailScreen;
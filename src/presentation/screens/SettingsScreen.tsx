@@ -5,8 +5,9 @@
  * Features:
  * - Weight unit preference (KG/LB)
  * - Workout preferences (Autoplay, Stop At Top)
+ * - Trainers (add, connect and remove trainers for side-by-side training)
  * - Theme selection (Light/Dark/System) - placeholder for LED color scheme
- * - Data management (clear data)
+ * - Data management (backup, restore, clear data)
  * - Connection logs access
  * - App info section
  */
@@ -30,9 +31,16 @@ import { RootStackParamList, SCREEN_NAMES } from '../navigation/types';
 import { useColors, useTypography, useSpacing, useTheme } from '../theme';
 import { usePreferences } from '../hooks/usePreferences';
 import { useWorkoutHistory } from '../hooks/useWorkoutHistory';
+import { useDataBackup } from '../hooks/useDataBackup';
+import { useTrainers } from '../hooks/useTrainers';
 import { Card } from '../components/Card';
-import { Button, OutlinedButton } from '../components/Button';
+import { Button, OutlinedButton, TextButton } from '../components/Button';
+import { Input } from '../components/Input';
 import { Modal, AlertDialog } from '../components/Modal';
+import { BackupRestoreModal } from '../components/BackupRestoreModal';
+import { RestoreMode, RestoreReport } from '../../data/repository/BackupRepository';
+import { PRIMARY_TRAINER_ID } from '../../data/repository/BleRepository';
+import { ConnectionState, ConnectionStatus } from '../../data/ble/types';
 import { WeightUnit } from '../../domain/models/Models';
 import { ThemeMode } from '../theme/theme';
 
@@ -48,11 +56,20 @@ export const SettingsScreen: React.FC = () => {
   const spacing = useSpacing();
   const { themeMode, setThemeMode } = useTheme();
 
-  const { preferences, setWeightUnit, setAutoplayEnabled, setStopAtTop } = usePreferences();
-  const { deleteAllWorkouts } = useWorkoutHistory();
+  const { preferences, setWeightUnit, setAutoplayEnabled, setStopAtTop, setAutoApplyProgression } =
+    usePreferences();
+  const { deleteAllWorkouts, refresh: refreshHistory } = useWorkoutHistory();
+  const { summary, isWorking, error: backupError, shareBackup, pickBackup, restoreBackup, clearBackup } =
+    useDataBackup();
+  const { trainers, error: trainerError, addTrainer, removeTrainer, autoConnectTrainer, disconnectTrainer } =
+    useTrainers();
 
   // State
   const [showDeleteAllDialog, setShowDeleteAllDialog] = useState(false);
+  const [showAddTrainerDialog, setShowAddTrainerDialog] = useState(false);
+  const [newTrainerName, setNewTrainerName] = useState('');
+  const [connectingTrainerId, setConnectingTrainerId] = useState<string | null>(null);
+  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
   const [showThemeDialog, setShowThemeDialog] = useState(false);
   const [localWeightUnit, setLocalWeightUnit] = useState(preferences.weightUnit || WeightUnit.KG);
 
@@ -74,6 +91,51 @@ export const SettingsScreen: React.FC = () => {
     }
   };
 
+  // Handle connect or disconnect of a trainer
+  const handleToggleTrainerConnection = async (trainerId: string, connected: boolean) => {
+    if (connected) {
+      await disconnectTrainer(trainerId);
+      return;
+    }
+    setConnectingTrainerId(trainerId);
+    await autoConnectTrainer(trainerId);
+    setConnectingTrainerId(null);
+  };
+
+  // Handle a new trainer added from the dialog
+  const handleAddTrainer = () => {
+    addTrainer(newTrainerName.trim() || `Trainer ${trainers.length + 1}`);
+    setNewTrainerName('');
+    setShowAddTrainerDialog(false);
+  };
+
+  // Handle backup through the share sheet
+  const handleBackup = async () => {
+    try {
+      await shareBackup();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create a backup.');
+    }
+  };
+
+  // Handle restore of the picked backup
+  const handleRestore = async (mode: RestoreMode) => {
+    try {
+      const report = await restoreBackup(mode);
+      setShowRestoreDialog(false);
+      refreshHistory();
+      Alert.alert('Backup Restored', describeRestoreReport(report));
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+    }
+  };
+
+  // Handle close of the restore dialog
+  const handleDismissRestore = () => {
+    setShowRestoreDialog(false);
+    clearBackup();
+  };
+
   // Handle navigate to connection logs
   const handleNavigateToConnectionLogs = () => {
     navigation.navigate(SCREEN_NAMES.CONNECTION_LOGS);
@@ -173,6 +235,85 @@ export const SettingsScreen: React.FC = () => {
               thumbColor={colors.onPrimary}
             />
           </View>
+
+          <View style={[styles.divider, { backgroundColor: colors.surfaceVariant }]} />
+
+          {/* Auto-apply progression toggle */}
+          <View style={styles.settingRow}>
+            <View style={{ flex: 1 }}>
+              <Text
+                style={[
+                  typography.bodyLarge,
+                  { color: colors.onSurface, fontWeight: '500', marginBottom: 4 },
+                ]}>
+                Auto-Apply Progression
+              </Text>
+              <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant }]}>
+                Update routine weights and reps after each run without asking
+              </Text>
+            </View>
+            <Switch
+              value={preferences.autoApplyProgression || false}
+              onValueChange={setAutoApplyProgression}
+              trackColor={{ false: colors.surfaceVariant, true: colors.primary }}
+              thumbColor={colors.onPrimary}
+            />
+          </View>
+        </SettingsCard>
+
+        {/* Trainers Section */}
+        <SettingsCard
+          title="Trainers"
+          icon="fitness-center"
+          iconColor="#14B8A6">
+          {trainers.map((trainer, index) => {
+            const connected = trainer.connectionState.status === ConnectionStatus.Ready;
+            return (
+              <View key={trainer.trainerId}>
+                {index > 0 && <View style={[styles.divider, { backgroundColor: colors.surfaceVariant }]} />}
+                <View style={styles.settingRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[typography.bodyLarge, { color: colors.onSurface, fontWeight: '500' }]}>
+                      {trainer.name}
+                    </Text>
+                    <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant }]}>
+                      {describeConnectionState(trainer.connectionState)}
+                    </Text>
+                  </View>
+                  <TextButton
+                    onPress={() => handleToggleTrainerConnection(trainer.trainerId, connected)}
+                    loading={connectingTrainerId === trainer.trainerId}
+                    size="small">
+                    {connected ? 'Disconnect' : 'Connect'}
+                  </TextButton>
+                  {trainer.trainerId !== PRIMARY_TRAINER_ID && (
+                    <TouchableOpacity
+                      onPress={() => removeTrainer(trainer.trainerId)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Remove ${trainer.name}`}>
+                      <Icon name="close" size={20} color={colors.onSurfaceVariant} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+          {trainerError && (
+            <Text style={[typography.bodySmall, { color: colors.error, marginTop: spacing.small }]}>
+              {trainerError}
+            </Text>
+          )}
+          <OutlinedButton
+            onPress={() => setShowAddTrainerDialog(true)}
+            fullWidth
+            style={{ marginTop: spacing.medium, marginBottom: spacing.small }}>
+            <Icon name="add" size={20} color={colors.primary} />
+            <Text style={{ marginLeft: 8 }}>Add Trainer</Text>
+          </OutlinedButton>
+          <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant }]}>
+            Connect another trainer so two athletes can train side by side. Pick the trainer when starting a
+            workout.
+          </Text>
         </SettingsCard>
 
         {/* Theme Section */}
@@ -200,8 +341,31 @@ export const SettingsScreen: React.FC = () => {
         {/* Data Management Section */}
         <SettingsCard
           title="Data Management"
-          icon="delete-forever"
+          icon="storage"
           iconColor="#EF4444">
+          <OutlinedButton
+            onPress={handleBackup}
+            loading={isWorking && !showRestoreDialog}
+            fullWidth
+            style={{ marginBottom: spacing.small }}>
+            <Icon name="backup" size={20} color={colors.primary} />
+            <Text style={{ marginLeft: 8 }}>Back Up Data</Text>
+          </OutlinedButton>
+          <OutlinedButton
+            onPress={() => setShowRestoreDialog(true)}
+            fullWidth
+            style={{ marginBottom: spacing.small }}>
+            <Icon name="restore" size={20} color={colors.primary} />
+            <Text style={{ marginLeft: 8 }}>Restore Backup</Text>
+          </OutlinedButton>
+          <Text
+            style={[
+              typography.bodySmall,
+              { color: colors.onSurfaceVariant, marginBottom: spacing.small },
+            ]}>
+            Back up workouts, routines, programs, personal records, favorites and preferences to move them to
+            another phone
+          </Text>
           <Button
             onPress={() => setShowDeleteAllDialog(true)}
             variant="filled"
@@ -268,6 +432,37 @@ export const SettingsScreen: React.FC = () => {
         onCancel={() => setShowDeleteAllDialog(false)}
       />
 
+      {/* Restore Backup Dialog */}
+      <BackupRestoreModal
+        visible={showRestoreDialog}
+        summary={summary}
+        error={backupError}
+        isWorking={isWorking}
+        onPickFile={pickBackup}
+        onRestore={handleRestore}
+        onDismiss={handleDismissRestore}
+      />
+
+      {/* Add Trainer Dialog */}
+      <Modal
+        visible={showAddTrainerDialog}
+        onDismiss={() => setShowAddTrainerDialog(false)}
+        title="Add Trainer"
+        variant="center"
+        footer={
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: spacing.small }}>
+            <TextButton onPress={() => setShowAddTrainerDialog(false)}>Cancel</TextButton>
+            <Button onPress={handleAddTrainer}>Add</Button>
+          </View>
+        }>
+        <Input
+          value={newTrainerName}
+          onChangeText={setNewTrainerName}
+          placeholder={`Trainer ${trainers.length + 1}`}
+          label="Name"
+        />
+      </Modal>
+
       {/* Theme Selection Dialog */}
       <Modal
         visible={showThemeDialog}
@@ -309,6 +504,48 @@ export const SettingsScreen: React.FC = () => {
   );
 };
 
+/**
+ * Describe the connection state of a trainer
+ */
+const describeConnectionState = (state: ConnectionState): string => {
+  switch (state.status) {
+    case ConnectionStatus.Ready:
+      return `Connected to ${state.deviceName}`;
+    case ConnectionStatus.Connecting:
+      return 'Connecting...';
+    case ConnectionStatus.Scanning:
+      return 'Searching...';
+    case ConnectionStatus.Error:
+      return state.message;
+    default:
+      return 'Not connected';
+  }
+};
+
+/**
+ * Describe what a restore wrote and which rows were already on this phone
+ */
+const describeRestoreReport = (report: RestoreReport): string => {
+  const { restored, conflicts } = report;
+  const lines = [
+    `${restored.workout_sessions ?? 0} workouts, ${restored.routines ?? 0} routines and ` +
+      `${restored.weekly_programs ?? 0} programs ${report.mode === 'merge' ? 'added' : 'restored'}.`,
+  ];
+  if (report.upgraded) {
+    lines.push(`The backup was upgraded from database version ${report.backupDatabaseVersion}.`);
+  }
+
+  const keptLocal = conflicts.filter(conflict => conflict.resolution === 'kept_local');
+  const keptBackup = conflicts.filter(conflict => conflict.resolution === 'kept_backup');
+  if (keptLocal.length > 0) {
+    lines.push(`${keptLocal.length} items differed from this phone and were kept as they are here.`);
+  }
+  if (keptBackup.length > 0) {
+    lines.push(`${keptBackup.length} personal records from the backup were better and replaced the ones here.`);
+  }
+  return lines.join('\n\n');
+};
+
 /**
  * SettingsCard Component
  */
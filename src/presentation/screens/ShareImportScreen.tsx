@@ -0,0 +1,279 @@
+/**
+ * ShareImportScreen - Import a shared routine or weekly program
+ *
+ * Features:
+ * - Opened from an import link, or by pasting a shared message or share file
+ * - Validates the share file and previews its routines, program and exercises
+ * - Lists exercises missing from the exercise library
+ * - Keep both or replace when a routine or program name is already taken
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {View, Text, ScrollView, StyleSheet, TouchableOpacity, Platform, Alert} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+import {RootStackParamList, SCREEN_NAMES} from '../navigation/types';
+import {useColors, useTypography, useSpacing} from '../theme';
+import {useRoutineSharing} from '../hooks/useRoutineSharing';
+import {useRoutines} from '../hooks/useRoutines';
+import {useWeeklyPrograms} from '../hooks/useWeeklyPrograms';
+import {Card} from '../components/Card';
+import {Button, OutlinedButton} from '../components/Button';
+import {Input} from '../components/Input';
+import {ShareConflictResolution} from '../../data/repository/ShareRepository';
+
+type ShareImportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ShareImport'>;
+type ShareImportScreenRouteProp = RouteProp<RootStackParamList, 'ShareImport'>;
+
+const CONFLICT_RESOLUTION_LABELS: Record<ShareConflictResolution, string> = {
+  rename: 'Keep Both',
+  replace: 'Replace',
+};
+
+/**
+ * ShareImportScreen Component
+ */
+export const ShareImportScreen: React.FC = () => {
+  const navigation = useNavigation<ShareImportScreenNavigationProp>();
+  const route = useRoute<ShareImportScreenRouteProp>();
+  const colors = useColors();
+  const typography = useTypography();
+  const spacing = useSpacing();
+
+  const {preview, isLoading, error, loadImport, confirmImport, clearImport} = useRoutineSharing();
+  const {loadRoutines} = useRoutines();
+  const {loadPrograms} = useWeeklyPrograms();
+
+  const [text, setText] = useState('');
+  const [resolution, setResolution] = useState<ShareConflictResolution>('rename');
+
+  // Share file from an import link
+  const linkData = route.params?.data;
+  useEffect(() => {
+    if (linkData) {
+      loadImport(linkData);
+    }
+  }, [linkData, loadImport]);
+
+  const handleBackPress = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  const handleCheck = useCallback(() => {
+    if (text.trim()) {
+      loadImport(text);
+    }
+  }, [text, loadImport]);
+
+  const handleImport = useCallback(async () => {
+    if (!preview) return;
+    try {
+      const result = await confirmImport(resolution);
+      await loadRoutines();
+      if (result.programId) {
+        await loadPrograms();
+      }
+
+      const missing =
+        result.unresolvedExercises.length > 0
+          ? `\n\nNot in your exercise library: ${result.unresolvedExercises.join(', ')}`
+          : '';
+      Alert.alert(
+        'Import Complete',
+        `${preview.programTitle ?? preview.routineNames[0]} was imported.${missing}`,
+        [
+          {
+            text: 'OK',
+            onPress: () =>
+              navigation.replace(result.programId ? SCREEN_NAMES.WEEKLY_PROGRAMS : SCREEN_NAMES.DAILY_ROUTINES),
+          },
+        ]
+      );
+    } catch (err) {
+      Alert.alert('Error', 'Failed to import. Please try again.');
+    }
+  }, [preview, resolution, confirmImport, loadRoutines, loadPrograms, navigation]);
+
+  const hasConflicts = !!preview && (preview.routineConflicts.length > 0 || preview.programConflict !== null);
+
+  const renderChip = (value: ShareConflictResolution) => {
+    const selected = resolution === value;
+    return (
+      <TouchableOpacity
+        key={value}
+        onPress={() => setResolution(value)}
+        style={[
+          styles.chip,
+          {
+            paddingHorizontal: spacing.medium,
+            paddingVertical: spacing.extraSmall,
+            backgroundColor: selected ? colors.primaryContainer : colors.surfaceVariant,
+          },
+        ]}
+        accessibilityRole="button"
+        accessibilityState={{selected}}
+        accessibilityLabel={CONFLICT_RESOLUTION_LABELS[value]}>
+        <Text
+          style={[typography.labelMedium, {color: selected ? colors.onPrimaryContainer : colors.onSurfaceVariant}]}>
+          {CONFLICT_RESOLUTION_LABELS[value]}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: colors.background}]}>
+      {/* Header */}
+      <View style={[styles.header, {backgroundColor: colors.surface, borderBottomColor: colors.outline}]}>
+        <TouchableOpacity
+          onPress={handleBackPress}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back">
+          <Icon name="arrow-back" size={24} color={colors.onSurface} />
+        </TouchableOpacity>
+        <Text style={[typography.headlineSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>Import</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{padding: spacing.medium, gap: spacing.medium}}
+        keyboardShouldPersistTaps="handled">
+        {/* Paste */}
+        {!preview && (
+          <Card elevation={2} borderRadius={16}>
+            <View style={{padding: spacing.medium, gap: spacing.small}}>
+              <Text style={[typography.bodyMedium, {color: colors.onSurfaceVariant}]}>
+                Paste a routine or program shared with you.
+              </Text>
+              <Input
+                value={text}
+                onChangeText={setText}
+                placeholder="Shared message or file"
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                inputStyle={styles.pasteInput}
+                error={error ?? undefined}
+              />
+              <Button onPress={handleCheck} loading={isLoading} disabled={!text.trim()} fullWidth>
+                Check
+              </Button>
+            </View>
+          </Card>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <Card elevation={2} borderRadius={16}>
+            <View style={{padding: spacing.medium, gap: spacing.small}}>
+              <Text style={[typography.labelMedium, {color: colors.onSurfaceVariant, textTransform: 'uppercase'}]}>
+                {preview.kind === 'program' ? 'Weekly Program' : 'Routine'}
+              </Text>
+              <Text style={[typography.titleLarge, {color: colors.onSurface, fontWeight: 'bold'}]}>
+                {preview.programTitle ?? preview.routineNames[0]}
+              </Text>
+              {preview.kind === 'program' && (
+                <Text style={[typography.bodyMedium, {color: colors.onSurface}]}>
+                  {preview.routineNames.join(' • ')}
+                </Text>
+              )}
+              <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                {preview.exerciseCount} exercises
+                {preview.kind === 'program' ? ` in ${preview.routineNames.length} routines` : ''}
+              </Text>
+
+              {/* Exercises missing from the library */}
+              {preview.unresolvedExercises.length > 0 && (
+                <View style={[styles.row, {gap: spacing.small}]}>
+                  <Icon name="warning" size={20} color={colors.error} />
+                  <Text style={[typography.bodySmall, styles.flex, {color: colors.onSurface}]}>
+                    Not in your exercise library, imported as written: {preview.unresolvedExercises.join(', ')}
+                  </Text>
+                </View>
+              )}
+
+              {/* Name conflicts */}
+              {hasConflicts && (
+                <View style={{gap: spacing.small}}>
+                  <Text style={[typography.titleSmall, {color: colors.onSurface, fontWeight: 'bold'}]}>
+                    Already on this phone
+                  </Text>
+                  <Text style={[typography.bodySmall, {color: colors.onSurfaceVariant}]}>
+                    {[...preview.routineConflicts, ...(preview.programConflict ? [preview.programConflict] : [])].join(
+                      ', '
+                    )}
+                  </Text>
+                  <View style={[styles.row, {gap: spacing.small}]}>
+                    {(['rename', 'replace'] as ShareConflictResolution[]).map(renderChip)}
+                  </View>
+                </View>
+              )}
+
+              {error && <Text style={[typography.bodySmall, {color: colors.error}]}>{error}</Text>}
+
+              <View style={[styles.row, {gap: spacing.small, marginTop: spacing.small}]}>
+                <OutlinedButton onPress={clearImport} style={styles.flex}>
+                  Cancel
+                </OutlinedButton>
+                <Button onPress={handleImport} loading={isLoading} style={styles.flex}>
+                  Import
+                </Button>
+              </View>
+            </View>
+          </Card>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    ...Platform.select({
+      ios: {
+        paddingTop: 60,
+      },
+      android: {
+        paddingTop: 16,
+      },
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  headerSpacer: {
+    width: 40, // Same width as back button for centering
+  },
+  scrollView: {
+    flex: 1,
+  },
+  pasteInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  flex: {
+    flex: 1,
+  },
+  chip: {
+    borderRadius: 8,
+  },
+});
+
+export default ShareImportScreen;
@@ -3,7 +3,8 @@
  * Screen for selecting a single exercise and configuring workout parameters
  *
  * Flow:
- * 1. Exercise selection from library (with search/filters)
+ * 1. Exercise selection from library (typo-tolerant search, combinable filters, and the user's own
+ *    custom exercises)
  * 2. Configure workout parameters (mode, reps, weight, etc.)
  * 3. Connect to device and start workout
  * 4. Navigate to ActiveWorkoutScreen
@@ -28,16 +29,26 @@ import {Button, TextButton} from '../components/Button';
 import {Input} from '../components/Input';
 import {Card} from '../components/Card';
 import {ExerciseCard} from '../components/ExerciseCard';
+import {CustomExerciseEditor} from '../components/CustomExerciseEditor';
 import {EmptyState} from '../components/EmptyState';
 import {ConnectingOverlay} from '../components/ConnectingOverlay';
 import {ConnectionErrorDialog} from '../components/ConnectionErrorDialog';
+import {TrainerPicker} from '../components/TrainerPicker';
 import {useExerciseLibrary} from '../hooks/useExerciseLibrary';
 import {useWorkoutSession} from '../hooks/useWorkoutSession';
 import {useBleConnection} from '../hooks/useBleConnection';
+import {useTrainers} from '../hooks/useTrainers';
 import {ExerciseEntity} from '../../data/local/entities';
+import {CustomExerciseInput} from '../../data/repository/ExerciseRepository';
+import {PRIMARY_TRAINER_ID} from '../../data/repository/BleRepository';
+import {ConnectionStatus} from '../../data/ble/types';
 import {
   Exercise,
   CableConfiguration,
+  LIBRARY_EQUIPMENT,
+  LIBRARY_GRIPS,
+  LIBRARY_MOVEMENTS,
+  LIBRARY_MUSCLE_GROUPS,
   resolveDefaultCableConfig,
 } from '../../domain/models/Exercise';
 import {
@@ -74,15 +85,22 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
     searchQuery,
     selectedMuscleGroups,
     selectedEquipment,
+    selectedGrips,
+    selectedMovements,
     showFavoritesOnly,
     isLoading: isLoadingExercises,
     error: exerciseError,
     updateSearchQuery,
     toggleMuscleGroupFilter,
     toggleEquipmentFilter,
+    toggleGripFilter,
+    toggleMovementFilter,
     toggleFavorite,
     toggleShowFavoritesOnly,
     clearFilters,
+    createCustomExercise,
+    updateCustomExercise,
+    archiveCustomExercise,
   } = useExerciseLibrary();
 
   // Workout session hook
@@ -92,12 +110,19 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
   // BLE connection hook
   const {connectionState, connectToDevice, autoConnect, disconnect} = useBleConnection();
 
+  // Trainers hook (the workout runs on the selected trainer)
+  const {trainers, selectedTrainerId, selectTrainer, autoConnectTrainer} = useTrainers();
+
   // Local state
   const [showExercisePicker, setShowExercisePicker] = useState(true);
   const [exerciseToConfig, setExerciseToConfig] =
     useState<RoutineExercise | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [showCustomEditor, setShowCustomEditor] = useState(false);
+  const [customExercise, setCustomExercise] = useState<ExerciseEntity | null>(null);
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [isSavingCustom, setIsSavingCustom] = useState(false);
 
   // Handle back button
   useEffect(() => {
@@ -116,7 +141,7 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
       name: selectedExercise.name,
       muscleGroup: selectedExercise.muscleGroups.split(',')[0]?.trim() || 'Full Body',
       equipment: selectedExercise.equipment.split(',')[0]?.trim() || '',
-      defaultCableConfig: CableConfiguration.DOUBLE,
+      defaultCableConfig: selectedExercise.cableConfig ?? CableConfiguration.DOUBLE,
       id: selectedExercise.id,
     };
 
@@ -145,8 +170,19 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
       setIsConnecting(true);
       setConnectionError(null);
 
-      // Check if already connected
-      if (connectionState.type !== 'connected') {
+      // Connect a second trainer on its own repository
+      if (selectedTrainerId !== PRIMARY_TRAINER_ID) {
+        const trainer = trainers.find(t => t.trainerId === selectedTrainerId);
+        if (trainer?.connectionState.status !== ConnectionStatus.Ready) {
+          const connected = await autoConnectTrainer(selectedTrainerId, 30000);
+          if (!connected) {
+            setConnectionError(`Failed to connect to ${trainer?.name ?? 'trainer'}`);
+            setIsConnecting(false);
+            return;
+          }
+        }
+      } else if (connectionState.type !== 'connected') {
+        // Check if already connected
         // Attempt to connect with 30 second timeout
         const connected = await autoConnect(30000);
         if (!connected) {
@@ -170,6 +206,7 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
         stopAtTop: false,
         warmupReps: 3,
         selectedExerciseId: configuredExercise.exercise.id || null,
+        velocityLossPercent: configuredExercise.velocityLossPercent ?? null,
       };
 
       updateWorkoutParameters(params);
@@ -198,12 +235,97 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
     setShowExercisePicker(true);
   };
 
+  // Open the custom exercise editor (null creates a new exercise)
+  const handleOpenCustomEditor = (exercise: ExerciseEntity | null) => {
+    setCustomExercise(exercise);
+    setCustomError(null);
+    setShowCustomEditor(true);
+  };
+
+  // Handle custom exercise saved
+  const handleSaveCustomExercise = async (input: CustomExerciseInput) => {
+    try {
+      setIsSavingCustom(true);
+      setCustomError(null);
+      if (customExercise) {
+        await updateCustomExercise(customExercise.id, input);
+      } else {
+        await createCustomExercise(input);
+      }
+      setShowCustomEditor(false);
+    } catch (error) {
+      setCustomError(
+        error instanceof Error ? error.message : 'Failed to save exercise'
+      );
+    } finally {
+      setIsSavingCustom(false);
+    }
+  };
+
+  // Handle custom exercise archived
+  const handleArchiveCustomExercise = async () => {
+    if (customExercise) {
+      await archiveCustomExercise(customExercise.id);
+    }
+    setShowCustomEditor(false);
+  };
+
   // Handle clear connection error
   const handleClearConnectionError = () => {
     setConnectionError(null);
   };
 
   // Render exercise picker modal
+  // One row of library filter chips; chips of a row are alternatives, rows combine
+  const renderFilterChips = (
+    title: string,
+    options: Record<string, string>,
+    selected: Set<string>,
+    onToggle: (value: string) => void
+  ) => (
+    <View style={{paddingHorizontal: spacing.medium}}>
+      <Text
+        style={[
+          typography.labelMedium,
+          {color: colors.onSurface, marginBottom: spacing.small},
+        ]}>
+        {title}
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={{marginBottom: spacing.medium}}>
+        {Object.entries(options).map(([value, label]) => (
+          <TouchableOpacity
+            key={value}
+            onPress={() => onToggle(value)}
+            style={{
+              paddingHorizontal: spacing.medium,
+              paddingVertical: spacing.small,
+              borderRadius: 8,
+              backgroundColor: selected.has(value)
+                ? colors.primaryContainer
+                : colors.surfaceVariant,
+              marginRight: spacing.small,
+            }}
+            accessibilityRole="button">
+            <Text
+              style={[
+                typography.labelMedium,
+                {
+                  color: selected.has(value)
+                    ? colors.onPrimaryContainer
+                    : colors.onSurfaceVariant,
+                },
+              ]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   const renderExercisePicker = () => {
     return (
       <Modal
@@ -248,6 +370,13 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
             />
           </View>
 
+          {/* Custom exercise */}
+          <View style={{paddingHorizontal: spacing.medium, paddingBottom: spacing.small}}>
+            <TextButton onPress={() => handleOpenCustomEditor(null)}>
+              + New Custom Exercise
+            </TextButton>
+          </View>
+
           {/* Favorites toggle */}
           <View
             style={{
@@ -286,102 +415,30 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
             </TouchableOpacity>
           </View>
 
-          {/* Muscle group filters */}
-          <View style={{paddingHorizontal: spacing.medium}}>
-            <Text
-              style={[
-                typography.labelMedium,
-                {color: colors.onSurface, marginBottom: spacing.small},
-              ]}>
-              Muscle Groups
-            </Text>
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              style={{marginBottom: spacing.medium}}>
-              {['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core'].map(
-                group => (
-                  <TouchableOpacity
-                    key={group}
-                    onPress={() => toggleMuscleGroupFilter(group)}
-                    style={{
-                      paddingHorizontal: spacing.medium,
-                      paddingVertical: spacing.small,
-                      borderRadius: 8,
-                      backgroundColor: selectedMuscleGroups.has(group)
-                        ? colors.primaryContainer
-                        : colors.surfaceVariant,
-                      marginRight: spacing.small,
-                    }}
-                    accessibilityRole="button">
-                    <Text
-                      style={[
-                        typography.labelMedium,
-                        {
-                          color: selectedMuscleGroups.has(group)
-                            ? colors.onPrimaryContainer
-                            : colors.onSurfaceVariant,
-                        },
-                      ]}>
-                      {group}
-                    </Text>
-                  </TouchableOpacity>
-                )
-              )}
-            </ScrollView>
-          </View>
-
-          {/* Equipment filters */}
-          <View style={{paddingHorizontal: spacing.medium}}>
-            <Text
-              style={[
-                typography.labelMedium,
-                {color: colors.onSurface, marginBottom: spacing.small},
-              ]}>
-              Equipment
-            </Text>
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              style={{marginBottom: spacing.medium}}>
-              {[
-                'Long Bar',
-                'Short Bar',
-                'Handles',
-                'Rope',
-                'Belt',
-                'Ankle Strap',
-                'Bench',
-                'Bodyweight',
-              ].map(equipment => (
-                <TouchableOpacity
-                  key={equipment}
-                  onPress={() => toggleEquipmentFilter(equipment)}
-                  style={{
-                    paddingHorizontal: spacing.medium,
-                    paddingVertical: spacing.small,
-                    borderRadius: 8,
-                    backgroundColor: selectedEquipment.has(equipment)
-                      ? colors.primaryContainer
-                      : colors.surfaceVariant,
-                    marginRight: spacing.small,
-                  }}
-                  accessibilityRole="button">
-                  <Text
-                    style={[
-                      typography.labelMedium,
-                      {
-                        color: selectedEquipment.has(equipment)
-                          ? colors.onPrimaryContainer
-                          : colors.onSurfaceVariant,
-                      },
-                    ]}>
-                    {equipment}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
-          </View>
+          {renderFilterChips(
+            'Muscle Groups',
+            LIBRARY_MUSCLE_GROUPS,
+            selectedMuscleGroups,
+            toggleMuscleGroupFilter
+          )}
+          {renderFilterChips(
+            'Equipment',
+            LIBRARY_EQUIPMENT,
+            selectedEquipment,
+            toggleEquipmentFilter
+          )}
+          {renderFilterChips(
+            'Grip',
+            LIBRARY_GRIPS,
+            selectedGrips,
+            toggleGripFilter
+          )}
+          {renderFilterChips(
+            'Movement',
+            LIBRARY_MOVEMENTS,
+            selectedMovements,
+            toggleMovementFilter
+          )}
 
           {/* Exercise list */}
           <View style={{flex: 1, paddingHorizontal: spacing.medium}}>
@@ -421,14 +478,31 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
                     isFavorite={item.isFavorite}
                     timesPerformed={item.timesPerformed}
                     showPerformanceCount={true}
+                    isCustom={item.isCustom}
                     onPress={() => handleExerciseSelected(item)}
                     onFavoritePress={() => toggleFavorite(item.id)}
+                    onEditPress={
+                      item.isCustom
+                        ? () => handleOpenCustomEditor(item)
+                        : undefined
+                    }
                   />
                 )}
                 contentContainerStyle={{paddingBottom: spacing.large}}
               />
             )}
           </View>
+
+          {/* Custom exercise editor */}
+          <CustomExerciseEditor
+            visible={showCustomEditor}
+            exercise={customExercise}
+            error={customError}
+            isSaving={isSavingCustom}
+            onSave={handleSaveCustomExercise}
+            onArchive={handleArchiveCustomExercise}
+            onDismiss={() => setShowCustomEditor(false)}
+          />
         </View>
       </Modal>
     );
@@ -445,6 +519,12 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
         variant="bottom"
         title="Configure Exercise"
         showCloseButton={true}>
+        <TrainerPicker
+          trainers={trainers}
+          selectedTrainerId={selectedTrainerId}
+          onSelect={selectTrainer}
+          style={{marginBottom: spacing.medium}}
+        />
         <ExerciseConfigForm
           exercise={exerciseToConfig}
           onSave={handleStartWorkout}
@@ -520,6 +600,11 @@ export const SingleExerciseScreen: React.FC<SingleExerciseScreenProps> = ({
   );
 };
 
+/**
+ * Velocity-loss thresholds offered in the configuration form (null = off)
+ */
+const VELOCITY_LOSS_OPTIONS: Array<number | null> = [null, 10, 20, 30, 40];
+
 /**
  * Exercise configuration form component
  * Handles all workout parameter configuration
@@ -727,6 +812,56 @@ const ExerciseConfigForm: React.FC<ExerciseConfigFormProps> = ({
         </View>
       )}
 
+      {/* Velocity-loss stop */}
+      <View style={{marginBottom: spacing.large}}>
+        <Text
+          style={[
+            typography.labelLarge,
+            {color: colors.onSurface, marginBottom: spacing.small},
+          ]}>
+          Stop on Velocity Loss
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {VELOCITY_LOSS_OPTIONS.map(percent => {
+            const isSelected = (exercise.velocityLossPercent ?? null) === percent;
+            return (
+              <TouchableOpacity
+                key={percent ?? 'off'}
+                onPress={() => updateExercise({velocityLossPercent: percent})}
+                style={{
+                  paddingHorizontal: spacing.medium,
+                  paddingVertical: spacing.small,
+                  borderRadius: 8,
+                  backgroundColor: isSelected
+                    ? colors.primaryContainer
+                    : colors.surfaceVariant,
+                  marginRight: spacing.small,
+                }}
+                accessibilityRole="button">
+                <Text
+                  style={[
+                    typography.labelMedium,
+                    {
+                      color: isSelected
+                        ? colors.onPrimaryContainer
+                        : colors.onSurfaceVariant,
+                    },
+                  ]}>
+                  {percent === null ? 'Off' : `${percent}%`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        <Text
+          style={[
+            typography.bodySmall,
+            {color: colors.onSurfaceVariant, marginTop: spacing.small},
+          ]}>
+          Ends the set once a rep is this much slower than the best rep
+        </Text>
+      </View>
+
       {/* Rest time */}
       <View style={{marginBottom: spacing.large}}>
         <Text
@@ -8,7 +8,8 @@
  * - Activate/deactivate programs
  * - Create new program button
  * - Navigate to ProgramBuilder screen
- * - Today's workout from active program
+ * - Share programs and import programs shared by others
+ * - Today's workout from active program, adjusted for the current mesocycle week
  */
 
 import React, { useCallback, useState } from 'react';
@@ -30,13 +31,24 @@ import { useWeeklyPrograms } from '../hooks/useWeeklyPrograms';
 import { useRoutines } from '../hooks/useRoutines';
 import { useBleConnection } from '../hooks/useBleConnection';
 import { useWorkoutSession } from '../hooks/useWorkoutSession';
+import { useRoutineSharing } from '../hooks/useRoutineSharing';
+import { useTrainers } from '../hooks/useTrainers';
 import { Card } from '../components/Card';
 import { Button, OutlinedButton, TextButton } from '../components/Button';
 import { EmptyState } from '../components/EmptyState';
 import { ConnectingOverlay } from '../components/ConnectingOverlay';
 import { ConnectionErrorDialog } from '../components/ConnectionErrorDialog';
 import { Modal } from '../components/Modal';
+import { TrainerPicker } from '../components/TrainerPicker';
 import { WeeklyProgramWithDays } from '../../data/local/entities';
+import { PRIMARY_TRAINER_ID } from '../../data/repository/BleRepository';
+import { ConnectionStatus } from '../../data/ble/types';
+import {
+  applyWeekModifiers,
+  describeWeekModifiers,
+  getWeekModifiers,
+} from '../../domain/usecases/ProgramSchedule';
+import { buildRoutineSetParameters } from '../../domain/usecases/RoutineSetPlanner';
 
 type WeeklyProgramsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -79,10 +91,10 @@ export const WeeklyProgramsScreen: React.FC = () => {
   const isDark = useIsDark();
 
   // Weekly programs state
-  const { programs, activeProgram, activateProgram, deleteProgram } = useWeeklyPrograms();
+  const { programs, activeProgram, activateProgram, deleteProgram, setCurrentWeek } = useWeeklyPrograms();
 
   // Routines hook for loading routine by ID
-  const { getRoutine, loadRoutine } = useRoutines();
+  const { routines, getRoutine, loadRoutine } = useRoutines();
 
   // BLE connection state
   const {
@@ -94,7 +106,14 @@ export const WeeklyProgramsScreen: React.FC = () => {
   } = useBleConnection();
 
   // Workout session
-  const { startWorkout } = useWorkoutSession();
+  const { workoutParameters, startWorkout, updateWorkoutParameters } = useWorkoutSession();
+
+  // Program sharing
+  const { shareProgram } = useRoutineSharing();
+
+  // The workout runs on the selected trainer
+  const { trainers, selectedTrainerId, selectTrainer, autoConnectTrainer } = useTrainers();
+  const [trainerConnectionError, setTrainerConnectionError] = useState<string | null>(null);
 
   /**
    * Background gradient colors based on theme
@@ -132,19 +151,46 @@ export const WeeklyProgramsScreen: React.FC = () => {
   const handleStartTodayWorkout = useCallback(
     async (routineId: string) => {
       // Ensure BLE connection
-      const ensureConnection = async () => {
+      const ensureConnection = async (): Promise<boolean> => {
+        if (selectedTrainerId !== PRIMARY_TRAINER_ID) {
+          const trainer = trainers.find(t => t.trainerId === selectedTrainerId);
+          if (trainer?.connectionState.status === ConnectionStatus.Ready) {
+            return true;
+          }
+          const connected = await autoConnectTrainer(selectedTrainerId, 30000);
+          if (!connected) {
+            setTrainerConnectionError(`Failed to connect to ${trainer?.name ?? 'trainer'}`);
+          }
+          return connected;
+        }
         if (connectionState.type !== 'connected') {
           await autoConnect(30000); // 30 second timeout
         }
+        return true;
       };
 
       try {
-        await ensureConnection();
+        if (!(await ensureConnection())) {
+          return;
+        }
 
-        // Load routine and start workout
+        // Load routine as prescribed for the current week and start workout
         const routine = await getRoutine(routineId);
         if (routine) {
-          loadRoutine(routine);
+          const week = activeProgram
+            ? getWeekModifiers(activeProgram.weeks, activeProgram.program.currentWeek)
+            : null;
+          const programRoutine = week ? applyWeekModifiers(routine, week) : routine;
+          loadRoutine(programRoutine);
+
+          // Sets of the routine are recorded as part of it
+          const firstExercise = programRoutine.exercises?.[0];
+          if (firstExercise) {
+            updateWorkoutParameters({
+              ...buildRoutineSetParameters(workoutParameters, firstExercise, 0),
+              routineId: programRoutine.id,
+            });
+          }
           startWorkout();
           navigation.navigate(SCREEN_NAMES.ACTIVE_WORKOUT);
         }
@@ -152,7 +198,35 @@ export const WeeklyProgramsScreen: React.FC = () => {
         console.error('Failed to start workout:', err);
       }
     },
-    [connectionState, autoConnect, getRoutine, loadRoutine, startWorkout, navigation]
+    [
+      connectionState,
+      autoConnect,
+      selectedTrainerId,
+      trainers,
+      autoConnectTrainer,
+      getRoutine,
+      loadRoutine,
+      activeProgram,
+      workoutParameters,
+      updateWorkoutParameters,
+      startWorkout,
+      navigation,
+    ]
+  );
+
+  /**
+   * Move the active program to another mesocycle week
+   */
+  const handleChangeWeek = useCallback(
+    async (weekNumber: number) => {
+      if (!activeProgram) return;
+      try {
+        await setCurrentWeek(activeProgram.program.id, weekNumber);
+      } catch (err) {
+        console.error('Failed to change program week:', err);
+      }
+    },
+    [activeProgram, setCurrentWeek]
   );
 
   /**
@@ -169,6 +243,27 @@ export const WeeklyProgramsScreen: React.FC = () => {
     [activateProgram]
   );
 
+  /**
+   * Share a program with its routines through the share sheet
+   */
+  const handleShareProgram = useCallback(
+    async (programId: string) => {
+      try {
+        await shareProgram(programId);
+      } catch (err) {
+        console.error('Failed to share program:', err);
+      }
+    },
+    [shareProgram]
+  );
+
+  /**
+   * Open the import screen for shared programs
+   */
+  const handleImport = useCallback(() => {
+    navigation.navigate(SCREEN_NAMES.SHARE_IMPORT, {});
+  }, [navigation]);
+
   /**
    * Delete a program
    */
@@ -208,18 +303,37 @@ export const WeeklyProgramsScreen: React.FC = () => {
         <Text style={[typography.headlineSmall, { color: colors.onSurface, fontWeight: 'bold' }]}>
           Weekly Programs
         </Text>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity
+          onPress={handleImport}
+          style={styles.headerAction}
+          accessibilityRole="button"
+          accessibilityLabel="Import program">
+          <Icon name="file-download" size={24} color={colors.onSurface} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={[styles.content, { padding: spacing.medium }]}
         showsVerticalScrollIndicator={false}>
+        <TrainerPicker
+          trainers={trainers}
+          selectedTrainerId={selectedTrainerId}
+          onSelect={selectTrainer}
+          style={{ marginBottom: spacing.medium }}
+        />
+
         {/* Active Program Card */}
         {activeProgram ? (
           <ActiveProgramCard
             program={activeProgram}
+            todayRoutineName={
+              routines.find(
+                r => r.id === activeProgram.days.find(d => d.dayOfWeek === getCurrentDayOfWeek())?.routineId
+              )?.name
+            }
             onStartTodayWorkout={handleStartTodayWorkout}
+            onChangeWeek={handleChangeWeek}
             onViewProgram={() => handleEditProgram(activeProgram.program.id)}
             style={{ marginBottom: spacing.medium }}
           />
@@ -281,6 +395,7 @@ export const WeeklyProgramsScreen: React.FC = () => {
               isActive={program.program.id === activeProgram?.program.id}
               onClick={() => handleEditProgram(program.program.id)}
               onActivate={() => handleActivateProgram(program.program.id)}
+              onShare={() => handleShareProgram(program.program.id)}
               onDelete={() => handleDeleteProgram(program.program.id)}
               style={{ marginBottom: spacing.medium }}
             />
@@ -301,10 +416,20 @@ export const WeeklyProgramsScreen: React.FC = () => {
 
       {/* Connection error dialog */}
       <ConnectionErrorDialog
-        visible={!!connectionError}
-        message={connectionError || ''}
-        onDismiss={clearConnectionError}
-        onRetry={() => autoConnect(30000)}
+        visible={!!(connectionError || trainerConnectionError)}
+        message={connectionError || trainerConnectionError || ''}
+        onDismiss={() => {
+          clearConnectionError();
+          setTrainerConnectionError(null);
+        }}
+        onRetry={() => {
+          if (selectedTrainerId === PRIMARY_TRAINER_ID) {
+            autoConnect(30000);
+          } else {
+            setTrainerConnectionError(null);
+            autoConnectTrainer(selectedTrainerId, 30000);
+          }
+        }}
         testID="weekly-programs-connection-error"
       />
     </View>
@@ -316,14 +441,18 @@ export const WeeklyProgramsScreen: React.FC = () => {
  */
 interface ActiveProgramCardProps {
   program: WeeklyProgramWithDays;
+  todayRoutineName?: string;
   onStartTodayWorkout: (routineId: string) => void;
+  onChangeWeek: (weekNumber: number) => void;
   onViewProgram: () => void;
   style?: any;
 }
 
 const ActiveProgramCard: React.FC<ActiveProgramCardProps> = ({
   program,
+  todayRoutineName,
   onStartTodayWorkout,
+  onChangeWeek,
   onViewProgram,
   style,
 }) => {
@@ -338,6 +467,10 @@ const ActiveProgramCard: React.FC<ActiveProgramCardProps> = ({
   const todayRoutineId = program.days.find(d => d.dayOfWeek === today)?.routineId;
   const hasWorkoutToday = todayRoutineId != null;
 
+  // Current mesocycle week
+  const { weekCount, currentWeek } = program.program;
+  const week = getWeekModifiers(program.weeks, currentWeek);
+
   return (
     <Card style={style} elevation={4} borderRadius={16}>
       <View style={{ padding: spacing.medium }}>
@@ -371,6 +504,38 @@ const ActiveProgramCard: React.FC<ActiveProgramCardProps> = ({
           </TouchableOpacity>
         </View>
 
+        {/* Mesocycle Week */}
+        {weekCount > 1 && (
+          <View style={[styles.weekRow, { marginTop: spacing.small }]}>
+            <TouchableOpacity
+              onPress={() => onChangeWeek(currentWeek > 1 ? currentWeek - 1 : weekCount)}
+              style={styles.weekButton}
+              accessibilityRole="button"
+              accessibilityLabel="Previous week">
+              <Icon name="chevron-left" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <View style={styles.weekInfo}>
+              <Text style={[typography.titleSmall, { color: colors.onSurface, fontWeight: '600' }]}>
+                Week {currentWeek} of {weekCount}
+              </Text>
+              <Text
+                style={[
+                  typography.bodySmall,
+                  { color: week.isDeload ? colors.primary : colors.onSurfaceVariant },
+                ]}>
+                {describeWeekModifiers(week)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => onChangeWeek(currentWeek < weekCount ? currentWeek + 1 : 1)}
+              style={styles.weekButton}
+              accessibilityRole="button"
+              accessibilityLabel="Next week">
+              <Icon name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Divider */}
         <View
           style={{
@@ -396,7 +561,8 @@ const ActiveProgramCard: React.FC<ActiveProgramCardProps> = ({
         {hasWorkoutToday ? (
           <>
             <Text style={[typography.bodyLarge, { color: colors.onSurface, marginBottom: spacing.medium }]}>
-              Workout scheduled
+              {todayRoutineName ?? 'Workout scheduled'}
+              {week.isDeload ? ' (deload)' : ''}
             </Text>
             <Button onPress={() => onStartTodayWorkout(todayRoutineId!)} fullWidth>
               <View style={styles.startWorkoutButton}>
@@ -427,6 +593,7 @@ interface ProgramListItemProps {
   isActive: boolean;
   onClick: () => void;
   onActivate: () => void;
+  onShare: () => void;
   onDelete: () => void;
   style?: any;
 }
@@ -436,6 +603,7 @@ const ProgramListItem: React.FC<ProgramListItemProps> = ({
   isActive,
   onClick,
   onActivate,
+  onShare,
   onDelete,
   style,
 }) => {
@@ -465,11 +633,21 @@ const ProgramListItem: React.FC<ProgramListItemProps> = ({
             </Text>
             <Text style={[typography.bodySmall, { color: colors.onSurfaceVariant, marginTop: spacing.extraSmall }]}>
               {program.days.length} workout days
+              {program.program.weekCount > 1 ? ` • ${program.program.weekCount}-week cycle` : ''}
             </Text>
           </View>
 
           {/* Actions */}
           <View style={styles.programActions}>
+            {/* Share button */}
+            <TouchableOpacity
+              onPress={onShare}
+              style={{ padding: spacing.small }}
+              accessibilityRole="button"
+              accessibilityLabel="Share program">
+              <Icon name="share" size={24} color={colors.onSurfaceVariant} />
+            </TouchableOpacity>
+
             {/* Delete button */}
             <TouchableOpacity
               onPress={() => setShowDeleteDialog(true)}
@@ -550,8 +728,9 @@ const styles = StyleSheet.create({
     padding: 8,
     marginRight: 8,
   },
-  headerSpacer: {
-    width: 40, // Same width as back button for centering
+  headerAction: {
+    padding: 8,
+    marginLeft: 'auto',
   },
   scrollView: {
     flex: 1,
@@ -573,6 +752,17 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     justifyContent: 'space-between',
   },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  weekButton: {
+    padding: 4,
+  },
+  weekInfo: {
+    flex: 1,
+    alignItems: 'center',
+  },
   startWorkoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,54 @@
+/**
+ * File Sharing - Hands files to the share sheet and reads files the user picks
+ * Large exports and backups travel as files, as Android rejects share intents over about 1 MB of text
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+export interface ShareFileOptions {
+  mimeType: string;
+  uti?: string; // iOS type identifier of the file
+  encoding?: 'utf8' | 'base64'; // How the content is given (base64 for binary files)
+  dialogTitle?: string;
+}
+
+/**
+ * Write content to a file in the cache directory and open the share sheet with it.
+ * The file stays in the cache, as the receiving app may still be reading it after the sheet closes.
+ */
+export async function shareFile(fileName: string, content: string, options: ShareFileOptions): Promise<void> {
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content, {
+    encoding: options.encoding === 'base64' ? FileSystem.EncodingType.Base64 : FileSystem.EncodingType.UTF8,
+  });
+
+  await Sharing.shareAsync(uri, {
+    mimeType: options.mimeType,
+    UTI: options.uti,
+    dialogTitle: options.dialogTitle ?? fileName,
+  });
+}
+
+/**
+ * Let the user pick a file and read it as text (null when the user cancels)
+ */
+export async function pickTextFile(mimeTypes: string[]): Promise<{ name: string; text: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const [asset] = result.assets;
+  try {
+    const text = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+    return { name: asset.name, text };
+  } finally {
+    await FileSystem.deleteAsync(asset.uri, { idempotent: true });
+  }
+}